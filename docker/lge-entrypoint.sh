@@ -11,12 +11,16 @@ LGE_PORT="${LGE_PORT:-8080}"
 LGE_LOG_LEVEL="${LGE_LOG_LEVEL:-info}"
 LGE_LEDGER_PATH="${LGE_LEDGER_PATH:-/var/log/lge}"
 LGE_DATA_PATH="${LGE_DATA_PATH:-/var/lib/lge}"
+LGE_ARTIFACT_PATH="${LGE_ARTIFACT_PATH:-$LGE_DATA_PATH/artifact.json}"
+LGE_SUBJECT_ROOT="${LGE_SUBJECT_ROOT:-$LGE_DATA_PATH/subject}"
 
 # Export environment
 export LGE_PORT
 export LGE_LOG_LEVEL
 export LGE_LEDGER_PATH
 export LGE_DATA_PATH
+export LGE_ARTIFACT_PATH
+export LGE_SUBJECT_ROOT
 
 echo "=========================================="
 echo "Local Governance Engine (LGE) Starting"
@@ -25,6 +29,8 @@ echo "Port: $LGE_PORT"
 echo "Log Level: $LGE_LOG_LEVEL"
 echo "Ledger Path: $LGE_LEDGER_PATH"
 echo "Data Path: $LGE_DATA_PATH"
+echo "Artifact: $LGE_ARTIFACT_PATH"
+echo "Subject Root: $LGE_SUBJECT_ROOT"
 echo "=========================================="
 
 # Ensure directories exist
@@ -7,7 +7,7 @@
 set -e
 
 usage() {
-  echo "Usage: verify <bundle.agb>"
+  echo "Usage: verify [--json] [--strict] [--trusted-key <key>] [--at <time>] <bundle.agb>"
   echo ""
   echo "Verifies an Attested Governance Bundle (.agb) file offline."
   echo ""
@@ -32,27 +32,37 @@ if [ -z "$1" ]; then
   exit 3
 fi
 
-BUNDLE_PATH="$1"
+# The bundle is the last argument; --json output must stay machine-readable
+JSON_OUTPUT=0
+for arg in "$@"; do
+  BUNDLE_PATH="$arg"
+  if [ "$arg" = "--json" ]; then
+    JSON_OUTPUT=1
+  fi
+done
 
 if [ ! -f "$BUNDLE_PATH" ]; then
   echo "Error: Bundle file not found: $BUNDLE_PATH"
   exit 3
 fi
 
-echo "═══════════════════════════════════════════════════════════════"
-echo "                    BUNDLE VERIFICATION                        "
-echo "═══════════════════════════════════════════════════════════════"
-echo ""
-echo "Bundle: $BUNDLE_PATH"
-echo "Verifier: ag-verify v1.0.0"
-echo ""
-
-# Run Node.js verifier
-node /app/packages/core/dist/verifier/cli.js "$BUNDLE_PATH"
+if [ "$JSON_OUTPUT" = "0" ]; then
+  echo "═══════════════════════════════════════════════════════════════"
+  echo "                    BUNDLE VERIFICATION                        "
+  echo "═══════════════════════════════════════════════════════════════"
+  echo ""
+  echo "Bundle: $BUNDLE_PATH"
+  echo "Verifier: ag-verify v1.0.0"
+  echo ""
+fi
 
-EXIT_CODE=$?
+# Run Node.js verifier (capture its exit code without tripping set -e)
+EXIT_CODE=0
+node /app/packages/core/dist/verifier/cli.js "$@" || EXIT_CODE=$?
 
-echo ""
-echo "═══════════════════════════════════════════════════════════════"
+if [ "$JSON_OUTPUT" = "0" ]; then
+  echo ""
+  echo "═══════════════════════════════════════════════════════════════"
+fi
 
 exit $EXIT_CODE
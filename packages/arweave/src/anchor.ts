@@ -2,37 +2,37 @@
  * Checkpoint Anchoring Module
  * Per AGA Build Guide Phase 3.3
  *
- * Handles Merkle tree construction and Arweave checkpoint anchoring.
+ * Handles Merkle tree construction and checkpoint anchoring through the
+ * deployment's anchor provider. Each checkpoint also commits to the cumulative receipt log, with a
+ * consistency proof against the previous checkpoint (RFC 6962 Section 2.1.2).
  */
 
+import {
+  buildMerkleTree,
+  generateInclusionProof,
+  verifyInclusionProof,
+  generateConsistencyProof,
+  verifyConsistencyProof,
+  type MerkleInclusionProof,
+  type MerkleConsistencyProof,
+} from '../../core/src/crypto/merkle';
+import { buildCheckpointPayload, type AnchorProvider, type AnchorSubmission } from './provider';
+import type { LogInclusionReceipt } from './transparency-log';
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface MerkleNode {
-  hash: string;
-  left?: MerkleNode;
-  right?: MerkleNode;
-  isLeaf: boolean;
-  leafIndex?: number;
-}
-
-export interface MerkleProof {
-  leafHash: string;
-  leafIndex: number;
-  siblings: Array<{
-    hash: string;
-    position: 'left' | 'right';
-  }>;
-  root: string;
-}
+export type MerkleProof = MerkleInclusionProof;
+export type ConsistencyProof = MerkleConsistencyProof;
 
 export interface MerkleTree {
   root: string;
   leaves: string[];
+  leafHashes: string[];
+  layers: string[][];
   nodeCount: number;
   height: number;
-  proofs: Map<string, MerkleProof>;
 }
 
 export interface CheckpointData {
@@ -40,9 +40,14 @@ export interface CheckpointData {
   merkleRoot: string;
   receiptHashes: string[];
   artifactIds: string[];
+  treeSize: number;             // Receipts in the cumulative log so far
+  logRoot: string;              // Root over the cumulative log
+  consistencyProof: ConsistencyProof | null;  // Against the previous checkpoint
   createdAt: string;
   anchoredAt?: string;
   txId?: string;
+  anchorNetworkId?: string;     // Provider network the checkpoint was anchored to
+  inclusionReceipt?: LogInclusionReceipt;
 }
 
 export interface AnchorConfig {
@@ -59,27 +64,13 @@ const DEFAULT_ANCHOR_CONFIG: AnchorConfig = {
   maxReceiptsPerCheckpoint: 100,
 };
 
-// ============================================================================
-// HASH UTILITY (using Web Crypto API)
-// ============================================================================
-
-async function sha256(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-}
-
-async function hashPair(left: string, right: string): Promise<string> {
-  // Ensure consistent ordering for deterministic hashing
-  return sha256(left + right);
-}
-
 // ============================================================================
 // MERKLE TREE BUILDER
 // ============================================================================
 
+/**
+ * Checkpoint tree builder over the shared RFC 6962 Merkle module
+ */
 export class MerkleTreeBuilder {
   /**
    * Build a Merkle tree from an array of leaf hashes
@@ -89,171 +80,54 @@ export class MerkleTreeBuilder {
       throw new Error('Cannot build Merkle tree with no leaves');
     }
 
-    const leaves = [...leafHashes];
-    const proofs = new Map<string, MerkleProof>();
-
-    // Pad to power of 2 if necessary (using empty hash for padding)
-    const paddedLeaves = this.padToPowerOfTwo(leaves);
-
-    // Build the tree bottom-up
-    const root = await this.buildTree(paddedLeaves, leaves.length, proofs);
-
-    // Calculate tree height
-    const height = Math.ceil(Math.log2(paddedLeaves.length));
+    const tree = buildMerkleTree(leafHashes);
 
     return {
-      root: root.hash,
-      leaves,
-      nodeCount: this.calculateNodeCount(paddedLeaves.length),
-      height,
-      proofs,
+      root: tree.root,
+      leaves: [...leafHashes],
+      leafHashes: tree.leafHashes,
+      layers: tree.layers,
+      nodeCount: tree.layers.reduce((n, layer) => n + layer.length, 0),
+      height: tree.layers.length - 1,
     };
   }
 
   /**
-   * Pad leaves array to the nearest power of 2
-   */
-  private padToPowerOfTwo(leaves: string[]): string[] {
-    const nextPowerOfTwo = Math.pow(2, Math.ceil(Math.log2(leaves.length)));
-    const padding = new Array(nextPowerOfTwo - leaves.length).fill('');
-    return [...leaves, ...padding];
-  }
-
-  /**
-   * Calculate total node count in a complete binary tree
+   * Generate a proof for a specific leaf
    */
-  private calculateNodeCount(leafCount: number): number {
-    // For a complete binary tree: 2n - 1 nodes
-    return 2 * leafCount - 1;
+  async generateProof(tree: MerkleTree, leafIndex: number): Promise<MerkleProof> {
+    return generateInclusionProof(
+      { root: tree.root, size: tree.leaves.length, leafHashes: tree.leafHashes, layers: tree.layers },
+      leafIndex
+    );
   }
 
   /**
-   * Recursively build the tree and collect proofs
+   * Verify a Merkle proof
    */
-  private async buildTree(
-    level: string[],
-    originalLeafCount: number,
-    proofs: Map<string, MerkleProof>,
-    depth: number = 0,
-    proofPaths: Map<number, Array<{ hash: string; position: 'left' | 'right' }>> = new Map()
-  ): Promise<MerkleNode> {
-    // Initialize proof paths for leaves
-    if (depth === 0) {
-      for (let i = 0; i < originalLeafCount; i++) {
-        proofPaths.set(i, []);
-      }
-    }
-
-    // Base case: single node is the root
-    if (level.length === 1) {
-      // Finalize proofs
-      for (let i = 0; i < originalLeafCount; i++) {
-        const leafHash = proofPaths.get(i);
-        if (leafHash) {
-          proofs.set(level[0], {
-            leafHash: '', // Will be set properly
-            leafIndex: i,
-            siblings: [...proofPaths.get(i)!],
-            root: level[0],
-          });
-        }
-      }
-
-      return {
-        hash: level[0],
-        isLeaf: false,
-      };
-    }
-
-    // Build next level
-    const nextLevel: string[] = [];
-
-    for (let i = 0; i < level.length; i += 2) {
-      const left = level[i];
-      const right = level[i + 1] || left; // Duplicate last if odd
-
-      const parentHash = await hashPair(left, right);
-      nextLevel.push(parentHash);
-
-      // Update proof paths for leaves under this subtree
-      const leftLeafStart = i * Math.pow(2, depth);
-      const rightLeafStart = (i + 1) * Math.pow(2, depth);
-      const subtreeSize = Math.pow(2, depth);
-
-      // Add sibling to proof paths for left subtree leaves
-      for (let j = leftLeafStart; j < leftLeafStart + subtreeSize && j < originalLeafCount; j++) {
-        proofPaths.get(j)?.push({ hash: right, position: 'right' });
-      }
-
-      // Add sibling to proof paths for right subtree leaves
-      for (let j = rightLeafStart; j < rightLeafStart + subtreeSize && j < originalLeafCount; j++) {
-        proofPaths.get(j)?.push({ hash: left, position: 'left' });
-      }
-    }
-
-    return this.buildTree(nextLevel, originalLeafCount, proofs, depth + 1, proofPaths);
+  async verifyProof(proof: MerkleProof): Promise<boolean> {
+    return verifyInclusionProof(proof);
   }
 
   /**
-   * Generate a proof for a specific leaf
+   * Generate a proof that the first `firstSize` leaves are a prefix of the tree
    */
-  async generateProof(tree: MerkleTree, leafIndex: number): Promise<MerkleProof> {
-    if (leafIndex < 0 || leafIndex >= tree.leaves.length) {
-      throw new Error(`Leaf index ${leafIndex} out of range`);
-    }
-
-    const leafHash = tree.leaves[leafIndex];
-
-    // Find the proof in the map (keyed by root since we built it that way)
-    // We need to rebuild for specific leaf
-    const siblings: Array<{ hash: string; position: 'left' | 'right' }> = [];
-    const paddedLeaves = this.padToPowerOfTwo([...tree.leaves]);
-
-    let currentLevel = paddedLeaves;
-    let currentIndex = leafIndex;
-
-    while (currentLevel.length > 1) {
-      const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
-      const sibling = currentLevel[siblingIndex] || currentLevel[currentIndex];
-      const position = currentIndex % 2 === 0 ? 'right' : 'left';
-
-      siblings.push({ hash: sibling, position });
-
-      // Build next level
-      const nextLevel: string[] = [];
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = currentLevel[i + 1] || left;
-        nextLevel.push(await hashPair(left, right));
-      }
-
-      currentLevel = nextLevel;
-      currentIndex = Math.floor(currentIndex / 2);
-    }
-
-    return {
-      leafHash,
-      leafIndex,
-      siblings,
-      root: tree.root,
-    };
+  async generateConsistencyProof(tree: MerkleTree, firstSize: number): Promise<ConsistencyProof> {
+    return generateConsistencyProof(
+      { root: tree.root, size: tree.leaves.length, leafHashes: tree.leafHashes, layers: tree.layers },
+      firstSize
+    );
   }
 
   /**
-   * Verify a Merkle proof
+   * Verify a consistency proof, optionally against known roots
    */
-  async verifyProof(proof: MerkleProof): Promise<boolean> {
-    let currentHash = proof.leafHash;
-
-    for (const sibling of proof.siblings) {
-      if (sibling.position === 'right') {
-        currentHash = await hashPair(currentHash, sibling.hash);
-      } else {
-        currentHash = await hashPair(sibling.hash, currentHash);
-      }
-    }
-
-    return currentHash === proof.root;
+  async verifyConsistencyProof(
+    proof: ConsistencyProof,
+    firstRoot?: string,
+    secondRoot?: string
+  ): Promise<boolean> {
+    return verifyConsistencyProof(proof, firstRoot, secondRoot);
   }
 }
 
@@ -264,12 +138,19 @@ export class MerkleTreeBuilder {
 export class CheckpointScheduler {
   private config: AnchorConfig;
   private pendingReceipts: Map<string, { hash: string; artifactId: string }> = new Map();
+  private logHashes: string[] = [];
   private checkpoints: CheckpointData[] = [];
   private scheduledTimeout: ReturnType<typeof setTimeout> | null = null;
   private onCheckpointReady?: (checkpoint: CheckpointData) => Promise<void>;
+  private provider?: AnchorProvider;
 
-  constructor(config: Partial<AnchorConfig> = {}) {
+  /**
+   * With a provider, each checkpoint is anchored before the callback runs;
+   * without one, the callback is expected to anchor it
+   */
+  constructor(config: Partial<AnchorConfig> = {}, provider?: AnchorProvider) {
     this.config = { ...DEFAULT_ANCHOR_CONFIG, ...config };
+    this.provider = provider;
   }
 
   /**
@@ -324,12 +205,22 @@ export class CheckpointScheduler {
     const treeBuilder = new MerkleTreeBuilder();
     const tree = await treeBuilder.build(receiptHashes);
 
+    // Extend the cumulative log and prove it only appended since the last checkpoint
+    this.logHashes.push(...receiptHashes);
+    const logTree = await treeBuilder.build(this.logHashes);
+    const previous = this.checkpoints[this.checkpoints.length - 1];
+
     // Create checkpoint
     const checkpoint: CheckpointData = {
       id: `ckpt_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
       merkleRoot: tree.root,
       receiptHashes,
       artifactIds: Array.from(artifactIds),
+      treeSize: this.logHashes.length,
+      logRoot: logTree.root,
+      consistencyProof: previous
+        ? await treeBuilder.generateConsistencyProof(logTree, previous.treeSize)
+        : null,
       createdAt: new Date().toISOString(),
     };
 
@@ -339,6 +230,18 @@ export class CheckpointScheduler {
     // Clear pending receipts
     this.pendingReceipts.clear();
 
+    // Anchor it; a failed anchor leaves the checkpoint for the callback to retry
+    if (this.provider) {
+      try {
+        const submission = await this.provider.submit(
+          buildCheckpointPayload(checkpoint.id, checkpoint.merkleRoot, receiptHashes.length, checkpoint.artifactIds)
+        );
+        this.updateCheckpointAnchor(checkpoint.id, this.provider.networkId, submission);
+      } catch (error) {
+        console.error(`Error anchoring checkpoint ${checkpoint.id}:`, error);
+      }
+    }
+
     // Notify callback
     if (this.onCheckpointReady) {
       await this.onCheckpointReady(checkpoint);
@@ -364,10 +267,12 @@ export class CheckpointScheduler {
   /**
    * Update checkpoint with anchor transaction
    */
-  updateCheckpointAnchor(checkpointId: string, txId: string): void {
+  updateCheckpointAnchor(checkpointId: string, networkId: string, submission: AnchorSubmission): void {
     const checkpoint = this.checkpoints.find((c) => c.id === checkpointId);
     if (checkpoint) {
-      checkpoint.txId = txId;
+      checkpoint.txId = submission.txId;
+      checkpoint.anchorNetworkId = networkId;
+      checkpoint.inclusionReceipt = submission.inclusionReceipt;
       checkpoint.anchoredAt = new Date().toISOString();
     }
   }
@@ -425,11 +330,22 @@ export class InclusionProofGenerator {
    * Verify an inclusion proof against a checkpoint
    */
   async verifyProof(proof: MerkleProof, expectedRoot: string): Promise<boolean> {
-    if (proof.root !== expectedRoot) {
+    return verifyInclusionProof(proof, expectedRoot);
+  }
+
+  /**
+   * Verify that a checkpoint's log extends the previous checkpoint's log
+   */
+  async verifyCheckpointConsistency(
+    previous: CheckpointData,
+    current: CheckpointData
+  ): Promise<boolean> {
+    const proof = current.consistencyProof;
+    if (!proof || proof.first_size !== previous.treeSize || proof.second_size !== current.treeSize) {
       return false;
     }
 
-    return this.treeBuilder.verifyProof(proof);
+    return this.treeBuilder.verifyConsistencyProof(proof, previous.logRoot, current.logRoot);
   }
 }
 
@@ -2,9 +2,21 @@
  * Arweave Client Module
  * Per AGA Build Guide Phase 3.1
  *
- * Handles Arweave wallet connection and transaction preparation.
+ * Handles Arweave wallet connection and transaction preparation, and
+ * exposes the client as an anchor provider.
  */
 
+import type { SignedArweaveTransaction } from '../../core/src/anchor/arweave';
+import {
+  buildCheckpointPayload,
+  buildSealPayload,
+  type AnchorPayload,
+  type AnchorProvider,
+  type AnchorStatus,
+  type AnchorSubmission,
+  type TransactionTags,
+} from './provider';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -21,10 +33,6 @@ export interface ArweaveWallet {
   connected: boolean;
 }
 
-export interface TransactionTags {
-  [key: string]: string;
-}
-
 export interface PreparedTransaction {
   id: string;
   owner: string;
@@ -37,6 +45,9 @@ export interface PreparedTransaction {
   signature?: string;
 }
 
+/** Arweave transaction format 2, as posted to a gateway's /tx endpoint */
+export type SignedTransaction = SignedArweaveTransaction;
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -47,12 +58,8 @@ const DEFAULT_CONFIG: ArweaveConfig = {
   protocol: 'https',
 };
 
-// Standard AGA tags for all transactions
-const AGA_BASE_TAGS = {
-  'App-Name': 'AttestatedGovernance',
-  'App-Version': '1.0.0',
-  'Content-Type': 'application/json',
-};
+// Confirmations before an Arweave transaction is considered final
+export const ARWEAVE_CONFIRMATION_THRESHOLD = 10;
 
 // ============================================================================
 // CLIENT CLASS
@@ -175,6 +182,28 @@ export class ArweaveClient {
     }
   }
 
+  /**
+   * Get the anchor (last_tx) a new transaction must reference
+   */
+  async getTransactionAnchor(): Promise<string> {
+    const response = await fetch(`${this.gatewayUrl}/tx_anchor`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transaction anchor: ${response.status}`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Get the reward in winston for storing `dataSize` bytes
+   */
+  async getPrice(dataSize: number): Promise<string> {
+    const response = await fetch(`${this.gatewayUrl}/price/${dataSize}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch price: ${response.status}`);
+    }
+    return response.text();
+  }
+
   /**
    * Create artifact seal transaction
    */
@@ -188,26 +217,7 @@ export class ArweaveClient {
       vaultId: string;
     }
   ): Promise<PreparedTransaction> {
-    const data = JSON.stringify({
-      type: 'artifact_seal',
-      artifact_id: artifactId,
-      sealed_hash: sealedHash,
-      policy_hash: policyHash,
-      vault_id: metadata.vaultId,
-      name: metadata.name,
-      description: metadata.description,
-      timestamp: new Date().toISOString(),
-    });
-
-    const tags = {
-      ...AGA_BASE_TAGS,
-      'AGA-Type': 'artifact-seal',
-      'AGA-Artifact-Id': artifactId,
-      'AGA-Sealed-Hash': sealedHash,
-      'AGA-Policy-Hash': policyHash,
-      'AGA-Vault-Id': metadata.vaultId,
-    };
-
+    const { data, tags } = buildSealPayload(artifactId, sealedHash, policyHash, metadata);
     return this.prepareTransaction(data, tags);
   }
 
@@ -220,30 +230,14 @@ export class ArweaveClient {
     receiptCount: number,
     artifactIds: string[]
   ): Promise<PreparedTransaction> {
-    const data = JSON.stringify({
-      type: 'checkpoint_anchor',
-      checkpoint_id: checkpointId,
-      merkle_root: merkleRoot,
-      receipt_count: receiptCount,
-      artifact_ids: artifactIds,
-      timestamp: new Date().toISOString(),
-    });
-
-    const tags = {
-      ...AGA_BASE_TAGS,
-      'AGA-Type': 'checkpoint-anchor',
-      'AGA-Checkpoint-Id': checkpointId,
-      'AGA-Merkle-Root': merkleRoot,
-      'AGA-Receipt-Count': receiptCount.toString(),
-    };
-
+    const { data, tags } = buildCheckpointPayload(checkpointId, merkleRoot, receiptCount, artifactIds);
     return this.prepareTransaction(data, tags);
   }
 
   /**
    * Prepare a transaction (common logic)
    */
-  private async prepareTransaction(
+  async prepareTransaction(
     data: string,
     customTags: TransactionTags
   ): Promise<PreparedTransaction> {
@@ -295,33 +289,51 @@ export class ArweaveClient {
   }
 
   /**
-   * Get transaction status
+   * Post a transaction signed on the server
    */
-  async getTransactionStatus(txId: string): Promise<{
-    status: 'pending' | 'confirmed' | 'failed';
-    confirmations: number;
-  }> {
-    try {
-      const response = await fetch(`${this.gatewayUrl}/tx/${txId}/status`);
-
-      if (response.status === 404) {
-        return { status: 'pending', confirmations: 0 };
-      }
+  async postTransaction(tx: SignedTransaction): Promise<string> {
+    const response = await fetch(`${this.gatewayUrl}/tx`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(tx),
+    });
+    if (!response.ok) {
+      throw new Error(`Gateway rejected transaction ${tx.id}: ${response.status} ${await response.text()}`);
+    }
+    return tx.id;
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to get transaction status');
-      }
+  /**
+   * Get transaction status
+   * A 404 means the gateway has not seen the transaction, which is
+   * 'not_found' rather than 'failed': it may not have propagated yet.
+   * Gateway and network errors throw, so callers can tell them apart from
+   * either answer.
+   */
+  async getTransactionStatus(txId: string): Promise<AnchorStatus> {
+    const response = await fetch(`${this.gatewayUrl}/tx/${txId}/status`);
 
-      const data = await response.json();
+    if (response.status === 404) {
+      return { status: 'not_found', confirmations: 0 };
+    }
 
-      return {
-        status: data.number_of_confirmations >= 10 ? 'confirmed' : 'pending',
-        confirmations: data.number_of_confirmations || 0,
-      };
-    } catch (error) {
-      console.error('Error getting transaction status:', error);
+    // 202: seen but not yet mined
+    if (response.status === 202) {
       return { status: 'pending', confirmations: 0 };
     }
+
+    if (!response.ok) {
+      throw new Error(`Failed to get status of transaction ${txId}: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      status: data.number_of_confirmations >= ARWEAVE_CONFIRMATION_THRESHOLD ? 'confirmed' : 'pending',
+      confirmations: data.number_of_confirmations || 0,
+      blockHeight: data.block_height,
+      blockHash: data.block_indep_hash,
+    };
   }
 
   /**
@@ -341,6 +353,29 @@ export class ArweaveClient {
   }
 }
 
+// ============================================================================
+// ANCHOR PROVIDER
+// ============================================================================
+
+/**
+ * Anchors to Arweave through a client whose wallet is already connected
+ */
+export class ArweaveAnchorProvider implements AnchorProvider {
+  readonly networkId = 'arweave';
+  readonly confirmationThreshold = ARWEAVE_CONFIRMATION_THRESHOLD;
+
+  constructor(private client: ArweaveClient) {}
+
+  async submit(payload: AnchorPayload): Promise<AnchorSubmission> {
+    const tx = await this.client.prepareTransaction(payload.data, payload.tags);
+    return { txId: await this.client.submitTransaction(tx) };
+  }
+
+  async getStatus(txId: string): Promise<AnchorStatus> {
+    return this.client.getTransactionStatus(txId);
+  }
+}
+
 // ============================================================================
 // GLOBAL TYPE AUGMENTATION
 // ============================================================================
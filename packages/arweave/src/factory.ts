@@ -0,0 +1,58 @@
+/**
+ * Anchor Provider Selection
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Each deployment names its anchoring backend in ANCHOR_PROVIDER:
+ * - arweave: Arweave transactions, signed with the JWK wallet file at
+ *   ARWEAVE_WALLET_PATH, or through ArConnect in the browser without one
+ * - transparency-log: self-hosted log signing inclusion receipts
+ * - file: local stand-in for development and air-gapped staging
+ *
+ * Server-only: the JWK and file-backed providers import Node's fs.
+ */
+
+import { base64ToPrivateKey } from '../../core/src/crypto/keys';
+import { ArweaveAnchorProvider, ArweaveClient } from './client';
+import { FileAnchorProvider, FileLogStore } from './file-provider';
+import { JwkAnchorProvider, JwkWallet } from './jwk-wallet';
+import type { AnchorProvider } from './provider';
+import { TransparencyLog, TransparencyLogAnchorProvider } from './transparency-log';
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Provider named by ANCHOR_PROVIDER (default: arweave)
+ */
+export function createAnchorProvider(env: NodeJS.ProcessEnv = process.env): AnchorProvider {
+  const provider = env.ANCHOR_PROVIDER ?? 'arweave';
+
+  switch (provider) {
+    case 'arweave': {
+      const gateway = new URL(env.ARWEAVE_GATEWAY ?? 'https://arweave.net');
+      const protocol = gateway.protocol === 'http:' ? 'http' : 'https';
+      const client = new ArweaveClient({
+        host: gateway.hostname,
+        port: gateway.port ? Number(gateway.port) : protocol === 'http' ? 80 : 443,
+        protocol,
+      });
+      return env.ARWEAVE_WALLET_PATH
+        ? new JwkAnchorProvider(new JwkWallet(env.ARWEAVE_WALLET_PATH), client)
+        : new ArweaveAnchorProvider(client);
+    }
+    case 'transparency-log': {
+      if (!env.ANCHOR_LOG_PRIVATE_KEY) {
+        throw new Error('ANCHOR_LOG_PRIVATE_KEY is required for the transparency-log anchor provider');
+      }
+      return new TransparencyLogAnchorProvider(new TransparencyLog({
+        privateKey: base64ToPrivateKey(env.ANCHOR_LOG_PRIVATE_KEY),
+        store: new FileLogStore(env.ANCHOR_LOG_PATH ?? '.anchors/log.txt'),
+      }));
+    }
+    case 'file':
+      return new FileAnchorProvider({ directory: env.ANCHOR_FILE_DIR ?? '.anchors/files' });
+    default:
+      throw new Error(`Unsupported anchor provider: ${provider}`);
+  }
+}
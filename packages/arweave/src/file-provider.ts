@@ -0,0 +1,105 @@
+/**
+ * File Anchoring
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Stand-ins for deployments without an anchoring network. Anchor documents
+ * are written to a local directory, and a transparency log can keep its
+ * entries in an append-only file. A file anchor proves nothing to a third
+ * party; use it for development, tests and air-gapped staging.
+ *
+ * Server-only: imports Node's fs.
+ */
+
+import { access, appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { sha256String } from '../../core/src/crypto/hash';
+import type { AnchorPayload, AnchorProvider, AnchorStatus, AnchorSubmission } from './provider';
+import type { LogStore } from './transparency-log';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FileAnchorOptions {
+  directory: string;            // One <txId>.json per anchored document
+}
+
+// ============================================================================
+// ANCHOR PROVIDER
+// ============================================================================
+
+/**
+ * Writes each anchor document to a file named by its SHA-256
+ */
+export class FileAnchorProvider implements AnchorProvider {
+  readonly networkId = 'file';
+  readonly confirmationThreshold = 1;
+
+  constructor(private options: FileAnchorOptions) {}
+
+  async submit(payload: AnchorPayload): Promise<AnchorSubmission> {
+    const txId = await sha256String(payload.data);
+    const document = JSON.stringify({
+      type: payload.type,
+      tags: payload.tags,
+      data: payload.data,
+      anchored_at: new Date().toISOString(),
+    }, null, 2);
+
+    await mkdir(this.options.directory, { recursive: true });
+    try {
+      // wx: an identical document anchored earlier keeps its original time
+      await writeFile(this.path(txId), `${document}\n`, { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    return { txId };
+  }
+
+  async getStatus(txId: string): Promise<AnchorStatus> {
+    try {
+      await access(this.path(txId));
+      return { status: 'confirmed', confirmations: 1 };
+    } catch {
+      return { status: 'failed', confirmations: 0 };
+    }
+  }
+
+  private path(txId: string): string {
+    if (!/^[0-9a-f]{64}$/.test(txId)) {
+      throw new Error(`Invalid file anchor id: ${txId}`);
+    }
+    return join(this.options.directory, `${txId}.json`);
+  }
+}
+
+// ============================================================================
+// LOG STORE
+// ============================================================================
+
+/**
+ * Transparency log entries, one hex hash per line, appended in order
+ */
+export class FileLogStore implements LogStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<string[]> {
+    try {
+      const text = await readFile(this.path, 'utf8');
+      return text.split('\n').filter((line) => line.length > 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async append(entryHash: string): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${entryHash}\n`);
+  }
+}
@@ -3,20 +3,69 @@
  * Per AGA Build Guide Phase 3
  */
 
+// Anchor Providers
+export {
+  buildSealPayload,
+  buildCheckpointPayload,
+  payloadSize,
+  type AnchorProvider,
+  type AnchorPayload,
+  type AnchorPayloadType,
+  type AnchorSubmission,
+  type AnchorStatus,
+  type TransactionTags,
+} from './provider';
+
+export { createAnchorProvider } from './factory';
+
+export {
+  TransparencyLog,
+  TransparencyLogAnchorProvider,
+  MemoryLogStore,
+  verifyLogInclusionReceipt,
+  type LogInclusionReceipt,
+  type LogStore,
+  type TransparencyLogOptions,
+} from './transparency-log';
+
+export {
+  JwkWallet,
+  JwkAnchorProvider,
+  type ArweaveJwk,
+  type UnsignedTransaction,
+} from './jwk-wallet';
+
+export {
+  deepHash,
+  computeDataRoot,
+  transactionSignatureData,
+} from '../../core/src/anchor/arweave';
+
+export {
+  FileAnchorProvider,
+  FileLogStore,
+  type FileAnchorOptions,
+} from './file-provider';
+
 // Client
 export {
   ArweaveClient,
+  ArweaveAnchorProvider,
+  ARWEAVE_CONFIRMATION_THRESHOLD,
   arweaveClient,
   type ArweaveConfig,
   type ArweaveWallet,
-  type TransactionTags,
   type PreparedTransaction,
+  type SignedTransaction,
 } from './client';
 
 // Transaction Submission
 export {
   TransactionManager,
+  MemoryTransactionStore,
   getTransactionManager,
+  type TransactionStore,
+  type SubmissionConfig,
   type TransactionType,
   type TransactionStatus,
   type TransactionRecord,
@@ -30,8 +79,8 @@ export {
   InclusionProofGenerator,
   merkleTreeBuilder,
   inclusionProofGenerator,
-  type MerkleNode,
   type MerkleProof,
+  type ConsistencyProof,
   type MerkleTree,
   type CheckpointData,
   type AnchorConfig,
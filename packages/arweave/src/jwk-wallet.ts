@@ -0,0 +1,161 @@
+/**
+ * JWK Wallet Signing
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Headless Arweave submission. Transactions are built and signed on the
+ * server with an RSA wallet in JWK form and posted to the gateway directly,
+ * without a browser extension. Signing follows transaction format 2:
+ * RSA-PSS (SHA-256) over the SHA-384 deep hash of the transaction fields,
+ * with the data committed by its chunk Merkle root. The hashing is shared
+ * with the offline verifier's anchor checks in core.
+ *
+ * Server-only: imports Node's crypto and fs.
+ */
+
+import { constants, createHash, createPrivateKey, sign, type JsonWebKey, type KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import { computeDataRoot, transactionSignatureData } from '../../core/src/anchor/arweave';
+import { ARWEAVE_CONFIRMATION_THRESHOLD, ArweaveClient, type SignedTransaction } from './client';
+import type { AnchorPayload, AnchorProvider, AnchorStatus, AnchorSubmission, TransactionTags } from './provider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ArweaveJwk extends JsonWebKey {
+  kty: 'RSA';
+  n: string;                    // Base64url modulus; the wallet's owner field
+  e: string;
+  d: string;
+}
+
+export interface UnsignedTransaction {
+  data: Uint8Array;
+  tags: TransactionTags;
+  lastTx: string;
+  reward: string;               // Winston
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PSS_SALT_LENGTH = 32;
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+function sha256(data: Uint8Array): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+// ============================================================================
+// WALLET
+// ============================================================================
+
+/**
+ * RSA wallet read from a JWK file, or given directly
+ */
+export class JwkWallet {
+  private key: Promise<{ jwk: ArweaveJwk; privateKey: KeyObject }> | null = null;
+
+  constructor(private source: string | ArweaveJwk) {}
+
+  /**
+   * Wallet address: base64url SHA-256 of the modulus
+   */
+  async getAddress(): Promise<string> {
+    const { jwk } = await this.load();
+    return sha256(Buffer.from(jwk.n, 'base64url')).toString('base64url');
+  }
+
+  /**
+   * Build and sign a format 2 transaction
+   */
+  async signTransaction(input: UnsignedTransaction): Promise<SignedTransaction> {
+    const { jwk, privateKey } = await this.load();
+    const encode = (value: string) => Buffer.from(value).toString('base64url');
+
+    const unsigned: Omit<SignedTransaction, 'id' | 'signature'> = {
+      format: 2,
+      last_tx: input.lastTx,
+      owner: jwk.n,
+      tags: Object.entries(input.tags).map(([name, value]) => ({ name: encode(name), value: encode(value) })),
+      target: '',
+      quantity: '0',
+      data: Buffer.from(input.data).toString('base64url'),
+      data_size: input.data.byteLength.toString(),
+      data_root: Buffer.from(computeDataRoot(input.data)).toString('base64url'),
+      reward: input.reward,
+    };
+
+    const signature = sign('sha256', transactionSignatureData(unsigned), {
+      key: privateKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: PSS_SALT_LENGTH,
+    });
+
+    return {
+      ...unsigned,
+      id: sha256(signature).toString('base64url'),
+      signature: signature.toString('base64url'),
+    };
+  }
+
+  private load(): Promise<{ jwk: ArweaveJwk; privateKey: KeyObject }> {
+    this.key ??= this.readJwk().catch((error) => {
+      this.key = null;
+      throw error;
+    });
+    return this.key;
+  }
+
+  private async readJwk(): Promise<{ jwk: ArweaveJwk; privateKey: KeyObject }> {
+    let jwk: ArweaveJwk;
+    if (typeof this.source === 'string') {
+      try {
+        jwk = JSON.parse(await readFile(this.source, 'utf8')) as ArweaveJwk;
+      } catch {
+        throw new Error(`Arweave wallet file ${this.source} is not a readable JWK`);
+      }
+    } else {
+      jwk = this.source;
+    }
+
+    if (jwk.kty !== 'RSA' || !jwk.n || !jwk.e || !jwk.d) {
+      throw new Error('Arweave wallet must be an RSA private key in JWK form');
+    }
+
+    return { jwk, privateKey: createPrivateKey({ key: jwk, format: 'jwk' }) };
+  }
+}
+
+// ============================================================================
+// ANCHOR PROVIDER
+// ============================================================================
+
+/**
+ * Anchors to Arweave with transactions signed by a server-held JWK wallet
+ */
+export class JwkAnchorProvider implements AnchorProvider {
+  readonly networkId = 'arweave';
+  readonly confirmationThreshold = ARWEAVE_CONFIRMATION_THRESHOLD;
+
+  constructor(private wallet: JwkWallet, private client: ArweaveClient) {}
+
+  async submit(payload: AnchorPayload): Promise<AnchorSubmission> {
+    const data = new TextEncoder().encode(payload.data);
+    const [lastTx, reward] = await Promise.all([
+      this.client.getTransactionAnchor(),
+      this.client.getPrice(data.byteLength),
+    ]);
+
+    const tx = await this.wallet.signTransaction({ data, tags: payload.tags, lastTx, reward });
+    return { txId: await this.client.postTransaction(tx) };
+  }
+
+  async getStatus(txId: string): Promise<AnchorStatus> {
+    return this.client.getTransactionStatus(txId);
+  }
+}
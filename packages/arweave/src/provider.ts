@@ -0,0 +1,133 @@
+/**
+ * Anchor Provider Interface
+ * Per AGA Build Guide Phase 3.2
+ *
+ * An anchor provider publishes seal and checkpoint documents to a network
+ * that can later attest when they were recorded. Arweave, a self-hosted
+ * transparency log and a file-based stand-in implement the same interface;
+ * the provider's network id is recorded with every anchor.
+ */
+
+import type { LogInclusionReceipt } from './transparency-log';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AnchorPayloadType = 'artifact_seal' | 'checkpoint_anchor';
+
+export interface TransactionTags {
+  [key: string]: string;
+}
+
+export interface AnchorPayload {
+  type: AnchorPayloadType;
+  data: string;                 // JSON document to anchor
+  tags: TransactionTags;
+}
+
+export interface AnchorSubmission {
+  txId: string;
+  inclusionReceipt?: LogInclusionReceipt;  // Transparency log only
+}
+
+export interface AnchorStatus {
+  status: 'pending' | 'confirmed' | 'failed' | 'not_found';  // not_found: unseen so far
+  confirmations: number;
+  blockHeight?: number;         // Block that included the anchor, once mined
+  blockHash?: string;
+}
+
+export interface AnchorProvider {
+  readonly networkId: string;             // Stored as CheckpointRecord.anchorNetworkId
+  readonly confirmationThreshold: number;
+  submit(payload: AnchorPayload): Promise<AnchorSubmission>;
+  getStatus(txId: string): Promise<AnchorStatus>;         // Throws when the status cannot be determined
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Standard AGA tags for all transactions
+const AGA_BASE_TAGS = {
+  'App-Name': 'AttestatedGovernance',
+  'App-Version': '1.0.0',
+  'Content-Type': 'application/json',
+};
+
+// ============================================================================
+// PAYLOADS
+// ============================================================================
+
+/**
+ * Build the anchor document for an artifact seal
+ */
+export function buildSealPayload(
+  artifactId: string,
+  sealedHash: string,
+  policyHash: string,
+  metadata: {
+    name: string;
+    description?: string;
+    vaultId: string;
+  }
+): AnchorPayload {
+  return {
+    type: 'artifact_seal',
+    data: JSON.stringify({
+      type: 'artifact_seal',
+      artifact_id: artifactId,
+      sealed_hash: sealedHash,
+      policy_hash: policyHash,
+      vault_id: metadata.vaultId,
+      name: metadata.name,
+      description: metadata.description,
+      timestamp: new Date().toISOString(),
+    }),
+    tags: {
+      ...AGA_BASE_TAGS,
+      'AGA-Type': 'artifact-seal',
+      'AGA-Artifact-Id': artifactId,
+      'AGA-Sealed-Hash': sealedHash,
+      'AGA-Policy-Hash': policyHash,
+      'AGA-Vault-Id': metadata.vaultId,
+    },
+  };
+}
+
+/**
+ * Build the anchor document for a checkpoint
+ */
+export function buildCheckpointPayload(
+  checkpointId: string,
+  merkleRoot: string,
+  receiptCount: number,
+  artifactIds: string[]
+): AnchorPayload {
+  return {
+    type: 'checkpoint_anchor',
+    data: JSON.stringify({
+      type: 'checkpoint_anchor',
+      checkpoint_id: checkpointId,
+      merkle_root: merkleRoot,
+      receipt_count: receiptCount,
+      artifact_ids: artifactIds,
+      timestamp: new Date().toISOString(),
+    }),
+    tags: {
+      ...AGA_BASE_TAGS,
+      'AGA-Type': 'checkpoint-anchor',
+      'AGA-Checkpoint-Id': checkpointId,
+      'AGA-Merkle-Root': merkleRoot,
+      'AGA-Receipt-Count': receiptCount.toString(),
+    },
+  };
+}
+
+/**
+ * Size of a payload's data in bytes
+ */
+export function payloadSize(payload: AnchorPayload): number {
+  return new TextEncoder().encode(payload.data).length;
+}
@@ -2,63 +2,135 @@
  * Arweave Transaction Submission Module
  * Per AGA Build Guide Phase 3.2
  *
- * Handles transaction submission with retry logic and status tracking.
+ * Handles transaction submission with retry logic and status tracking,
+ * through whichever anchor provider the deployment uses. Every transaction
+ * is kept in a store as it moves PENDING -> SUBMITTED -> CONFIRMED (or
+ * FAILED), so a restarted worker resumes anchors that were still pending
+ * or awaiting confirmation.
  */
 
-import { ArweaveClient, PreparedTransaction } from './client';
+import {
+  buildCheckpointPayload,
+  buildSealPayload,
+  payloadSize,
+  type AnchorPayload,
+  type AnchorPayloadType,
+  type AnchorProvider,
+} from './provider';
+import type { LogInclusionReceipt } from './transparency-log';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type TransactionType = 'artifact_seal' | 'checkpoint_anchor';
+export type TransactionType = AnchorPayloadType;
 
 export type TransactionStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
 
 export interface TransactionRecord {
   id: string;
-  txId: string;
+  txId: string;                 // Empty until submitted
+  networkId: string;            // Anchor provider's network
   type: TransactionType;
   artifactId?: string;
   checkpointId?: string;
   dataHash: string;
   dataSizeBytes: number;
+  payload: AnchorPayload;       // Kept for resubmission
   status: TransactionStatus;
+  attempts: number;
+  nextAttemptAt?: string;       // Earliest retry of a pending transaction
   confirmations: number;
+  blockHeight?: number;
+  blockHash?: string;
   submittedAt?: string;
   confirmedAt?: string;
   createdAt: string;
   error?: string;
+  inclusionReceipt?: LogInclusionReceipt;
 }
 
 export interface SubmitResult {
-  success: boolean;
+  success: boolean;             // False if the first attempt failed; the worker retries it
   txId?: string;
   error?: string;
   record: TransactionRecord;
 }
 
+export interface TransactionStore {
+  save(record: TransactionRecord): Promise<void>;  // Insert or update by id
+  get(id: string): Promise<TransactionRecord | undefined>;
+  listActive(): Promise<TransactionRecord[]>;      // Pending and submitted, oldest first
+}
+
+export interface SubmissionConfig {
+  maxAttempts: number;          // Default: 5
+  retryDelayMs: number;         // Default: 2 seconds, doubled per attempt
+  maxRetryDelayMs: number;      // Default: 10 minutes
+  pollIntervalMs: number;       // Default: 30 seconds
+  droppedAfterMs: number;       // Default: 2 hours unseen after submission
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 2000;
-const CONFIRMATION_THRESHOLD = 10;
-const POLL_INTERVAL_MS = 30000; // 30 seconds
+const DEFAULT_SUBMISSION_CONFIG: SubmissionConfig = {
+  maxAttempts: 5,
+  retryDelayMs: 2000,
+  maxRetryDelayMs: 10 * 60 * 1000,
+  pollIntervalMs: 30000,
+  // An Arweave transaction's anchor expires 50 blocks (~100 minutes) on
+  // from the block it names, so one still unseen by then was dropped
+  droppedAfterMs: 2 * 60 * 60 * 1000,
+};
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+/**
+ * Store for tests and single-process tools; records do not survive a restart
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  private records: Map<string, TransactionRecord> = new Map();
+
+  async save(record: TransactionRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async get(id: string): Promise<TransactionRecord | undefined> {
+    const record = this.records.get(id);
+    return record && { ...record };
+  }
+
+  async listActive(): Promise<TransactionRecord[]> {
+    return Array.from(this.records.values())
+      .filter((r) => r.status === 'pending' || r.status === 'submitted')
+      .map((r) => ({ ...r }));
+  }
+}
 
 // ============================================================================
 // TRANSACTION MANAGER CLASS
 // ============================================================================
 
 export class TransactionManager {
-  private client: ArweaveClient;
-  private pendingTransactions: Map<string, TransactionRecord> = new Map();
+  private provider: AnchorProvider;
+  private store: TransactionStore;
+  private config: SubmissionConfig;
   private pollingInterval: ReturnType<typeof setInterval> | null = null;
+  private processing: Promise<void> | null = null;
   private onStatusChange?: (record: TransactionRecord) => void;
 
-  constructor(client: ArweaveClient) {
-    this.client = client;
+  constructor(
+    provider: AnchorProvider,
+    store: TransactionStore = new MemoryTransactionStore(),
+    config: Partial<SubmissionConfig> = {}
+  ) {
+    this.provider = provider;
+    this.store = store;
+    this.config = { ...DEFAULT_SUBMISSION_CONFIG, ...config };
   }
 
   /**
@@ -81,28 +153,8 @@ export class TransactionManager {
       vaultId: string;
     }
   ): Promise<SubmitResult> {
-    // Create the transaction
-    const tx = await this.client.createSealTransaction(
-      artifactId,
-      sealedHash,
-      policyHash,
-      metadata
-    );
-
-    // Create record
-    const record: TransactionRecord = {
-      id: `tx_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
-      txId: '',
-      type: 'artifact_seal',
-      artifactId,
-      dataHash: sealedHash,
-      dataSizeBytes: tx.dataSize,
-      status: 'pending',
-      confirmations: 0,
-      createdAt: new Date().toISOString(),
-    };
-
-    return this.submitWithRetry(tx, record);
+    const payload = buildSealPayload(artifactId, sealedHash, policyHash, metadata);
+    return this.enqueue(payload, { artifactId, dataHash: sealedHash });
   }
 
   /**
@@ -114,94 +166,28 @@ export class TransactionManager {
     receiptCount: number,
     artifactIds: string[]
   ): Promise<SubmitResult> {
-    // Create the transaction
-    const tx = await this.client.createAnchorTransaction(
-      checkpointId,
-      merkleRoot,
-      receiptCount,
-      artifactIds
-    );
-
-    // Create record
-    const record: TransactionRecord = {
-      id: `tx_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
-      txId: '',
-      type: 'checkpoint_anchor',
-      checkpointId,
-      dataHash: merkleRoot,
-      dataSizeBytes: tx.dataSize,
-      status: 'pending',
-      confirmations: 0,
-      createdAt: new Date().toISOString(),
-    };
-
-    return this.submitWithRetry(tx, record);
+    const payload = buildCheckpointPayload(checkpointId, merkleRoot, receiptCount, artifactIds);
+    return this.enqueue(payload, { checkpointId, dataHash: merkleRoot });
   }
 
   /**
-   * Submit transaction with retry logic
+   * Pick up where a previous worker stopped: process the stored queue now,
+   * then keep polling it
    */
-  private async submitWithRetry(
-    tx: PreparedTransaction,
-    record: TransactionRecord
-  ): Promise<SubmitResult> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      try {
-        // Submit transaction
-        const txId = await this.client.submitTransaction(tx);
-
-        // Update record
-        record.txId = txId;
-        record.status = 'submitted';
-        record.submittedAt = new Date().toISOString();
-
-        // Add to pending transactions
-        this.pendingTransactions.set(record.id, record);
-
-        // Start polling if not already running
-        this.startPolling();
-
-        // Notify status change
-        this.onStatusChange?.(record);
-
-        return {
-          success: true,
-          txId,
-          record,
-        };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        console.error(`Transaction attempt ${attempt + 1} failed:`, lastError);
-
-        // Wait before retrying
-        if (attempt < MAX_RETRIES - 1) {
-          await this.delay(RETRY_DELAY_MS * (attempt + 1));
-        }
-      }
-    }
-
-    // All retries failed
-    record.status = 'failed';
-    record.error = lastError?.message || 'Unknown error';
-
-    return {
-      success: false,
-      error: record.error,
-      record,
-    };
+  async resume(): Promise<void> {
+    await this.processQueue();
+    this.startPolling();
   }
 
   /**
-   * Start polling for transaction confirmations
+   * One pass over the queue: submit pending transactions whose retry is
+   * due and check submitted ones for confirmations. Passes never overlap.
    */
-  private startPolling(): void {
-    if (this.pollingInterval) return;
-
-    this.pollingInterval = setInterval(async () => {
-      await this.pollPendingTransactions();
-    }, POLL_INTERVAL_MS);
+  processQueue(): Promise<void> {
+    this.processing ??= this.runQueue().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
   }
 
   /**
@@ -215,66 +201,172 @@ export class TransactionManager {
   }
 
   /**
-   * Poll all pending transactions
+   * Get all transactions still pending or awaiting confirmation
    */
-  private async pollPendingTransactions(): Promise<void> {
-    const pending = Array.from(this.pendingTransactions.values()).filter(
-      (r) => r.status === 'submitted'
-    );
+  getPendingTransactions(): Promise<TransactionRecord[]> {
+    return this.store.listActive();
+  }
+
+  /**
+   * Get transaction by ID
+   */
+  getTransaction(id: string): Promise<TransactionRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Store a new transaction and make its first attempt
+   */
+  private async enqueue(
+    payload: AnchorPayload,
+    fields: Pick<TransactionRecord, 'artifactId' | 'checkpointId' | 'dataHash'>
+  ): Promise<SubmitResult> {
+    const record: TransactionRecord = {
+      id: `tx_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+      txId: '',
+      networkId: this.provider.networkId,
+      type: payload.type,
+      ...fields,
+      dataSizeBytes: payloadSize(payload),
+      payload,
+      status: 'pending',
+      attempts: 0,
+      confirmations: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await this.store.save(record);
+
+    await this.attempt(record);
+    this.startPolling();
+
+    return {
+      success: record.status === 'submitted',
+      txId: record.txId || undefined,
+      error: record.status === 'submitted' ? undefined : record.error,
+      record,
+    };
+  }
 
-    for (const record of pending) {
+  private async runQueue(): Promise<void> {
+    const active = await this.store.listActive();
+    const now = Date.now();
+
+    for (const record of active) {
       try {
-        const status = await this.client.getTransactionStatus(record.txId);
-
-        if (status.confirmations >= CONFIRMATION_THRESHOLD) {
-          record.status = 'confirmed';
-          record.confirmations = status.confirmations;
-          record.confirmedAt = new Date().toISOString();
-          this.onStatusChange?.(record);
-
-          // Remove from pending
-          this.pendingTransactions.delete(record.id);
-        } else if (status.status === 'failed') {
-          record.status = 'failed';
-          record.error = 'Transaction failed on network';
-          this.onStatusChange?.(record);
-
-          // Remove from pending
-          this.pendingTransactions.delete(record.id);
-        } else {
-          // Update confirmations
-          record.confirmations = status.confirmations;
+        if (record.status === 'submitted') {
+          await this.checkConfirmations(record);
+        } else if (!record.nextAttemptAt || Date.parse(record.nextAttemptAt) <= now) {
+          await this.attempt(record);
         }
       } catch (error) {
-        console.error(`Error polling transaction ${record.id}:`, error);
+        console.error(`Error processing transaction ${record.id}:`, error);
       }
     }
 
     // Stop polling if no more pending
-    if (this.pendingTransactions.size === 0) {
+    if (active.length === 0) {
       this.stopPolling();
     }
   }
 
   /**
-   * Get all pending transactions
+   * Submit a pending transaction once; on failure, schedule a retry
    */
-  getPendingTransactions(): TransactionRecord[] {
-    return Array.from(this.pendingTransactions.values());
+  private async attempt(record: TransactionRecord): Promise<void> {
+    record.attempts += 1;
+
+    try {
+      const { txId, inclusionReceipt } = await this.provider.submit(record.payload);
+      record.txId = txId;
+      record.inclusionReceipt = inclusionReceipt;
+      record.status = 'submitted';
+      record.submittedAt = new Date().toISOString();
+      record.nextAttemptAt = undefined;
+      record.error = undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Transaction attempt ${record.attempts} failed:`, message);
+      this.scheduleRetry(record, message);
+    }
+
+    await this.store.save(record);
+    this.onStatusChange?.(record);
   }
 
   /**
-   * Get transaction by ID
+   * Track a submitted transaction's confirmation depth
+   * A status that cannot be determined throws and leaves the record as it
+   * was. A transaction the network has not seen counts as dropped only
+   * once it stays unseen for droppedAfterMs after submission.
+   */
+  private async checkConfirmations(record: TransactionRecord): Promise<void> {
+    const status = await this.provider.getStatus(record.txId);
+
+    if (status.status === 'not_found') {
+      const unseenMs = Date.now() - Date.parse(record.submittedAt ?? record.createdAt);
+      if (unseenMs < this.config.droppedAfterMs) {
+        return;
+      }
+    }
+
+    if (status.status === 'failed' || status.status === 'not_found') {
+      // Dropped by the network: submit it again
+      record.txId = '';
+      record.confirmations = 0;
+      record.blockHeight = undefined;
+      record.blockHash = undefined;
+      record.inclusionReceipt = undefined;
+      this.scheduleRetry(
+        record,
+        status.status === 'failed' ? 'Transaction failed on network' : 'Transaction not found on network'
+      );
+    } else if (status.confirmations !== record.confirmations || status.blockHash !== record.blockHash) {
+      record.confirmations = status.confirmations;
+      record.blockHeight = status.blockHeight;
+      record.blockHash = status.blockHash;
+      if (status.confirmations >= this.provider.confirmationThreshold) {
+        record.status = 'confirmed';
+        record.confirmedAt = new Date().toISOString();
+      }
+    } else {
+      return;
+    }
+
+    await this.store.save(record);
+    this.onStatusChange?.(record);
+  }
+
+  /**
+   * Back off exponentially, or fail once the attempts are used up
    */
-  getTransaction(id: string): TransactionRecord | undefined {
-    return this.pendingTransactions.get(id);
+  private scheduleRetry(record: TransactionRecord, error: string): void {
+    record.error = error;
+
+    if (record.attempts >= this.config.maxAttempts) {
+      record.status = 'failed';
+      record.nextAttemptAt = undefined;
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.retryDelayMs * 2 ** (record.attempts - 1),
+      this.config.maxRetryDelayMs
+    );
+    record.status = 'pending';
+    record.nextAttemptAt = new Date(Date.now() + delay).toISOString();
   }
 
   /**
-   * Helper delay function
+   * Start polling the queue
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private startPolling(): void {
+    if (this.pollingInterval) return;
+
+    this.pollingInterval = setInterval(() => {
+      this.processQueue().catch((error) => {
+        console.error('Error processing transaction queue:', error);
+      });
+    }, this.config.pollIntervalMs);
   }
 }
 
@@ -284,9 +376,12 @@ export class TransactionManager {
 
 let transactionManager: TransactionManager | null = null;
 
-export function getTransactionManager(client: ArweaveClient): TransactionManager {
+export function getTransactionManager(
+  provider: AnchorProvider,
+  store?: TransactionStore
+): TransactionManager {
   if (!transactionManager) {
-    transactionManager = new TransactionManager(client);
+    transactionManager = new TransactionManager(provider, store);
   }
   return transactionManager;
 }
@@ -0,0 +1,233 @@
+/**
+ * Transparency Log Anchoring
+ * Per AGA Build Guide Phase 3.3
+ *
+ * A self-hosted, append-only log of anchored documents. Each document's
+ * SHA-256 is a leaf of an RFC 6962 tree. On append the log signs an
+ * inclusion receipt binding the entry to the tree head that first contains
+ * it, which anyone holding the log's public key can check offline.
+ */
+
+import { sha256String } from '../../core/src/crypto/hash';
+import { generateKeyIdHash } from '../../core/src/crypto/keys';
+import {
+  buildMerkleTree,
+  generateInclusionProof,
+  hashLeaf,
+  verifyInclusionProof,
+  type MerkleInclusionProof,
+} from '../../core/src/crypto/merkle';
+import { base64ToBytes, derivePublicKey, signObject, verifyObject } from '../../core/src/crypto/signature';
+import { DOMAIN_SEPARATORS } from '../../core/src/types';
+import type { AnchorPayload, AnchorProvider, AnchorStatus, AnchorSubmission } from './provider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LogInclusionReceipt {
+  log_id: string;               // key_id of the log's signing key
+  entry_index: number;
+  entry_hash: string;           // SHA-256 of the anchored document
+  tree_size: number;            // Tree head the entry was integrated into
+  log_root: string;
+  inclusion_proof: MerkleInclusionProof;
+  integrated_at: string;        // ISO 8601
+  signature: string;            // Base64 Ed25519 under ai.anchor.v1:
+}
+
+export interface LogStore {
+  load(): Promise<string[]>;    // Entry hashes, oldest first
+  append(entryHash: string): Promise<void>;
+}
+
+export interface TransparencyLogOptions {
+  privateKey: Uint8Array;       // Ed25519 seed of the log's signing key
+  store?: LogStore;             // Default: in memory
+}
+
+// ============================================================================
+// SIGNED FIELDS
+// ============================================================================
+
+/**
+ * The fields the log signs
+ */
+function receiptStatement(receipt: Omit<LogInclusionReceipt, 'signature'>): Record<string, unknown> {
+  return {
+    log_id: receipt.log_id,
+    entry_index: receipt.entry_index,
+    entry_hash: receipt.entry_hash,
+    tree_size: receipt.tree_size,
+    log_root: receipt.log_root,
+    inclusion_proof: receipt.inclusion_proof,
+    integrated_at: receipt.integrated_at,
+  };
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+export class MemoryLogStore implements LogStore {
+  private entries: string[] = [];
+
+  async load(): Promise<string[]> {
+    return [...this.entries];
+  }
+
+  async append(entryHash: string): Promise<void> {
+    this.entries.push(entryHash);
+  }
+}
+
+// ============================================================================
+// TRANSPARENCY LOG
+// ============================================================================
+
+export class TransparencyLog {
+  private store: LogStore;
+  private publicKey: Promise<Uint8Array> | null = null;
+  private entries: Promise<string[]> | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private options: TransparencyLogOptions) {
+    this.store = options.store ?? new MemoryLogStore();
+  }
+
+  /**
+   * Public key that verifies the log's inclusion receipts
+   */
+  getPublicKey(): Promise<Uint8Array> {
+    this.publicKey ??= derivePublicKey(this.options.privateKey);
+    return this.publicKey;
+  }
+
+  /**
+   * The log's identity: the key_id of its signing key
+   */
+  async getLogId(): Promise<string> {
+    return generateKeyIdHash(await this.getPublicKey());
+  }
+
+  /**
+   * Append an entry and sign its inclusion receipt. Appends run one at a
+   * time so each receipt names the tree head that first contains it.
+   */
+  append(entryHash: string): Promise<LogInclusionReceipt> {
+    const next = this.pending.then(() => this.integrate(entryHash));
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Index of an entry, or -1 if the log does not contain it
+   */
+  async indexOf(entryHash: string): Promise<number> {
+    const entries = await this.load();
+    return entries.indexOf(entryHash);
+  }
+
+  /**
+   * Number of entries in the log
+   */
+  async getSize(): Promise<number> {
+    const entries = await this.load();
+    return entries.length;
+  }
+
+  private load(): Promise<string[]> {
+    this.entries ??= this.store.load().catch((error) => {
+      this.entries = null;
+      throw error;
+    });
+    return this.entries;
+  }
+
+  private async integrate(entryHash: string): Promise<LogInclusionReceipt> {
+    const entries = await this.load();
+    await this.store.append(entryHash);
+    entries.push(entryHash);
+
+    const tree = buildMerkleTree(entries);
+    const entryIndex = entries.length - 1;
+    const unsigned = {
+      log_id: await this.getLogId(),
+      entry_index: entryIndex,
+      entry_hash: entryHash,
+      tree_size: tree.size,
+      log_root: tree.root,
+      inclusion_proof: generateInclusionProof(tree, entryIndex),
+      integrated_at: new Date().toISOString(),
+    };
+
+    const { signature } = await signObject(
+      this.options.privateKey,
+      DOMAIN_SEPARATORS.ANCHOR,
+      receiptStatement(unsigned)
+    );
+
+    return { ...unsigned, signature };
+  }
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Check an inclusion receipt against the log's public key: the log signed
+ * it, and its proof places the entry in the signed tree head. With `data`,
+ * also check that the entry is the hash of that document.
+ */
+export async function verifyLogInclusionReceipt(
+  receipt: LogInclusionReceipt,
+  logPublicKey: Uint8Array | string,
+  data?: string
+): Promise<boolean> {
+  const publicKey = typeof logPublicKey === 'string' ? base64ToBytes(logPublicKey) : logPublicKey;
+  const proof = receipt.inclusion_proof;
+
+  if (receipt.log_id !== await generateKeyIdHash(publicKey)) {
+    return false;
+  }
+  if (data !== undefined && receipt.entry_hash !== await sha256String(data)) {
+    return false;
+  }
+  if (
+    proof.leaf_index !== receipt.entry_index ||
+    proof.tree_size !== receipt.tree_size ||
+    proof.leaf_hash !== hashLeaf(receipt.entry_hash) ||
+    !verifyInclusionProof(proof, receipt.log_root)
+  ) {
+    return false;
+  }
+
+  return verifyObject(publicKey, receipt.signature, DOMAIN_SEPARATORS.ANCHOR, receiptStatement(receipt));
+}
+
+// ============================================================================
+// ANCHOR PROVIDER
+// ============================================================================
+
+/**
+ * Anchors to a transparency log. Entries are integrated on append, so an
+ * anchor is final once its receipt is issued.
+ */
+export class TransparencyLogAnchorProvider implements AnchorProvider {
+  readonly networkId = 'transparency-log';
+  readonly confirmationThreshold = 1;
+
+  constructor(private log: TransparencyLog) {}
+
+  async submit(payload: AnchorPayload): Promise<AnchorSubmission> {
+    const inclusionReceipt = await this.log.append(await sha256String(payload.data));
+    return { txId: inclusionReceipt.entry_hash, inclusionReceipt };
+  }
+
+  async getStatus(txId: string): Promise<AnchorStatus> {
+    return (await this.log.indexOf(txId)) === -1
+      ? { status: 'failed', confirmations: 0 }
+      : { status: 'confirmed', confirmations: 1 };
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Arweave Anchor Evidence
+ * Per AGA Build Guide Phase 3.2 and Phase 6 (Offline Verifier)
+ *
+ * Offline checks on a captured Arweave transaction. A format 2 transaction
+ * commits to its data through the chunk Merkle root, is signed with RSA-PSS
+ * (SHA-256) over the SHA-384 deep hash of its fields, and is identified by
+ * the SHA-256 of that signature. None of this needs the network; whether
+ * the block holding the transaction is on the weave does.
+ */
+
+import { sha256, sha384 } from '@noble/hashes/sha2.js';
+import { base64urlToBytes, bytesToBase64url } from '../crypto/signature';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Arweave transaction format 2, as posted to a gateway's /tx endpoint */
+export interface SignedArweaveTransaction {
+  format: 2;
+  id: string;                   // Base64url SHA-256 of the signature
+  last_tx: string;              // Anchor from /tx_anchor
+  owner: string;                // Base64url RSA modulus
+  tags: Array<{ name: string; value: string }>;  // Base64url
+  target: string;
+  quantity: string;
+  data: string;                 // Base64url
+  data_size: string;
+  data_root: string;            // Base64url chunk Merkle root
+  reward: string;               // Winston
+  signature: string;            // Base64url RSA-PSS
+}
+
+/** The fields of an Arweave block header an anchor relies on */
+export interface ArweaveBlockHeader {
+  indep_hash: string;           // Base64url block hash
+  height: number;
+  timestamp: number;            // Unix seconds
+  txs: string[];                // Ids of the transactions in the block
+}
+
+export interface ArweaveTransactionVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+type DeepHashChunk = Uint8Array | DeepHashChunk[];
+
+interface ChunkNode {
+  id: Uint8Array;
+  maxByteRange: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_CHUNK_SIZE = 256 * 1024;
+const MIN_CHUNK_SIZE = 32 * 1024;
+const NOTE_SIZE = 32;
+const PSS_SALT_LENGTH = 32;
+
+// Arweave wallets always use the public exponent 65537
+const RSA_PUBLIC_EXPONENT = 'AQAB';
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+/**
+ * Arweave deep hash: a SHA-384 commitment to nested lists of byte strings,
+ * tagged with each item's type and length
+ */
+export function deepHash(data: DeepHashChunk): Uint8Array {
+  if (Array.isArray(data)) {
+    return data.reduce<Uint8Array>(
+      (acc, chunk) => sha384(concat(acc, deepHash(chunk))),
+      sha384(utf8(`list${data.length}`))
+    );
+  }
+
+  return sha384(concat(sha384(utf8(`blob${data.byteLength}`)), sha384(data)));
+}
+
+/**
+ * 32-byte big-endian encoding of a byte offset
+ */
+function noteToBytes(note: number): Uint8Array {
+  const bytes = new Uint8Array(NOTE_SIZE);
+  let remaining = note;
+  for (let i = NOTE_SIZE - 1; i >= 0; i--) {
+    const byte = remaining % 256;
+    bytes[i] = byte;
+    remaining = (remaining - byte) / 256;
+  }
+  return bytes;
+}
+
+/**
+ * Root of the chunk Merkle tree that commits to a transaction's data.
+ * Chunks are 256 KiB; a trailing chunk under 32 KiB is avoided by splitting
+ * the last two evenly.
+ */
+export function computeDataRoot(data: Uint8Array): Uint8Array {
+  const leaf = (start: number, end: number): ChunkNode => ({
+    id: sha256(concat(sha256(sha256(data.subarray(start, end))), sha256(noteToBytes(end)))),
+    maxByteRange: end,
+  });
+
+  let layer: ChunkNode[] = [];
+  let cursor = 0;
+  while (data.byteLength - cursor >= MAX_CHUNK_SIZE) {
+    const remaining = data.byteLength - cursor;
+    const next = remaining - MAX_CHUNK_SIZE;
+    const chunkSize = next > 0 && next < MIN_CHUNK_SIZE ? Math.ceil(remaining / 2) : MAX_CHUNK_SIZE;
+    layer.push(leaf(cursor, cursor + chunkSize));
+    cursor += chunkSize;
+  }
+  layer.push(leaf(cursor, data.byteLength));
+
+  while (layer.length > 1) {
+    const parents: ChunkNode[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      const left = layer[i];
+      const right = layer[i + 1];
+      parents.push(right
+        ? {
+            id: sha256(concat(sha256(left.id), sha256(right.id), sha256(noteToBytes(left.maxByteRange)))),
+            maxByteRange: right.maxByteRange,
+          }
+        : left);
+    }
+    layer = parents;
+  }
+
+  return layer[0].id;
+}
+
+/**
+ * The bytes a format 2 transaction's signature covers
+ */
+export function transactionSignatureData(tx: Omit<SignedArweaveTransaction, 'id' | 'signature'>): Uint8Array {
+  return deepHash([
+    utf8(tx.format.toString()),
+    base64urlToBytes(tx.owner),
+    base64urlToBytes(tx.target),
+    utf8(tx.quantity),
+    utf8(tx.reward),
+    base64urlToBytes(tx.last_tx),
+    tx.tags.map((tag) => [base64urlToBytes(tag.name), base64urlToBytes(tag.value)]),
+    utf8(tx.data_size),
+    base64urlToBytes(tx.data_root),
+  ]);
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * The transaction's data as text
+ */
+export function decodeTransactionData(tx: SignedArweaveTransaction): string {
+  return new TextDecoder().decode(base64urlToBytes(tx.data));
+}
+
+/**
+ * Check that a captured transaction is internally consistent: its data
+ * matches data_size and data_root, its owner signed it, and its id is the
+ * hash of that signature
+ */
+export async function verifyArweaveTransaction(tx: SignedArweaveTransaction): Promise<ArweaveTransactionVerification> {
+  try {
+    if (tx.format !== 2) {
+      return { valid: false, reason: `Unsupported transaction format: ${tx.format}` };
+    }
+
+    const data = base64urlToBytes(tx.data);
+    if (tx.data_size !== data.byteLength.toString() || tx.data_root !== bytesToBase64url(computeDataRoot(data))) {
+      return { valid: false, reason: 'Data root does not commit to the transaction data' };
+    }
+
+    const signature = base64urlToBytes(tx.signature);
+    if (tx.id !== bytesToBase64url(sha256(signature))) {
+      return { valid: false, reason: 'Transaction id does not match its signature' };
+    }
+
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'RSA', n: tx.owner, e: RSA_PUBLIC_EXPONENT },
+      { name: 'RSA-PSS', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const signed = await crypto.subtle.verify(
+      { name: 'RSA-PSS', saltLength: PSS_SALT_LENGTH },
+      key,
+      new Uint8Array(signature),
+      new Uint8Array(transactionSignatureData(tx))
+    );
+
+    return signed ? { valid: true } : { valid: false, reason: 'Invalid owner signature' };
+  } catch (error) {
+    return {
+      valid: false,
+      reason: `Malformed transaction: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Anchor Evidence Exports
+ * Per AGA Build Guide Phase 3.2
+ */
+
+export {
+  // Arweave transactions
+  deepHash,
+  computeDataRoot,
+  transactionSignatureData,
+  decodeTransactionData,
+
+  // Verification
+  verifyArweaveTransaction,
+
+  // Types
+  type SignedArweaveTransaction,
+  type ArweaveBlockHeader,
+  type ArweaveTransactionVerification,
+} from './arweave';
@@ -12,11 +12,19 @@ import {
   formatLedger,
   generateKeyring,
   generateMerkleProofsFile,
+  generateCheckpointsFile,
+  generateAnchorsFile,
+  generateLineageFile,
   canonicalJsonToBytes,
   jsonToBytes,
   stringToBytes,
+  bytesToString,
   type MerkleProofEntry,
+  type BundleCheckpoint,
+  type BundleAnchor,
+  type BundleEvidence,
 } from './structure';
+import { readBundleArchive } from './reader';
 import { canonicalize } from '../crypto/canonical';
 import type {
   PolicyArtifact,
@@ -38,8 +46,12 @@ export interface BundleGeneratorInput {
     content: Uint8Array;
   };
   merkleProofs?: MerkleProofEntry[];
+  checkpoints?: BundleCheckpoint[];
+  anchors?: BundleAnchor[];      // Anchor transactions for checkpoints
+  lineage?: PolicyArtifact[];    // Superseded versions, oldest first
   timestampToken?: Uint8Array;
   platformPublicKey?: string;
+  demoIssuer?: boolean;          // Label the issuer key as an ephemeral demo key
 }
 
 export interface GeneratedBundle {
@@ -69,6 +81,7 @@ export class BundleGenerator {
    */
   async generate(input: BundleGeneratorInput): Promise<GeneratedBundle> {
     const files = new Map<string, Uint8Array>();
+    const evidence: BundleEvidence = {};
 
     // 1. Generate PolicyArtifact.json
     const artifactJson = canonicalize(input.artifact);
@@ -79,42 +92,61 @@ export class BundleGenerator {
     files.set(BUNDLE_PATHS.LEDGER, stringToBytes(ledger));
 
     // 3. Generate keyring
-    const keyring = generateKeyring(input.artifact, input.platformPublicKey);
+    const keyring = generateKeyring(input.artifact, input.platformPublicKey, input.demoIssuer);
     files.set(BUNDLE_PATHS.KEYRING, jsonToBytes(keyring));
 
     // 4. Generate Merkle proofs (if available)
     if (this.options.includeMerkleProofs && input.merkleProofs?.length) {
       const proofsFile = generateMerkleProofsFile(input.merkleProofs);
       files.set(BUNDLE_PATHS.MERKLE_PROOFS, jsonToBytes(proofsFile));
+      evidence.merkleProofs = input.merkleProofs;
     }
 
-    // 5. Add timestamp token (if available)
+    if (this.options.includeMerkleProofs && input.checkpoints?.length) {
+      const checkpointsFile = generateCheckpointsFile(input.checkpoints);
+      files.set(BUNDLE_PATHS.CHECKPOINTS, jsonToBytes(checkpointsFile));
+      evidence.checkpoints = input.checkpoints;
+
+      // Anchors are only checkable against the checkpoints they anchor
+      if (input.anchors?.length) {
+        files.set(BUNDLE_PATHS.ANCHORS, jsonToBytes(generateAnchorsFile(input.anchors)));
+        evidence.anchors = input.anchors;
+      }
+    }
+
+    // 5. Add superseded versions (if any)
+    if (input.lineage?.length) {
+      files.set(BUNDLE_PATHS.LINEAGE, jsonToBytes(generateLineageFile(input.lineage)));
+    }
+
+    // 6. Add timestamp token (if available)
     if (this.options.includeTimestampToken && input.timestampToken) {
       files.set(BUNDLE_PATHS.TIMESTAMP_TOKEN, input.timestampToken);
     }
 
-    // 6. Add payload (if included)
+    // 7. Add payload (if included)
     if (this.options.includePayload && input.payload) {
       const payloadPath = `${BUNDLE_PATHS.PAYLOAD_DIR}${input.payload.filename}`;
       files.set(payloadPath, input.payload.content);
     }
 
-    // 7. Generate manifest
+    // 8. Generate manifest
     const manifest = await generateManifest(
       input.artifact,
       input.receipts,
       input.chainHead,
       this.options,
-      files
+      files,
+      evidence
     );
 
     // Add manifest to files (must be last so it includes checksums of all other files)
     files.set(BUNDLE_PATHS.MANIFEST, jsonToBytes(manifest));
 
-    // 8. Create ZIP archive
+    // 9. Create ZIP archive
     const blob = await this.createZipArchive(files);
 
-    // 9. Generate filename
+    // 10. Generate filename
     const filename = this.generateFilename(input.artifact);
 
     return {
@@ -332,30 +364,11 @@ export function downloadBundle(bundle: GeneratedBundle): void {
 
 export async function readBundleManifest(blob: Blob): Promise<BundleManifest | null> {
   try {
-    // For now, simplified reading - in production would parse ZIP properly
-    const text = await blob.text();
-    const manifestMatch = text.match(/"format_version":\s*"1\.0"/);
-    if (!manifestMatch) return null;
-
-    // Extract manifest JSON (simplified - would need proper ZIP parsing)
-    const start = text.indexOf('{"format_version"');
-    if (start === -1) return null;
-
-    let depth = 0;
-    let end = start;
-    for (let i = start; i < text.length; i++) {
-      if (text[i] === '{') depth++;
-      if (text[i] === '}') {
-        depth--;
-        if (depth === 0) {
-          end = i + 1;
-          break;
-        }
-      }
-    }
+    const files = readBundleArchive(new Uint8Array(await blob.arrayBuffer()));
+    const manifest = files.get(BUNDLE_PATHS.MANIFEST);
+    if (!manifest) return null;
 
-    const manifestJson = text.slice(start, end);
-    return JSON.parse(manifestJson) as BundleManifest;
+    return JSON.parse(bytesToString(manifest)) as BundleManifest;
   } catch (error) {
     console.error('Failed to read bundle manifest:', error);
     return null;
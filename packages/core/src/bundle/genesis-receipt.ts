@@ -10,6 +10,7 @@ import { signObject, bytesToBase64 } from '../crypto/signature';
 import { sha256String } from '../crypto/hash';
 import { generateKeyIdHash } from '../crypto/keys';
 import { DOMAIN_SEPARATORS } from '../types';
+import type { TsaClient } from '../tsa/client';
 import type {
   Receipt,
   ReceiptEventType,
@@ -56,8 +57,15 @@ export interface CreateReceiptOptions {
   publicKey: Uint8Array;
   timeSource?: TimeSource;
   tsaToken?: string;
+  tsa?: TsaClient;           // Request a token; overrides timeSource and tsaToken
 }
 
+export interface GenesisReceiptOptions {
+  tsa?: TsaClient;
+}
+
+type ReceiptTime = Pick<Receipt, 'time_source' | 'tsa_token' | 'time_source_reason'>;
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -96,6 +104,45 @@ async function computeThisReceiptHash(
   return sha256String(canonical);
 }
 
+/**
+ * Compute the timestamp imprint a TSA token is requested over
+ * imprint = HEX(SHA-256(canonicalize(Receipt WITHOUT receipt_id, time_source, tsa_token,
+ *   time_source_reason, signer.signature AND chain.this_receipt_hash)))
+ * The omitted fields depend on the token, so the token cannot cover them.
+ */
+export async function computeTimestampImprint(
+  receipt: Omit<Receipt, 'receipt_id' | 'time_source' | 'signer' | 'chain'> & {
+    signer: Omit<Receipt['signer'], 'signature'>;
+    chain: Omit<Receipt['chain'], 'this_receipt_hash'>;
+  }
+): Promise<string> {
+  const canonical = canonicalizeWithOmit(receipt as unknown as Record<string, unknown>, [
+    'receipt_id',
+    'time_source',
+    'tsa_token',
+    'time_source_reason',
+    'signer.signature',
+    'chain.this_receipt_hash',
+  ]);
+  return sha256String(canonical);
+}
+
+/**
+ * Anchor a receipt's time with a TSA token, degrading to local time with
+ * a TSA_UNAVAILABLE reason when the TSA cannot be reached
+ */
+async function anchorTime(
+  receipt: Parameters<typeof computeTimestampImprint>[0],
+  tsa: TsaClient
+): Promise<ReceiptTime> {
+  try {
+    const token = await tsa.requestTimestamp(await computeTimestampImprint(receipt));
+    return { time_source: 'TSA', tsa_token: token };
+  } catch {
+    return { time_source: 'DEGRADED_LOCAL', time_source_reason: 'TSA_UNAVAILABLE' };
+  }
+}
+
 // ============================================================================
 // MAIN FUNCTIONS
 // ============================================================================
@@ -107,21 +154,21 @@ async function computeThisReceiptHash(
 export async function createGenesisReceipt(
   input: GenesisReceiptInput,
   privateKey: Uint8Array,
-  publicKey: Uint8Array
+  publicKey: Uint8Array,
+  options: GenesisReceiptOptions = {}
 ): Promise<{ receipt: Receipt; chainHead: ChainHead }> {
   const runId = generateRunId();
   const now = nowISO();
   const keyId = await generateKeyIdHash(publicKey);
 
   // Build the unsigned receipt (without computed fields)
-  const baseReceipt = {
+  const untimedReceipt = {
     receipt_v: RECEIPT_VERSION,
     run_id: runId,
     sequence_number: 1,
     timestamp: now,
     local_time: now,
     monotonic_counter: 1,
-    time_source: 'DEGRADED_LOCAL' as TimeSource,
     event_type: 'POLICY_LOADED' as ReceiptEventType,
     decision: {
       action: 'NONE' as EnforcementDecision,
@@ -141,6 +188,11 @@ export async function createGenesisReceipt(
     },
   };
 
+  const time: ReceiptTime = options.tsa
+    ? await anchorTime({ ...untimedReceipt, chain: { prev_receipt_hash: ZERO_HASH } }, options.tsa)
+    : { time_source: 'DEGRADED_LOCAL' };
+  const baseReceipt = { ...untimedReceipt, ...time };
+
   // Compute receipt_id
   const receiptWithoutId = {
     ...baseReceipt,
@@ -210,15 +262,13 @@ export async function createReceipt(
   const keyId = await generateKeyIdHash(options.publicKey);
 
   // Build the unsigned receipt
-  const baseReceipt = {
+  const untimedReceipt = {
     receipt_v: RECEIPT_VERSION,
     run_id: options.runId,
     sequence_number: options.sequenceNumber,
     timestamp: now,
     local_time: now,
     monotonic_counter: options.sequenceNumber,
-    time_source: options.timeSource || ('DEGRADED_LOCAL' as TimeSource),
-    tsa_token: options.tsaToken,
     event_type: options.eventType,
     decision: {
       action: options.decision.action,
@@ -240,6 +290,11 @@ export async function createReceipt(
     },
   };
 
+  const time: ReceiptTime = options.tsa
+    ? await anchorTime({ ...untimedReceipt, chain: { prev_receipt_hash: options.prevReceiptHash } }, options.tsa)
+    : { time_source: options.timeSource || 'DEGRADED_LOCAL', tsa_token: options.tsaToken };
+  const baseReceipt = { ...untimedReceipt, ...time };
+
   // Compute receipt_id
   const receiptWithoutId = {
     ...baseReceipt,
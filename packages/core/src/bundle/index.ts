@@ -15,10 +15,18 @@ export {
 
   // Attestations
   addAttestation,
+  verifyAttestation,
+
+  // Approval quorum
+  validateApprovalQuorum,
+  evaluateApprovalQuorum,
+  type QuorumEvaluation,
+  type QuorumRequirementResult,
 
   // Hashing
   computeSealedHash,
   computePolicyHash,
+  withoutAttestations,
 
   // Serialization
   serializeArtifact,
@@ -28,10 +36,20 @@ export {
   getArtifactDisplayInfo,
 } from './policy-artifact';
 
+export {
+  // Key rotation
+  createKeyRotation,
+  verifyKeyRotation,
+  resolveKeyLineage,
+  type KeyRotationInput,
+  type KeyLineage,
+} from './key-rotation';
+
 export {
   // Genesis receipt creation
   createGenesisReceipt,
   type GenesisReceiptInput,
+  type GenesisReceiptOptions,
 
   // Subsequent receipts
   createReceipt,
@@ -41,6 +59,9 @@ export {
   generateRunId,
   updateChainHead,
 
+  // Timestamping
+  computeTimestampImprint,
+
   // Verification
   verifyReceipt,
 
@@ -53,6 +74,7 @@ export {
   // Bundle structure constants
   BUNDLE_FORMAT_VERSION,
   MIN_VERIFIER_VERSION,
+  DEMO_KEY_NAME,
   BUNDLE_PATHS,
 
   // Manifest generation
@@ -72,6 +94,21 @@ export {
   type MerkleProofEntry,
   type MerkleProofsFile,
 
+  // Checkpoints
+  generateCheckpointsFile,
+  type BundleCheckpoint,
+  type CheckpointsFile,
+
+  // Anchors
+  generateAnchorsFile,
+  type BundleAnchor,
+  type AnchorsFile,
+  type BundleEvidence,
+
+  // Lineage
+  generateLineageFile,
+  type LineageFile,
+
   // Utilities
   calculateChecksums,
   stringToBytes,
@@ -97,3 +134,11 @@ export {
   // Reader
   readBundleManifest,
 } from './generator';
+
+export {
+  // Archive reader
+  readBundleArchive,
+  loadBundleContents,
+  type InflateRaw,
+  type ReadArchiveOptions,
+} from './reader';
@@ -0,0 +1,176 @@
+/**
+ * Signing Key Rotation
+ * Per AGA Build Guide Phase 1.2 (Key Management) and Spec Section 8
+ *
+ * A rotation statement names a successor key and its predecessor. The
+ * predecessor signs it to hand over authority and the successor
+ * cross-signs it to prove possession. Key schedule entries carry the
+ * statement so a verifier can walk from a rotated key back to one it trusts.
+ */
+
+import { nowISO } from '../crypto/canonical';
+import { base64ToBytes, bytesToBase64, signObject, verifyObject } from '../crypto/signature';
+import { generateKeyIdHash } from '../crypto/keys';
+import { DOMAIN_SEPARATORS } from '../types';
+import type { KeyRotation, KeyScheduleEntry } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KeyRotationInput {
+  previousPrivateKey: Uint8Array;
+  previousPublicKey: Uint8Array;
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+  reason: string;
+  rotatedAt?: string;          // ISO 8601 (default: now)
+}
+
+export interface KeyLineage {
+  trusted: boolean;
+  path: string[];              // key_ids from the key checked back to the last one reached
+  reason?: string;
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/**
+ * The fields both keys sign
+ */
+function rotationStatement(entry: KeyScheduleEntry, rotation: KeyRotation): Record<string, unknown> {
+  return {
+    key_id: entry.key_id,
+    public_key: entry.public_key,
+    previous_key_id: rotation.previous_key_id,
+    previous_public_key: rotation.previous_public_key,
+    rotated_at: rotation.rotated_at,
+    reason: rotation.reason,
+  };
+}
+
+/**
+ * Rotate to a successor key. Returns the successor's key schedule entry;
+ * the caller records the predecessor as revoked at `rotated_at`.
+ */
+export async function createKeyRotation(input: KeyRotationInput): Promise<KeyScheduleEntry> {
+  const rotatedAt = input.rotatedAt ?? nowISO();
+  const entry: KeyScheduleEntry = {
+    key_id: await generateKeyIdHash(input.publicKey),
+    public_key: bytesToBase64(input.publicKey),
+    created_at: rotatedAt,
+  };
+  const unsigned: KeyRotation = {
+    previous_key_id: await generateKeyIdHash(input.previousPublicKey),
+    previous_public_key: bytesToBase64(input.previousPublicKey),
+    rotated_at: rotatedAt,
+    reason: input.reason,
+    signature: '',
+    successor_signature: '',
+  };
+
+  const statement = rotationStatement(entry, unsigned);
+  const [previous, successor] = await Promise.all([
+    signObject(input.previousPrivateKey, DOMAIN_SEPARATORS.KEYRING, statement),
+    signObject(input.privateKey, DOMAIN_SEPARATORS.KEYRING, statement),
+  ]);
+
+  return {
+    ...entry,
+    rotation: { ...unsigned, signature: previous.signature, successor_signature: successor.signature },
+  };
+}
+
+/**
+ * Check a rotated entry's statement: key ids match their keys and both
+ * keys signed it
+ */
+export async function verifyKeyRotation(entry: KeyScheduleEntry): Promise<{ valid: boolean; reason?: string }> {
+  const rotation = entry.rotation;
+  if (!rotation) {
+    return { valid: false, reason: `Key ${entry.key_id} has no rotation statement` };
+  }
+
+  try {
+    if (
+      (await generateKeyIdHash(base64ToBytes(entry.public_key))) !== entry.key_id ||
+      (await generateKeyIdHash(base64ToBytes(rotation.previous_public_key))) !== rotation.previous_key_id
+    ) {
+      return { valid: false, reason: `Rotation to ${entry.key_id} names a key_id that does not match its key` };
+    }
+
+    const statement = rotationStatement(entry, rotation);
+    const [previous, successor] = await Promise.all([
+      verifyObject(rotation.previous_public_key, rotation.signature, DOMAIN_SEPARATORS.KEYRING, statement),
+      verifyObject(entry.public_key, rotation.successor_signature, DOMAIN_SEPARATORS.KEYRING, statement),
+    ]);
+
+    if (!previous) {
+      return { valid: false, reason: `Rotation from ${rotation.previous_key_id} to ${entry.key_id} is not signed by the previous key` };
+    }
+    if (!successor) {
+      return { valid: false, reason: `Rotation from ${rotation.previous_key_id} to ${entry.key_id} is not cross-signed by the new key` };
+    }
+  } catch (error) {
+    return { valid: false, reason: `Rotation verification error: ${error instanceof Error ? error.message : error}` };
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// LINEAGE
+// ============================================================================
+
+/**
+ * Walk a key's rotation chain back through the key schedule until a key in
+ * `trusted` (key_ids or base64 public keys) is reached. A predecessor
+ * revoked before it signed the rotation cannot vouch for its successor.
+ */
+export async function resolveKeyLineage(
+  schedule: KeyScheduleEntry[],
+  key: { key_id: string; public_key: string },
+  trusted: string[]
+): Promise<KeyLineage> {
+  const path: string[] = [];
+  let current: KeyScheduleEntry =
+    schedule.find((entry) => entry.public_key === key.public_key) ?? { ...key, created_at: '' };
+
+  for (;;) {
+    path.push(current.key_id);
+    if (trusted.includes(current.key_id) || trusted.includes(current.public_key)) {
+      return { trusted: true, path };
+    }
+
+    const rotation = current.rotation;
+    if (!rotation) {
+      return { trusted: false, path, reason: `Key ${current.key_id} is not trusted and has no rotation statement` };
+    }
+    if (path.includes(rotation.previous_key_id)) {
+      return { trusted: false, path, reason: `Rotation chain loops at key ${rotation.previous_key_id}` };
+    }
+
+    const verification = await verifyKeyRotation(current);
+    if (!verification.valid) {
+      return { trusted: false, path, reason: verification.reason };
+    }
+
+    // The statement itself carries the predecessor when the schedule omits it
+    const previous: KeyScheduleEntry = schedule.find((entry) => entry.public_key === rotation.previous_public_key) ?? {
+      key_id: rotation.previous_key_id,
+      public_key: rotation.previous_public_key,
+      created_at: '',
+    };
+    if (previous.revoked_at && new Date(previous.revoked_at) < new Date(rotation.rotated_at)) {
+      return {
+        trusted: false,
+        path,
+        reason: `Key ${previous.key_id} was revoked at ${previous.revoked_at}, before rotating to ${current.key_id}`,
+      };
+    }
+
+    current = previous;
+  }
+}
@@ -14,6 +14,7 @@ import {
   signObject,
   verifyObject,
   bytesToBase64,
+  base64ToBytes,
 } from '../crypto/signature';
 import { sha256String } from '../crypto/hash';
 import { generateKeyIdHash } from '../crypto/keys';
@@ -27,7 +28,11 @@ import type {
   EnforcementAction,
   KeyScheduleEntry,
   Attestation,
+  ApprovalQuorum,
+  QuorumRequirement,
   Signer,
+  MeasurementSpec,
+  SubjectManifest,
 } from '../types';
 
 // ============================================================================
@@ -50,6 +55,13 @@ export interface ArtifactInput {
 
   // Optional payload inclusion
   payloadIncluded?: boolean;
+
+  // Optional runtime file measurements
+  measurements?: MeasurementSpec[];
+  subjectManifest?: SubjectManifest;
+
+  // Optional M-of-N attestations required before activation
+  approvalQuorum?: ApprovalQuorum;
 }
 
 export interface CreateArtifactOptions {
@@ -61,6 +73,8 @@ export interface CreateArtifactOptions {
     artifactId: string;
     policyHash: string;
   };
+  policyVersion?: number;            // Defaults to 1; successors increment their predecessor's
+  keySchedule?: KeyScheduleEntry[];  // Issuer key history, oldest first, with rotation statements
 }
 
 export interface ArtifactValidationResult {
@@ -69,6 +83,18 @@ export interface ArtifactValidationResult {
   warnings: string[];
 }
 
+export interface QuorumRequirementResult {
+  role: QuorumRequirement['role'];
+  threshold: number;
+  count: number;               // Valid attestations from distinct eligible keys
+  satisfied: boolean;
+}
+
+export interface QuorumEvaluation {
+  satisfied: boolean;
+  requirements: QuorumRequirementResult[];
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -107,6 +133,15 @@ export async function computeSealedHash(
   return sha256String(input);
 }
 
+/**
+ * The artifact as covered by policy_hash and the issuer signature.
+ * Attestations sign the policy_hash themselves, so they are added after
+ * issuance and hashed as an empty list.
+ */
+export function withoutAttestations<T extends { attestations: Attestation[] }>(artifact: T): T {
+  return { ...artifact, attestations: [] };
+}
+
 /**
  * Compute the policy_hash of a PolicyArtifact
  * Hash of canonical JSON with issuer.signature and policy_hash omitted
@@ -116,7 +151,7 @@ export async function computePolicyHash(
     issuer: Omit<Signer, 'signature'>;
   }
 ): Promise<string> {
-  const canonical = canonicalize(artifact);
+  const canonical = canonicalize(withoutAttestations(artifact));
   return sha256String(canonical);
 }
 
@@ -127,6 +162,8 @@ function createIntegrityPolicy(input: ArtifactInput): IntegrityPolicy {
   return {
     config_digest: input.metadataHash,
     config_source: 'CONFIG_SOURCE_C', // Customer-provided canonical config
+    ...(input.measurements && { measurements: input.measurements }),
+    ...(input.subjectManifest && { subject_manifest: input.subjectManifest }),
   };
 }
 
@@ -160,7 +197,7 @@ function createEnforcementPolicy(
 export async function createPolicyArtifact(
   options: CreateArtifactOptions
 ): Promise<PolicyArtifact> {
-  const { vaultId, privateKey, publicKey, input, previousArtifact } = options;
+  const { vaultId, privateKey, publicKey, input, previousArtifact, policyVersion = 1, keySchedule = [] } = options;
 
   // Generate artifact ID
   const artifactId = generateArtifactId();
@@ -184,7 +221,7 @@ export async function createPolicyArtifact(
     schema_version: SCHEMA_VERSION,
     protocol_version: PROTOCOL_VERSION,
 
-    policy_version: 1,
+    policy_version: policyVersion,
     vault_id: vaultId,
     artifact_id: artifactId,
 
@@ -206,13 +243,9 @@ export async function createPolicyArtifact(
     integrity_policy: createIntegrityPolicy(input),
     enforcement_policy: createEnforcementPolicy(input.enforcementAction),
 
-    key_schedule: [
-      {
-        key_id: keyId,
-        public_key: bytesToBase64(publicKey),
-        created_at: now,
-      },
-    ] as KeyScheduleEntry[],
+    key_schedule: keySchedule.some((k) => k.key_id === keyId)
+      ? keySchedule
+      : [...keySchedule, { key_id: keyId, public_key: bytesToBase64(publicKey), created_at: now }],
 
     disclosure_policy: {
       payload_included: input.payloadIncluded ?? false,
@@ -221,6 +254,10 @@ export async function createPolicyArtifact(
 
     attestations: [] as Attestation[],
 
+    ...(input.approvalQuorum && {
+      approval_quorum: input.approvalQuorum,
+    }),
+
     ...(previousArtifact && {
       previous_artifact_ref: {
         prior_artifact_id: previousArtifact.artifactId,
@@ -306,7 +343,7 @@ export async function verifyPolicyArtifact(
       artifact.issuer.public_key,
       artifact.issuer.signature,
       DOMAIN_SEPARATORS.BUNDLE,
-      artifact as unknown as Record<string, unknown>,
+      withoutAttestations(artifact) as unknown as Record<string, unknown>,
       ['issuer.signature']
     );
 
@@ -341,6 +378,11 @@ export async function verifyPolicyArtifact(
     warnings.push('Issuer key not found in key schedule');
   }
 
+  // 7. Verify approval quorum definition
+  if (artifact.approval_quorum) {
+    errors.push(...validateApprovalQuorum(artifact.approval_quorum));
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -348,6 +390,22 @@ export async function verifyPolicyArtifact(
   };
 }
 
+/**
+ * The fields an attestor signs
+ */
+function attestationSigningData(
+  artifact: Pick<PolicyArtifact, 'artifact_id' | 'policy_hash'>,
+  attestation: Omit<Attestation, 'signature'>
+): Record<string, unknown> {
+  return {
+    artifact_id: artifact.artifact_id,
+    policy_hash: artifact.policy_hash,
+    attestor_id: attestation.attestor_id,
+    role: attestation.role,
+    timestamp: attestation.timestamp,
+  };
+}
+
 /**
  * Add an attestation to a PolicyArtifact
  * Returns a new artifact with the attestation added
@@ -358,18 +416,10 @@ export async function addAttestation(
   privateKey: Uint8Array
 ): Promise<PolicyArtifact> {
   // Sign the attestation
-  const attestationData = {
-    artifact_id: artifact.artifact_id,
-    policy_hash: artifact.policy_hash,
-    attestor_id: attestation.attestor_id,
-    role: attestation.role,
-    timestamp: attestation.timestamp,
-  };
-
   const signResult = await signObject(
     privateKey,
     DOMAIN_SEPARATORS.BUNDLE,
-    attestationData
+    attestationSigningData(artifact, attestation)
   );
 
   const signedAttestation: Attestation = {
@@ -384,6 +434,108 @@ export async function addAttestation(
   };
 }
 
+/**
+ * Verify an attestation's signature against the artifact it attests
+ */
+export async function verifyAttestation(
+  artifact: Pick<PolicyArtifact, 'artifact_id' | 'policy_hash'>,
+  attestation: Attestation
+): Promise<boolean> {
+  try {
+    return await verifyObject(
+      attestation.public_key,
+      attestation.signature,
+      DOMAIN_SEPARATORS.BUNDLE,
+      attestationSigningData(artifact, attestation)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check an approval quorum definition; returns the problems found
+ */
+export function validateApprovalQuorum(quorum: ApprovalQuorum): string[] {
+  const errors: string[] = [];
+
+  if (!quorum || !Array.isArray(quorum.requirements) || quorum.requirements.length === 0) {
+    return ['Approval quorum must list at least one requirement'];
+  }
+
+  const roles = new Set<string>();
+  for (const requirement of quorum.requirements) {
+    if (!['witness', 'auditor', 'approver'].includes(requirement.role)) {
+      errors.push(`Invalid quorum role: ${requirement.role}`);
+      continue;
+    }
+    if (roles.has(requirement.role)) {
+      errors.push(`Duplicate quorum requirement for role ${requirement.role}`);
+    }
+    roles.add(requirement.role);
+
+    const attestors = requirement.attestors;
+    if (!Array.isArray(attestors) || attestors.length === 0 ||
+        !attestors.every((id) => typeof id === 'string' && id.length > 0)) {
+      errors.push(`Quorum requirement for ${requirement.role} must list its eligible attestor keys`);
+    }
+
+    if (!Number.isInteger(requirement.threshold) || requirement.threshold < 1) {
+      errors.push(`Quorum threshold for ${requirement.role} must be a positive integer`);
+    } else if (Array.isArray(attestors) && attestors.length > 0 && requirement.threshold > new Set(attestors).size) {
+      errors.push(
+        `Quorum threshold for ${requirement.role} exceeds its ${new Set(attestors).size} eligible attestors`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Count valid attestations against each quorum requirement. Attestations
+ * with bad signatures, or whose attestor_id is not att_<key id> of the key
+ * that signed them, are ignored; each key counts once per role.
+ */
+export async function evaluateApprovalQuorum(
+  artifact: Pick<PolicyArtifact, 'artifact_id' | 'policy_hash' | 'attestations'>,
+  quorum: ApprovalQuorum
+): Promise<QuorumEvaluation> {
+  const valid: { attestation: Attestation; keyId: string }[] = [];
+  for (const attestation of artifact.attestations) {
+    if (!(await verifyAttestation(artifact, attestation))) continue;
+
+    const keyId = await generateKeyIdHash(base64ToBytes(attestation.public_key));
+    if (attestation.attestor_id === `att_${keyId}`) {
+      valid.push({ attestation, keyId });
+    }
+  }
+
+  const requirements = quorum.requirements.map((requirement) => {
+    const keys = new Set<string>();
+    for (const { attestation, keyId } of valid) {
+      if (attestation.role !== requirement.role) continue;
+
+      const eligible = (requirement.attestors ?? []).some(
+        (id) => id === keyId || id === attestation.public_key
+      );
+      if (eligible) keys.add(keyId);
+    }
+
+    return {
+      role: requirement.role,
+      threshold: requirement.threshold,
+      count: keys.size,
+      satisfied: keys.size >= requirement.threshold,
+    };
+  });
+
+  return {
+    satisfied: requirements.every((r) => r.satisfied),
+    requirements,
+  };
+}
+
 /**
  * Serialize a PolicyArtifact to canonical JSON
  */
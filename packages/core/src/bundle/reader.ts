@@ -0,0 +1,211 @@
+/**
+ * Bundle Reader Module
+ * Per AGA Build Guide Phase 6
+ *
+ * Opens .agb archives and loads their contents from the BUNDLE_PATHS layout
+ * so they can be handed to the offline verifier.
+ */
+
+import {
+  BUNDLE_PATHS,
+  parseLedger,
+  bytesToString,
+  type AnchorsFile,
+  type CheckpointsFile,
+  type LineageFile,
+  type MerkleProofsFile,
+} from './structure';
+import type { BundleContents } from '../verifier';
+import type { BundleManifest, PolicyArtifact } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Inflates raw DEFLATE data. Archives written by BundleGenerator are stored
+ * uncompressed; callers supply an inflater to read bundles repacked by other
+ * ZIP tools.
+ */
+export type InflateRaw = (data: Uint8Array) => Uint8Array;
+
+export interface ReadArchiveOptions {
+  inflateRaw?: InflateRaw;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// ============================================================================
+// ZIP ARCHIVE
+// ============================================================================
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  throw new Error('Not a ZIP archive: end of central directory not found');
+}
+
+/**
+ * Read every file entry of a ZIP archive.
+ *
+ * Entries are located through the central directory. CRC-32 fields are not
+ * checked (BundleGenerator leaves them zero); file integrity is established by
+ * the manifest checksums instead.
+ */
+export function readBundleArchive(
+  archive: Uint8Array,
+  options: ReadArchiveOptions = {}
+): Map<string, Uint8Array> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  if (archive.byteLength < END_OF_CENTRAL_DIRECTORY_SIZE) {
+    throw new Error('Not a ZIP archive: file too short');
+  }
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`Corrupt central directory at entry ${i + 1}`);
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directory entries carry no data
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted entry not supported: ${name}`);
+    }
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt local header for ${name}`);
+    }
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (data.length !== compressedSize) {
+      throw new Error(`Truncated entry: ${name}`);
+    }
+
+    if (method === METHOD_STORED) {
+      files.set(name, data.slice());
+    } else if (method === METHOD_DEFLATE && options.inflateRaw) {
+      files.set(name, options.inflateRaw(data));
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`);
+    }
+  }
+
+  return files;
+}
+
+// ============================================================================
+// BUNDLE CONTENTS
+// ============================================================================
+
+function readJson<T>(files: Map<string, Uint8Array>, path: string): T {
+  const content = files.get(path);
+  if (!content) {
+    throw new Error(`Bundle is missing ${path}`);
+  }
+
+  try {
+    return JSON.parse(bytesToString(content)) as T;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load verifier input from the files of an unpacked bundle.
+ * The chain head is rebuilt from the manifest's chain summary.
+ */
+export function loadBundleContents(files: Map<string, Uint8Array>): BundleContents {
+  const manifest = readJson<BundleManifest>(files, BUNDLE_PATHS.MANIFEST);
+  const artifact = readJson<PolicyArtifact>(files, BUNDLE_PATHS.POLICY_ARTIFACT);
+
+  const ledger = files.get(BUNDLE_PATHS.LEDGER);
+  if (!ledger) {
+    throw new Error(`Bundle is missing ${BUNDLE_PATHS.LEDGER}`);
+  }
+
+  let receipts: BundleContents['receipts'];
+  try {
+    receipts = parseLedger(bytesToString(ledger));
+  } catch (error) {
+    throw new Error(
+      `Invalid receipt in ${BUNDLE_PATHS.LEDGER}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const contents: BundleContents = { manifest, artifact, receipts };
+
+  if (manifest.run_id && manifest.chain_head_hash) {
+    contents.chainHead = {
+      chain_v: '1',
+      run_id: manifest.run_id,
+      receipt_count: manifest.receipt_count,
+      head_counter: receipts.length > 0 ? receipts[receipts.length - 1].sequence_number : 0,
+      head_receipt_hash: manifest.chain_head_hash,
+      head_receipt_path: BUNDLE_PATHS.LEDGER,
+    };
+  }
+
+  if (files.has(BUNDLE_PATHS.KEYRING)) {
+    contents.keyring = readJson<unknown>(files, BUNDLE_PATHS.KEYRING);
+  }
+
+  if (files.has(BUNDLE_PATHS.MERKLE_PROOFS)) {
+    contents.merkleProofs = readJson<MerkleProofsFile>(files, BUNDLE_PATHS.MERKLE_PROOFS).proofs;
+  }
+
+  if (files.has(BUNDLE_PATHS.CHECKPOINTS)) {
+    contents.checkpoints = readJson<CheckpointsFile>(files, BUNDLE_PATHS.CHECKPOINTS).checkpoints;
+  }
+
+  if (files.has(BUNDLE_PATHS.ANCHORS)) {
+    contents.anchors = readJson<AnchorsFile>(files, BUNDLE_PATHS.ANCHORS).anchors;
+  }
+
+  if (files.has(BUNDLE_PATHS.LINEAGE)) {
+    contents.lineage = readJson<LineageFile>(files, BUNDLE_PATHS.LINEAGE).artifacts;
+  }
+
+  return contents;
+}
@@ -7,6 +7,8 @@
 
 import { canonicalize } from '../crypto/canonical';
 import { sha256String } from '../crypto/hash';
+import type { MerkleInclusionProof, MerkleConsistencyProof } from '../crypto/merkle';
+import type { ArweaveBlockHeader, SignedArweaveTransaction } from '../anchor/arweave';
 import type {
   BundleManifest,
   BundleFile,
@@ -22,12 +24,18 @@ import type {
 export const BUNDLE_FORMAT_VERSION = '1.0' as const;
 export const MIN_VERIFIER_VERSION = '1.0.0' as const;
 
+// Keyring label for ephemeral demo issuer keys
+export const DEMO_KEY_NAME = 'Demo key (ephemeral, not an issuer identity)';
+
 // Standard paths in the bundle
 export const BUNDLE_PATHS = {
   MANIFEST: 'manifest.json',
   POLICY_ARTIFACT: 'PolicyArtifact.json',
   LEDGER: 'ledger.jsonl',
   MERKLE_PROOFS: 'merkle/proofs.json',
+  CHECKPOINTS: 'merkle/checkpoints.json',
+  ANCHORS: 'anchor/anchors.json',
+  LINEAGE: 'lineage.json',
   KEYRING: 'keys/keyring.json',
   TIMESTAMP_TOKEN: 'timestamp_token.tst',
   PAYLOAD_DIR: 'payload/',
@@ -55,6 +63,8 @@ export interface KeyringEntry {
   name?: string;
   valid_from: string;
   valid_until?: string;
+  revoked_at?: string;      // Signatures made at or after this time are invalid
+  demo?: boolean;           // Ephemeral key generated for a demo run; vouches for no issuer
 }
 
 export interface Keyring {
@@ -65,12 +75,7 @@ export interface Keyring {
 export interface MerkleProofEntry {
   receipt_id: string;
   checkpoint_id: string;
-  proof: {
-    leaf_hash: string;
-    leaf_index: number;
-    siblings: Array<{ hash: string; position: 'left' | 'right' }>;
-    root: string;
-  };
+  proof: MerkleInclusionProof;
 }
 
 export interface MerkleProofsFile {
@@ -78,6 +83,41 @@ export interface MerkleProofsFile {
   proofs: MerkleProofEntry[];
 }
 
+export interface BundleCheckpoint {
+  checkpoint_id: string;
+  tree_size: number;            // Ledger receipts covered by log_root
+  log_root: string;             // Root over this_receipt_hash of those receipts
+  consistency_proof: MerkleConsistencyProof | null;  // Against the previous checkpoint
+}
+
+export interface CheckpointsFile {
+  version: '1.0';
+  checkpoints: BundleCheckpoint[];
+}
+
+export interface BundleAnchor {
+  checkpoint_id: string;        // Checkpoint whose log_root the transaction anchors
+  network_id: 'arweave';
+  transaction: SignedArweaveTransaction;  // As posted, carrying the checkpoint_anchor payload
+  block: ArweaveBlockHeader;    // Block the transaction was mined in
+}
+
+export interface AnchorsFile {
+  version: '1.0';
+  anchors: BundleAnchor[];
+}
+
+export interface BundleEvidence {
+  merkleProofs?: MerkleProofEntry[];
+  checkpoints?: BundleCheckpoint[];
+  anchors?: BundleAnchor[];
+}
+
+export interface LineageFile {
+  version: '1.0';
+  artifacts: PolicyArtifact[];  // Superseded versions, oldest first
+}
+
 // ============================================================================
 // MANIFEST GENERATOR
 // ============================================================================
@@ -87,7 +127,8 @@ export async function generateManifest(
   receipts: Receipt[],
   chainHead: ChainHead,
   options: BundleOptions,
-  files: Map<string, Uint8Array>
+  files: Map<string, Uint8Array>,
+  evidence: BundleEvidence = {}
 ): Promise<BundleManifest> {
   // Compute checksums for all files
   const bundleFiles: BundleFile[] = [];
@@ -108,12 +149,18 @@ export async function generateManifest(
   if (options.includeMerkleProofs) {
     components.push('merkle');
   }
+  if (evidence.anchors?.length) {
+    components.push('anchor');
+  }
   if (options.includeTimestampToken) {
     components.push('timestamp');
   }
   if (options.includePayload) {
     components.push('payload');
   }
+  if (files.has(BUNDLE_PATHS.LINEAGE)) {
+    components.push('lineage');
+  }
 
   const manifest: BundleManifest = {
     format_version: BUNDLE_FORMAT_VERSION,
@@ -134,8 +181,19 @@ export async function generateManifest(
       entrypoint: 'ag-verify',
     },
     optional: {
-      merkle: options.includeMerkleProofs ? {} : 'SKIPPED',
-      anchor: 'SKIPPED', // Arweave anchor is separate
+      merkle: options.includeMerkleProofs
+        ? {
+            proof_count: evidence.merkleProofs?.length ?? 0,
+            checkpoint_count: evidence.checkpoints?.length ?? 0,
+          }
+        : 'SKIPPED',
+      anchor: evidence.anchors?.length
+        ? {
+            network_id: 'arweave',
+            checkpoint_ids: evidence.anchors.map((a) => a.checkpoint_id),
+            tx_ids: evidence.anchors.map((a) => a.transaction.id),
+          }
+        : 'SKIPPED',
     },
   };
 
@@ -166,17 +224,21 @@ export function parseLedger(jsonl: string): Receipt[] {
 
 export function generateKeyring(
   artifact: PolicyArtifact,
-  platformPublicKey?: string
+  platformPublicKey?: string,
+  demoIssuer = false
 ): Keyring {
   const keys: KeyringEntry[] = [];
 
-  // Add issuer key
+  // Add issuer key, carrying any revocation from the key schedule
+  const issuerSchedule = artifact.key_schedule.find((k) => k.key_id === artifact.issuer.key_id);
   keys.push({
     key_id: artifact.issuer.key_id,
     public_key: artifact.issuer.public_key,
     role: 'issuer',
     valid_from: artifact.issued_at,
     valid_until: artifact.not_after || undefined,
+    revoked_at: issuerSchedule?.revoked_at,
+    ...(demoIssuer && { name: DEMO_KEY_NAME, demo: true }),
   });
 
   // Add attestor keys
@@ -200,6 +262,7 @@ export function generateKeyring(
         role: 'issuer',
         valid_from: key.created_at,
         valid_until: key.revoked_at,
+        revoked_at: key.revoked_at,
       });
     }
   }
@@ -234,6 +297,45 @@ export function generateMerkleProofsFile(
   };
 }
 
+// ============================================================================
+// CHECKPOINTS AGGREGATOR
+// ============================================================================
+
+export function generateCheckpointsFile(
+  checkpoints: BundleCheckpoint[]
+): CheckpointsFile {
+  return {
+    version: '1.0',
+    checkpoints,
+  };
+}
+
+// ============================================================================
+// ANCHORS AGGREGATOR
+// ============================================================================
+
+export function generateAnchorsFile(
+  anchors: BundleAnchor[]
+): AnchorsFile {
+  return {
+    version: '1.0',
+    anchors,
+  };
+}
+
+// ============================================================================
+// LINEAGE AGGREGATOR
+// ============================================================================
+
+export function generateLineageFile(
+  artifacts: PolicyArtifact[]
+): LineageFile {
+  return {
+    version: '1.0',
+    artifacts,
+  };
+}
+
 // ============================================================================
 // CHECKSUM CALCULATOR
 // ============================================================================
@@ -33,6 +33,26 @@ export {
   verifyCanonicalTestVector
 } from './canonical';
 
+// Merkle trees (RFC 6962)
+export {
+  hashLeaf,
+  hashNode,
+  buildMerkleTree,
+  computeMerkleRoot,
+  generateInclusionProof,
+  verifyInclusionProof,
+  rootFromAuditPath,
+  generateConsistencyProof,
+  verifyConsistencyProof,
+  MERKLE_LEAF_PREFIX,
+  MERKLE_NODE_PREFIX,
+  MERKLE_EMPTY_ROOT,
+  type MerkleTree,
+  type MerkleProofStep,
+  type MerkleInclusionProof,
+  type MerkleConsistencyProof,
+} from './merkle';
+
 // Ed25519 Signatures
 export {
   // Base64 encoding
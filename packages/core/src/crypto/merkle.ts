@@ -0,0 +1,400 @@
+/**
+ * Merkle Trees (RFC 6962 / RFC 9162)
+ * Per AGA Build Guide Phase 3.3 and Spec Section 13 (Checkpoints)
+ *
+ * Binary Merkle trees over hex digests with domain-separated hashing:
+ *   leaf = SHA-256(0x00 || data)
+ *   node = SHA-256(0x01 || left || right)
+ * Trees split at the largest power of two below the leaf count, so an odd
+ * trailing node is promoted unchanged instead of being paired with itself.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right';   // Side the sibling sits on
+}
+
+export interface MerkleTree {
+  root: string;
+  size: number;
+  leafHashes: string[];         // Domain-separated leaf hashes (layers[0])
+  layers: string[][];           // Bottom-up; the last layer holds the root
+}
+
+export interface MerkleInclusionProof {
+  leaf_index: number;
+  tree_size: number;
+  leaf_hash: string;            // Domain-separated leaf hash
+  audit_path: MerkleProofStep[];
+  root: string;
+}
+
+export interface MerkleConsistencyProof {
+  first_size: number;
+  second_size: number;
+  first_root: string;
+  second_root: string;
+  path: string[];               // SUBPROOF order (RFC 6962 Section 2.1.2)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MERKLE_LEAF_PREFIX = 0x00;
+export const MERKLE_NODE_PREFIX = 0x01;
+
+// Root of the empty tree: SHA-256 of the empty string
+export const MERKLE_EMPTY_ROOT = toHex(sha256(new Uint8Array(0)));
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Hash a leaf: SHA-256(0x00 || data)
+ * String input is treated as a hex digest and hashed as raw bytes.
+ */
+export function hashLeaf(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? fromHex(data) : data;
+  return toHex(sha256(concat(new Uint8Array([MERKLE_LEAF_PREFIX]), bytes)));
+}
+
+/**
+ * Hash an interior node: SHA-256(0x01 || left || right)
+ */
+export function hashNode(left: string, right: string): string {
+  return toHex(
+    sha256(concat(new Uint8Array([MERKLE_NODE_PREFIX]), fromHex(left), fromHex(right)))
+  );
+}
+
+// ============================================================================
+// TREE CONSTRUCTION
+// ============================================================================
+
+/**
+ * Build a Merkle tree over hex digests
+ * Leaves are hashed with the leaf prefix before the tree is built.
+ */
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  const leafHashes = leaves.map((leaf) => hashLeaf(leaf));
+
+  if (leafHashes.length === 0) {
+    return { root: MERKLE_EMPTY_ROOT, size: 0, leafHashes, layers: [[]] };
+  }
+
+  const layers: string[][] = [leafHashes];
+
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < current.length; i += 2) {
+      // A lone trailing node moves up as-is (RFC 6962 split rule)
+      next.push(i + 1 < current.length ? hashNode(current[i], current[i + 1]) : current[i]);
+    }
+
+    layers.push(next);
+  }
+
+  return {
+    root: layers[layers.length - 1][0],
+    size: leafHashes.length,
+    leafHashes,
+    layers,
+  };
+}
+
+/**
+ * Compute the Merkle root over hex digests
+ */
+export function computeMerkleRoot(leaves: string[]): string {
+  return buildMerkleTree(leaves).root;
+}
+
+// ============================================================================
+// INCLUSION PROOFS
+// ============================================================================
+
+/**
+ * Generate an inclusion proof for the leaf at the given index
+ */
+export function generateInclusionProof(
+  tree: MerkleTree,
+  leafIndex: number
+): MerkleInclusionProof {
+  if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= tree.size) {
+    throw new Error(`Leaf index ${leafIndex} out of range for tree of size ${tree.size}`);
+  }
+
+  const auditPath: MerkleProofStep[] = [];
+  let index = leafIndex;
+
+  for (let level = 0; level < tree.layers.length - 1; level++) {
+    const layer = tree.layers[level];
+    const isRight = index % 2 === 1;
+    const siblingIndex = isRight ? index - 1 : index + 1;
+
+    // No sibling means this node was promoted; nothing to hash at this level
+    if (siblingIndex < layer.length) {
+      auditPath.push({ hash: layer[siblingIndex], position: isRight ? 'left' : 'right' });
+    }
+
+    index = Math.floor(index / 2);
+  }
+
+  return {
+    leaf_index: leafIndex,
+    tree_size: tree.size,
+    leaf_hash: tree.leafHashes[leafIndex],
+    audit_path: auditPath,
+    root: tree.root,
+  };
+}
+
+/**
+ * Fold an audit path into a root, starting from a leaf hash
+ */
+export function rootFromAuditPath(leafHash: string, auditPath: MerkleProofStep[]): string {
+  return auditPath.reduce(
+    (current, step) =>
+      step.position === 'left' ? hashNode(step.hash, current) : hashNode(current, step.hash),
+    leafHash
+  );
+}
+
+/**
+ * Verify an inclusion proof
+ *
+ * Sibling positions are checked against the positions implied by
+ * leaf_index and tree_size (RFC 9162 Section 2.1.3.2), so a proof cannot
+ * be replayed for a different index or tree size.
+ */
+export function verifyInclusionProof(
+  proof: MerkleInclusionProof,
+  expectedRoot: string = proof.root
+): boolean {
+  try {
+    if (proof.root !== expectedRoot) {
+      return false;
+    }
+
+    if (
+      !Number.isInteger(proof.leaf_index) ||
+      !Number.isInteger(proof.tree_size) ||
+      proof.leaf_index < 0 ||
+      proof.leaf_index >= proof.tree_size
+    ) {
+      return false;
+    }
+
+    const expected = expectedPositions(proof.leaf_index, proof.tree_size);
+    if (
+      expected.length !== proof.audit_path.length ||
+      expected.some((position, i) => proof.audit_path[i].position !== position)
+    ) {
+      return false;
+    }
+
+    return rootFromAuditPath(proof.leaf_hash, proof.audit_path) === expectedRoot;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// CONSISTENCY PROOFS
+// ============================================================================
+
+/**
+ * Generate a proof that the first `firstSize` leaves of the tree form a
+ * prefix of it, i.e. that the tree only appended to the earlier log
+ */
+export function generateConsistencyProof(
+  tree: MerkleTree,
+  firstSize: number
+): MerkleConsistencyProof {
+  if (!Number.isInteger(firstSize) || firstSize < 1 || firstSize > tree.size) {
+    throw new Error(`First size ${firstSize} out of range for tree of size ${tree.size}`);
+  }
+
+  return {
+    first_size: firstSize,
+    second_size: tree.size,
+    first_root: subtreeRoot(tree.leafHashes.slice(0, firstSize)),
+    second_root: tree.root,
+    path: subproof(firstSize, tree.leafHashes, true),
+  };
+}
+
+/**
+ * Verify a consistency proof (RFC 9162 Section 2.1.4.2)
+ */
+export function verifyConsistencyProof(
+  proof: MerkleConsistencyProof,
+  expectedFirstRoot: string = proof.first_root,
+  expectedSecondRoot: string = proof.second_root
+): boolean {
+  try {
+    const { first_size: m, second_size: n, path } = proof;
+
+    if (proof.first_root !== expectedFirstRoot || proof.second_root !== expectedSecondRoot) {
+      return false;
+    }
+
+    if (!Number.isInteger(m) || !Number.isInteger(n) || m < 1 || m > n) {
+      return false;
+    }
+
+    if (m === n) {
+      return path.length === 0 && expectedFirstRoot === expectedSecondRoot;
+    }
+
+    if (path.length === 0) {
+      return false;
+    }
+
+    // A power-of-two prefix is a complete subtree; its root starts the walk
+    const nodes = isPowerOfTwo(m) ? [expectedFirstRoot, ...path] : [...path];
+
+    let fn = m - 1;
+    let sn = n - 1;
+    while (fn % 2 === 1) {
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
+    }
+
+    let fr = nodes[0];
+    let sr = nodes[0];
+
+    for (const c of nodes.slice(1)) {
+      if (sn === 0) {
+        return false;
+      }
+
+      if (fn % 2 === 1 || fn === sn) {
+        fr = hashNode(c, fr);
+        sr = hashNode(c, sr);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      } else {
+        sr = hashNode(sr, c);
+      }
+
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
+    }
+
+    return sn === 0 && fr === expectedFirstRoot && sr === expectedSecondRoot;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * SUBPROOF(m, D[n], b) over already leaf-hashed entries
+ */
+function subproof(m: number, hashes: string[], complete: boolean): string[] {
+  if (m === hashes.length) {
+    return complete ? [] : [subtreeRoot(hashes)];
+  }
+
+  const k = largestPowerOfTwoBelow(hashes.length);
+  if (m <= k) {
+    return [...subproof(m, hashes.slice(0, k), complete), subtreeRoot(hashes.slice(k))];
+  }
+  return [...subproof(m - k, hashes.slice(k), false), subtreeRoot(hashes.slice(0, k))];
+}
+
+/**
+ * MTH over already leaf-hashed entries
+ */
+function subtreeRoot(hashes: string[]): string {
+  if (hashes.length === 0) {
+    return MERKLE_EMPTY_ROOT;
+  }
+  if (hashes.length === 1) {
+    return hashes[0];
+  }
+
+  const k = largestPowerOfTwoBelow(hashes.length);
+  return hashNode(subtreeRoot(hashes.slice(0, k)), subtreeRoot(hashes.slice(k)));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Sibling positions for a leaf, per the RFC 9162 verification walk
+ */
+function expectedPositions(leafIndex: number, treeSize: number): Array<MerkleProofStep['position']> {
+  const positions: Array<MerkleProofStep['position']> = [];
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+
+  while (sn > 0) {
+    if (fn % 2 === 1 || fn === sn) {
+      positions.push('left');
+      // Skip levels where this node has no right sibling
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      positions.push('right');
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return positions;
+}
+
+function largestPowerOfTwoBelow(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Merkle input must be a hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -8,7 +8,10 @@
  * - Bundle format utilities
  * - Receipt chain logic
  * - Policy artifact logic
+ * - RFC 3161 timestamp clients and token verification
+ * - Offline checks on captured anchor transactions
  * - Offline verifier
+ * - Converters for legacy artifact and receipt formats
  */
 
 // Types
@@ -20,5 +23,14 @@ export * from './crypto';
 // Bundle
 export * from './bundle';
 
+// Timestamping
+export * from './tsa';
+
+// Anchor evidence
+export * from './anchor';
+
 // Verifier
 export * from './verifier';
+
+// Legacy formats
+export * from './legacy';
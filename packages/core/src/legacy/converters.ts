@@ -0,0 +1,699 @@
+/**
+ * Legacy Converters Module
+ * Per AGA Spec Section 5 (Policy Artifact) and Section 12 (Receipts)
+ *
+ * Converts legacy camelCase artifacts and receipts into the wire model and
+ * back. Conversion is lossless: fields without an exact wire mapping travel
+ * in `legacy.fields`, so the original object (and with it the original
+ * hashes and signatures) can always be restored and checked.
+ */
+
+import { canonicalize } from '../crypto/canonical';
+import { withoutAttestations } from '../bundle/policy-artifact';
+import { LEGACY_FORMATS, legacyHash, verifyLegacyObject } from './formats';
+import type {
+  PolicyArtifact,
+  Receipt,
+  Signer,
+  SigningKey,
+  EnforcementDecision,
+  ReceiptEventType,
+  ReasonCode,
+  TimeSource,
+  IntegrityPolicy,
+  KeyRotation,
+  LegacyFormat,
+} from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Artifact produced by src/lib/aga (format aga-lib/1.0.0)
+ */
+export interface LegacyAgaArtifact {
+  schemaVersion: string;
+  protocolVersion: string;
+  artifactId: string;
+  subjectIdentifier: { bytesHash: string; metadataHash: string };
+  policyReference: string;
+  policyVersion: number;
+  sealedHash: string;
+  evidenceCommitment: string;
+  salt: string;
+  issuedTimestamp: string;
+  effectiveTimestamp: string;
+  expirationTimestamp: string | null;
+  issuerIdentifier: string;
+  enforcementParameters: {
+    measurementCadenceMs: number;
+    ttlSeconds: number;
+    enforcementAction: string;
+    reattestationRequired: boolean;
+    reattestationIntervalSeconds: number | null;
+  };
+  disclosurePolicy: {
+    claimsTaxonomy: Array<{ claimType: string; sensitivity: string; disclosureLevel: string }>;
+    substitutionRules: Array<{ originalClaimType: string; substituteClaimType: string; conditions: string[] }>;
+  } | null;
+  signature: string;
+}
+
+/**
+ * Enforcement receipt produced by src/lib/aga (format aga-lib/1.0.0)
+ */
+export interface LegacyAgaReceipt {
+  schemaVersion: string;
+  protocolVersion: string;
+  receiptId: string;
+  receiptType: string;
+  artifactReference: {
+    artifactId: string;
+    artifactHash: string;
+    policyReference: string;
+    policyIssuerKeyId: string;
+  };
+  subjectIdentifier: { bytesHash: string; metadataHash: string };
+  measurement: {
+    sealedHash: string;
+    currentHash: string;
+    match: boolean;
+    measurementDetails: Array<{ type: string; hash: string; timestamp: string }>;
+    measurementTimestamp: string;
+    measurementLatencyMs: number;
+  };
+  enforcement: {
+    driftDetected: boolean;
+    driftDetails: {
+      expectedHash: string;
+      actualHash: string;
+      changedMeasurements: string[];
+      detectionTimestamp: string;
+      detectionLatencyMs: number;
+    } | null;
+    actionExecuted: string;
+    actionTimestamp: string;
+    actionOutcome: string;
+    outcomeDetails: Record<string, unknown>;
+  };
+  chainLinkage: {
+    sequenceNumber: number;
+    previousReceiptHash: string;
+    chainId: string;
+  };
+  timestamp: string;
+  portalIdentifier: string;
+  signature: string;
+}
+
+/**
+ * Policy document hashed by the /api/seal route (format portal-seal/1)
+ */
+export interface LegacyPortalArtifact {
+  schemaVersion: string;
+  protocolVersion: string;
+  policyVersion: number;
+  vaultId: string;
+  artifactId: string;
+  issuedAt: string;
+  notBefore: string;
+  notAfter: string | null;
+  subjectIdentifier: { bytesHash: string; metadataHash: string };
+  sealedHash: string;
+  salt: string;
+  integrityPolicy: { configDigest: string; configSource: string };
+  enforcementPolicy: { onDrift: string; onTtlExpired: string; onSignatureInvalid: string };
+  keySchedule: Array<{
+    keyId: string;
+    publicKey: string;
+    createdAt: string;
+    revokedAt?: string;
+    revocationReason?: string;
+    rotation?: KeyRotation;
+  }>;
+  disclosurePolicy: { payloadIncluded: boolean; claims: string[] };
+  attestations: unknown[];
+  previousArtifactRef?: { priorArtifactId: string; priorPolicyHash: string };
+}
+
+/**
+ * Genesis receipt document hashed by the /api/seal route (format portal-seal/1)
+ */
+export interface LegacyPortalReceipt {
+  receiptVersion: string;
+  runId: string;
+  sequenceNumber: number;
+  timestamp: string;
+  localTime: string;
+  monotonicCounter: number;
+  timeSource: string;
+  eventType: string;
+  decision: { action: string; reasonCode: string; details?: string };
+  policy: { policyId: string };
+  chain: { prevReceiptHash: string };
+}
+
+export type LegacyArtifact = LegacyAgaArtifact | LegacyPortalArtifact;
+export type LegacyReceipt = LegacyAgaReceipt | LegacyPortalReceipt;
+
+export interface LegacyConversionOptions {
+  signer?: Partial<Signer>;     // Key material the legacy object does not carry
+}
+
+export interface LegacyVerificationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Identify the legacy format of an artifact-like object
+ */
+export function detectLegacyArtifactFormat(value: unknown): LegacyFormat | null {
+  if (!isRecord(value)) return null;
+  if ('issuerIdentifier' in value && 'enforcementParameters' in value) return LEGACY_FORMATS.AGA_LIB;
+  if ('vaultId' in value && 'keySchedule' in value) return LEGACY_FORMATS.PORTAL_SEAL;
+  return null;
+}
+
+/**
+ * Identify the legacy format of a receipt-like object
+ */
+export function detectLegacyReceiptFormat(value: unknown): LegacyFormat | null {
+  if (!isRecord(value)) return null;
+  if ('receiptType' in value && 'chainLinkage' in value) return LEGACY_FORMATS.AGA_LIB;
+  if ('receiptVersion' in value && 'chain' in value) return LEGACY_FORMATS.PORTAL_SEAL;
+  return null;
+}
+
+// ============================================================================
+// ARTIFACT CONVERSION
+// ============================================================================
+
+/**
+ * Convert a legacy artifact into the wire model
+ */
+export function convertLegacyArtifact(
+  legacy: LegacyArtifact,
+  options: LegacyConversionOptions = {}
+): PolicyArtifact {
+  const format = detectLegacyArtifactFormat(legacy);
+
+  if (format === LEGACY_FORMATS.AGA_LIB) {
+    return convertAgaArtifact(legacy as LegacyAgaArtifact, options);
+  }
+  if (format === LEGACY_FORMATS.PORTAL_SEAL) {
+    return convertPortalArtifact(legacy as LegacyPortalArtifact, options);
+  }
+
+  throw new Error('Unrecognized legacy artifact format');
+}
+
+/**
+ * Restore the original legacy artifact from a converted wire artifact
+ */
+export function restoreLegacyArtifact(artifact: PolicyArtifact): LegacyArtifact {
+  const { legacy } = artifact;
+  if (!legacy) {
+    throw new Error(`Artifact ${artifact.artifact_id} was not converted from a legacy format`);
+  }
+
+  const f = legacy.fields;
+
+  if (legacy.format === LEGACY_FORMATS.AGA_LIB) {
+    const restored: LegacyAgaArtifact = {
+      schemaVersion: f.schemaVersion as string,
+      protocolVersion: f.protocolVersion as string,
+      artifactId: artifact.artifact_id,
+      subjectIdentifier: {
+        bytesHash: artifact.subject_identifier.bytes_hash,
+        metadataHash: artifact.subject_identifier.metadata_hash,
+      },
+      policyReference: f.policyReference as string,
+      policyVersion: artifact.policy_version,
+      sealedHash: artifact.sealed_hash,
+      evidenceCommitment: f.evidenceCommitment as string,
+      salt: f.salt as string,
+      issuedTimestamp: artifact.issued_at,
+      effectiveTimestamp: artifact.not_before,
+      expirationTimestamp: artifact.not_after,
+      issuerIdentifier: artifact.vault_id,
+      enforcementParameters: f.enforcementParameters as LegacyAgaArtifact['enforcementParameters'],
+      disclosurePolicy: f.disclosurePolicy as LegacyAgaArtifact['disclosurePolicy'],
+      signature: artifact.issuer.signature,
+    };
+    return restored;
+  }
+
+  const restored: LegacyPortalArtifact = {
+    schemaVersion: f.schemaVersion as string,
+    protocolVersion: f.protocolVersion as string,
+    policyVersion: artifact.policy_version,
+    vaultId: artifact.vault_id,
+    artifactId: artifact.artifact_id,
+    issuedAt: artifact.issued_at,
+    notBefore: artifact.not_before,
+    notAfter: artifact.not_after,
+    subjectIdentifier: {
+      bytesHash: artifact.subject_identifier.bytes_hash,
+      metadataHash: artifact.subject_identifier.metadata_hash,
+    },
+    sealedHash: artifact.sealed_hash,
+    salt: f.salt as string,
+    integrityPolicy: {
+      configDigest: artifact.integrity_policy.config_digest,
+      configSource: artifact.integrity_policy.config_source,
+    },
+    enforcementPolicy: f.enforcementPolicy as LegacyPortalArtifact['enforcementPolicy'],
+    keySchedule: artifact.key_schedule.map((key) => ({
+      keyId: key.key_id,
+      publicKey: key.public_key,
+      createdAt: key.created_at,
+      ...(key.revoked_at && { revokedAt: key.revoked_at }),
+      ...(key.revocation_reason && { revocationReason: key.revocation_reason }),
+      ...(key.rotation && { rotation: key.rotation }),
+    })),
+    disclosurePolicy: {
+      payloadIncluded: artifact.disclosure_policy.payload_included,
+      claims: artifact.disclosure_policy.claims,
+    },
+    attestations: f.attestations as unknown[],
+    ...(artifact.previous_artifact_ref && {
+      previousArtifactRef: {
+        priorArtifactId: artifact.previous_artifact_ref.prior_artifact_id,
+        priorPolicyHash: artifact.previous_artifact_ref.prior_policy_hash,
+      },
+    }),
+  };
+  return restored;
+}
+
+/**
+ * Policy hash of a converted artifact under its legacy format
+ */
+export function computeLegacyPolicyHash(artifact: PolicyArtifact): string {
+  return legacyHash(unsignedLegacyArtifact(artifact));
+}
+
+/**
+ * Verify a converted artifact's issuer signature under its legacy format
+ */
+export async function verifyLegacyArtifactSignature(
+  artifact: PolicyArtifact
+): Promise<LegacyVerificationResult> {
+  try {
+    const restored = restoreLegacyArtifact(artifact);
+    const roundTrip = convertLegacyArtifact(restored, { signer: artifact.issuer });
+    if (canonicalize(withoutAttestations(roundTrip)) !== canonicalize(withoutAttestations(artifact))) {
+      return { valid: false, reason: 'Wire fields do not match the legacy artifact' };
+    }
+
+    if (!artifact.issuer.signature) {
+      return { valid: false, reason: `Legacy ${artifact.legacy?.format} artifact carries no issuer signature` };
+    }
+
+    const valid = await verifyLegacyObject(
+      unsignedLegacyArtifact(artifact),
+      artifact.issuer.signature,
+      artifact.issuer.public_key
+    );
+    return valid ? { valid } : { valid, reason: 'Invalid legacy artifact signature' };
+  } catch (error) {
+    return { valid: false, reason: `Legacy artifact error: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+// ============================================================================
+// RECEIPT CONVERSION
+// ============================================================================
+
+/**
+ * Convert a legacy receipt into the wire model
+ */
+export function convertLegacyReceipt(
+  legacy: LegacyReceipt,
+  options: LegacyConversionOptions = {}
+): Receipt {
+  const format = detectLegacyReceiptFormat(legacy);
+
+  if (format === LEGACY_FORMATS.AGA_LIB) {
+    return convertAgaReceipt(legacy as LegacyAgaReceipt, options);
+  }
+  if (format === LEGACY_FORMATS.PORTAL_SEAL) {
+    return convertPortalReceipt(legacy as LegacyPortalReceipt, options);
+  }
+
+  throw new Error('Unrecognized legacy receipt format');
+}
+
+/**
+ * Restore the original legacy receipt from a converted wire receipt
+ */
+export function restoreLegacyReceipt(receipt: Receipt): LegacyReceipt {
+  const { legacy } = receipt;
+  if (!legacy) {
+    throw new Error(`Receipt ${receipt.receipt_id} was not converted from a legacy format`);
+  }
+
+  const f = legacy.fields;
+
+  if (legacy.format === LEGACY_FORMATS.AGA_LIB) {
+    const restored: LegacyAgaReceipt = {
+      schemaVersion: f.schemaVersion as string,
+      protocolVersion: f.protocolVersion as string,
+      receiptId: receipt.receipt_id,
+      receiptType: f.receiptType as string,
+      artifactReference: f.artifactReference as LegacyAgaReceipt['artifactReference'],
+      subjectIdentifier: f.subjectIdentifier as LegacyAgaReceipt['subjectIdentifier'],
+      measurement: f.measurement as LegacyAgaReceipt['measurement'],
+      enforcement: f.enforcement as LegacyAgaReceipt['enforcement'],
+      chainLinkage: {
+        sequenceNumber: receipt.sequence_number,
+        previousReceiptHash: receipt.chain.prev_receipt_hash,
+        chainId: receipt.run_id,
+      },
+      timestamp: receipt.timestamp,
+      portalIdentifier: f.portalIdentifier as string,
+      signature: receipt.signer.signature,
+    };
+    return restored;
+  }
+
+  const restored: LegacyPortalReceipt = {
+    receiptVersion: f.receiptVersion as string,
+    runId: receipt.run_id,
+    sequenceNumber: receipt.sequence_number,
+    timestamp: receipt.timestamp,
+    localTime: receipt.local_time,
+    monotonicCounter: receipt.monotonic_counter,
+    timeSource: receipt.time_source,
+    eventType: receipt.event_type,
+    decision: {
+      action: receipt.decision.action,
+      reasonCode: receipt.decision.reason_code,
+      ...(receipt.decision.details !== undefined ? { details: receipt.decision.details } : {}),
+    },
+    policy: { policyId: receipt.policy.policy_id },
+    chain: { prevReceiptHash: receipt.chain.prev_receipt_hash },
+  };
+  return restored;
+}
+
+/**
+ * Chain hash of a converted receipt under its legacy format
+ */
+export function computeLegacyReceiptHash(receipt: Receipt): string {
+  return legacyHash(restoreLegacyReceipt(receipt));
+}
+
+/**
+ * Verify a converted receipt's signature under its legacy format
+ */
+export async function verifyLegacyReceiptSignature(
+  receipt: Receipt
+): Promise<LegacyVerificationResult> {
+  try {
+    const restored = restoreLegacyReceipt(receipt);
+    const roundTrip = convertLegacyReceipt(restored, { signer: receipt.signer });
+    if (canonicalize(roundTrip) !== canonicalize(receipt)) {
+      return { valid: false, reason: 'Wire fields do not match the legacy receipt' };
+    }
+
+    if (!receipt.signer.signature) {
+      return { valid: false, reason: `Legacy ${receipt.legacy?.format} receipt carries no signature` };
+    }
+
+    // aga-lib receipts embed their signature; portal receipts are signed as a whole
+    const signed = receipt.legacy?.format === LEGACY_FORMATS.AGA_LIB
+      ? omitSignature(restored as LegacyAgaReceipt)
+      : restored;
+
+    const valid = await verifyLegacyObject(signed, receipt.signer.signature, receipt.signer.public_key);
+    return valid ? { valid } : { valid, reason: 'Invalid legacy receipt signature' };
+  } catch (error) {
+    return { valid: false, reason: `Legacy receipt error: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+// ============================================================================
+// FORMAT CONVERTERS
+// ============================================================================
+
+function convertAgaArtifact(legacy: LegacyAgaArtifact, options: LegacyConversionOptions): PolicyArtifact {
+  const issuer = requireSignerKey(options, 'aga-lib artifacts do not carry the issuer public key');
+  const claims = legacy.disclosurePolicy?.claimsTaxonomy.map((claim) => claim.claimType) ?? [];
+  const onDrift = toDecision(legacy.enforcementParameters.enforcementAction);
+
+  return {
+    schema_version: '1.0',
+    protocol_version: '1.0',
+    policy_version: legacy.policyVersion,
+    vault_id: legacy.issuerIdentifier,
+    artifact_id: legacy.artifactId,
+    issued_at: legacy.issuedTimestamp,
+    not_before: legacy.effectiveTimestamp,
+    not_after: legacy.expirationTimestamp,
+    issuer: { ...issuer, signature: legacy.signature },
+    subject_identifier: {
+      bytes_hash: legacy.subjectIdentifier.bytesHash,
+      metadata_hash: legacy.subjectIdentifier.metadataHash,
+    },
+    sealed_hash: legacy.sealedHash,
+    integrity_policy: {
+      config_digest: legacy.subjectIdentifier.metadataHash,
+      config_source: 'CONFIG_SOURCE_C',
+    },
+    enforcement_policy: {
+      on_drift: onDrift,
+      on_ttl_expired: 'KILL',
+      on_signature_invalid: 'KILL',
+    },
+    key_schedule: [{ key_id: issuer.key_id, public_key: issuer.public_key, created_at: legacy.issuedTimestamp }],
+    policy_hash: legacyHash(omitSignature(legacy)),
+    disclosure_policy: { payload_included: false, claims },
+    attestations: [],
+    legacy: {
+      format: LEGACY_FORMATS.AGA_LIB,
+      fields: {
+        schemaVersion: legacy.schemaVersion,
+        protocolVersion: legacy.protocolVersion,
+        policyReference: legacy.policyReference,
+        evidenceCommitment: legacy.evidenceCommitment,
+        salt: legacy.salt,
+        enforcementParameters: legacy.enforcementParameters,
+        disclosurePolicy: legacy.disclosurePolicy,
+      },
+    },
+  };
+}
+
+function convertPortalArtifact(legacy: LegacyPortalArtifact, options: LegacyConversionOptions): PolicyArtifact {
+  const primaryKey = legacy.keySchedule[0];
+
+  return {
+    schema_version: '1.0',
+    protocol_version: '1.0',
+    policy_version: legacy.policyVersion,
+    vault_id: legacy.vaultId,
+    artifact_id: legacy.artifactId,
+    issued_at: legacy.issuedAt,
+    not_before: legacy.notBefore,
+    not_after: legacy.notAfter,
+    issuer: {
+      public_key: options.signer?.public_key ?? primaryKey?.publicKey ?? '',
+      key_id: options.signer?.key_id ?? primaryKey?.keyId ?? '',
+      signature: options.signer?.signature ?? '',
+    },
+    subject_identifier: {
+      bytes_hash: legacy.subjectIdentifier.bytesHash,
+      metadata_hash: legacy.subjectIdentifier.metadataHash,
+    },
+    sealed_hash: legacy.sealedHash,
+    integrity_policy: {
+      config_digest: legacy.integrityPolicy.configDigest,
+      config_source: legacy.integrityPolicy.configSource as IntegrityPolicy['config_source'],
+    },
+    enforcement_policy: {
+      on_drift: toDecision(legacy.enforcementPolicy.onDrift),
+      on_ttl_expired: toDecision(legacy.enforcementPolicy.onTtlExpired),
+      on_signature_invalid: toBlockingDecision(legacy.enforcementPolicy.onSignatureInvalid),
+    },
+    key_schedule: legacy.keySchedule.map((key) => ({
+      key_id: key.keyId,
+      public_key: key.publicKey,
+      created_at: key.createdAt,
+      ...(key.revokedAt && { revoked_at: key.revokedAt }),
+      ...(key.revocationReason && { revocation_reason: key.revocationReason }),
+      ...(key.rotation && { rotation: key.rotation }),
+    })),
+    policy_hash: legacyHash(legacy),
+    disclosure_policy: {
+      payload_included: legacy.disclosurePolicy.payloadIncluded,
+      claims: legacy.disclosurePolicy.claims,
+    },
+    attestations: [],
+    ...(legacy.previousArtifactRef && {
+      previous_artifact_ref: {
+        prior_artifact_id: legacy.previousArtifactRef.priorArtifactId,
+        prior_policy_hash: legacy.previousArtifactRef.priorPolicyHash,
+      },
+    }),
+    legacy: {
+      format: LEGACY_FORMATS.PORTAL_SEAL,
+      fields: {
+        schemaVersion: legacy.schemaVersion,
+        protocolVersion: legacy.protocolVersion,
+        salt: legacy.salt,
+        enforcementPolicy: legacy.enforcementPolicy,
+        attestations: legacy.attestations,
+      },
+    },
+  };
+}
+
+function convertAgaReceipt(legacy: LegacyAgaReceipt, options: LegacyConversionOptions): Receipt {
+  const signer = requireSignerKey(options, 'aga-lib receipts do not carry the enforcement public key');
+  const { enforcement, measurement } = legacy;
+
+  return {
+    receipt_v: '1',
+    receipt_id: legacy.receiptId,
+    run_id: legacy.chainLinkage.chainId,
+    sequence_number: legacy.chainLinkage.sequenceNumber,
+    timestamp: legacy.timestamp,
+    local_time: legacy.timestamp,
+    monotonic_counter: legacy.chainLinkage.sequenceNumber,
+    time_source: 'DEGRADED_LOCAL',
+    event_type: toReceiptEventType(legacy.receiptType, measurement.match),
+    decision: {
+      action: enforcement.driftDetected ? toDecision(enforcement.actionExecuted) : 'CONTINUE',
+      reason_code: enforcement.driftDetected ? 'DRIFT_INTEGRITY' : 'OK',
+    },
+    policy: { policy_id: legacy.artifactReference.policyReference },
+    measurement: {
+      composite_hash: measurement.currentHash,
+      mismatched_paths: enforcement.driftDetails?.changedMeasurements ?? [],
+    },
+    chain: {
+      prev_receipt_hash: legacy.chainLinkage.previousReceiptHash,
+      this_receipt_hash: legacyHash(legacy),
+    },
+    signer: { ...signer, signature: legacy.signature },
+    legacy: {
+      format: LEGACY_FORMATS.AGA_LIB,
+      fields: {
+        schemaVersion: legacy.schemaVersion,
+        protocolVersion: legacy.protocolVersion,
+        receiptType: legacy.receiptType,
+        artifactReference: legacy.artifactReference,
+        subjectIdentifier: legacy.subjectIdentifier,
+        measurement: legacy.measurement,
+        enforcement: legacy.enforcement,
+        portalIdentifier: legacy.portalIdentifier,
+      },
+    },
+  };
+}
+
+function convertPortalReceipt(legacy: LegacyPortalReceipt, options: LegacyConversionOptions): Receipt {
+  const hash = legacyHash(legacy);
+
+  return {
+    receipt_v: '1',
+    receipt_id: hash,
+    run_id: legacy.runId,
+    sequence_number: legacy.sequenceNumber,
+    timestamp: legacy.timestamp,
+    local_time: legacy.localTime,
+    monotonic_counter: legacy.monotonicCounter,
+    time_source: legacy.timeSource as TimeSource,
+    event_type: legacy.eventType as ReceiptEventType,
+    decision: {
+      action: legacy.decision.action as EnforcementDecision,
+      reason_code: legacy.decision.reasonCode as ReasonCode,
+      ...(legacy.decision.details !== undefined ? { details: legacy.decision.details } : {}),
+    },
+    policy: { policy_id: legacy.policy.policyId },
+    chain: {
+      prev_receipt_hash: legacy.chain.prevReceiptHash,
+      this_receipt_hash: hash,
+    },
+    signer: {
+      public_key: options.signer?.public_key ?? '',
+      key_id: options.signer?.key_id ?? '',
+      signature: options.signer?.signature ?? '',
+    },
+    legacy: {
+      format: LEGACY_FORMATS.PORTAL_SEAL,
+      fields: { receiptVersion: legacy.receiptVersion },
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function unsignedLegacyArtifact(artifact: PolicyArtifact): unknown {
+  const restored = restoreLegacyArtifact(artifact);
+  return artifact.legacy?.format === LEGACY_FORMATS.AGA_LIB
+    ? omitSignature(restored as LegacyAgaArtifact)
+    : restored;
+}
+
+function omitSignature<T extends { signature: string }>(obj: T): Omit<T, 'signature'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { signature, ...rest } = obj;
+  return rest;
+}
+
+function requireSignerKey(options: LegacyConversionOptions, message: string): SigningKey {
+  if (!options.signer?.public_key || !options.signer.key_id) {
+    throw new Error(message);
+  }
+  return { public_key: options.signer.public_key, key_id: options.signer.key_id };
+}
+
+/**
+ * Map legacy enforcement actions onto wire decisions
+ */
+function toDecision(action: string): EnforcementDecision {
+  switch (action) {
+    case 'CONTINUE':
+    case 'ALERT':
+    case 'ALERT_ONLY':
+      return 'CONTINUE';
+    case 'QUARANTINE':
+    case 'NETWORK_ISOLATION':
+      return 'QUARANTINE';
+    case 'NONE':
+      return 'NONE';
+    default:
+      // KILL, TERMINATE, SAFE_STATE, BLOCK_START
+      return 'KILL';
+  }
+}
+
+function toBlockingDecision(action: string): Exclude<EnforcementDecision, 'CONTINUE'> {
+  const decision = toDecision(action);
+  return decision === 'CONTINUE' ? 'KILL' : decision;
+}
+
+function toReceiptEventType(receiptType: string, match: boolean): ReceiptEventType {
+  switch (receiptType) {
+    case 'MEASUREMENT':
+      return match ? 'MEASUREMENT_OK' : 'DRIFT_DETECTED';
+    case 'DRIFT':
+      return 'DRIFT_DETECTED';
+    default:
+      return 'ENFORCEMENT_ACTION';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
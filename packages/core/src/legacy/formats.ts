@@ -0,0 +1,120 @@
+/**
+ * Legacy Formats Module
+ * Per AGA Spec Section 5 (Policy Artifact) and Section 12 (Receipts)
+ *
+ * Hashing and signing rules for objects produced before the snake_case wire
+ * model. Legacy objects are canonicalized with sorted keys and null members
+ * dropped, hashed with SHA-256, and signed over the raw digest bytes with
+ * Ed25519 (no domain separator).
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToBase64, base64ToBytes } from '../crypto/signature';
+import type { LegacyFormat } from '../types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const LEGACY_FORMATS = {
+  AGA_LIB: 'aga-lib/1.0.0',          // camelCase artifacts and receipts from src/lib/aga
+  PORTAL_SEAL: 'portal-seal/1',      // Documents hashed by the /api/seal route
+} as const satisfies Record<string, LegacyFormat>;
+
+// ============================================================================
+// CANONICALIZATION
+// ============================================================================
+
+/**
+ * Canonical JSON as produced by the legacy portal libraries
+ *
+ * Keys are sorted recursively and null/undefined members are dropped. This is
+ * not RFC 8785; it is kept byte-for-byte so legacy hashes still verify.
+ */
+export function legacyCanonicalize(obj: unknown): string {
+  if (obj === null || obj === undefined) {
+    return '';
+  }
+
+  if (typeof obj !== 'object') {
+    return JSON.stringify(obj);
+  }
+
+  if (Array.isArray(obj)) {
+    return '[' + obj.map(legacyCanonicalize).join(',') + ']';
+  }
+
+  const record = obj as Record<string, unknown>;
+  const pairs: string[] = [];
+
+  for (const key of Object.keys(record).sort()) {
+    const value = record[key];
+    if (value !== undefined && value !== null) {
+      pairs.push(`"${key}":${legacyCanonicalize(value)}`);
+    }
+  }
+
+  return '{' + pairs.join(',') + '}';
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * SHA-256 of raw bytes as lowercase hex (synchronous)
+ */
+export function legacyHashBytes(bytes: Uint8Array): string {
+  return toHex(sha256(bytes));
+}
+
+/**
+ * SHA-256 of an object's legacy canonical form as lowercase hex
+ */
+export function legacyHash(obj: unknown): string {
+  return legacyHashBytes(new TextEncoder().encode(legacyCanonicalize(obj)));
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Sign an object under the legacy scheme: Ed25519(SHA-256(canonical))
+ * @returns Base64-encoded signature
+ */
+export async function signLegacyObject(obj: unknown, privateKey: Uint8Array): Promise<string> {
+  const signature = await ed.signAsync(legacyDigest(obj), privateKey);
+  return bytesToBase64(signature);
+}
+
+/**
+ * Verify a legacy-scheme signature
+ */
+export async function verifyLegacyObject(
+  obj: unknown,
+  signature: string,
+  publicKey: Uint8Array | string
+): Promise<boolean> {
+  try {
+    const pubKey = typeof publicKey === 'string' ? base64ToBytes(publicKey) : publicKey;
+    return await ed.verifyAsync(base64ToBytes(signature), legacyDigest(obj), pubKey);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function legacyDigest(obj: unknown): Uint8Array {
+  return sha256(new TextEncoder().encode(legacyCanonicalize(obj)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,46 @@
+/**
+ * Legacy Module Exports
+ * Per AGA Spec Section 5 (Policy Artifact) and Section 12 (Receipts)
+ */
+
+export {
+  // Formats
+  LEGACY_FORMATS,
+
+  // Canonicalization and hashing
+  legacyCanonicalize,
+  legacyHashBytes,
+  legacyHash,
+
+  // Signatures
+  signLegacyObject,
+  verifyLegacyObject,
+} from './formats';
+
+export {
+  // Format detection
+  detectLegacyArtifactFormat,
+  detectLegacyReceiptFormat,
+
+  // Artifacts
+  convertLegacyArtifact,
+  restoreLegacyArtifact,
+  computeLegacyPolicyHash,
+  verifyLegacyArtifactSignature,
+
+  // Receipts
+  convertLegacyReceipt,
+  restoreLegacyReceipt,
+  computeLegacyReceiptHash,
+  verifyLegacyReceiptSignature,
+
+  // Types
+  type LegacyAgaArtifact,
+  type LegacyAgaReceipt,
+  type LegacyPortalArtifact,
+  type LegacyPortalReceipt,
+  type LegacyArtifact,
+  type LegacyReceipt,
+  type LegacyConversionOptions,
+  type LegacyVerificationResult,
+} from './converters';
@@ -0,0 +1,268 @@
+/**
+ * Minimal ASN.1 DER Codec
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ *
+ * Just enough DER to build and read RFC 3161 requests, CMS SignedData and
+ * X.509 certificates: single-byte tags, definite lengths, no BER.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Asn1Node {
+  tag: number;              // Identifier octet, class and constructed bits included
+  bytes: Uint8Array;        // The complete TLV encoding
+  value: Uint8Array;        // Contents octets
+  children: Asn1Node[];     // Parsed contents of constructed nodes
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+/** Context-specific tag [n], constructed unless `primitive` */
+export function contextTag(n: number, primitive = false): number {
+  return (primitive ? 0x80 : 0xa0) | n;
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+function decodeAt(bytes: Uint8Array, offset: number): Asn1Node {
+  if (offset + 2 > bytes.length) {
+    throw new Error('Truncated DER');
+  }
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('Multi-byte DER tags are not supported');
+  }
+
+  let length = bytes[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) {
+      throw new Error('Unsupported DER length');
+    }
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    header += count;
+  }
+
+  const end = offset + header + length;
+  if (end > bytes.length) {
+    throw new Error('Truncated DER');
+  }
+
+  const value = bytes.subarray(offset + header, end);
+  const children: Asn1Node[] = [];
+  if (tag & 0x20) {
+    let child = 0;
+    while (child < value.length) {
+      const node = decodeAt(value, child);
+      children.push(node);
+      child += node.bytes.length;
+    }
+  }
+
+  return { tag, bytes: bytes.subarray(offset, end), value, children };
+}
+
+/**
+ * Decode a single DER value; trailing bytes are an error
+ */
+export function decodeDer(bytes: Uint8Array): Asn1Node {
+  const node = decodeAt(bytes, 0);
+  if (node.bytes.length !== bytes.length) {
+    throw new Error('Trailing data after DER value');
+  }
+  return node;
+}
+
+/**
+ * Assert a node's tag and return it
+ */
+export function expectTag(node: Asn1Node | undefined, tag: number, what: string): Asn1Node {
+  if (!node || node.tag !== tag) {
+    throw new Error(`Malformed ${what}`);
+  }
+  return node;
+}
+
+export function readOid(node: Asn1Node): string {
+  const bytes = expectTag(node, TAG.OID, 'object identifier').value;
+  const arcs: number[] = [];
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+  const first = arcs.shift() ?? 0;
+  const top = first < 40 ? 0 : first < 80 ? 1 : 2;
+  return [top, first - top * 40, ...arcs].join('.');
+}
+
+/** Unsigned big-endian integer contents as a bigint */
+export function readInteger(node: Asn1Node): bigint {
+  const bytes = expectTag(node, TAG.INTEGER, 'integer').value;
+  let value = BigInt(0);
+  for (let i = 0; i < bytes.length; i++) {
+    value = value * BigInt(256) + BigInt(bytes[i]);
+  }
+  // Negative integers do not occur in the structures we read
+  return value;
+}
+
+export function readTime(node: Asn1Node): Date {
+  const text = new TextDecoder().decode(node.value);
+
+  if (node.tag === TAG.UTC_TIME) {
+    const match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text);
+    if (!match) throw new Error(`Invalid UTCTime: ${text}`);
+    const year = Number(match[1]) + (Number(match[1]) < 50 ? 2000 : 1900);
+    return new Date(Date.UTC(year, +match[2] - 1, +match[3], +match[4], +match[5], +match[6]));
+  }
+
+  if (node.tag === TAG.GENERALIZED_TIME) {
+    const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?Z$/.exec(text);
+    if (!match) throw new Error(`Invalid GeneralizedTime: ${text}`);
+    const ms = match[7] ? Math.floor(Number(`0.${match[7]}`) * 1000) : 0;
+    return new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6], ms));
+  }
+
+  throw new Error('Malformed time');
+}
+
+/** BIT STRING contents without the unused-bits octet */
+export function readBitString(node: Asn1Node): Uint8Array {
+  return expectTag(node, TAG.BIT_STRING, 'bit string').value.subarray(1);
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff);
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+}
+
+/**
+ * Encode a TLV from its tag and contents
+ */
+export function der(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const value = concat(contents);
+  return concat([Uint8Array.of(tag), encodeLength(value.length), value]);
+}
+
+export const sequence = (...items: Uint8Array[]) => der(TAG.SEQUENCE, ...items);
+
+/** SET OF with elements in DER order */
+export function setOf(...items: Uint8Array[]): Uint8Array {
+  const sorted = [...items].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  });
+  return der(TAG.SET, ...sorted);
+}
+
+export function integer(value: bigint | number | Uint8Array): Uint8Array {
+  let bytes: Uint8Array;
+  if (value instanceof Uint8Array) {
+    bytes = value;
+  } else {
+    const hex = BigInt(value).toString(16);
+    const padded = hex.length % 2 ? `0${hex}` : hex;
+    bytes = Uint8Array.from(padded.match(/../g)!.map((h) => parseInt(h, 16)));
+  }
+
+  // Strip redundant leading zeros, then keep the value positive
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0 && !(bytes[start + 1] & 0x80)) start++;
+  bytes = bytes.subarray(start);
+  return der(TAG.INTEGER, bytes[0] & 0x80 ? concat([Uint8Array.of(0), bytes]) : bytes);
+}
+
+export function oid(dotted: string): Uint8Array {
+  const arcs = dotted.split('.').map(Number);
+  const body: number[] = [];
+  for (const arc of [arcs[0] * 40 + arcs[1], ...arcs.slice(2)]) {
+    const chunk = [arc & 0x7f];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift(0x80 | (n & 0x7f));
+    body.push(...chunk);
+  }
+  return der(TAG.OID, Uint8Array.from(body));
+}
+
+export const octetString = (bytes: Uint8Array) => der(TAG.OCTET_STRING, bytes);
+export const bitString = (bytes: Uint8Array) => der(TAG.BIT_STRING, Uint8Array.of(0), bytes);
+export const boolean = (value: boolean) => der(TAG.BOOLEAN, Uint8Array.of(value ? 0xff : 0));
+export const nullValue = () => der(TAG.NULL);
+export const utf8String = (text: string) => der(TAG.UTF8_STRING, new TextEncoder().encode(text));
+
+export function generalizedTime(date: Date): Uint8Array {
+  const text = date.toISOString().replace(/[-:T]/g, '').replace(/\.(\d{3})Z$/, (_, ms: string) => {
+    const trimmed = ms.replace(/0+$/, '');
+    return trimmed ? `.${trimmed}Z` : 'Z';
+  });
+  return der(TAG.GENERALIZED_TIME, new TextEncoder().encode(text));
+}
+
+/** UTCTime through 2049, GeneralizedTime after, as X.509 validity requires */
+export function x509Time(date: Date): Uint8Array {
+  if (date.getUTCFullYear() >= 2050) {
+    return generalizedTime(new Date(Math.floor(date.getTime() / 1000) * 1000));
+  }
+  const text = date.toISOString().slice(2, 19).replace(/[-:T]/g, '') + 'Z';
+  return der(TAG.UTC_TIME, new TextEncoder().encode(text));
+}
+
+/** [n] EXPLICIT wrapper */
+export const explicit = (n: number, ...contents: Uint8Array[]) => der(contextTag(n), ...contents);
+
+/**
+ * Re-tag an encoded value, as for IMPLICIT tagging
+ */
+export function retag(encoded: Uint8Array, tag: number): Uint8Array {
+  const copy = new Uint8Array(encoded);
+  copy[0] = tag;
+  return copy;
+}
@@ -0,0 +1,84 @@
+/**
+ * Timestamp Authority Clients
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ *
+ * A TsaClient turns a receipt's timestamp imprint into an RFC 3161 token.
+ * HttpTsaClient speaks the RFC 3161 HTTP transport to a real TSA.
+ */
+
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { bytesToBase64 } from '../crypto/signature';
+import {
+  createTimestampRequest,
+  encodeTimestampRequest,
+  grantedToken,
+  parseTimestampResponse,
+  parseTimestampToken,
+} from './rfc3161';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TsaClient {
+  /** Request a token over a hex SHA-256 imprint; resolves to base64 DER */
+  requestTimestamp(imprintHex: string): Promise<string>;
+}
+
+export interface HttpTsaClientOptions {
+  url: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;   // e.g. Authorization for commercial TSAs
+  fetch?: typeof fetch;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// HTTP CLIENT
+// ============================================================================
+
+export class HttpTsaClient implements TsaClient {
+  private options: HttpTsaClientOptions;
+
+  constructor(options: HttpTsaClientOptions) {
+    this.options = options;
+  }
+
+  async requestTimestamp(imprintHex: string): Promise<string> {
+    const request = createTimestampRequest(imprintHex);
+    const doFetch = this.options.fetch ?? fetch;
+
+    const response = await doFetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        ...this.options.headers,
+        'Content-Type': 'application/timestamp-query',
+        Accept: 'application/timestamp-reply',
+      },
+      body: new Uint8Array(encodeTimestampRequest(request)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`TSA request failed: HTTP ${response.status}`);
+    }
+
+    const token = grantedToken(parseTimestampResponse(new Uint8Array(await response.arrayBuffer())));
+
+    // The token must answer this request, not a replayed one
+    const { tstInfo } = parseTimestampToken(token);
+    if (bytesToHex(tstInfo.hashedMessage) !== imprintHex) {
+      throw new Error('TSA token imprint does not match request');
+    }
+    if (tstInfo.nonce !== request.nonce) {
+      throw new Error('TSA token nonce does not match request');
+    }
+
+    return bytesToBase64(token);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Timestamping Module Exports
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ */
+
+export {
+  // Clients
+  HttpTsaClient,
+  type TsaClient,
+  type HttpTsaClientOptions,
+} from './client';
+
+export {
+  // Local stand-in TSA
+  LocalTsa,
+  LOCAL_TSA_POLICY,
+  type LocalTsaAlgorithm,
+  type LocalTsaOptions,
+} from './local';
+
+export {
+  // Protocol
+  createTimestampRequest,
+  encodeTimestampRequest,
+  parseTimestampRequest,
+  parseTimestampResponse,
+  parseTimestampToken,
+  grantedToken,
+
+  // Verification
+  verifyTimestampToken,
+
+  // Types
+  type TimestampRequest,
+  type TimestampResponse,
+  type TimestampToken,
+  type TstInfo,
+  type TimestampVerification,
+  type TimestampVerificationOptions,
+} from './rfc3161';
+
+export {
+  // Certificates
+  parseCertificate,
+  decodeCertificate,
+  type Certificate,
+} from './x509';
@@ -0,0 +1,232 @@
+/**
+ * Local Timestamp Authority
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ *
+ * An in-process stand-in TSA for tests and air-gapped deployments. It
+ * issues a self-signed time-stamping certificate and answers RFC 3161
+ * requests with real tokens, so the same verifier path runs against it as
+ * against a commercial TSA. Its tokens only prove time to verifiers that
+ * trust its certificate.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha1 } from '@noble/hashes/legacy.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { bytesToBase64, generateKeyPair } from '../crypto/signature';
+import {
+  bitString,
+  boolean,
+  contextTag,
+  decodeDer,
+  der,
+  explicit,
+  generalizedTime,
+  integer,
+  octetString,
+  oid,
+  readBitString,
+  retag,
+  sequence,
+  setOf,
+  utf8String,
+  x509Time,
+} from './asn1';
+import { OID, digest } from './x509';
+import {
+  CMS_OID,
+  createTimestampRequest,
+  encodeTimestampRequest,
+  grantedToken,
+  parseTimestampRequest,
+  parseTimestampResponse,
+  type TimestampRequest,
+} from './rfc3161';
+import type { TsaClient } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LocalTsaAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+export interface LocalTsaOptions {
+  algorithm?: LocalTsaAlgorithm;
+  commonName?: string;
+  validityDays?: number;
+  now?: () => Date;             // Clock for genTime and certificate validity
+}
+
+interface LocalSigner {
+  publicKeyInfo: Uint8Array;
+  signatureAlgorithm: string;
+  digestAlgorithm: string;      // CMS digest for the signed attributes
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Policy OID stamped into local tokens (2.999 is the example arc) */
+export const LOCAL_TSA_POLICY = '2.999.3161';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// SIGNERS
+// ============================================================================
+
+async function ed25519Signer(): Promise<LocalSigner> {
+  const { publicKey, privateKey } = await generateKeyPair();
+  return {
+    publicKeyInfo: sequence(sequence(oid(OID.ED25519)), bitString(publicKey)),
+    signatureAlgorithm: OID.ED25519,
+    digestAlgorithm: OID.SHA512,    // RFC 8419
+    sign: (data) => ed.signAsync(data, privateKey),
+  };
+}
+
+async function ecdsaSigner(): Promise<LocalSigner> {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+  return {
+    publicKeyInfo: new Uint8Array(await crypto.subtle.exportKey('spki', keys.publicKey)),
+    signatureAlgorithm: OID.ECDSA_SHA256,
+    digestAlgorithm: OID.SHA256,
+    sign: async (data) => {
+      const raw = new Uint8Array(
+        await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keys.privateKey, new Uint8Array(data))
+      );
+      // WebCrypto returns r || s; X.509 and CMS carry ECDSA-Sig-Value
+      return sequence(integer(raw.subarray(0, 32)), integer(raw.subarray(32)));
+    },
+  };
+}
+
+// ============================================================================
+// LOCAL TSA
+// ============================================================================
+
+export class LocalTsa implements TsaClient {
+  /** Set to false to simulate an outage */
+  available = true;
+
+  private serial = 0;
+
+  private constructor(
+    private signer: LocalSigner,
+    private name: Uint8Array,
+    private certificateSerial: bigint,
+    readonly certificate: Uint8Array,
+    private now: () => Date
+  ) {}
+
+  /**
+   * Create a TSA with a fresh key and self-signed certificate
+   */
+  static async create(options: LocalTsaOptions = {}): Promise<LocalTsa> {
+    const now = options.now ?? (() => new Date());
+    const signer = options.algorithm === 'ECDSA-P256' ? await ecdsaSigner() : await ed25519Signer();
+    const name = sequence(setOf(sequence(oid(OID.COMMON_NAME), utf8String(options.commonName ?? 'AGA Local TSA'))));
+    const serial = BigInt(`0x${bytesToHex(crypto.getRandomValues(new Uint8Array(8)))}`);
+
+    const issuedAt = now();
+    const keyBits = readBitString(decodeDer(signer.publicKeyInfo).children[1]);
+    const algorithm = algorithmIdentifier(signer.signatureAlgorithm);
+    const tbs = sequence(
+      explicit(0, integer(2)),
+      integer(serial),
+      algorithm,
+      name,
+      sequence(
+        x509Time(new Date(issuedAt.getTime() - 60 * 1000)),
+        x509Time(new Date(issuedAt.getTime() + (options.validityDays ?? 365) * DAY_MS))
+      ),
+      name,
+      signer.publicKeyInfo,
+      explicit(
+        3,
+        sequence(
+          sequence(oid(OID.SUBJECT_KEY_IDENTIFIER), octetString(octetString(sha1(keyBits)))),
+          sequence(oid(OID.EXTENDED_KEY_USAGE), boolean(true), octetString(sequence(oid(OID.KP_TIME_STAMPING))))
+        )
+      )
+    );
+    const certificate = sequence(tbs, algorithm, bitString(await signer.sign(tbs)));
+
+    return new LocalTsa(signer, name, serial, certificate, now);
+  }
+
+  /** Certificate as base64 DER, the form verifiers take as a trust anchor */
+  get certificateB64(): string {
+    return bytesToBase64(this.certificate);
+  }
+
+  /**
+   * Answer a DER TimeStampReq with a DER TimeStampResp
+   */
+  async respond(requestDer: Uint8Array): Promise<Uint8Array> {
+    let request: TimestampRequest;
+    try {
+      request = parseTimestampRequest(requestDer);
+    } catch (error) {
+      // rejection, badDataFormat
+      return sequence(sequence(integer(2), sequence(utf8String(error instanceof Error ? error.message : 'Bad request'))));
+    }
+
+    const tstInfo = sequence(
+      integer(1),
+      oid(request.policy ?? LOCAL_TSA_POLICY),
+      sequence(sequence(oid(request.hashAlgorithm)), octetString(request.hashedMessage)),
+      integer(++this.serial),
+      generalizedTime(this.now()),
+      ...(request.nonce !== undefined ? [integer(request.nonce)] : [])
+    );
+
+    const signedAttributes = setOf(
+      sequence(oid(CMS_OID.CONTENT_TYPE), setOf(oid(CMS_OID.TST_INFO))),
+      sequence(oid(CMS_OID.MESSAGE_DIGEST), setOf(octetString(digest(this.signer.digestAlgorithm, tstInfo)))),
+      sequence(
+        oid(CMS_OID.SIGNING_CERTIFICATE_V2),
+        setOf(sequence(sequence(sequence(octetString(sha256(this.certificate))))))
+      )
+    );
+
+    const digestAlgorithm = algorithmIdentifier(this.signer.digestAlgorithm);
+    const signerInfo = sequence(
+      integer(1),
+      sequence(this.name, integer(this.certificateSerial)),
+      digestAlgorithm,
+      retag(signedAttributes, contextTag(0)),
+      algorithmIdentifier(this.signer.signatureAlgorithm),
+      octetString(await this.signer.sign(signedAttributes))
+    );
+
+    const signedData = sequence(
+      integer(3),
+      setOf(digestAlgorithm),
+      sequence(oid(CMS_OID.TST_INFO), explicit(0, octetString(tstInfo))),
+      ...(request.certReq ? [der(contextTag(0), this.certificate)] : []),
+      setOf(signerInfo)
+    );
+
+    return sequence(sequence(integer(0)), sequence(oid(CMS_OID.SIGNED_DATA), explicit(0, signedData)));
+  }
+
+  async requestTimestamp(imprintHex: string): Promise<string> {
+    if (!this.available) {
+      throw new Error('Local TSA unavailable');
+    }
+    const request = encodeTimestampRequest(createTimestampRequest(imprintHex));
+    return bytesToBase64(grantedToken(parseTimestampResponse(await this.respond(request))));
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** AlgorithmIdentifier with absent parameters, as Ed25519 and ECDSA require */
+function algorithmIdentifier(algorithm: string): Uint8Array {
+  return sequence(oid(algorithm));
+}
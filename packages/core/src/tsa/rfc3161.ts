@@ -0,0 +1,385 @@
+/**
+ * RFC 3161 Time-Stamp Protocol
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ *
+ * Builds TimeStampReq messages, reads TimeStampResp messages and verifies
+ * TimeStampToken (CMS SignedData over TSTInfo) against a message imprint.
+ */
+
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { base64ToBytes } from '../crypto/signature';
+import {
+  TAG,
+  boolean,
+  contextTag,
+  decodeDer,
+  expectTag,
+  integer,
+  octetString,
+  oid,
+  readInteger,
+  readOid,
+  readTime,
+  retag,
+  sequence,
+  type Asn1Node,
+} from './asn1';
+import {
+  OID,
+  bytesEqual,
+  digest,
+  isIssuedBy,
+  isTimeStampingCertificate,
+  parseCertificate,
+  readAlgorithm,
+  subjectKeyIdentifier,
+  verifySignature,
+  type Certificate,
+} from './x509';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CMS_OID = {
+  SIGNED_DATA: '1.2.840.113549.1.7.2',
+  TST_INFO: '1.2.840.113549.1.9.16.1.4',
+  CONTENT_TYPE: '1.2.840.113549.1.9.3',
+  MESSAGE_DIGEST: '1.2.840.113549.1.9.4',
+  SIGNING_CERTIFICATE: '1.2.840.113549.1.9.16.2.12',
+  SIGNING_CERTIFICATE_V2: '1.2.840.113549.1.9.16.2.47',
+} as const;
+
+/** PKIStatus values that carry a token */
+const GRANTED = 0;
+const GRANTED_WITH_MODS = 1;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TimestampRequest {
+  hashAlgorithm: string;
+  hashedMessage: Uint8Array;
+  policy?: string;
+  nonce?: bigint;
+  certReq: boolean;
+}
+
+export interface TimestampResponse {
+  status: number;
+  statusText?: string;
+  token?: Uint8Array;           // DER ContentInfo
+}
+
+export interface TstInfo {
+  policy: string;
+  hashAlgorithm: string;
+  hashedMessage: Uint8Array;
+  serialNumber: bigint;
+  genTime: Date;
+  nonce?: bigint;
+}
+
+export interface TimestampToken {
+  tstInfo: TstInfo;
+  eContent: Uint8Array;         // DER TSTInfo as signed
+  certificates: Certificate[];
+  signer: {
+    issuer?: Uint8Array;
+    serialNumber?: bigint;
+    subjectKeyIdentifier?: Uint8Array;
+    digestAlgorithm: string;
+    signedAttributes: Uint8Array;   // DER [0] IMPLICIT SET OF Attribute
+    attributes: Map<string, Asn1Node>;
+    signatureAlgorithm: string;
+    signature: Uint8Array;
+  };
+}
+
+export interface TimestampVerificationOptions {
+  trustedCertificates?: Uint8Array[];   // DER TSA or CA certificates
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  reason?: string;
+  genTime?: Date;
+  certificate?: Certificate;
+}
+
+// ============================================================================
+// REQUESTS AND RESPONSES
+// ============================================================================
+
+/**
+ * Encode a TimeStampReq for a SHA-256 imprint
+ */
+export function encodeTimestampRequest(request: TimestampRequest): Uint8Array {
+  return sequence(
+    integer(1),
+    sequence(sequence(oid(request.hashAlgorithm)), octetString(request.hashedMessage)),
+    ...(request.policy ? [oid(request.policy)] : []),
+    ...(request.nonce !== undefined ? [integer(request.nonce)] : []),
+    ...(request.certReq ? [boolean(true)] : [])
+  );
+}
+
+/**
+ * Build a request for a hex SHA-256 imprint with a fresh random nonce
+ */
+export function createTimestampRequest(imprintHex: string): TimestampRequest {
+  return {
+    hashAlgorithm: OID.SHA256,
+    hashedMessage: hexToBytes(imprintHex),
+    nonce: BigInt(`0x${bytesToHex(crypto.getRandomValues(new Uint8Array(8)))}`),
+    certReq: true,
+  };
+}
+
+export function parseTimestampRequest(der: Uint8Array): TimestampRequest {
+  const [version, imprint, ...rest] = expectTag(decodeDer(der), TAG.SEQUENCE, 'TimeStampReq').children;
+  if (readInteger(version) !== BigInt(1)) {
+    throw new Error('Unsupported TimeStampReq version');
+  }
+
+  const [algorithm, hashed] = expectTag(imprint, TAG.SEQUENCE, 'message imprint').children;
+  const policy = rest.find((node) => node.tag === TAG.OID);
+  const nonce = rest.find((node) => node.tag === TAG.INTEGER);
+  const certReq = rest.find((node) => node.tag === TAG.BOOLEAN);
+
+  return {
+    hashAlgorithm: readAlgorithm(algorithm),
+    hashedMessage: expectTag(hashed, TAG.OCTET_STRING, 'hashed message').value,
+    policy: policy && readOid(policy),
+    nonce: nonce && readInteger(nonce),
+    certReq: certReq ? certReq.value[0] !== 0 : false,
+  };
+}
+
+export function parseTimestampResponse(der: Uint8Array): TimestampResponse {
+  const [statusInfo, token] = expectTag(decodeDer(der), TAG.SEQUENCE, 'TimeStampResp').children;
+  const [status, text] = expectTag(statusInfo, TAG.SEQUENCE, 'PKIStatusInfo').children;
+
+  return {
+    status: Number(readInteger(status)),
+    statusText: text?.tag === TAG.SEQUENCE
+      ? text.children.map((s) => new TextDecoder().decode(s.value)).join('; ')
+      : undefined,
+    token: token?.bytes,
+  };
+}
+
+/**
+ * The token from a granted response; throws with the TSA's status otherwise
+ */
+export function grantedToken(response: TimestampResponse): Uint8Array {
+  if ((response.status !== GRANTED && response.status !== GRANTED_WITH_MODS) || !response.token) {
+    throw new Error(`TSA rejected request (status ${response.status}${response.statusText ? `: ${response.statusText}` : ''})`);
+  }
+  return response.token;
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function parseTstInfo(der: Uint8Array): TstInfo {
+  const [version, policy, imprint, serial, genTime, ...rest] =
+    expectTag(decodeDer(der), TAG.SEQUENCE, 'TSTInfo').children;
+  if (readInteger(version) !== BigInt(1)) {
+    throw new Error('Unsupported TSTInfo version');
+  }
+
+  const [algorithm, hashed] = expectTag(imprint, TAG.SEQUENCE, 'message imprint').children;
+  const nonce = rest.find((node) => node.tag === TAG.INTEGER);
+
+  return {
+    policy: readOid(policy),
+    hashAlgorithm: readAlgorithm(algorithm),
+    hashedMessage: expectTag(hashed, TAG.OCTET_STRING, 'hashed message').value,
+    serialNumber: readInteger(serial),
+    genTime: readTime(expectTag(genTime, TAG.GENERALIZED_TIME, 'genTime')),
+    nonce: nonce && readInteger(nonce),
+  };
+}
+
+/**
+ * Parse a DER TimeStampToken (ContentInfo wrapping SignedData)
+ */
+export function parseTimestampToken(der: Uint8Array): TimestampToken {
+  const [contentType, content] = expectTag(decodeDer(der), TAG.SEQUENCE, 'ContentInfo').children;
+  if (readOid(contentType) !== CMS_OID.SIGNED_DATA) {
+    throw new Error('Timestamp token is not CMS SignedData');
+  }
+
+  const signedData = expectTag(expectTag(content, contextTag(0), 'ContentInfo content').children[0], TAG.SEQUENCE, 'SignedData');
+  const [, , encapsulated, ...rest] = signedData.children;
+
+  const [eContentType, eContentWrapper] = expectTag(encapsulated, TAG.SEQUENCE, 'encapsulated content').children;
+  if (readOid(eContentType) !== CMS_OID.TST_INFO) {
+    throw new Error('Timestamp token does not contain TSTInfo');
+  }
+  const eContent = expectTag(
+    expectTag(eContentWrapper, contextTag(0), 'eContent').children[0],
+    TAG.OCTET_STRING,
+    'eContent'
+  ).value;
+
+  const certificatesNode = rest.find((node) => node.tag === contextTag(0));
+  const certificates = (certificatesNode?.children ?? [])
+    .filter((node) => node.tag === TAG.SEQUENCE)
+    .map((node) => parseCertificate(node.bytes));
+
+  const signerInfos = expectTag(rest[rest.length - 1], TAG.SET, 'signerInfos').children;
+  if (signerInfos.length !== 1) {
+    throw new Error(`Expected one SignerInfo, found ${signerInfos.length}`);
+  }
+
+  const [, sid, digestAlgorithm, signedAttrs, signatureAlgorithm, signature] =
+    expectTag(signerInfos[0], TAG.SEQUENCE, 'SignerInfo').children;
+  expectTag(signedAttrs, contextTag(0), 'signed attributes');
+
+  const attributes = new Map<string, Asn1Node>();
+  for (const attribute of signedAttrs.children) {
+    const [type, values] = expectTag(attribute, TAG.SEQUENCE, 'attribute').children;
+    attributes.set(readOid(type), expectTag(values, TAG.SET, 'attribute values').children[0]);
+  }
+
+  const signer: TimestampToken['signer'] = {
+    digestAlgorithm: readAlgorithm(digestAlgorithm),
+    signedAttributes: signedAttrs.bytes,
+    attributes,
+    signatureAlgorithm: readAlgorithm(signatureAlgorithm),
+    signature: expectTag(signature, TAG.OCTET_STRING, 'signature').value,
+  };
+  if (sid.tag === contextTag(0, true)) {
+    signer.subjectKeyIdentifier = sid.value;
+  } else {
+    const [issuer, serial] = expectTag(sid, TAG.SEQUENCE, 'signer identifier').children;
+    signer.issuer = issuer.bytes;
+    signer.serialNumber = readInteger(serial);
+  }
+
+  return { tstInfo: parseTstInfo(eContent), eContent, certificates, signer };
+}
+
+function findSignerCertificate(token: TimestampToken, candidates: Certificate[]): Certificate | undefined {
+  const { signer } = token;
+  return candidates.find((certificate) => {
+    if (signer.subjectKeyIdentifier) {
+      const ski = subjectKeyIdentifier(certificate);
+      return ski !== null && bytesEqual(ski, signer.subjectKeyIdentifier);
+    }
+    return certificate.serialNumber === signer.serialNumber && bytesEqual(certificate.issuer, signer.issuer!);
+  });
+}
+
+/** Whether the ESS signing-certificate attribute names this certificate */
+function signingCertificateMatches(token: TimestampToken, certificate: Certificate): boolean {
+  const v2 = token.signer.attributes.get(CMS_OID.SIGNING_CERTIFICATE_V2);
+  if (v2) {
+    const certId = v2.children[0]?.children[0];
+    if (!certId) return false;
+    const [first, second] = certId.children;
+    // hashAlgorithm defaults to SHA-256 and is then omitted
+    const algorithm = first.tag === TAG.SEQUENCE ? readAlgorithm(first) : OID.SHA256;
+    const hash = expectTag(first.tag === TAG.SEQUENCE ? second : first, TAG.OCTET_STRING, 'certificate hash').value;
+    return bytesEqual(digest(algorithm, certificate.der), hash);
+  }
+
+  const v1 = token.signer.attributes.get(CMS_OID.SIGNING_CERTIFICATE);
+  if (v1) {
+    const hash = v1.children[0]?.children[0]?.children[0];
+    return !!hash && bytesEqual(digest(OID.SHA1, certificate.der), expectTag(hash, TAG.OCTET_STRING, 'certificate hash').value);
+  }
+
+  return false;
+}
+
+async function isTrusted(certificate: Certificate, anchors: Certificate[]): Promise<boolean> {
+  for (const anchor of anchors) {
+    if (bytesEqual(anchor.der, certificate.der) || (await isIssuedBy(certificate, anchor))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Verify a base64 DER timestamp token against a hex SHA-256 imprint.
+ *
+ * Checks the imprint, the CMS signature over the signed attributes, that
+ * those attributes bind the TSTInfo and the signing certificate, and that
+ * the certificate is a time-stamping certificate valid at genTime. The
+ * certificate chain is only checked when trust anchors are supplied.
+ */
+export async function verifyTimestampToken(
+  tokenB64: string,
+  imprintHex: string,
+  options: TimestampVerificationOptions = {}
+): Promise<TimestampVerification> {
+  let token: TimestampToken;
+  try {
+    token = parseTimestampToken(base64ToBytes(tokenB64));
+  } catch (error) {
+    return { valid: false, reason: `Malformed timestamp token: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const { tstInfo, signer } = token;
+  const fail = (reason: string): TimestampVerification => ({ valid: false, reason, genTime: tstInfo.genTime });
+
+  if (tstInfo.hashAlgorithm !== OID.SHA256 || bytesToHex(tstInfo.hashedMessage) !== imprintHex) {
+    return fail('Timestamp imprint does not match receipt');
+  }
+
+  try {
+    const contentType = signer.attributes.get(CMS_OID.CONTENT_TYPE);
+    if (!contentType || readOid(contentType) !== CMS_OID.TST_INFO) {
+      return fail('Timestamp content-type attribute missing or wrong');
+    }
+
+    const messageDigest = signer.attributes.get(CMS_OID.MESSAGE_DIGEST);
+    if (!messageDigest || !bytesEqual(expectTag(messageDigest, TAG.OCTET_STRING, 'message digest').value, digest(signer.digestAlgorithm, token.eContent))) {
+      return fail('Timestamp message digest does not match TSTInfo');
+    }
+
+    const trusted = (options.trustedCertificates ?? []).map(parseCertificate);
+    const certificate = findSignerCertificate(token, [...token.certificates, ...trusted]);
+    if (!certificate) {
+      return fail('Timestamp signing certificate not found');
+    }
+
+    if (!signingCertificateMatches(token, certificate)) {
+      return fail('Timestamp signing-certificate attribute does not match signer');
+    }
+
+    // Signed attributes are signed as an explicit SET OF
+    const signed = await verifySignature(
+      certificate.publicKeyInfo,
+      signer.signatureAlgorithm,
+      signer.digestAlgorithm,
+      retag(signer.signedAttributes, TAG.SET),
+      signer.signature
+    );
+    if (!signed) {
+      return fail('Invalid timestamp token signature');
+    }
+
+    if (!isTimeStampingCertificate(certificate)) {
+      return fail('Signing certificate is not restricted to time stamping');
+    }
+
+    if (tstInfo.genTime < certificate.notBefore || tstInfo.genTime > certificate.notAfter) {
+      return fail('Timestamp genTime is outside the signing certificate validity');
+    }
+
+    if (trusted.length > 0 && !(await isTrusted(certificate, trusted))) {
+      return fail('Timestamp signing certificate is not trusted');
+    }
+
+    return { valid: true, genTime: tstInfo.genTime, certificate };
+  } catch (error) {
+    return fail(`Timestamp verification error: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * X.509 Certificates and Signature Algorithms
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ *
+ * Reads the parts of a TSA signing certificate the verifier relies on and
+ * checks signatures made with Ed25519, ECDSA (P-256, P-384) or RSA
+ * PKCS#1 v1.5 keys. Ed25519 goes through @noble/ed25519; ECDSA and RSA
+ * through WebCrypto.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256, sha384, sha512 } from '@noble/hashes/sha2.js';
+import { sha1 } from '@noble/hashes/legacy.js';
+import { base64ToBytes } from '../crypto/signature';
+import {
+  TAG,
+  contextTag,
+  decodeDer,
+  expectTag,
+  readBitString,
+  readInteger,
+  readOid,
+  readTime,
+  type Asn1Node,
+} from './asn1';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const OID = {
+  // Digests
+  SHA1: '1.3.14.3.2.26',
+  SHA256: '2.16.840.1.101.3.4.2.1',
+  SHA384: '2.16.840.1.101.3.4.2.2',
+  SHA512: '2.16.840.1.101.3.4.2.3',
+
+  // Keys and signatures
+  ED25519: '1.3.101.112',
+  EC_PUBLIC_KEY: '1.2.840.10045.2.1',
+  P256: '1.2.840.10045.3.1.7',
+  P384: '1.3.132.0.34',
+  ECDSA_SHA256: '1.2.840.10045.4.3.2',
+  ECDSA_SHA384: '1.2.840.10045.4.3.3',
+  ECDSA_SHA512: '1.2.840.10045.4.3.4',
+  RSA: '1.2.840.113549.1.1.1',
+  RSA_SHA256: '1.2.840.113549.1.1.11',
+  RSA_SHA384: '1.2.840.113549.1.1.12',
+  RSA_SHA512: '1.2.840.113549.1.1.13',
+
+  // Certificate extensions
+  SUBJECT_KEY_IDENTIFIER: '2.5.29.14',
+  EXTENDED_KEY_USAGE: '2.5.29.37',
+  KP_TIME_STAMPING: '1.3.6.1.5.5.7.3.8',
+  COMMON_NAME: '2.5.4.3',
+} as const;
+
+const DIGESTS: Record<string, { name: string; hash: (data: Uint8Array) => Uint8Array }> = {
+  [OID.SHA1]: { name: 'SHA-1', hash: sha1 },
+  [OID.SHA256]: { name: 'SHA-256', hash: sha256 },
+  [OID.SHA384]: { name: 'SHA-384', hash: sha384 },
+  [OID.SHA512]: { name: 'SHA-512', hash: sha512 },
+};
+
+const SIGNATURE_DIGESTS: Record<string, string> = {
+  [OID.ECDSA_SHA256]: OID.SHA256,
+  [OID.ECDSA_SHA384]: OID.SHA384,
+  [OID.ECDSA_SHA512]: OID.SHA512,
+  [OID.RSA_SHA256]: OID.SHA256,
+  [OID.RSA_SHA384]: OID.SHA384,
+  [OID.RSA_SHA512]: OID.SHA512,
+};
+
+const CURVES: Record<string, { name: string; size: number }> = {
+  [OID.P256]: { name: 'P-256', size: 32 },
+  [OID.P384]: { name: 'P-384', size: 48 },
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CertificateExtension {
+  critical: boolean;
+  value: Uint8Array;        // extnValue contents (DER of the extension type)
+}
+
+export interface Certificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  serialNumber: bigint;
+  issuer: Uint8Array;       // DER Name
+  subject: Uint8Array;      // DER Name
+  notBefore: Date;
+  notAfter: Date;
+  publicKeyInfo: Asn1Node;
+  extensions: Map<string, CertificateExtension>;
+  signatureAlgorithm: string;
+  signature: Uint8Array;
+}
+
+// ============================================================================
+// DIGESTS
+// ============================================================================
+
+/**
+ * Hash data with the digest an algorithm OID names
+ */
+export function digest(algorithmOid: string, data: Uint8Array): Uint8Array {
+  const entry = DIGESTS[algorithmOid];
+  if (!entry) {
+    throw new Error(`Unsupported digest algorithm ${algorithmOid}`);
+  }
+  return entry.hash(data);
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// ============================================================================
+// CERTIFICATES
+// ============================================================================
+
+/** AlgorithmIdentifier OID */
+export function readAlgorithm(node: Asn1Node | undefined): string {
+  return readOid(expectTag(node, TAG.SEQUENCE, 'algorithm identifier').children[0]);
+}
+
+/**
+ * Parse a DER X.509 certificate
+ */
+export function parseCertificate(der: Uint8Array): Certificate {
+  const root = expectTag(decodeDer(der), TAG.SEQUENCE, 'certificate');
+  const [tbsNode, signatureAlgorithm, signature] = root.children;
+  const tbs = expectTag(tbsNode, TAG.SEQUENCE, 'TBSCertificate').children;
+
+  // Skip the optional [0] version
+  const fields = tbs[0]?.tag === contextTag(0) ? tbs.slice(1) : tbs;
+  const [serial, , issuer, validity, subject, publicKeyInfo, ...optional] = fields;
+
+  const extensions = new Map<string, CertificateExtension>();
+  const extensionsNode = optional.find((node) => node.tag === contextTag(3));
+  for (const extension of extensionsNode?.children[0]?.children ?? []) {
+    const [id, second, third] = extension.children;
+    const critical = second.tag === TAG.BOOLEAN ? second.value[0] !== 0 : false;
+    const value = expectTag(second.tag === TAG.BOOLEAN ? third : second, TAG.OCTET_STRING, 'extension').value;
+    extensions.set(readOid(id), { critical, value });
+  }
+
+  const [notBefore, notAfter] = expectTag(validity, TAG.SEQUENCE, 'validity').children;
+
+  return {
+    der,
+    tbs: tbsNode.bytes,
+    serialNumber: readInteger(serial),
+    issuer: expectTag(issuer, TAG.SEQUENCE, 'issuer').bytes,
+    subject: expectTag(subject, TAG.SEQUENCE, 'subject').bytes,
+    notBefore: readTime(notBefore),
+    notAfter: readTime(notAfter),
+    publicKeyInfo: expectTag(publicKeyInfo, TAG.SEQUENCE, 'subject public key info'),
+    extensions,
+    signatureAlgorithm: readAlgorithm(signatureAlgorithm),
+    signature: readBitString(signature),
+  };
+}
+
+/**
+ * Whether the certificate is restricted to time stamping, as RFC 3161
+ * section 2.3 requires of TSA certificates
+ */
+export function isTimeStampingCertificate(certificate: Certificate): boolean {
+  const usage = certificate.extensions.get(OID.EXTENDED_KEY_USAGE);
+  if (!usage?.critical) {
+    return false;
+  }
+  const purposes = decodeDer(usage.value).children.map(readOid);
+  return purposes.length === 1 && purposes[0] === OID.KP_TIME_STAMPING;
+}
+
+/**
+ * Subject key identifier extension value, if present
+ */
+export function subjectKeyIdentifier(certificate: Certificate): Uint8Array | null {
+  const extension = certificate.extensions.get(OID.SUBJECT_KEY_IDENTIFIER);
+  return extension ? expectTag(decodeDer(extension.value), TAG.OCTET_STRING, 'key identifier').value : null;
+}
+
+/**
+ * Whether `certificate` was issued by `issuer`: names chain and the
+ * issuer's key signed it
+ */
+export async function isIssuedBy(certificate: Certificate, issuer: Certificate): Promise<boolean> {
+  if (!bytesEqual(certificate.issuer, issuer.subject)) {
+    return false;
+  }
+  return verifySignature(issuer.publicKeyInfo, certificate.signatureAlgorithm, null, certificate.tbs, certificate.signature);
+}
+
+/**
+ * Decode a PEM or base64 DER certificate
+ */
+export function decodeCertificate(text: string): Uint8Array {
+  const body = text.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+  return base64ToBytes(body);
+}
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+/** DER ECDSA-Sig-Value to the fixed-size r || s form WebCrypto takes */
+function ecdsaRawSignature(signature: Uint8Array, size: number): Uint8Array {
+  const [r, s] = decodeDer(signature).children.map((n) => expectTag(n, TAG.INTEGER, 'ECDSA signature').value);
+  const raw = new Uint8Array(size * 2);
+  [r, s].forEach((part, i) => {
+    const trimmed = part.subarray(Math.max(0, part.length - size));
+    raw.set(trimmed, (i + 1) * size - trimmed.length);
+  });
+  return raw;
+}
+
+/**
+ * Verify a signature with a SubjectPublicKeyInfo key.
+ * `digestAlgorithm` is the CMS digest, used when the signature algorithm
+ * does not name its own hash (rsaEncryption, ecPublicKey).
+ */
+export async function verifySignature(
+  publicKeyInfo: Asn1Node,
+  signatureAlgorithm: string,
+  digestAlgorithm: string | null,
+  data: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean> {
+  const [algorithm, key] = publicKeyInfo.children;
+  const keyType = readAlgorithm(algorithm);
+
+  try {
+    if (keyType === OID.ED25519) {
+      return await ed.verifyAsync(signature, data, readBitString(key));
+    }
+
+    const hashOid = SIGNATURE_DIGESTS[signatureAlgorithm] ?? digestAlgorithm;
+    const hash = hashOid ? DIGESTS[hashOid]?.name : undefined;
+    if (!hash) {
+      return false;
+    }
+
+    const spki = new Uint8Array(publicKeyInfo.bytes);
+    if (keyType === OID.EC_PUBLIC_KEY) {
+      const curve = CURVES[readOid(algorithm.children[1])];
+      if (!curve) return false;
+      const cryptoKey = await crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: curve.name }, false, ['verify']);
+      return await crypto.subtle.verify(
+        { name: 'ECDSA', hash },
+        cryptoKey,
+        new Uint8Array(ecdsaRawSignature(signature, curve.size)),
+        new Uint8Array(data)
+      );
+    }
+
+    if (keyType === OID.RSA) {
+      const cryptoKey = await crypto.subtle.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify']);
+      return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', cryptoKey, new Uint8Array(signature), new Uint8Array(data));
+    }
+
+    return false;
+  } catch {
+    return false;
+  }
+}
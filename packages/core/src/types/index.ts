@@ -12,6 +12,7 @@ export const DOMAIN_SEPARATORS = {
   RELEASE: 'ai.release.v1:',
   KEYRING: 'ai.keyring.v1:',
   SUBJECT: 'ai.subject.v1:',
+  ANCHOR: 'ai.anchor.v1:',
 } as const;
 
 export type DomainSeparator = typeof DOMAIN_SEPARATORS[keyof typeof DOMAIN_SEPARATORS];
@@ -38,7 +39,10 @@ export type ReceiptEventType =
   | 'RUN_ENDED'
   | 'CHECKPOINT'
   | 'BUNDLE_EXPORTED'
-  | 'ATTESTATION';
+  | 'ATTESTATION'
+  | 'REPLAY_DETECTED'
+  | 'SEQUENCE_INVALID'
+  | 'REVOCATION';
 
 export type ReasonCode =
   | 'OK'
@@ -46,6 +50,7 @@ export type ReasonCode =
   | 'TTL_EXPIRED'
   | 'SIGNATURE_INVALID'
   | 'SUBJECT_MISSING'
+  | 'SUBJECT_UNREADABLE'
   | 'POLICY_MISMATCH'
   | 'DRIFT_INTEGRITY'
   | 'DRIFT_TELEMETRY'
@@ -55,7 +60,16 @@ export type ReasonCode =
   | 'INVALID_SIGNATURE'
   | 'TSA_UNAVAILABLE'
   | 'REPLAY_DETECTED'
-  | 'SEQUENCE_INVALID';
+  | 'SEQUENCE_INVALID'
+  | RevocationReasonCode;
+
+// Why an issuer withdrew an artifact (REVOCATION receipts)
+export type RevocationReasonCode =
+  | 'KEY_COMPROMISE'
+  | 'SUBJECT_COMPROMISED'
+  | 'POLICY_WITHDRAWN'
+  | 'ISSUED_IN_ERROR'
+  | 'CESSATION_OF_OPERATION';
 
 export type TimeSource = 'TSA' | 'DEGRADED_LOCAL';
 
@@ -86,6 +100,28 @@ export interface KeyScheduleEntry {
   stream_id?: string;
   created_at: string;
   revoked_at?: string;
+  revocation_reason?: string;
+  rotation?: KeyRotation;  // Present when this key succeeded another
+}
+
+export interface KeyRotation {
+  previous_key_id: string;
+  previous_public_key: string;
+  rotated_at: string;          // ISO 8601; the previous key is revoked from here
+  reason: string;
+  signature: string;           // Previous key over the rotation statement (ai.keyring.v1:)
+  successor_signature: string; // This key over the same statement
+}
+
+// ============================================================================
+// LEGACY PROVENANCE (objects converted from pre-wire formats)
+// ============================================================================
+
+export type LegacyFormat = 'aga-lib/1.0.0' | 'portal-seal/1';
+
+export interface LegacyProvenance {
+  format: LegacyFormat;
+  fields: Record<string, unknown>;   // Legacy fields with no exact wire mapping
 }
 
 // ============================================================================
@@ -107,8 +143,14 @@ export interface IntegrityPolicy {
   config_digest: string;
   config_source: 'CONFIG_SOURCE_A' | 'CONFIG_SOURCE_B' | 'CONFIG_SOURCE_C';
   sbom_digest?: string;
+  measurements?: MeasurementSpec[];        // Runtime FILE_DIGEST measurements
+  subject_manifest?: SubjectManifest;      // Sealed per-path reference digests
 }
 
+export type TelemetryComparator =
+  | '<' | '<=' | '>' | '>=' | '==' | '!='
+  | 'LESS_THAN' | 'LESS_THAN_OR_EQUAL' | 'GREATER_THAN' | 'GREATER_THAN_OR_EQUAL' | 'EQUAL' | 'NOT_EQUAL';
+
 export interface StreamDefinition {
   stream_id: string;
   cadence_seconds: number;
@@ -116,7 +158,7 @@ export interface StreamDefinition {
     type: 'RANGE' | 'THRESHOLD';
     min?: number;
     max?: number;
-    comparator?: '<' | '<=' | '>' | '>=' | '==' | '!=';
+    comparator?: TelemetryComparator;
     value?: number;
   };
   missing_data_tolerance_seconds: number;
@@ -185,11 +227,17 @@ export interface PolicyArtifact {
   // Attestations
   attestations: Attestation[];
 
+  // Attestations required before the artifact may become ACTIVE
+  approval_quorum?: ApprovalQuorum;
+
   // Previous version linkage
   previous_artifact_ref?: {
     prior_artifact_id: string;
     prior_policy_hash: string;
   };
+
+  // Set when converted from a legacy format; hashes and signatures follow it
+  legacy?: LegacyProvenance;
 }
 
 // ============================================================================
@@ -212,7 +260,8 @@ export interface Receipt {
   local_time: string;
   monotonic_counter: number;
   time_source: TimeSource;
-  tsa_token?: string;
+  tsa_token?: string;                // Base64 DER RFC 3161 token over the timestamp imprint
+  time_source_reason?: ReasonCode;   // Why a configured TSA was not used
 
   // Event data
   event_type: ReceiptEventType;
@@ -243,6 +292,9 @@ export interface Receipt {
 
   // Signer
   signer: Signer;
+
+  // Set when converted from a legacy format; hashes and signatures follow it
+  legacy?: LegacyProvenance;
 }
 
 // ============================================================================
@@ -272,6 +324,22 @@ export interface Attestation {
   timestamp: string;
 }
 
+/**
+ * M-of-N requirement for one attestor role: `threshold` valid attestations
+ * from distinct keys listed in `attestors` (key_ids or base64 public keys).
+ * Eligibility follows the key alone, never the attestor_id an attestation
+ * claims.
+ */
+export interface QuorumRequirement {
+  role: Attestation['role'];
+  threshold: number;
+  attestors: string[];
+}
+
+export interface ApprovalQuorum {
+  requirements: QuorumRequirement[];
+}
+
 export interface AttestationInvite {
   id: string;
   artifact_id: string;
@@ -294,6 +362,17 @@ export interface BundleFile {
   size_bytes: number;
 }
 
+export interface ManifestMerkleSummary {
+  proof_count: number;       // Receipt inclusion proofs in merkle/proofs.json
+  checkpoint_count: number;
+}
+
+export interface ManifestAnchorSummary {
+  network_id: 'arweave';
+  checkpoint_ids: string[];  // Anchored checkpoints
+  tx_ids: string[];          // Their anchor transactions
+}
+
 export interface BundleManifest {
   format_version: '1.0';
   min_verifier_version: '1.0.0';
@@ -327,8 +406,8 @@ export interface BundleManifest {
 
   // Optional extensions
   optional: {
-    merkle: 'SKIPPED' | object;
-    anchor: 'SKIPPED' | object;
+    merkle: 'SKIPPED' | ManifestMerkleSummary;
+    anchor: 'SKIPPED' | ManifestAnchorSummary;
   };
 }
 
@@ -363,7 +442,7 @@ export interface VerifierCheck {
 }
 
 export interface VerifierWarning {
-  code: 'KEY_REVOKED_AFTER_SIGN' | 'KEY_REVOKED_NO_ANCHOR' | 'VERIFIER_OUTDATED';
+  code: 'KEY_REVOKED_NO_ANCHOR' | 'DEMO_KEY' | 'VERIFIER_OUTDATED';
   message: string;
 }
 
@@ -384,7 +463,7 @@ export interface VerifierOutput {
   metadata: {
     format_version: string;
     payload_included: boolean;
-    time_anchor: 'self-attested' | 'rfc3161';
+    time_anchor: 'self-attested' | 'rfc3161' | 'arweave';
     signing_key_id: string;
   };
 
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+/**
+ * aga-verify Entrypoint
+ * Per AGA Build Guide Phase 12
+ *
+ * Verifies an .agb bundle offline and exits with the verifier's exit code.
+ */
+
+import { runVerifyCommand } from './command';
+
+runVerifyCommand(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 3;
+  });
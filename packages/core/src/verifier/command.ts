@@ -0,0 +1,212 @@
+/**
+ * aga-verify Command
+ * Per AGA Build Guide Phase 6
+ *
+ * Opens an .agb bundle from disk, runs the offline verifier and reports the
+ * verdict as a human-readable report or JSON. The process exit code follows
+ * the spec: 0 PASS, 1 FAIL, 2 PASS_WITH_CAVEATS, 3 ERROR.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { inflateRawSync } from 'node:zlib';
+import { readBundleArchive, loadBundleContents } from '../bundle/reader';
+import { bytesToBase64 } from '../crypto/signature';
+import type { Keyring } from '../bundle/structure';
+import { verifyBundle, formatVerifierOutput, type VerificationOptions } from './index';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VerifyCommandArgs {
+  bundlePath: string;
+  json: boolean;
+  strict: boolean;
+  trustedKeys: string[];
+  trustedTsaCertificates: string[];   // Certificate file paths
+  trustedAnchorBlocks: string[];      // Arweave block hashes
+  keyrings: string[];                 // Keyring JSON file paths
+  at?: Date;
+}
+
+export interface VerifyCommandIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EXIT_ERROR = 3;
+
+export const VERIFY_USAGE = `Usage: aga-verify [options] <bundle.agb>
+
+Verifies an Attested Governance Bundle (.agb) file offline.
+
+Options:
+  --json               Print the verdict as JSON
+  --trusted-key <key>  Require the issuer key (key_id or base64 public key); repeatable
+  --trusted-tsa <file> Trust a TSA or CA certificate (PEM or DER) for timestamp tokens; repeatable
+  --trusted-block <hash>
+                       Trust an Arweave block to date the anchors it holds; repeatable. Nothing is checked
+                       online: confirm the block hash against the network yourself before passing it
+  --keyring <file>     Resolve signing keys and revocations from a trusted keyring JSON; repeatable
+  --at <time>          Evaluate the validity window at an ISO 8601 time instead of now
+  --strict             Fail on warnings instead of passing with caveats
+  -h, --help           Show this help
+
+Exit codes:
+  0 - PASS: Bundle verified successfully
+  1 - FAIL: Verification failed
+  2 - PASS_WITH_CAVEATS: Verified with warnings
+  3 - ERROR: Invalid input or system error`;
+
+const DEFAULT_IO: VerifyCommandIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+/**
+ * Parse command-line arguments. Returns null when help was requested.
+ */
+export function parseVerifyArgs(argv: string[]): VerifyCommandArgs | null {
+  const args: Omit<VerifyCommandArgs, 'bundlePath'> = {
+    json: false,
+    strict: false,
+    trustedKeys: [],
+    trustedTsaCertificates: [],
+    trustedAnchorBlocks: [],
+    keyrings: [],
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return null;
+      case '--json':
+        args.json = true;
+        break;
+      case '--strict':
+        args.strict = true;
+        break;
+      case '--trusted-key': {
+        const key = argv[++i];
+        if (!key) throw new Error('--trusted-key requires a value');
+        args.trustedKeys.push(key);
+        break;
+      }
+      case '--trusted-tsa': {
+        const file = argv[++i];
+        if (!file) throw new Error('--trusted-tsa requires a value');
+        args.trustedTsaCertificates.push(file);
+        break;
+      }
+      case '--trusted-block': {
+        const hash = argv[++i];
+        if (!hash) throw new Error('--trusted-block requires a value');
+        args.trustedAnchorBlocks.push(hash);
+        break;
+      }
+      case '--keyring': {
+        const file = argv[++i];
+        if (!file) throw new Error('--keyring requires a value');
+        args.keyrings.push(file);
+        break;
+      }
+      case '--at': {
+        const value = argv[++i];
+        if (!value) throw new Error('--at requires a value');
+        const at = new Date(value);
+        if (Number.isNaN(at.getTime())) throw new Error(`Invalid --at time: ${value}`);
+        args.at = at;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) throw new Error(`Unknown option: ${arg}`);
+        positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1) {
+    throw new Error(positional.length === 0 ? 'No bundle file specified' : 'Only one bundle file may be verified at a time');
+  }
+
+  return { ...args, bundlePath: positional[0] };
+}
+
+// ============================================================================
+// COMMAND
+// ============================================================================
+
+/** PEM files pass through as text; DER files are base64-encoded */
+async function readCertificateFile(path: string): Promise<string> {
+  const bytes = new Uint8Array(await readFile(path));
+  const text = new TextDecoder().decode(bytes);
+  return text.includes('-----BEGIN CERTIFICATE-----') ? text : bytesToBase64(bytes);
+}
+
+/**
+ * Run aga-verify and return its exit code.
+ */
+export async function runVerifyCommand(
+  argv: string[],
+  io: VerifyCommandIO = DEFAULT_IO
+): Promise<number> {
+  let args: VerifyCommandArgs | null;
+  try {
+    args = parseVerifyArgs(argv);
+  } catch (error) {
+    io.stderr(`Error: ${error instanceof Error ? error.message : error}`);
+    io.stderr(VERIFY_USAGE);
+    return EXIT_ERROR;
+  }
+
+  if (!args) {
+    io.stdout(VERIFY_USAGE);
+    return 0;
+  }
+
+  try {
+    const files = readBundleArchive(new Uint8Array(await readFile(args.bundlePath)), {
+      inflateRaw: (data) => new Uint8Array(inflateRawSync(data)),
+    });
+    const contents = loadBundleContents(files);
+
+    const options: VerificationOptions = { strict: args.strict, at: args.at };
+    if (args.trustedKeys.length > 0) {
+      options.trustedKeyIds = args.trustedKeys;
+    }
+    if (args.trustedTsaCertificates.length > 0) {
+      options.trustedTsaCertificates = await Promise.all(args.trustedTsaCertificates.map(readCertificateFile));
+    }
+    if (args.trustedAnchorBlocks.length > 0) {
+      options.trustedAnchorBlocks = args.trustedAnchorBlocks;
+    }
+    if (args.keyrings.length > 0) {
+      options.keyrings = await Promise.all(
+        args.keyrings.map(async (file) => JSON.parse(await readFile(file, 'utf-8')) as Keyring)
+      );
+    }
+
+    const output = await verifyBundle(contents, files, options);
+    io.stdout(args.json ? JSON.stringify(output, null, 2) : formatVerifierOutput(output));
+    return output.exit_code;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (args.json) {
+      io.stdout(JSON.stringify({ result: 'ERROR', exit_code: EXIT_ERROR, error: message }, null, 2));
+    } else {
+      io.stderr(`Error: ${message}`);
+    }
+    return EXIT_ERROR;
+  }
+}
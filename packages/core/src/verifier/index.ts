@@ -9,6 +9,19 @@
 import { canonicalize } from '../crypto/canonical';
 import { sha256String } from '../crypto/hash';
 import { verifyObject } from '../crypto/signature';
+import { computeMerkleRoot, hashLeaf, verifyConsistencyProof, verifyInclusionProof } from '../crypto/merkle';
+import { decodeTransactionData, verifyArweaveTransaction } from '../anchor/arweave';
+import type { BundleAnchor, BundleCheckpoint, Keyring, MerkleProofEntry } from '../bundle/structure';
+import { evaluateApprovalQuorum, validateApprovalQuorum, withoutAttestations } from '../bundle/policy-artifact';
+import { computeTimestampImprint } from '../bundle/genesis-receipt';
+import { resolveKeyLineage } from '../bundle/key-rotation';
+import { verifyTimestampToken } from '../tsa/rfc3161';
+import { decodeCertificate } from '../tsa/x509';
+import {
+  computeLegacyPolicyHash,
+  verifyLegacyArtifactSignature,
+  verifyLegacyReceiptSignature,
+} from '../legacy/converters';
 import { DOMAIN_SEPARATORS } from '../types';
 import type {
   BundleManifest,
@@ -31,14 +44,28 @@ export interface BundleContents {
   receipts: Receipt[];
   chainHead?: ChainHead;
   keyring?: unknown;
-  merkleProofs?: unknown;
+  merkleProofs?: MerkleProofEntry[];
+  checkpoints?: BundleCheckpoint[];
+  anchors?: BundleAnchor[];      // Anchor transactions for checkpoints
+  lineage?: PolicyArtifact[];    // Superseded versions, oldest first
+}
+
+export interface LineageVerification {
+  valid: boolean;
+  versions: number;             // Versions checked, root to head
+  reason?: string;
 }
 
 export interface VerificationOptions {
   trustIssuerKey?: boolean;
-  trustedKeyIds?: string[];
+  trustedKeyIds?: string[];     // Issuer key_ids or base64 public keys to accept
   verifyTimestamps?: boolean;
+  trustedTsaCertificates?: string[];  // PEM or base64 DER TSA / CA certificates
+  trustedAnchorBlocks?: string[];     // Arweave block hashes the caller has checked against the network
+  keyrings?: Keyring[];         // Trusted keyrings; when set, every signing key must appear in one
   checkExpiration?: boolean;
+  at?: Date | string;           // Evaluation time for the validity window (default: now)
+  strict?: boolean;             // Treat warnings as failures
 }
 
 // ============================================================================
@@ -48,6 +75,26 @@ export interface VerificationOptions {
 const VERIFIER_VERSION = '1.0.0';
 const ZERO_HASH = '0'.repeat(64);
 
+/** Compare dotted numeric versions; positive when a is newer than b */
+function compareVersions(a: string | undefined, b: string): number {
+  const left = (a || '0').split('.').map(Number);
+  const right = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+/** Earliest of two per-receipt anchor times */
+function earliest(a: (Date | undefined)[], b: (Date | undefined)[]): (Date | undefined)[] {
+  return Array.from({ length: Math.max(a.length, b.length) }, (_, i) =>
+    a[i] && (!b[i] || a[i]! < b[i]!) ? a[i] : b[i]
+  );
+}
+
 // ============================================================================
 // VERIFICATION CHECKS
 // ============================================================================
@@ -98,12 +145,20 @@ async function checkManifestChecksums(
 async function checkPolicyArtifactSignature(
   artifact: PolicyArtifact
 ): Promise<VerifierCheck> {
+  // Converted artifacts are checked against the bytes their issuer signed
+  if (artifact.legacy) {
+    const legacy = await verifyLegacyArtifactSignature(artifact);
+    return legacy.valid
+      ? { name: 'artifact_signature', result: 'PASS' }
+      : { name: 'artifact_signature', result: 'FAIL', reason: legacy.reason };
+  }
+
   try {
     const isValid = await verifyObject(
       artifact.issuer.public_key,
       artifact.issuer.signature,
       DOMAIN_SEPARATORS.BUNDLE,
-      artifact as unknown as Record<string, unknown>,
+      withoutAttestations(artifact) as unknown as Record<string, unknown>,
       ['issuer.signature']
     );
 
@@ -128,7 +183,7 @@ async function checkPolicyArtifactSignature(
 async function checkPolicyHash(artifact: PolicyArtifact): Promise<VerifierCheck> {
   // Recompute policy hash
   const artifactForHash = {
-    ...artifact,
+    ...withoutAttestations(artifact),
     issuer: {
       public_key: artifact.issuer.public_key,
       key_id: artifact.issuer.key_id,
@@ -136,7 +191,18 @@ async function checkPolicyHash(artifact: PolicyArtifact): Promise<VerifierCheck>
     policy_hash: undefined,
   };
 
-  const computed = await sha256String(canonicalize(artifactForHash));
+  let computed: string;
+  try {
+    computed = artifact.legacy
+      ? computeLegacyPolicyHash(artifact)
+      : await sha256String(canonicalize(artifactForHash));
+  } catch (error) {
+    return {
+      name: 'policy_hash',
+      result: 'FAIL',
+      reason: `Policy hash error: ${error instanceof Error ? error.message : error}`,
+    };
+  }
 
   if (computed !== artifact.policy_hash) {
     return {
@@ -156,6 +222,18 @@ async function checkReceiptSignatures(
   for (let i = 0; i < receipts.length; i++) {
     const receipt = receipts[i];
 
+    if (receipt.legacy) {
+      const legacy = await verifyLegacyReceiptSignature(receipt);
+      if (!legacy.valid) {
+        return {
+          name: 'receipt_signatures',
+          result: 'FAIL',
+          reason: `Receipt ${i + 1}: ${legacy.reason}`,
+        };
+      }
+      continue;
+    }
+
     try {
       const isValid = await verifyObject(
         receipt.signer.public_key,
@@ -266,8 +344,394 @@ async function checkChainHead(
   return { name: 'chain_head', result: 'PASS' };
 }
 
-async function checkValidityWindow(artifact: PolicyArtifact): Promise<VerifierCheck> {
-  const now = new Date();
+async function checkCheckpointConsistency(
+  receipts: Receipt[],
+  checkpoints: BundleCheckpoint[] = []
+): Promise<VerifierCheck> {
+  const sorted = [...checkpoints].sort((a, b) => a.tree_size - b.tree_size);
+  const receiptHashes = receipts.map((r) => r.chain.this_receipt_hash);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const checkpoint = sorted[i];
+
+    if (checkpoint.tree_size < 1 || checkpoint.tree_size > receiptHashes.length) {
+      return {
+        name: 'checkpoint_consistency',
+        result: 'FAIL',
+        reason: `Checkpoint ${checkpoint.checkpoint_id} covers receipts missing from the ledger`,
+      };
+    }
+
+    if (computeMerkleRoot(receiptHashes.slice(0, checkpoint.tree_size)) !== checkpoint.log_root) {
+      return {
+        name: 'checkpoint_consistency',
+        result: 'FAIL',
+        reason: `Log root mismatch for checkpoint ${checkpoint.checkpoint_id}`,
+      };
+    }
+
+    if (i === 0) {
+      continue;
+    }
+
+    // Each checkpoint must prove it only appended to the previous one
+    const previous = sorted[i - 1];
+    const proof = checkpoint.consistency_proof;
+    if (
+      !proof ||
+      proof.first_size !== previous.tree_size ||
+      proof.second_size !== checkpoint.tree_size ||
+      !verifyConsistencyProof(proof, previous.log_root, checkpoint.log_root)
+    ) {
+      return {
+        name: 'checkpoint_consistency',
+        result: 'FAIL',
+        reason: `Invalid consistency proof between checkpoints ${previous.checkpoint_id} and ${checkpoint.checkpoint_id}`,
+      };
+    }
+  }
+
+  return { name: 'checkpoint_consistency', result: 'PASS' };
+}
+
+async function checkMerkleProofs(
+  receipts: Receipt[],
+  proofs: MerkleProofEntry[],
+  checkpoints: BundleCheckpoint[] = []
+): Promise<VerifierCheck> {
+  for (const entry of proofs) {
+    const index = receipts.findIndex((r) => r.receipt_id === entry.receipt_id);
+    if (index < 0) {
+      return {
+        name: 'merkle_proofs',
+        result: 'FAIL',
+        reason: `Inclusion proof for receipt ${entry.receipt_id}, which is not in the ledger`,
+      };
+    }
+
+    const checkpoint = checkpoints.find((c) => c.checkpoint_id === entry.checkpoint_id);
+    if (!checkpoint) {
+      return {
+        name: 'merkle_proofs',
+        result: 'FAIL',
+        reason: `Inclusion proof for receipt ${index + 1} references unknown checkpoint ${entry.checkpoint_id}`,
+      };
+    }
+
+    // The proof must be for this receipt, at its ledger position, in this checkpoint's tree
+    const { proof } = entry;
+    if (
+      proof.leaf_index !== index ||
+      proof.tree_size !== checkpoint.tree_size ||
+      proof.leaf_hash !== hashLeaf(receipts[index].chain.this_receipt_hash) ||
+      !verifyInclusionProof(proof, checkpoint.log_root)
+    ) {
+      return {
+        name: 'merkle_proofs',
+        result: 'FAIL',
+        reason: `Invalid inclusion proof for receipt ${index + 1} in checkpoint ${checkpoint.checkpoint_id}`,
+      };
+    }
+  }
+
+  return { name: 'merkle_proofs', result: 'PASS' };
+}
+
+/**
+ * Check each anchor transaction commits to the root of the receipts its
+ * checkpoint covers. Returns, by receipt index, the time of every trusted
+ * block that anchors the ledger up to and including that receipt.
+ */
+async function checkAnchorProofs(
+  receipts: Receipt[],
+  evidence: BundleAnchor[],
+  checkpoints: BundleCheckpoint[] = [],
+  trustedBlocks: string[]
+): Promise<{ check: VerifierCheck; anchors: (Date | undefined)[] }> {
+  const receiptHashes = receipts.map((r) => r.chain.this_receipt_hash);
+  const anchors: (Date | undefined)[] = [];
+
+  for (const anchor of evidence) {
+    const fail = (reason: string) => ({
+      check: {
+        name: 'anchor_proofs',
+        result: 'FAIL' as const,
+        reason: `Anchor for checkpoint ${anchor.checkpoint_id}: ${reason}`,
+      },
+      anchors: [],
+    });
+
+    if (anchor.network_id !== 'arweave') {
+      return fail(`Unsupported anchor network ${anchor.network_id}`);
+    }
+
+    const checkpoint = checkpoints.find((c) => c.checkpoint_id === anchor.checkpoint_id);
+    if (!checkpoint) {
+      return fail('Checkpoint is not in the bundle');
+    }
+    if (checkpoint.tree_size < 1 || checkpoint.tree_size > receiptHashes.length) {
+      return fail('Checkpoint covers receipts missing from the ledger');
+    }
+
+    const transaction = await verifyArweaveTransaction(anchor.transaction);
+    if (!transaction.valid) {
+      return fail(transaction.reason ?? 'Invalid anchor transaction');
+    }
+
+    let payload: { type?: string; checkpoint_id?: string; merkle_root?: string; receipt_count?: number };
+    try {
+      payload = JSON.parse(decodeTransactionData(anchor.transaction));
+    } catch {
+      return fail('Transaction data is not JSON');
+    }
+    if (payload.type !== 'checkpoint_anchor' || payload.checkpoint_id !== anchor.checkpoint_id) {
+      return fail(`Transaction ${anchor.transaction.id} does not anchor this checkpoint`);
+    }
+
+    // Recomputed from the ledger, so every receipt the checkpoint covers is proven included
+    const root = computeMerkleRoot(receiptHashes.slice(0, checkpoint.tree_size));
+    if (payload.merkle_root !== root || payload.receipt_count !== checkpoint.tree_size) {
+      return fail('Anchored root does not match the receipts in the ledger');
+    }
+
+    if (!anchor.block.txs.includes(anchor.transaction.id)) {
+      return fail(`Transaction ${anchor.transaction.id} is not in block ${anchor.block.indep_hash}`);
+    }
+
+    // Untrusted blocks are consistent but prove nothing about time
+    if (!trustedBlocks.includes(anchor.block.indep_hash)) {
+      continue;
+    }
+
+    const minedAt = new Date(anchor.block.timestamp * 1000);
+    for (let i = 0; i < checkpoint.tree_size; i++) {
+      if (new Date(receipts[i].timestamp) > minedAt) {
+        return fail(
+          `Receipt ${i + 1} claims ${receipts[i].timestamp}, after block ${anchor.block.height} was mined at ${minedAt.toISOString()}`
+        );
+      }
+    }
+
+    const last = checkpoint.tree_size - 1;
+    if (!anchors[last] || minedAt < anchors[last]!) {
+      anchors[last] = minedAt;
+    }
+  }
+
+  return { check: { name: 'anchor_proofs', result: 'PASS' }, anchors };
+}
+
+async function checkTimestampTokens(
+  receipts: Receipt[],
+  trustedCertificates: string[]
+): Promise<{ check: VerifierCheck; anchors: (Date | undefined)[] }> {
+  const trusted = trustedCertificates.map(decodeCertificate);
+  const anchors: (Date | undefined)[] = [];
+
+  for (let i = 0; i < receipts.length; i++) {
+    const receipt = receipts[i];
+    if (receipt.legacy || (receipt.time_source !== 'TSA' && !receipt.tsa_token)) {
+      continue;
+    }
+
+    if (!receipt.tsa_token) {
+      return {
+        check: { name: 'timestamp_tokens', result: 'FAIL', reason: `Receipt ${i + 1} claims TSA time but has no token` },
+        anchors: [],
+      };
+    }
+
+    const imprint = await computeTimestampImprint(receipt);
+    const token = await verifyTimestampToken(receipt.tsa_token, imprint, { trustedCertificates: trusted });
+    if (!token.valid) {
+      return {
+        check: { name: 'timestamp_tokens', result: 'FAIL', reason: `Receipt ${i + 1}: ${token.reason}` },
+        anchors: [],
+      };
+    }
+
+    // Untrusted tokens are well-formed but prove nothing about time
+    if (trusted.length > 0) {
+      anchors[i] = token.genTime;
+    }
+  }
+
+  return { check: { name: 'timestamp_tokens', result: 'PASS' }, anchors };
+}
+
+/**
+ * Keys by public key, with the earliest revocation any source records.
+ * Only `trusted` entries make a key usable; revocations count from anywhere.
+ */
+function resolveKeys(
+  trusted: { public_key: string }[],
+  revocations: { public_key: string; revoked_at?: string }[]
+): (publicKey: string) => { known: boolean; revokedAt?: Date } {
+  return (publicKey) => {
+    // Keyrings name keys by role-specific ids (att_..., platform); the key itself is what signed
+    const matches = (entry: { public_key: string }) => entry.public_key === publicKey;
+    const revokedAt = revocations
+      .filter((entry) => entry.revoked_at && matches(entry))
+      .map((entry) => new Date(entry.revoked_at!))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+    return { known: trusted.some(matches), revokedAt };
+  };
+}
+
+async function checkSigningKeys(
+  contents: BundleContents,
+  keyrings: Keyring[] | undefined,
+  anchors: (Date | undefined)[]
+): Promise<{ check: VerifierCheck; warnings: VerifierWarning[] }> {
+  const { artifact, receipts } = contents;
+  const bundleKeys = (contents.keyring as Keyring | undefined)?.keys ?? [];
+  const schedule = artifact.key_schedule ?? [];
+  const callerKeys = (keyrings ?? []).flatMap((keyring) => keyring.keys);
+
+  // The bundle vouches for its own keys only when the caller supplies no keyring
+  const lookup = resolveKeys(
+    keyrings?.length ? callerKeys : [...bundleKeys, ...schedule],
+    [...bundleKeys, ...schedule, ...callerKeys]
+  );
+
+  // A token on receipt i also proves every earlier receipt, and the
+  // artifact they reference, existed by its genTime
+  const provenBy: (Date | undefined)[] = [];
+  for (let i = receipts.length - 1; i >= 0; i--) {
+    const later = provenBy[i + 1];
+    const own = anchors[i];
+    provenBy[i] = own && (!later || own < later) ? own : later;
+  }
+
+  const signatures = [
+    { what: 'Artifact', signer: artifact.issuer, signedAt: artifact.issued_at, anchoredAt: provenBy[0] },
+    ...artifact.attestations.map((attestation) => ({
+      what: `Attestation by ${attestation.attestor_id}`,
+      signer: { key_id: attestation.attestor_id, public_key: attestation.public_key },
+      signedAt: attestation.timestamp,
+      anchoredAt: undefined,
+    })),
+    ...receipts.map((receipt, i) => ({
+      what: `Receipt ${i + 1}`,
+      signer: receipt.signer,
+      signedAt: receipt.timestamp,
+      anchoredAt: provenBy[i],
+    })),
+  ];
+
+  const warnings = new Map<string, VerifierWarning>();
+  const anchoredRevocations = new Map<string, string>();
+  for (const { what, signer, signedAt, anchoredAt } of signatures) {
+    const { known, revokedAt } = lookup(signer.public_key);
+
+    if (!known) {
+      return {
+        check: { name: 'signing_keys', result: 'FAIL', reason: `${what} key ${signer.key_id} is not in a trusted keyring` },
+        warnings: [],
+      };
+    }
+
+    if (!revokedAt) {
+      continue;
+    }
+
+    if (new Date(signedAt) >= revokedAt) {
+      return {
+        check: {
+          name: 'signing_keys',
+          result: 'FAIL',
+          reason: `${what} was signed at ${signedAt}, after key ${signer.key_id} was revoked at ${revokedAt.toISOString()}`,
+        },
+        warnings: [],
+      };
+    }
+
+    // A trusted anchor proves the signature predates the revocation, so the
+    // signature stands; it is noted on the check rather than raised as a caveat
+    if (anchoredAt !== undefined && anchoredAt < revokedAt) {
+      anchoredRevocations.set(
+        signer.public_key,
+        `Key ${signer.key_id} was revoked at ${revokedAt.toISOString()}, after a timestamp anchored its signatures`
+      );
+      continue;
+    }
+
+    // One caveat per key is enough for a chain of receipts
+    if (!warnings.has(`KEY_REVOKED_NO_ANCHOR:${signer.public_key}`)) {
+      warnings.set(`KEY_REVOKED_NO_ANCHOR:${signer.public_key}`, {
+        code: 'KEY_REVOKED_NO_ANCHOR',
+        message: `Key ${signer.key_id} was revoked at ${revokedAt.toISOString()}; no timestamp anchor proves its signatures predate the revocation`,
+      });
+    }
+  }
+
+  // A demo key signs for whoever ran the demo, not for an issuer
+  const demoKey = bundleKeys.find((k) => k.demo && k.public_key === artifact.issuer.public_key);
+  if (demoKey) {
+    warnings.set(`DEMO_KEY:${demoKey.public_key}`, {
+      code: 'DEMO_KEY',
+      message: `Issuer key ${demoKey.key_id} is an ephemeral demo key; signatures prove the bundle is intact, not who issued it`,
+    });
+  }
+
+  return {
+    check: {
+      name: 'signing_keys',
+      result: 'PASS',
+      ...(anchoredRevocations.size > 0 && { reason: Array.from(anchoredRevocations.values()).join('; ') }),
+    },
+    warnings: Array.from(warnings.values()),
+  };
+}
+
+async function checkIssuerTrust(
+  artifact: PolicyArtifact,
+  trustedKeyIds: string[]
+): Promise<VerifierCheck> {
+  const { key_id: keyId } = artifact.issuer;
+
+  // A rotated issuer key is trusted through its predecessors
+  const schedule = artifact.key_schedule ?? [];
+  const lineage = await resolveKeyLineage(schedule, artifact.issuer, trustedKeyIds);
+  if (!lineage.trusted) {
+    const rotated = schedule.some((k) => k.key_id === keyId && k.rotation);
+    return {
+      name: 'issuer_trust',
+      result: 'FAIL',
+      reason: rotated
+        ? `Issuer key ${keyId} does not rotate from a trusted key: ${lineage.reason}`
+        : `Issuer key ${keyId} is not in the trusted key set`,
+    };
+  }
+
+  return { name: 'issuer_trust', result: 'PASS' };
+}
+
+async function checkApprovalQuorum(artifact: PolicyArtifact): Promise<VerifierCheck> {
+  const quorum = artifact.approval_quorum!;
+
+  const errors = validateApprovalQuorum(quorum);
+  if (errors.length > 0) {
+    return { name: 'approval_quorum', result: 'FAIL', reason: errors.join('; ') };
+  }
+
+  const evaluation = await evaluateApprovalQuorum(artifact, quorum);
+  if (!evaluation.satisfied) {
+    const unmet = evaluation.requirements
+      .filter((r) => !r.satisfied)
+      .map((r) => `${r.role} ${r.count}/${r.threshold}`);
+    return {
+      name: 'approval_quorum',
+      result: 'FAIL',
+      reason: `Approval quorum not met: ${unmet.join(', ')}`,
+    };
+  }
+
+  return { name: 'approval_quorum', result: 'PASS' };
+}
+
+async function checkValidityWindow(artifact: PolicyArtifact, at?: Date | string): Promise<VerifierCheck> {
+  const now = at ? new Date(at) : new Date();
   const notBefore = new Date(artifact.not_before);
 
   if (now < notBefore) {
@@ -292,6 +756,99 @@ async function checkValidityWindow(artifact: PolicyArtifact): Promise<VerifierCh
   return { name: 'validity_window', result: 'PASS' };
 }
 
+// ============================================================================
+// LINEAGE
+// ============================================================================
+
+/**
+ * Check that `artifact` validly supersedes `previous`: it names the
+ * predecessor's id and policy hash, stays in the same vault, is not issued
+ * earlier, and is signed by the same key or a key rotated from it.
+ */
+async function checkSupersession(previous: PolicyArtifact, artifact: PolicyArtifact): Promise<string | null> {
+  const ref = artifact.previous_artifact_ref;
+  if (!ref) {
+    return 'Missing previous_artifact_ref';
+  }
+  if (ref.prior_artifact_id !== previous.artifact_id) {
+    return `References ${ref.prior_artifact_id}, not ${previous.artifact_id}`;
+  }
+  if (ref.prior_policy_hash !== previous.policy_hash) {
+    return 'Referenced policy hash does not match the previous version';
+  }
+  if (artifact.vault_id !== previous.vault_id) {
+    return `Vault ${artifact.vault_id} differs from the previous version's ${previous.vault_id}`;
+  }
+  if (new Date(artifact.issued_at) < new Date(previous.issued_at)) {
+    return 'Issued before the version it supersedes';
+  }
+
+  if (artifact.issuer.key_id !== previous.issuer.key_id) {
+    const lineage = await resolveKeyLineage(artifact.key_schedule ?? [], artifact.issuer, [previous.issuer.public_key]);
+    if (!lineage.trusted) {
+      return `Issuer key ${artifact.issuer.key_id} does not rotate from ${previous.issuer.key_id}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify a chain of artifact versions, root first. Every version must carry
+ * a valid signature and policy hash, and each one after the root must
+ * supersede the one before it.
+ */
+export async function verifyArtifactLineage(artifacts: PolicyArtifact[]): Promise<LineageVerification> {
+  if (artifacts.length === 0) {
+    return { valid: false, versions: 0, reason: 'Lineage is empty' };
+  }
+
+  const seen = new Set<string>();
+  for (let i = 0; i < artifacts.length; i++) {
+    const artifact = artifacts[i];
+    const fail = (reason: string): LineageVerification => ({
+      valid: false,
+      versions: artifacts.length,
+      reason: `Version ${i + 1} (${artifact.artifact_id}): ${reason}`,
+    });
+
+    if (seen.has(artifact.artifact_id)) {
+      return fail('Artifact appears twice in the lineage');
+    }
+    seen.add(artifact.artifact_id);
+
+    for (const check of [await checkPolicyArtifactSignature(artifact), await checkPolicyHash(artifact)]) {
+      if (check.result === 'FAIL') {
+        return fail(check.reason ?? `${check.name} failed`);
+      }
+    }
+
+    if (i === 0) {
+      if (artifact.previous_artifact_ref) {
+        return fail(`Root version references ${artifact.previous_artifact_ref.prior_artifact_id}, which is not in the lineage`);
+      }
+      continue;
+    }
+
+    const reason = await checkSupersession(artifacts[i - 1], artifact);
+    if (reason) {
+      return fail(reason);
+    }
+  }
+
+  return { valid: true, versions: artifacts.length };
+}
+
+async function checkArtifactLineage(
+  lineage: PolicyArtifact[],
+  artifact: PolicyArtifact
+): Promise<VerifierCheck> {
+  const result = await verifyArtifactLineage([...lineage, artifact]);
+  return result.valid
+    ? { name: 'artifact_lineage', result: 'PASS' }
+    : { name: 'artifact_lineage', result: 'FAIL', reason: result.reason };
+}
+
 // ============================================================================
 // MAIN VERIFIER
 // ============================================================================
@@ -325,9 +882,79 @@ export async function verifyBundle(
   // 7. Check chain head
   checks.push(await checkChainHead(contents.receipts, contents.chainHead));
 
-  // 8. Check validity window (optional)
+  // 8. Check checkpoint consistency proofs
+  checks.push(await checkCheckpointConsistency(contents.receipts, contents.checkpoints));
+
+  // 9. Check receipt inclusion proofs (when included)
+  if (contents.merkleProofs?.length) {
+    checks.push(await checkMerkleProofs(contents.receipts, contents.merkleProofs, contents.checkpoints));
+  }
+
+  // 10. Check checkpoint anchor transactions (when included)
+  let anchoredBlocks: (Date | undefined)[] = [];
+  if (contents.anchors?.length) {
+    const anchorCheck = await checkAnchorProofs(
+      contents.receipts,
+      contents.anchors,
+      contents.checkpoints,
+      options.trustedAnchorBlocks ?? []
+    );
+    checks.push(anchorCheck.check);
+    anchoredBlocks = anchorCheck.anchors;
+  }
+
+  // 11. Check RFC 3161 timestamp tokens (when any receipt carries one)
+  let anchors: (Date | undefined)[] = [];
+  const timestamped = contents.receipts.some((r) => r.time_source === 'TSA' || r.tsa_token);
+  if (options.verifyTimestamps !== false && timestamped) {
+    const timestampCheck = await checkTimestampTokens(contents.receipts, options.trustedTsaCertificates ?? []);
+    checks.push(timestampCheck.check);
+    anchors = timestampCheck.anchors;
+  }
+
+  // 12. Check signing keys against the keyrings and revocations (when a keyring is available)
+  if (contents.keyring || options.keyrings?.length) {
+    try {
+      const keyCheck = await checkSigningKeys(contents, options.keyrings, earliest(anchors, anchoredBlocks));
+      checks.push(keyCheck.check);
+      warnings.push(...keyCheck.warnings);
+    } catch (error) {
+      checks.push({ name: 'signing_keys', result: 'FAIL', reason: `Key resolution error: ${error}` });
+    }
+  }
+
+  // 13. Check superseded versions lead to this artifact (when included)
+  if (contents.lineage?.length) {
+    checks.push(await checkArtifactLineage(contents.lineage, contents.artifact));
+  }
+
+  // 14. Check the approval quorum against valid attestations (when defined)
+  if (contents.artifact.approval_quorum) {
+    checks.push(await checkApprovalQuorum(contents.artifact));
+  }
+
+  // 15. Check issuer key against the caller's trust set (optional)
+  if (options.trustedKeyIds?.length) {
+    checks.push(await checkIssuerTrust(contents.artifact, options.trustedKeyIds));
+  }
+
+  // 16. Check validity window (optional)
   if (options.checkExpiration !== false) {
-    checks.push(await checkValidityWindow(contents.artifact));
+    checks.push(await checkValidityWindow(contents.artifact, options.at));
+  }
+
+  if (compareVersions(contents.manifest.min_verifier_version, VERIFIER_VERSION) > 0) {
+    warnings.push({
+      code: 'VERIFIER_OUTDATED',
+      message: `Bundle requires verifier ${contents.manifest.min_verifier_version}, this is ${VERIFIER_VERSION}`,
+    });
+  }
+
+  // In strict mode any caveat fails the bundle
+  if (options.strict) {
+    for (const warning of warnings) {
+      checks.push({ name: 'strict_mode', result: 'FAIL', reason: `${warning.code}: ${warning.message}` });
+    }
   }
 
   // Determine verdict
@@ -367,7 +994,8 @@ export async function verifyBundle(
     metadata: {
       format_version: contents.manifest.format_version,
       payload_included: contents.manifest.payload_included,
-      time_anchor: 'self-attested',
+      // The hash chain bounds every receipt before a trusted token or block
+      time_anchor: anchors.some(Boolean) ? 'rfc3161' : anchoredBlocks.some(Boolean) ? 'arweave' : 'self-attested',
       signing_key_id: contents.artifact.issuer.key_id,
     },
     report_hash: reportHash,
@@ -5,10 +5,17 @@
  * Executes runtime enforcement for deployed artifacts.
  */
 
+import { createReceipt, updateChainHead } from '../../core/src/bundle/genesis-receipt';
+import { TelemetryEvaluator, type TelemetrySample, type TelemetryEvent } from './telemetry';
+import { ReplayGuard, type ReplayStateStore } from './replay';
+import type { TsaClient } from '../../core/src/tsa/client';
 import type {
   PolicyArtifact,
   Receipt,
+  ReceiptEventType,
+  ReasonCode,
   ChainHead,
+  SubjectManifest,
   EnforcementAction,
   EnforcementDecision,
 } from '../../core/src/types';
@@ -31,6 +38,28 @@ export interface RuntimeConfig {
   measurementCadenceMs: number;
   enforcementAction: EnforcementAction;
   ttlSeconds: number | null;
+  measurementBackend: MeasurementBackend;
+  replayStore?: ReplayStateStore;
+  runId?: string;                // Resume a run; a new run_id is generated when unset
+  signingKey?: {
+    privateKey: Uint8Array;
+    publicKey: Uint8Array;
+  };
+  tsa?: TsaClient;               // Timestamp receipts; DEGRADED_LOCAL when unset or unreachable
+}
+
+export interface SubjectMeasurement {
+  manifest: SubjectManifest;
+  compositeHash: string;
+  expectedHash: string;
+  match: boolean;
+  mismatchedPaths: string[];
+  missingPaths: string[];
+  unreadablePaths: string[];             // Present but denied to the runtime
+}
+
+export interface MeasurementBackend {
+  measure(artifact: PolicyArtifact): Promise<SubjectMeasurement>;
 }
 
 export interface EngineEvents {
@@ -48,6 +77,7 @@ export interface MeasurementResult {
   expectedHash: string;
   match: boolean;
   source: 'file' | 'api' | 'database';
+  mismatchedPaths?: string[];
   metadata?: Record<string, unknown>;
 }
 
@@ -79,6 +109,12 @@ export class RuntimeEngine {
   private receipts: Receipt[] = [];
   private measurementInterval: ReturnType<typeof setInterval> | null = null;
   private ttlTimeout: ReturnType<typeof setTimeout> | null = null;
+  private telemetryInterval: ReturnType<typeof setInterval> | null = null;
+  private pendingMeasurements = new Set<Promise<void>>();
+  private pendingReceipt: Promise<unknown> = Promise.resolve();
+  private pendingIngest: Promise<unknown> = Promise.resolve();
+  private telemetry: TelemetryEvaluator | null = null;
+  private replayGuard: ReplayGuard = new ReplayGuard();
   private events: EngineEvents = {};
   private startTime: number | null = null;
 
@@ -142,22 +178,30 @@ export class RuntimeEngine {
       this.config = config;
       this.artifact = artifact;
       this.receipts = [];
+      this.telemetry = artifact.telemetry_policy?.streams.length
+        ? new TelemetryEvaluator(artifact.telemetry_policy)
+        : null;
+      this.replayGuard = new ReplayGuard(config.replayStore);
+      await this.replayGuard.load();
 
       // Initialize chain head (would be loaded from storage in production)
       this.chainHead = {
         chain_v: '1',
-        run_id: `run_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+        run_id: config.runId ?? `run_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
         receipt_count: 0,
         head_counter: 0,
         head_receipt_hash: '0'.repeat(64),
         head_receipt_path: '',
       };
 
+      await this.appendReceipt('RUN_STARTED', 'NONE', 'OK', 'Runtime engine started');
+
       this.setState('running');
       this.startTime = Date.now();
 
       // Start measurement scheduler
       this.startMeasurementScheduler();
+      this.startTelemetryMonitor();
 
       // Start TTL monitor if applicable
       if (config.ttlSeconds) {
@@ -192,6 +236,7 @@ export class RuntimeEngine {
 
     this.setState('running');
     this.startMeasurementScheduler();
+    this.startTelemetryMonitor();
 
     if (this.config?.ttlSeconds) {
       // Calculate remaining TTL
@@ -215,6 +260,9 @@ export class RuntimeEngine {
 
     this.stopSchedulers();
     this.setState('stopped');
+
+    // Let scheduled measurements already under way record their receipts
+    await Promise.all(Array.from(this.pendingMeasurements));
   }
 
   /**
@@ -228,6 +276,48 @@ export class RuntimeEngine {
     return this.performMeasurement();
   }
 
+  /**
+   * Ingest a telemetry sample for one of the artifact's streams
+   * Samples carrying a sequence number are checked for replay first; a
+   * rejected sample is recorded but not evaluated. Samples are processed
+   * one at a time in the order they arrive.
+   */
+  ingestTelemetry(sample: TelemetrySample): Promise<TelemetryEvent[]> {
+    const next = this.pendingIngest.then(() => this.processTelemetry(sample));
+    this.pendingIngest = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Let a telemetry stream continue after an explained sequence gap
+   * Sets the stream's last accepted sequence number (null to expect 1 again,
+   * after the sender's counter restarts). Queued behind samples already
+   * being ingested.
+   */
+  resyncTelemetry(streamId: string, lastAccepted: number | null): Promise<void> {
+    const next = this.pendingIngest.then(async () => {
+      if (!this.telemetry || !this.chainHead) {
+        throw new Error('Artifact declares no telemetry streams');
+      }
+      await this.replayGuard.resync(this.chainHead.run_id, streamId, lastAccepted);
+    });
+    this.pendingIngest = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Check all telemetry streams for missing data
+   */
+  async checkTelemetry(currentTime?: string): Promise<TelemetryEvent[]> {
+    if (!this.telemetry || this.state !== 'running') {
+      return [];
+    }
+
+    const events = this.telemetry.checkMissing(currentTime);
+    await this.handleTelemetryEvents(events);
+    return events;
+  }
+
   // ============================================================================
   // PRIVATE METHODS
   // ============================================================================
@@ -238,6 +328,45 @@ export class RuntimeEngine {
     this.events.onStateChange?.(newState, previousState);
   }
 
+  private async processTelemetry(sample: TelemetrySample): Promise<TelemetryEvent[]> {
+    if (this.state !== 'running') {
+      throw new Error(`Cannot ingest telemetry in state: ${this.state}`);
+    }
+
+    if (!this.telemetry || !this.chainHead) {
+      throw new Error('Artifact declares no telemetry streams');
+    }
+
+    const scope = this.chainHead.run_id;
+    const sequenceNumber = sample.sequence_number;
+
+    if (sequenceNumber !== undefined) {
+      const check = this.replayGuard.check(scope, sample.stream_id, sequenceNumber);
+      if (!check.accept) {
+        const event: TelemetryEvent = {
+          streamId: sample.stream_id,
+          eventType: check.reasonCode === 'REPLAY_DETECTED' ? 'REPLAY_DETECTED' : 'SEQUENCE_INVALID',
+          reasonCode: check.reasonCode,
+          action: 'ALERT',
+          details: `stream ${sample.stream_id} ${check.reason}`,
+          detectedAt: new Date().toISOString(),
+          value: sample.value,
+        };
+        await this.appendReceipt(event.eventType, this.decisionFor('ALERT'), event.reasonCode, event.details);
+        return [event];
+      }
+    }
+
+    const events = this.telemetry.ingest(sample);
+
+    if (sequenceNumber !== undefined) {
+      await this.replayGuard.commit(scope, sample.stream_id, sequenceNumber);
+    }
+
+    await this.handleTelemetryEvents(events);
+    return events;
+  }
+
   private async validateArtifact(artifact: PolicyArtifact): Promise<void> {
     // Check validity window
     const now = new Date();
@@ -263,13 +392,11 @@ export class RuntimeEngine {
   private startMeasurementScheduler(): void {
     if (!this.config) return;
 
-    this.measurementInterval = setInterval(async () => {
-      try {
-        await this.performMeasurement();
-      } catch (error) {
+    this.measurementInterval = setInterval(() => {
+      this.performMeasurement().catch((error) => {
         console.error('Measurement error:', error);
         this.events.onError?.(error instanceof Error ? error : new Error(String(error)));
-      }
+      });
     }, this.config.measurementCadenceMs);
   }
 
@@ -279,7 +406,25 @@ export class RuntimeEngine {
     }, ttlSeconds * 1000);
   }
 
+  private startTelemetryMonitor(): void {
+    const cadenceSeconds = this.telemetry?.getMinCadenceSeconds();
+    if (!cadenceSeconds) return;
+
+    this.telemetryInterval = setInterval(async () => {
+      try {
+        await this.checkTelemetry();
+      } catch (error) {
+        this.events.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }, cadenceSeconds * 1000);
+  }
+
   private stopSchedulers(): void {
+    if (this.telemetryInterval) {
+      clearInterval(this.telemetryInterval);
+      this.telemetryInterval = null;
+    }
+
     if (this.measurementInterval) {
       clearInterval(this.measurementInterval);
       this.measurementInterval = null;
@@ -291,44 +436,181 @@ export class RuntimeEngine {
     }
   }
 
+  /**
+   * Measure the subject, record the receipt, then enforce on drift
+   * stop() waits for the recording but not for enforcement, which may
+   * itself stop the engine.
+   */
   private async performMeasurement(): Promise<MeasurementResult> {
-    if (!this.artifact) {
+    const recording = this.recordMeasurement();
+    const pending = recording.then(() => undefined, () => undefined);
+    this.pendingMeasurements.add(pending);
+
+    let result: MeasurementResult;
+    try {
+      result = await recording;
+    } finally {
+      this.pendingMeasurements.delete(pending);
+    }
+
+    if (!result.match) {
+      await this.handleDriftDetected({
+        type: 'integrity',
+        currentValue: result.currentHash,
+        expectedValue: result.expectedHash,
+        detectedAt: result.timestamp,
+        source: result.source,
+      });
+    }
+
+    return result;
+  }
+
+  private async recordMeasurement(): Promise<MeasurementResult> {
+    if (!this.artifact || !this.config) {
       throw new Error('No artifact loaded');
     }
 
-    // In production, this would:
-    // 1. Fetch current state from the source
-    // 2. Compute hash using same algorithm as sealing
-    // 3. Compare to sealed hash
+    const measurement = await this.config.measurementBackend.measure(this.artifact);
+
     const result: MeasurementResult = {
       timestamp: new Date().toISOString(),
-      currentHash: this.artifact.sealed_hash, // Placeholder
-      expectedHash: this.artifact.sealed_hash,
-      match: true, // Placeholder
+      currentHash: measurement.compositeHash,
+      expectedHash: measurement.expectedHash,
+      match: measurement.match,
       source: 'file',
+      mismatchedPaths: measurement.mismatchedPaths,
+      metadata: {
+        entryCount: measurement.manifest.entries.length,
+        missingPaths: measurement.missingPaths,
+        unreadablePaths: measurement.unreadablePaths,
+      },
     };
 
     this.events.onMeasurement?.(result);
 
-    if (!result.match) {
-      this.handleDriftDetected({
-        type: 'integrity',
-        currentValue: result.currentHash,
-        expectedValue: result.expectedHash,
-        detectedAt: result.timestamp,
-        source: result.source,
-      });
+    const receiptMeasurement = {
+      compositeHash: measurement.compositeHash,
+      mismatchedPaths: measurement.mismatchedPaths,
+    };
+
+    if (result.match) {
+      await this.appendReceipt('MEASUREMENT_OK', 'NONE', 'OK', undefined, receiptMeasurement);
+    } else {
+      const reasonCode: ReasonCode =
+        measurement.unreadablePaths.length > 0 ? 'SUBJECT_UNREADABLE'
+          : measurement.missingPaths.length > 0 ? 'SUBJECT_MISSING'
+          : 'HASH_MISMATCH_FILE';
+
+      await this.appendReceipt(
+        'DRIFT_DETECTED',
+        this.decisionFor(this.config.enforcementAction),
+        reasonCode,
+        `Mismatched paths: ${measurement.mismatchedPaths.join(', ')}`,
+        receiptMeasurement
+      );
     }
 
     return result;
   }
 
-  private handleDriftDetected(details: DriftDetails): void {
+  /**
+   * Append a signed receipt to the run's chain
+   * Appends are serialized so that concurrent measurements and telemetry
+   * each link to the receipt before them. No-op when the engine has no
+   * signing key configured.
+   */
+  private appendReceipt(
+    eventType: ReceiptEventType,
+    action: EnforcementDecision,
+    reasonCode: ReasonCode,
+    details?: string,
+    measurement?: { compositeHash: string; mismatchedPaths: string[] }
+  ): Promise<Receipt | null> {
+    const next = this.pendingReceipt.then(() =>
+      this.writeReceipt(eventType, action, reasonCode, details, measurement)
+    );
+    this.pendingReceipt = next.catch(() => undefined);
+    return next;
+  }
+
+  private async writeReceipt(
+    eventType: ReceiptEventType,
+    action: EnforcementDecision,
+    reasonCode: ReasonCode,
+    details?: string,
+    measurement?: { compositeHash: string; mismatchedPaths: string[] }
+  ): Promise<Receipt | null> {
+    if (!this.config?.signingKey || !this.artifact || !this.chainHead) {
+      return null;
+    }
+
+    const receipt = await createReceipt({
+      runId: this.chainHead.run_id,
+      sequenceNumber: this.chainHead.head_counter + 1,
+      eventType,
+      policyId: this.artifact.policy_hash,
+      decision: { action, reasonCode, details },
+      measurement,
+      prevReceiptHash: this.chainHead.head_receipt_hash,
+      privateKey: this.config.signingKey.privateKey,
+      publicKey: this.config.signingKey.publicKey,
+      tsa: this.config.tsa,
+    });
+
+    this.receipts.push(receipt);
+    this.chainHead = updateChainHead(this.chainHead, receipt);
+    this.events.onReceipt?.(receipt);
+
+    return receipt;
+  }
+
+  private decisionFor(action: EnforcementAction): EnforcementDecision {
+    switch (action) {
+      case 'KILL':
+        return 'KILL';
+      case 'BLOCK_START':
+        return 'QUARANTINE';
+      case 'ALERT':
+      default:
+        return 'CONTINUE';
+    }
+  }
+
+  private async handleTelemetryEvents(events: TelemetryEvent[]): Promise<void> {
+    for (const event of events) {
+      if (!event.action) {
+        continue;
+      }
+
+      await this.appendReceipt(
+        event.eventType,
+        this.decisionFor(event.action),
+        event.reasonCode,
+        event.details
+      );
+
+      const details: DriftDetails = {
+        type: 'telemetry',
+        currentValue: event.value !== undefined ? String(event.value) : 'no data',
+        expectedValue: event.details,
+        detectedAt: event.detectedAt,
+        source: event.streamId,
+      };
+
+      this.events.onDriftDetected?.(details);
+
+      // A halting action from an earlier event ends enforcement for this batch
+      await this.executeEnforcement(event.action, details);
+    }
+  }
+
+  private async handleDriftDetected(details: DriftDetails): Promise<void> {
     this.events.onDriftDetected?.(details);
 
     // Execute enforcement action
     if (this.config) {
-      this.executeEnforcement(this.config.enforcementAction, details);
+      await this.executeEnforcement(this.config.enforcementAction, details);
     }
   }
 
@@ -347,28 +629,35 @@ export class RuntimeEngine {
         currentValue: 'expired',
         expectedValue: 'valid',
         detectedAt: new Date().toISOString(),
+      }).catch((error) => {
+        this.events.onError?.(error instanceof Error ? error : new Error(String(error)));
       });
     }
   }
 
-  private executeEnforcement(
+  /**
+   * Apply an enforcement action
+   * Only a running engine enforces; once paused or stopped, later drift
+   * from work already under way changes nothing.
+   */
+  private async executeEnforcement(
     action: EnforcementAction,
     details: DriftDetails
-  ): void {
-    let decision: EnforcementDecision;
+  ): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
 
-    switch (action) {
+    const decision = this.decisionFor(action);
+
+    switch (decision) {
       case 'KILL':
-        decision = 'KILL';
-        this.stop();
+        await this.stop();
         break;
-      case 'BLOCK_START':
-        decision = 'QUARANTINE';
+      case 'QUARANTINE':
         this.pause();
         break;
-      case 'ALERT':
       default:
-        decision = 'CONTINUE';
         break;
     }
 
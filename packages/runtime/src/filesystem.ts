@@ -0,0 +1,257 @@
+/**
+ * File-System Measurement Backend
+ * Per AGA Build Guide Phase 5.2 and Build Guide 6.2 / 7.2
+ *
+ * Node-side measurement of FILE_DIGEST specs declared in a PolicyArtifact.
+ * Builds a SubjectManifest from the normalized file contents and compares it
+ * against the sealed reference manifest.
+ */
+
+import { readFile, realpath, stat } from 'node:fs/promises';
+import * as path from 'node:path';
+import { sha256, computeCompositeHash } from '../../core/src/crypto/hash';
+import type {
+  PolicyArtifact,
+  MeasurementSpec,
+  SubjectEntry,
+  SubjectManifest,
+} from '../../core/src/types';
+import type { MeasurementBackend, SubjectMeasurement } from './engine';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBJECT_VERSION = '1' as const;
+
+// Digest recorded for paths that could not be read
+const MISSING_DIGEST = '0'.repeat(64);
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Apply the normalize rules of a MeasurementSpec to raw file bytes
+ *
+ * BINARY content is hashed as-is. UTF-8 content is decoded strictly, then
+ * trailing whitespace and line endings are normalized as declared.
+ */
+export function normalizeFileContent(
+  bytes: Uint8Array,
+  normalize: MeasurementSpec['normalize']
+): Uint8Array {
+  if (normalize.encoding === 'BINARY') {
+    return bytes;
+  }
+
+  let text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+
+  if (normalize.trim_trailing_whitespace) {
+    text = text.replace(/[ \t]+(?=\r\n|\n|\r|$)/g, '');
+  }
+
+  switch (normalize.line_endings) {
+    case 'LF':
+      text = text.replace(/\r\n?/g, '\n');
+      break;
+    case 'CRLF':
+      text = text.replace(/\r\n?/g, '\n').replace(/\n/g, '\r\n');
+      break;
+    case 'NONE':
+    default:
+      break;
+  }
+
+  return new TextEncoder().encode(text);
+}
+
+/**
+ * Resolve a relative POSIX measurement path inside the subject root
+ * Rejects absolute paths and paths that escape the root.
+ */
+export function resolveSubjectPath(rootDir: string, specPath: string): string {
+  if (specPath.includes('\\') || path.posix.isAbsolute(specPath)) {
+    throw new Error(`Measurement path must be a relative POSIX path: ${specPath}`);
+  }
+
+  const normalized = path.posix.normalize(specPath);
+  if (normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Measurement path escapes subject root: ${specPath}`);
+  }
+
+  return path.join(rootDir, ...normalized.split('/'));
+}
+
+/**
+ * Whether an absolute path lies inside (or is) the root directory
+ */
+function isWithinRoot(rootDir: string, target: string): boolean {
+  const relative = path.relative(rootDir, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Errors that mean the file exists but the runtime may not read it
+ */
+function isPermissionError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException).code;
+  return code === 'EACCES' || code === 'EPERM';
+}
+
+type EntryResult =
+  | { status: 'ok'; entry: SubjectEntry }
+  | { status: 'missing' }
+  | { status: 'unreadable' };
+
+// ============================================================================
+// FILE-SYSTEM MEASUREMENT BACKEND
+// ============================================================================
+
+export class FileSystemMeasurementBackend implements MeasurementBackend {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Get the subject root directory
+   */
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Build a SubjectManifest for the given measurement specs
+   * Entries keep the declared spec order; missing and unreadable paths get
+   * a zero digest.
+   */
+  async buildManifest(specs: MeasurementSpec[]): Promise<{
+    manifest: SubjectManifest;
+    missingPaths: string[];
+    unreadablePaths: string[];
+  }> {
+    const entries: SubjectEntry[] = [];
+    const missingPaths: string[] = [];
+    const unreadablePaths: string[] = [];
+
+    for (const spec of specs) {
+      if (spec.type !== 'FILE_DIGEST') {
+        throw new Error(`Unsupported measurement type: ${spec.type}`);
+      }
+
+      const result = await this.measureEntry(spec);
+      if (result.status !== 'ok') {
+        (result.status === 'missing' ? missingPaths : unreadablePaths).push(spec.path);
+        entries.push({
+          path: spec.path,
+          sha256: MISSING_DIGEST,
+          size_bytes: 0,
+          last_modified_at: new Date(0).toISOString(),
+        });
+        continue;
+      }
+
+      entries.push(result.entry);
+    }
+
+    const composite = await computeCompositeHash(entries.map((e) => e.sha256));
+
+    return {
+      manifest: {
+        subject_v: SUBJECT_VERSION,
+        subject_root_hint: path.basename(this.rootDir),
+        entries,
+        composite_subject_hash: composite,
+      },
+      missingPaths,
+      unreadablePaths,
+    };
+  }
+
+  /**
+   * Measure the artifact's declared paths against its sealed manifest
+   */
+  async measure(artifact: PolicyArtifact): Promise<SubjectMeasurement> {
+    const specs = artifact.integrity_policy.measurements;
+    if (!specs || specs.length === 0) {
+      throw new Error(`Artifact ${artifact.artifact_id} declares no FILE_DIGEST measurements`);
+    }
+
+    const sealed = artifact.integrity_policy.subject_manifest;
+    if (!sealed) {
+      throw new Error(`Artifact ${artifact.artifact_id} has no sealed subject manifest`);
+    }
+
+    const { manifest, missingPaths, unreadablePaths } = await this.buildManifest(specs);
+
+    const sealedDigests = new Map(sealed.entries.map((e) => [e.path, e.sha256]));
+    const mismatchedPaths = manifest.entries
+      .filter((entry) => sealedDigests.get(entry.path) !== entry.sha256)
+      .map((entry) => entry.path);
+
+    return {
+      manifest,
+      compositeHash: manifest.composite_subject_hash,
+      expectedHash: sealed.composite_subject_hash,
+      match:
+        mismatchedPaths.length === 0 &&
+        manifest.composite_subject_hash === sealed.composite_subject_hash,
+      mismatchedPaths,
+      missingPaths,
+      unreadablePaths,
+    };
+  }
+
+  /**
+   * Read, normalize and hash a single file
+   * A file that is absent, not a regular file, or not valid for the declared
+   * encoding is missing; one the runtime lacks permission to read is
+   * unreadable. Symlinks are followed only while they stay inside the root.
+   */
+  private async measureEntry(spec: MeasurementSpec): Promise<EntryResult> {
+    const filePath = resolveSubjectPath(this.rootDir, spec.path);
+
+    let realFile: string;
+    try {
+      realFile = await realpath(filePath);
+    } catch (error) {
+      return isPermissionError(error) ? { status: 'unreadable' } : { status: 'missing' };
+    }
+
+    if (!isWithinRoot(await realpath(this.rootDir), realFile)) {
+      throw new Error(`Measurement path escapes subject root through a symlink: ${spec.path}`);
+    }
+
+    try {
+      const info = await stat(realFile);
+      if (!info.isFile()) {
+        return { status: 'missing' };
+      }
+
+      const raw = new Uint8Array(await readFile(realFile));
+      const normalized = normalizeFileContent(raw, spec.normalize);
+
+      return {
+        status: 'ok',
+        entry: {
+          path: spec.path,
+          sha256: await sha256(normalized),
+          size_bytes: normalized.length,
+          last_modified_at: info.mtime.toISOString(),
+        },
+      };
+    } catch (error) {
+      return isPermissionError(error) ? { status: 'unreadable' } : { status: 'missing' };
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+export function createFileSystemBackend(rootDir: string): FileSystemMeasurementBackend {
+  return new FileSystemMeasurementBackend(rootDir);
+}
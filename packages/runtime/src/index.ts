@@ -13,8 +13,44 @@ export {
   type MeasurementResult,
   type DriftDetails,
   type EnforcementRecord,
+  type MeasurementBackend,
+  type SubjectMeasurement,
 } from './engine';
 
+// File-system measurement
+export {
+  FileSystemMeasurementBackend,
+  createFileSystemBackend,
+  normalizeFileContent,
+  resolveSubjectPath,
+} from './filesystem';
+
+// Telemetry
+export {
+  TelemetryEvaluator,
+  createTelemetryEvaluator,
+  evaluateDriftRule,
+  checkMissingData,
+  checkLateData,
+  type TelemetrySample,
+  type TelemetryEvent,
+  type TelemetryEventType,
+  type DriftRuleResult,
+  type StreamState,
+} from './telemetry';
+
+// Replay protection
+export {
+  ReplayGuard,
+  createReplayGuard,
+  evaluateSequence,
+  MemoryReplayStateStore,
+  FileReplayStateStore,
+  type ReplayState,
+  type ReplayCheckResult,
+  type ReplayStateStore,
+} from './replay';
+
 // Measurement
 export {
   MeasurementExecutor,
@@ -53,3 +89,13 @@ export {
   type LifecycleEvent,
   type ExpirationNotification,
 } from './lifecycle';
+
+// Local Governance Engine service
+export {
+  LocalGovernanceEngine,
+  createLocalGovernanceEngine,
+  loadLgeConfig,
+  type LgeConfig,
+  type LgeLogLevel,
+  type LgeStatus,
+} from './lge';
@@ -0,0 +1,521 @@
+/**
+ * Local Governance Engine (LGE) Service
+ * Per AGA Build Guide Phase 12 (Local Deployment)
+ *
+ * Standalone HTTP service around the runtime engine. Loads a signed
+ * PolicyArtifact, measures the subject on disk at a fixed cadence, appends
+ * every receipt to a JSONL ledger and serves status, receipts, the chain
+ * head and evidence bundles.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { readFile, writeFile, appendFile, rename, mkdir, chmod } from 'node:fs/promises';
+import * as path from 'node:path';
+import { verifyPolicyArtifact } from '../../core/src/bundle/policy-artifact';
+import { BundleGenerator } from '../../core/src/bundle/generator';
+import { canonicalize } from '../../core/src/crypto/canonical';
+import {
+  generateKeyPair,
+  serializeKeyPair,
+  deserializeKeyPair,
+  bytesToBase64,
+} from '../../core/src/crypto/signature';
+import { generateKeyIdHash } from '../../core/src/crypto/keys';
+import type {
+  PolicyArtifact,
+  Receipt,
+  ChainHead,
+  EnforcementAction,
+} from '../../core/src/types';
+import {
+  RuntimeEngine,
+  type DriftDetails,
+  type EnforcementRecord,
+  type EngineState,
+} from './engine';
+import { createFileSystemBackend } from './filesystem';
+import { FileReplayStateStore } from './replay';
+import { EnforcementExecutor } from './enforcement';
+import { TtlMonitor, type ArtifactLifecycle, type LifecycleEvent } from './lifecycle';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LgeLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LgeConfig {
+  port: number;
+  host: string;
+  logLevel: LgeLogLevel;
+  ledgerPath: string;            // Directory holding <run_id>.jsonl and chain_head.json
+  dataPath: string;              // Directory holding the signing key and replay state
+  artifactPath: string;          // Signed PolicyArtifact JSON
+  subjectRoot: string;           // Root that FILE_DIGEST paths resolve against
+  measurementCadenceMs: number;
+}
+
+export interface LgeStatus {
+  status: 'ok' | 'degraded';
+  engine_state: EngineState;
+  artifact_id: string | null;
+  policy_hash: string | null;
+  run_id: string | null;
+  receipt_count: number;
+  head_receipt_hash: string | null;
+  signer_key_id: string | null;
+  lifecycle: ArtifactLifecycle | null;
+  last_error: string | null;
+  uptime_seconds: number;
+}
+
+interface LgeSigningKey {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+  keyId: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LOG_LEVELS: LgeLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const KEY_FILE = 'signing-key.json';
+const REPLAY_STATE_FILE = 'replay-state.json';
+const CHAIN_HEAD_FILE = 'chain_head.json';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Read service configuration from LGE_* environment variables
+ */
+export function loadLgeConfig(env: NodeJS.ProcessEnv = process.env): LgeConfig {
+  const dataPath = env.LGE_DATA_PATH || '/var/lib/lge';
+  const logLevel = (env.LGE_LOG_LEVEL || 'info') as LgeLogLevel;
+
+  if (!LOG_LEVELS.includes(logLevel)) {
+    throw new Error(`Invalid LGE_LOG_LEVEL: ${env.LGE_LOG_LEVEL}`);
+  }
+
+  return {
+    port: parseIntegerEnv('LGE_PORT', env.LGE_PORT, 8080),
+    host: env.LGE_HOST || '0.0.0.0',
+    logLevel,
+    ledgerPath: env.LGE_LEDGER_PATH || '/var/log/lge',
+    dataPath,
+    artifactPath: env.LGE_ARTIFACT_PATH || path.join(dataPath, 'artifact.json'),
+    subjectRoot: env.LGE_SUBJECT_ROOT || path.join(dataPath, 'subject'),
+    measurementCadenceMs: parseIntegerEnv('LGE_MEASUREMENT_CADENCE_MS', env.LGE_MEASUREMENT_CADENCE_MS, 60000),
+  };
+}
+
+// ============================================================================
+// LOCAL GOVERNANCE ENGINE
+// ============================================================================
+
+export class LocalGovernanceEngine {
+  private config: LgeConfig;
+  private engine: RuntimeEngine;
+  private ttl = new TtlMonitor();
+  private executor = new EnforcementExecutor();
+  private server: Server | null = null;
+  private artifact: PolicyArtifact | null = null;
+  private signingKey: LgeSigningKey | null = null;
+  private lastDrift: DriftDetails | null = null;
+  private ledgerWrites: Promise<void> = Promise.resolve();
+  private lastError: string | null = null;
+  private startedAt = Date.now();
+
+  constructor(config: LgeConfig) {
+    this.config = config;
+    this.engine = new RuntimeEngine({
+      onReceipt: (receipt) => this.recordReceipt(receipt),
+      onDriftDetected: (details) => {
+        this.lastDrift = details;
+      },
+      onEnforcementAction: (record) => this.enforce(record),
+      onStateChange: (state, previous) => this.log('info', `Engine state ${previous} -> ${state}`),
+      onError: (error) => {
+        this.lastError = error.message;
+        this.log('error', error.message);
+      },
+    });
+  }
+
+  /**
+   * Load the artifact, start the engine and begin serving HTTP
+   */
+  async start(): Promise<void> {
+    await mkdir(this.config.ledgerPath, { recursive: true });
+    await mkdir(this.config.dataPath, { recursive: true });
+
+    this.artifact = await this.loadArtifact();
+    this.signingKey = await this.loadSigningKey();
+
+    if (!this.artifact.integrity_policy.measurements?.length) {
+      this.log('warn', `Artifact ${this.artifact.artifact_id} declares no FILE_DIGEST measurements`);
+    }
+
+    this.ttl.onEvent(async (event) => this.onLifecycleEvent(event));
+    this.ttl.register(this.artifact);
+
+    await this.engine.initialize(this.artifact, {
+      artifactId: this.artifact.artifact_id,
+      vaultId: this.artifact.vault_id,
+      measurementCadenceMs: this.config.measurementCadenceMs,
+      enforcementAction: toEnforcementAction(this.artifact),
+      ttlSeconds: remainingTtlSeconds(this.artifact),
+      measurementBackend: createFileSystemBackend(this.config.subjectRoot),
+      replayStore: new FileReplayStateStore(path.join(this.config.dataPath, REPLAY_STATE_FILE)),
+      signingKey: {
+        privateKey: this.signingKey.privateKey,
+        publicKey: this.signingKey.publicKey,
+      },
+    });
+
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.log('error', `Request error: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: 'Internal server error', code: 'INTERNAL_ERROR' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.config.port, this.config.host, () => resolve());
+    });
+
+    this.log('info', `LGE listening on ${this.config.host}:${this.getPort()}`);
+  }
+
+  /**
+   * Stop measuring, close the server and flush the ledger
+   */
+  async stop(): Promise<void> {
+    await this.engine.stop();
+    this.ttl.stop();
+
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+
+    await this.ledgerWrites;
+  }
+
+  /**
+   * Port the server is bound to (useful when configured with port 0)
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.config.port;
+  }
+
+  /**
+   * Wait until every receipt so far has been written to the ledger
+   */
+  async flush(): Promise<void> {
+    await this.ledgerWrites;
+  }
+
+  getStatus(): LgeStatus {
+    const state = this.engine.getState();
+    const chainHead = this.engine.getChainHead();
+
+    return {
+      status: state === 'running' ? 'ok' : 'degraded',
+      engine_state: state,
+      artifact_id: this.artifact?.artifact_id ?? null,
+      policy_hash: this.artifact?.policy_hash ?? null,
+      run_id: chainHead?.run_id ?? null,
+      receipt_count: chainHead?.receipt_count ?? 0,
+      head_receipt_hash: chainHead?.head_receipt_hash ?? null,
+      signer_key_id: this.signingKey?.keyId ?? null,
+      lifecycle: this.artifact ? this.ttl.getStatus(this.artifact.artifact_id) ?? null : null,
+      last_error: this.lastError,
+      uptime_seconds: Math.floor((Date.now() - this.startedAt) / 1000),
+    };
+  }
+
+  // ============================================================================
+  // HTTP ROUTES
+  // ============================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://lge.local');
+
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: `Method ${req.method} not allowed`, code: 'METHOD_NOT_ALLOWED' });
+      return;
+    }
+
+    switch (url.pathname) {
+      case '/v1/status':
+        sendJson(res, 200, { data: this.getStatus() });
+        return;
+      case '/v1/receipts':
+        this.handleReceipts(url, res);
+        return;
+      case '/v1/chain/head':
+        this.handleChainHead(res);
+        return;
+      case '/v1/bundle':
+        await this.handleBundle(res);
+        return;
+      default:
+        sendJson(res, 404, { error: 'Not found', code: 'NOT_FOUND' });
+    }
+  }
+
+  /**
+   * GET /v1/receipts?cursor=<sequence_number>&limit=<n>
+   */
+  private handleReceipts(url: URL, res: ServerResponse): void {
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LIMIT : parsePositiveInt(limitParam);
+    if (limit === null || limit < 1 || limit > MAX_LIMIT) {
+      sendJson(res, 400, { error: `limit must be between 1 and ${MAX_LIMIT}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const cursorParam = url.searchParams.get('cursor');
+    const cursor = cursorParam === null ? null : parsePositiveInt(cursorParam);
+    if (cursorParam !== null && cursor === null) {
+      sendJson(res, 400, { error: 'cursor must be a sequence number', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const receipts = this.engine.getReceipts();
+    const remaining = cursor === null ? receipts : receipts.filter((r) => r.sequence_number > cursor);
+    const page = remaining.slice(0, limit);
+    const hasMore = remaining.length > limit;
+
+    sendJson(res, 200, {
+      data: page,
+      meta: {
+        total: receipts.length,
+        limit,
+        cursor,
+        nextCursor: hasMore ? page[page.length - 1].sequence_number : null,
+      },
+    });
+  }
+
+  /**
+   * GET /v1/chain/head
+   */
+  private handleChainHead(res: ServerResponse): void {
+    const chainHead = this.engine.getChainHead();
+    if (!chainHead) {
+      sendJson(res, 404, { error: 'No active run', code: 'NOT_FOUND' });
+      return;
+    }
+    sendJson(res, 200, { data: chainHead });
+  }
+
+  /**
+   * GET /v1/bundle - evidence bundle for the current run as a ZIP archive
+   */
+  private async handleBundle(res: ServerResponse): Promise<void> {
+    const chainHead = this.engine.getChainHead();
+    if (!this.artifact || !this.signingKey || !chainHead) {
+      sendJson(res, 409, { error: 'No active run to export', code: 'NOT_READY' });
+      return;
+    }
+
+    const bundle = await new BundleGenerator().generate({
+      artifact: this.artifact,
+      receipts: this.engine.getReceipts(),
+      chainHead,
+      platformPublicKey: bytesToBase64(this.signingKey.publicKey),
+    });
+
+    const body = Buffer.from(await bundle.blob.arrayBuffer());
+    res.writeHead(200, {
+      'Content-Type': 'application/zip',
+      'Content-Length': body.length,
+      'Content-Disposition': `attachment; filename="${bundle.filename}"`,
+      'X-Bundle-Id': bundle.manifest.bundle_id,
+    });
+    res.end(body);
+  }
+
+  // ============================================================================
+  // PRIVATE METHODS
+  // ============================================================================
+
+  /**
+   * Read the artifact and refuse to run one that fails verification
+   */
+  private async loadArtifact(): Promise<PolicyArtifact> {
+    const artifact = JSON.parse(await readFile(this.config.artifactPath, 'utf-8')) as PolicyArtifact;
+
+    const validation = await verifyPolicyArtifact(artifact);
+    if (!validation.valid) {
+      throw new Error(`Artifact ${this.config.artifactPath} failed verification: ${validation.errors.join('; ')}`);
+    }
+    for (const warning of validation.warnings) {
+      this.log('warn', warning);
+    }
+
+    this.log('info', `Loaded artifact ${artifact.artifact_id} (policy ${artifact.policy_hash.slice(0, 16)})`);
+    return artifact;
+  }
+
+  /**
+   * Load the receipt signing key, generating one on first start
+   */
+  private async loadSigningKey(): Promise<LgeSigningKey> {
+    const keyPath = path.join(this.config.dataPath, KEY_FILE);
+
+    let stored: { publicKeyB64: string; privateKeyB64: string };
+    try {
+      stored = JSON.parse(await readFile(keyPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+
+      const { publicKey, privateKey } = await generateKeyPair();
+      stored = serializeKeyPair(publicKey, privateKey);
+      await writeFile(keyPath, JSON.stringify(stored, null, 2), { encoding: 'utf-8', mode: 0o600 });
+      await chmod(keyPath, 0o600);
+      this.log('info', `Generated receipt signing key at ${keyPath}`);
+    }
+
+    const { publicKey, privateKey } = deserializeKeyPair(stored.publicKeyB64, stored.privateKeyB64);
+    return { publicKey, privateKey, keyId: await generateKeyIdHash(publicKey) };
+  }
+
+  /**
+   * Append a receipt to the run's ledger and persist the chain head
+   * Writes are serialized so the ledger keeps chain order.
+   */
+  private recordReceipt(receipt: Receipt): void {
+    const chainHead = this.engine.getChainHead();
+
+    this.ledgerWrites = this.ledgerWrites
+      .then(async () => {
+        const ledgerFile = path.join(this.config.ledgerPath, `${receipt.run_id}.jsonl`);
+        await appendFile(ledgerFile, canonicalize(receipt) + '\n', 'utf-8');
+        if (chainHead) {
+          await this.writeChainHead(chainHead);
+        }
+      })
+      .catch((error) => {
+        this.lastError = `Ledger write failed: ${error instanceof Error ? error.message : error}`;
+        this.log('error', this.lastError);
+      });
+
+    this.log('debug', `Receipt ${receipt.sequence_number} ${receipt.event_type}`);
+  }
+
+  private async writeChainHead(chainHead: ChainHead): Promise<void> {
+    const headPath = path.join(this.config.ledgerPath, CHAIN_HEAD_FILE);
+    const tmpPath = `${headPath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(chainHead, null, 2), 'utf-8');
+    await rename(tmpPath, headPath);
+  }
+
+  /**
+   * Hand an engine enforcement decision to the executor for notification
+   * The engine reports drift just before acting on it.
+   */
+  private enforce(record: EnforcementRecord): void {
+    if (!this.artifact || !this.lastDrift) return;
+
+    this.log('warn', `Enforcement ${record.decision}: ${record.reason}`);
+    this.executor
+      .execute(record.action, {
+        artifactId: this.artifact.artifact_id,
+        vaultId: this.artifact.vault_id,
+        runId: this.engine.getChainHead()?.run_id ?? '',
+        driftDetails: {
+          type: this.lastDrift.type,
+          currentValue: this.lastDrift.currentValue,
+          expectedValue: this.lastDrift.expectedValue,
+          source: this.lastDrift.source,
+        },
+      })
+      .catch((error) => this.log('error', `Enforcement error: ${error instanceof Error ? error.message : error}`));
+  }
+
+  private async onLifecycleEvent(event: LifecycleEvent): Promise<void> {
+    this.log(event.type === 'expired' ? 'warn' : 'info', `Lifecycle ${event.type}: ${event.details ?? ''}`);
+  }
+
+  private log(level: LgeLogLevel, message: string): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.config.logLevel)) {
+      return;
+    }
+    const line = `[LGE] ${new Date().toISOString()} ${level.toUpperCase()} ${message}`;
+    if (level === 'error') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Runtime enforcement action implied by the artifact's drift policy
+ */
+function toEnforcementAction(artifact: PolicyArtifact): EnforcementAction {
+  switch (artifact.enforcement_policy.on_drift) {
+    case 'KILL':
+      return 'KILL';
+    case 'QUARANTINE':
+      return 'BLOCK_START';
+    default:
+      return 'ALERT';
+  }
+}
+
+function remainingTtlSeconds(artifact: PolicyArtifact): number | null {
+  if (!artifact.not_after) return null;
+  return Math.max(1, Math.ceil((new Date(artifact.not_after).getTime() - Date.now()) / 1000));
+}
+
+function parseIntegerEnv(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function parsePositiveInt(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+export function createLocalGovernanceEngine(config: LgeConfig = loadLgeConfig()): LocalGovernanceEngine {
+  return new LocalGovernanceEngine(config);
+}
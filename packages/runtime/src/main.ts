@@ -0,0 +1,28 @@
+/**
+ * Local Governance Engine Entrypoint
+ * Per AGA Build Guide Phase 12 (Local Deployment)
+ *
+ * Starts the LGE service from LGE_* environment variables and shuts it down
+ * cleanly on SIGTERM/SIGINT so the ledger is flushed before exit.
+ */
+
+import { createLocalGovernanceEngine, loadLgeConfig } from './lge';
+
+async function main(): Promise<void> {
+  const lge = createLocalGovernanceEngine(loadLgeConfig());
+  await lge.start();
+
+  const shutdown = async (signal: string) => {
+    console.log(`[LGE] ${signal} received, shutting down`);
+    await lge.stop();
+    process.exit(0);
+  };
+
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+}
+
+main().catch((error) => {
+  console.error('[LGE] Failed to start:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
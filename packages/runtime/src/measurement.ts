@@ -125,16 +125,17 @@ export class MeasurementExecutor {
   }
 
   /**
-   * Measure a file (browser File API)
+   * Measure a file on the local file system (Node.js only)
+   * Normalized multi-file measurement lives in FileSystemMeasurementBackend.
    */
   private async measureFile(source: string): Promise<string> {
-    // In browser context, this would use FileReader
-    // For now, return placeholder
-    // In production, this would:
-    // 1. Read file from source path
-    // 2. Compute SHA-256 hash
-    // 3. Return hex-encoded hash
-    throw new Error('File measurement not available in browser context');
+    if (typeof process === 'undefined' || !process.versions?.node) {
+      throw new Error('File measurement not available in browser context');
+    }
+
+    const { readFile } = await import('node:fs/promises');
+    const content = await readFile(source);
+    return computeSha256(new Uint8Array(content).buffer);
   }
 
   /**
@@ -0,0 +1,257 @@
+/**
+ * Replay Protection
+ * Per AGA Spec Section 11 (Telemetry Policy) and test vectors TV-RPY-001 / TV-RPY-002
+ *
+ * Tracks the last accepted sequence number per (run_id, stream_id) pair.
+ * State is persisted, so an engine that resumes a run after a restart keeps
+ * rejecting replays; a new run starts every stream again at 1.
+ * Sequence numbers start at 1 and must increase by exactly one; duplicates
+ * and regressions are replays, anything else is an invalid sequence.
+ *
+ * A gap is never accepted on its own. Once an operator has confirmed that
+ * messages were lost or the sender's counter restarted, resync() moves the
+ * stream's state so the sender can continue.
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ReasonCode } from '../../core/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Last accepted sequence number, keyed by run_id then stream_id
+ */
+export type ReplayState = Record<string, Record<string, number>>;
+
+export interface ReplayCheckResult {
+  accept: boolean;
+  reasonCode: Extract<ReasonCode, 'OK' | 'REPLAY_DETECTED' | 'SEQUENCE_INVALID'>;
+  reason: string;
+  lastAccepted: number | null;
+}
+
+export interface ReplayStateStore {
+  load(): Promise<ReplayState>;
+  save(state: ReplayState): Promise<void>;
+}
+
+// ============================================================================
+// SEQUENCE EVALUATION
+// ============================================================================
+
+/**
+ * Decide whether a sequence number may follow the last accepted one
+ */
+export function evaluateSequence(
+  sequenceNumber: number,
+  lastAccepted: number | null
+): ReplayCheckResult {
+  if (!Number.isSafeInteger(sequenceNumber) || sequenceNumber < 1) {
+    return {
+      accept: false,
+      reasonCode: 'SEQUENCE_INVALID',
+      reason: `sequence number ${sequenceNumber} is not a positive integer`,
+      lastAccepted,
+    };
+  }
+
+  if (lastAccepted === null) {
+    if (sequenceNumber !== 1) {
+      return {
+        accept: false,
+        reasonCode: 'SEQUENCE_INVALID',
+        reason: `first sequence number must be 1, got ${sequenceNumber}`,
+        lastAccepted,
+      };
+    }
+    return {
+      accept: true,
+      reasonCode: 'OK',
+      reason: 'First message for (run_id, stream_id) pair',
+      lastAccepted,
+    };
+  }
+
+  if (sequenceNumber <= lastAccepted) {
+    return {
+      accept: false,
+      reasonCode: 'REPLAY_DETECTED',
+      reason: `sequence number ${sequenceNumber} already accepted (last ${lastAccepted})`,
+      lastAccepted,
+    };
+  }
+
+  if (sequenceNumber !== lastAccepted + 1) {
+    return {
+      accept: false,
+      reasonCode: 'SEQUENCE_INVALID',
+      reason: `sequence gap: expected ${lastAccepted + 1}, got ${sequenceNumber}`,
+      lastAccepted,
+    };
+  }
+
+  return {
+    accept: true,
+    reasonCode: 'OK',
+    reason: `sequence number ${sequenceNumber} follows ${lastAccepted}`,
+    lastAccepted,
+  };
+}
+
+// ============================================================================
+// STATE STORES
+// ============================================================================
+
+/**
+ * Non-persistent store; state is lost when the process exits
+ */
+export class MemoryReplayStateStore implements ReplayStateStore {
+  private state: ReplayState = {};
+
+  async load(): Promise<ReplayState> {
+    return cloneState(this.state);
+  }
+
+  async save(state: ReplayState): Promise<void> {
+    this.state = cloneState(state);
+  }
+}
+
+/**
+ * JSON file store so accepted sequence numbers survive restarts
+ * Writes go to a temporary file first and are renamed into place.
+ */
+export class FileReplayStateStore implements ReplayStateStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load(): Promise<ReplayState> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Invalid replay state file: ${this.filePath}`);
+    }
+    return parsed as ReplayState;
+  }
+
+  async save(state: ReplayState): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(state, null, 2), 'utf-8');
+    await rename(tmpPath, this.filePath);
+  }
+}
+
+// ============================================================================
+// REPLAY GUARD
+// ============================================================================
+
+export class ReplayGuard {
+  private store: ReplayStateStore;
+  private state: ReplayState = {};
+
+  constructor(store: ReplayStateStore = new MemoryReplayStateStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Load previously accepted sequence numbers from the store
+   */
+  async load(): Promise<void> {
+    this.state = await this.store.load();
+  }
+
+  /**
+   * Get the last accepted sequence number for a run/stream pair
+   */
+  getLastAccepted(runId: string, streamId: string): number | null {
+    return this.state[runId]?.[streamId] ?? null;
+  }
+
+  /**
+   * Check a sequence number without recording it
+   */
+  check(runId: string, streamId: string, sequenceNumber: number): ReplayCheckResult {
+    return evaluateSequence(sequenceNumber, this.getLastAccepted(runId, streamId));
+  }
+
+  /**
+   * Record a sequence number as accepted and persist the state
+   * Throws if the sequence number does not pass check().
+   */
+  async commit(runId: string, streamId: string, sequenceNumber: number): Promise<void> {
+    const result = this.check(runId, streamId, sequenceNumber);
+    if (!result.accept) {
+      throw new Error(`Cannot commit sequence number: ${result.reason}`);
+    }
+
+    this.state[runId] = { ...this.state[runId], [streamId]: sequenceNumber };
+    await this.store.save(this.state);
+  }
+
+  /**
+   * Check a sequence number and record it when accepted
+   */
+  async accept(runId: string, streamId: string, sequenceNumber: number): Promise<ReplayCheckResult> {
+    const result = this.check(runId, streamId, sequenceNumber);
+    if (result.accept) {
+      await this.commit(runId, streamId, sequenceNumber);
+    }
+    return result;
+  }
+
+  /**
+   * Move a stream past a gap or a restarted sender counter
+   * The next accepted sequence number becomes lastAccepted + 1, or 1 when
+   * lastAccepted is null. Only call this once the gap has been explained;
+   * check() keeps rejecting it as SEQUENCE_INVALID until then.
+   */
+  async resync(runId: string, streamId: string, lastAccepted: number | null): Promise<void> {
+    if (lastAccepted !== null && (!Number.isSafeInteger(lastAccepted) || lastAccepted < 1)) {
+      throw new Error(`Cannot resync to sequence number ${lastAccepted}: not a positive integer`);
+    }
+
+    const streams = { ...this.state[runId] };
+    if (lastAccepted === null) {
+      delete streams[streamId];
+    } else {
+      streams[streamId] = lastAccepted;
+    }
+
+    this.state[runId] = streams;
+    await this.store.save(this.state);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function cloneState(state: ReplayState): ReplayState {
+  return Object.fromEntries(
+    Object.entries(state).map(([runId, streams]) => [runId, { ...streams }])
+  );
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+export function createReplayGuard(store?: ReplayStateStore): ReplayGuard {
+  return new ReplayGuard(store);
+}
@@ -0,0 +1,322 @@
+/**
+ * Telemetry Stream Evaluator
+ * Per AGA Spec Section 11 (Telemetry Policy) and test vector TV-DRIFT-TELEMETRY
+ *
+ * Ingests timestamped stream samples and evaluates the drift rule,
+ * missing-data tolerance and late-data grace of each StreamDefinition.
+ */
+
+import type {
+  TelemetryPolicy,
+  StreamDefinition,
+  TelemetryComparator,
+  EnforcementAction,
+  ReasonCode,
+} from '../../core/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TelemetrySample {
+  stream_id: string;
+  value: number;
+  measurement_time: string;   // ISO 8601 UTC with Z
+  sequence_number?: number;
+}
+
+export type TelemetryEventType =
+  | 'MEASUREMENT_OK'
+  | 'DRIFT_DETECTED'
+  | 'MISSING_DATA'
+  | 'LATE_DATA'
+  | 'REPLAY_DETECTED'
+  | 'SEQUENCE_INVALID';
+
+export interface TelemetryEvent {
+  streamId: string;
+  eventType: TelemetryEventType;
+  reasonCode: ReasonCode;
+  action: EnforcementAction | null;   // null for MEASUREMENT_OK
+  details: string;
+  detectedAt: string;
+  value?: number;
+}
+
+export interface DriftRuleResult {
+  driftDetected: boolean;
+  details?: string;
+}
+
+export interface StreamState {
+  streamId: string;
+  lastMeasurementAt: string | null;
+  expectedNextAt: string;
+  lastValue: number | null;
+  missingReported: boolean;
+  sampleCount: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_STREAMS = 5;
+
+const COMPARATORS: Record<TelemetryComparator, { test: (a: number, b: number) => boolean; label: string }> = {
+  '<': { test: (a, b) => a < b, label: 'less than' },
+  '<=': { test: (a, b) => a <= b, label: 'less than or equal to' },
+  '>': { test: (a, b) => a > b, label: 'greater than' },
+  '>=': { test: (a, b) => a >= b, label: 'greater than or equal to' },
+  '==': { test: (a, b) => a === b, label: 'equal to' },
+  '!=': { test: (a, b) => a !== b, label: 'different from' },
+  LESS_THAN: { test: (a, b) => a < b, label: 'less than' },
+  LESS_THAN_OR_EQUAL: { test: (a, b) => a <= b, label: 'less than or equal to' },
+  GREATER_THAN: { test: (a, b) => a > b, label: 'greater than' },
+  GREATER_THAN_OR_EQUAL: { test: (a, b) => a >= b, label: 'greater than or equal to' },
+  EQUAL: { test: (a, b) => a === b, label: 'equal to' },
+  NOT_EQUAL: { test: (a, b) => a !== b, label: 'different from' },
+};
+
+// ============================================================================
+// RULE EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a stream drift rule against an observed value
+ * RANGE: value must lie within [min, max]
+ * THRESHOLD: value must satisfy `value <comparator> threshold`
+ */
+export function evaluateDriftRule(
+  rule: StreamDefinition['drift_rule'],
+  value: number
+): DriftRuleResult {
+  if (!Number.isFinite(value)) {
+    return { driftDetected: true, details: `value ${value} is not a finite number` };
+  }
+
+  if (rule.type === 'RANGE') {
+    if (rule.min !== undefined && value < rule.min) {
+      return { driftDetected: true, details: `value ${value} below minimum ${rule.min}` };
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      return { driftDetected: true, details: `value ${value} above maximum ${rule.max}` };
+    }
+    return { driftDetected: false };
+  }
+
+  if (rule.comparator === undefined || rule.value === undefined) {
+    throw new Error('THRESHOLD drift rule requires comparator and value');
+  }
+
+  const comparator = COMPARATORS[rule.comparator];
+  if (!comparator) {
+    throw new Error(`Unknown comparator: ${rule.comparator}`);
+  }
+
+  if (!comparator.test(value, rule.value)) {
+    return {
+      driftDetected: true,
+      details: `value ${value} not ${comparator.label} threshold ${rule.value}`,
+    };
+  }
+
+  return { driftDetected: false };
+}
+
+/**
+ * Check whether a stream has exceeded its missing-data tolerance
+ * Data is missing once no sample arrived for cadence + tolerance seconds.
+ */
+export function checkMissingData(
+  stream: Pick<StreamDefinition, 'cadence_seconds' | 'missing_data_tolerance_seconds'>,
+  lastMeasurementAt: string,
+  currentTime: string
+): { missing: boolean; gapSeconds: number } {
+  const gapSeconds = (Date.parse(currentTime) - Date.parse(lastMeasurementAt)) / 1000;
+  const allowed = stream.cadence_seconds + stream.missing_data_tolerance_seconds;
+  return { missing: gapSeconds > allowed, gapSeconds };
+}
+
+/**
+ * Check whether a sample arrived beyond the late-data grace period
+ */
+export function checkLateData(
+  stream: Pick<StreamDefinition, 'late_data_policy'>,
+  expectedTime: string,
+  measurementTime: string
+): { late: boolean; delaySeconds: number } {
+  const delaySeconds = (Date.parse(measurementTime) - Date.parse(expectedTime)) / 1000;
+  return { late: delaySeconds > stream.late_data_policy.grace_seconds, delaySeconds };
+}
+
+// ============================================================================
+// TELEMETRY EVALUATOR
+// ============================================================================
+
+export class TelemetryEvaluator {
+  private streams: Map<string, StreamDefinition> = new Map();
+  private states: Map<string, StreamState> = new Map();
+
+  constructor(policy: TelemetryPolicy, startTime: string = new Date().toISOString()) {
+    if (policy.streams.length > MAX_STREAMS) {
+      throw new Error(`Telemetry policy declares ${policy.streams.length} streams (max ${MAX_STREAMS})`);
+    }
+
+    for (const stream of policy.streams) {
+      if (this.streams.has(stream.stream_id)) {
+        throw new Error(`Duplicate stream_id: ${stream.stream_id}`);
+      }
+
+      this.streams.set(stream.stream_id, stream);
+      this.states.set(stream.stream_id, {
+        streamId: stream.stream_id,
+        lastMeasurementAt: null,
+        expectedNextAt: addSeconds(startTime, stream.cadence_seconds),
+        lastValue: null,
+        missingReported: false,
+        sampleCount: 0,
+      });
+    }
+  }
+
+  /**
+   * Get the declared stream IDs
+   */
+  getStreamIds(): string[] {
+    return Array.from(this.streams.keys());
+  }
+
+  /**
+   * Get the tracked state of a stream
+   */
+  getStreamState(streamId: string): StreamState | undefined {
+    const state = this.states.get(streamId);
+    return state ? { ...state } : undefined;
+  }
+
+  /**
+   * Smallest cadence across all streams, in seconds
+   */
+  getMinCadenceSeconds(): number | null {
+    const cadences = Array.from(this.streams.values()).map((s) => s.cadence_seconds);
+    return cadences.length > 0 ? Math.min(...cadences) : null;
+  }
+
+  /**
+   * Ingest a sample and evaluate late-data and drift rules
+   * A late sample still has its value evaluated.
+   */
+  ingest(sample: TelemetrySample): TelemetryEvent[] {
+    const stream = this.streams.get(sample.stream_id);
+    const state = this.states.get(sample.stream_id);
+    if (!stream || !state) {
+      throw new Error(`Unknown telemetry stream: ${sample.stream_id}`);
+    }
+
+    if (Number.isNaN(Date.parse(sample.measurement_time))) {
+      throw new Error(`Invalid measurement_time for stream ${sample.stream_id}`);
+    }
+
+    const events: TelemetryEvent[] = [];
+
+    const lateness = checkLateData(stream, state.expectedNextAt, sample.measurement_time);
+    if (lateness.late) {
+      events.push({
+        streamId: stream.stream_id,
+        eventType: 'LATE_DATA',
+        reasonCode: 'LATE_DATA',
+        action: stream.enforcement_mapping.on_late,
+        details: `stream ${stream.stream_id} sample ${lateness.delaySeconds}s late (grace ${stream.late_data_policy.grace_seconds}s)`,
+        detectedAt: sample.measurement_time,
+        value: sample.value,
+      });
+    }
+
+    const drift = evaluateDriftRule(stream.drift_rule, sample.value);
+    events.push(
+      drift.driftDetected
+        ? {
+            streamId: stream.stream_id,
+            eventType: 'DRIFT_DETECTED',
+            reasonCode: 'DRIFT_TELEMETRY',
+            action: stream.enforcement_mapping.on_drift,
+            details: `stream ${stream.stream_id} ${drift.details}`,
+            detectedAt: sample.measurement_time,
+            value: sample.value,
+          }
+        : {
+            streamId: stream.stream_id,
+            eventType: 'MEASUREMENT_OK',
+            reasonCode: 'OK',
+            action: null,
+            details: `stream ${stream.stream_id} value ${sample.value} within policy`,
+            detectedAt: sample.measurement_time,
+            value: sample.value,
+          }
+    );
+
+    // Samples arriving out of order do not move the stream backwards
+    if (!state.lastMeasurementAt || Date.parse(sample.measurement_time) > Date.parse(state.lastMeasurementAt)) {
+      state.lastMeasurementAt = sample.measurement_time;
+      state.expectedNextAt = addSeconds(sample.measurement_time, stream.cadence_seconds);
+    }
+    state.lastValue = sample.value;
+    state.missingReported = false;
+    state.sampleCount++;
+
+    return events;
+  }
+
+  /**
+   * Check every stream for missing data at the given time
+   * Each gap is reported once; the next sample re-arms the check.
+   */
+  checkMissing(currentTime: string = new Date().toISOString()): TelemetryEvent[] {
+    const events: TelemetryEvent[] = [];
+
+    this.streams.forEach((stream, streamId) => {
+      const state = this.states.get(streamId)!;
+      if (state.missingReported) {
+        return;
+      }
+
+      // Before the first sample, measure the gap from the stream start
+      const reference = state.lastMeasurementAt ?? addSeconds(state.expectedNextAt, -stream.cadence_seconds);
+      const gap = checkMissingData(stream, reference, currentTime);
+
+      if (gap.missing) {
+        state.missingReported = true;
+        events.push({
+          streamId,
+          eventType: 'MISSING_DATA',
+          reasonCode: 'MISSING_DATA',
+          action: stream.enforcement_mapping.on_missing,
+          details: `stream ${streamId} silent for ${gap.gapSeconds}s (cadence ${stream.cadence_seconds}s, tolerance ${stream.missing_data_tolerance_seconds}s)`,
+          detectedAt: currentTime,
+        });
+      }
+    });
+
+    return events;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addSeconds(timestamp: string, seconds: number): string {
+  return new Date(Date.parse(timestamp) + seconds * 1000).toISOString();
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+export function createTelemetryEvaluator(
+  policy: TelemetryPolicy,
+  startTime?: string
+): TelemetryEvaluator {
+  return new TelemetryEvaluator(policy, startTime);
+}
@@ -71,6 +71,11 @@ EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+-- Values added after the enum was first created
+ALTER TYPE "ReceiptEventType" ADD VALUE IF NOT EXISTS 'REPLAY_DETECTED';
+ALTER TYPE "ReceiptEventType" ADD VALUE IF NOT EXISTS 'REVOCATION';
+ALTER TYPE "ReceiptEventType" ADD VALUE IF NOT EXISTS 'SEQUENCE_INVALID';
+
 -- KeyClass enum created above with correct values
 
 -- ============================================================================
@@ -85,6 +90,24 @@ ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "disclosure_policy" JSONB;
 ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "policy_id" TEXT;
 ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "policy_version" INTEGER DEFAULT 1;
 ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "policy_hash" VARCHAR(64);
+ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "policy_artifact" JSONB;
+ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "approval_quorum" JSONB;
+ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "previous_artifact_id" TEXT;
+ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "revoked_at" TIMESTAMP(3);
+ALTER TABLE "artifacts" ADD COLUMN IF NOT EXISTS "revocation_reason" VARCHAR(64);
+
+-- Add new columns to receipts table
+ALTER TABLE "receipts" ADD COLUMN IF NOT EXISTS "run_id" VARCHAR(64);
+
+-- Add rotation columns to signing_keys table
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "previous_key_id" VARCHAR(64);
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "rotated_at" TIMESTAMP(3);
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "rotation_signature_b64" TEXT;
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "successor_signature_b64" TEXT;
+
+-- Add envelope encryption columns to signing_keys table
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "wrapped_data_key" TEXT;
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "kek_id" VARCHAR(64);
 
 -- ============================================================================
 -- NEW TABLES
@@ -134,12 +157,16 @@ CREATE TABLE IF NOT EXISTS "checkpoint_records" (
     "end_sequence" INTEGER NOT NULL,
     "event_count" INTEGER NOT NULL,
     "merkle_root" VARCHAR(64) NOT NULL,
+    "tree_size" INTEGER,
+    "log_root" VARCHAR(64),
+    "consistency_proof" JSONB,
     "anchor_network_id" VARCHAR(32),
     "anchor_tx_id" VARCHAR(64),
     "anchor_block_number" INTEGER,
     "anchor_block_hash" VARCHAR(64),
     "anchor_timestamp" TIMESTAMP(3),
     "anchor_confirmations" INTEGER NOT NULL DEFAULT 0,
+    "anchor_receipt" JSONB,
     "signature_b64" TEXT NOT NULL,
     "signing_key_id" VARCHAR(64) NOT NULL,
     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -169,12 +196,21 @@ CREATE TABLE IF NOT EXISTS "attestation_invites" (
 CREATE TABLE IF NOT EXISTS "arweave_transactions" (
     "id" TEXT NOT NULL,
     "artifact_id" TEXT,
-    "tx_id" VARCHAR(64) NOT NULL,
+    "checkpoint_id" TEXT,
+    "network_id" VARCHAR(32) NOT NULL DEFAULT 'arweave',
+    "tx_id" VARCHAR(64),
     "tx_type" "TxType" NOT NULL,
     "data_hash" VARCHAR(64) NOT NULL,
     "data_size_bytes" INTEGER NOT NULL,
+    "payload" JSONB NOT NULL,
     "status" "TxStatus" NOT NULL DEFAULT 'PENDING',
     "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "block_height" INTEGER,
+    "block_hash" VARCHAR(64),
+    "inclusion_receipt" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "last_error" TEXT,
     "submitted_at" TIMESTAMP(3),
     "confirmed_at" TIMESTAMP(3),
     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -198,6 +234,37 @@ CREATE TABLE IF NOT EXISTS "action_records" (
     CONSTRAINT "action_records_pkey" PRIMARY KEY ("id")
 );
 
+-- CreateTable: key_access_logs
+CREATE TABLE IF NOT EXISTS "key_access_logs" (
+    "id" TEXT NOT NULL,
+    "signing_key_id" VARCHAR(64) NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "purpose" VARCHAR(32) NOT NULL,
+    "kek_id" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "key_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- Add new columns to checkpoint_records table (after it is created above)
+ALTER TABLE "checkpoint_records" ADD COLUMN IF NOT EXISTS "tree_size" INTEGER;
+ALTER TABLE "checkpoint_records" ADD COLUMN IF NOT EXISTS "log_root" VARCHAR(64);
+ALTER TABLE "checkpoint_records" ADD COLUMN IF NOT EXISTS "consistency_proof" JSONB;
+ALTER TABLE "checkpoint_records" ADD COLUMN IF NOT EXISTS "anchor_receipt" JSONB;
+
+-- Durable anchor queue columns on arweave_transactions
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "checkpoint_id" TEXT;
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "network_id" VARCHAR(32) NOT NULL DEFAULT 'arweave';
+ALTER TABLE "arweave_transactions" ALTER COLUMN "tx_id" DROP NOT NULL;
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "payload" JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE "arweave_transactions" ALTER COLUMN "payload" DROP DEFAULT;
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "block_height" INTEGER;
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "block_hash" VARCHAR(64);
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "inclusion_receipt" JSONB;
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "next_attempt_at" TIMESTAMP(3);
+ALTER TABLE "arweave_transactions" ADD COLUMN IF NOT EXISTS "last_error" TEXT;
+
 -- ============================================================================
 -- INDEXES (create if not exist)
 -- ============================================================================
@@ -210,15 +277,24 @@ CREATE UNIQUE INDEX IF NOT EXISTS "governed_runs_run_id_key" ON "governed_runs"(
 CREATE INDEX IF NOT EXISTS "governed_runs_artifact_id_idx" ON "governed_runs"("artifact_id");
 
 CREATE INDEX IF NOT EXISTS "checkpoint_records_run_id_idx" ON "checkpoint_records"("run_id");
+CREATE INDEX IF NOT EXISTS "arweave_transactions_status_next_attempt_at_idx" ON "arweave_transactions"("status", "next_attempt_at");
 
 CREATE UNIQUE INDEX IF NOT EXISTS "attestation_invites_token_key" ON "attestation_invites"("token");
 CREATE INDEX IF NOT EXISTS "attestation_invites_token_idx" ON "attestation_invites"("token");
 
 CREATE INDEX IF NOT EXISTS "artifacts_policy_id_idx" ON "artifacts"("policy_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "artifacts_previous_artifact_id_key" ON "artifacts"("previous_artifact_id");
+
+CREATE INDEX IF NOT EXISTS "receipts_artifact_id_run_id_idx" ON "receipts"("artifact_id", "run_id");
+
+CREATE INDEX IF NOT EXISTS "signing_keys_previous_key_id_idx" ON "signing_keys"("previous_key_id");
 
 CREATE INDEX IF NOT EXISTS "action_records_artifact_id_idx" ON "action_records"("artifact_id");
 CREATE INDEX IF NOT EXISTS "action_records_run_id_idx" ON "action_records"("run_id");
 
+CREATE INDEX IF NOT EXISTS "key_access_logs_signing_key_id_idx" ON "key_access_logs"("signing_key_id");
+CREATE INDEX IF NOT EXISTS "key_access_logs_user_id_idx" ON "key_access_logs"("user_id");
+
 -- ============================================================================
 -- FOREIGN KEYS (add if not exist)
 -- ============================================================================
@@ -237,6 +313,13 @@ EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+DO $$ BEGIN
+    ALTER TABLE "artifacts" ADD CONSTRAINT "artifacts_previous_artifact_id_fkey"
+    FOREIGN KEY ("previous_artifact_id") REFERENCES "artifacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 DO $$ BEGIN
     ALTER TABLE "governed_runs" ADD CONSTRAINT "governed_runs_artifact_id_fkey"
     FOREIGN KEY ("artifact_id") REFERENCES "artifacts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -265,6 +348,13 @@ EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+DO $$ BEGIN
+    ALTER TABLE "arweave_transactions" ADD CONSTRAINT "arweave_transactions_checkpoint_id_fkey"
+    FOREIGN KEY ("checkpoint_id") REFERENCES "checkpoint_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 -- ============================================================================
 -- DONE
 -- ============================================================================
@@ -17,7 +17,7 @@ CREATE TYPE "RunStatus" AS ENUM ('RUNNING', 'ENDED', 'TERMINATED', 'FAILED');
 CREATE TYPE "KeyClass" AS ENUM ('POLICY_ISSUER', 'ENFORCEMENT', 'CHAIN', 'CHECKPOINT');
 
 -- CreateEnum
-CREATE TYPE "ReceiptEventType" AS ENUM ('POLICY_LOADED', 'RUN_STARTED', 'MEASUREMENT_OK', 'DRIFT_DETECTED', 'MISSING_DATA', 'LATE_DATA', 'ENFORCEMENT_ACTION', 'RUN_ENDED', 'CHECKPOINT', 'BUNDLE_EXPORTED', 'ATTESTATION');
+CREATE TYPE "ReceiptEventType" AS ENUM ('POLICY_LOADED', 'RUN_STARTED', 'MEASUREMENT_OK', 'DRIFT_DETECTED', 'MISSING_DATA', 'LATE_DATA', 'ENFORCEMENT_ACTION', 'RUN_ENDED', 'CHECKPOINT', 'BUNDLE_EXPORTED', 'ATTESTATION', 'REPLAY_DETECTED', 'SEQUENCE_INVALID', 'REVOCATION');
 
 -- CreateEnum
 CREATE TYPE "AttestorRole" AS ENUM ('WITNESS', 'AUDITOR', 'APPROVER');
@@ -83,6 +83,8 @@ CREATE TABLE "artifacts" (
     "issued_at" TIMESTAMP(3),
     "effective_at" TIMESTAMP(3),
     "expires_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "revocation_reason" VARCHAR(64),
     "measurement_cadence_ms" INTEGER NOT NULL DEFAULT 60000,
     "ttl_seconds" INTEGER,
     "enforcement_action" "EnforcementAction" NOT NULL DEFAULT 'KILL',
@@ -97,6 +99,9 @@ CREATE TABLE "artifacts" (
     "evidence_commitment" VARCHAR(64),
     "issuer_identifier" VARCHAR(64),
     "disclosure_policy" JSONB,
+    "policy_artifact" JSONB,
+    "approval_quorum" JSONB,
+    "previous_artifact_id" TEXT,
 
     CONSTRAINT "artifacts_pkey" PRIMARY KEY ("id")
 );
@@ -145,12 +150,16 @@ CREATE TABLE "checkpoint_records" (
     "end_sequence" INTEGER NOT NULL,
     "event_count" INTEGER NOT NULL,
     "merkle_root" VARCHAR(64) NOT NULL,
+    "tree_size" INTEGER,
+    "log_root" VARCHAR(64),
+    "consistency_proof" JSONB,
     "anchor_network_id" VARCHAR(32),
     "anchor_tx_id" VARCHAR(64),
     "anchor_block_number" INTEGER,
     "anchor_block_hash" VARCHAR(64),
     "anchor_timestamp" TIMESTAMP(3),
     "anchor_confirmations" INTEGER NOT NULL DEFAULT 0,
+    "anchor_receipt" JSONB,
     "signature_b64" TEXT NOT NULL,
     "signing_key_id" VARCHAR(64) NOT NULL,
     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -165,10 +174,16 @@ CREATE TABLE "signing_keys" (
     "public_key_b64" VARCHAR(64) NOT NULL,
     "encrypted_private_key" TEXT,
     "key_encryption_salt" VARCHAR(64),
+    "wrapped_data_key" TEXT,
+    "kek_id" VARCHAR(64),
     "key_class" "KeyClass" NOT NULL,
     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "revoked_at" TIMESTAMP(3),
     "revocation_reason" VARCHAR(255),
+    "previous_key_id" VARCHAR(64),
+    "rotated_at" TIMESTAMP(3),
+    "rotation_signature_b64" TEXT,
+    "successor_signature_b64" TEXT,
 
     CONSTRAINT "signing_keys_pkey" PRIMARY KEY ("id")
 );
@@ -177,6 +192,7 @@ CREATE TABLE "signing_keys" (
 CREATE TABLE "receipts" (
     "id" TEXT NOT NULL,
     "artifact_id" TEXT NOT NULL,
+    "run_id" VARCHAR(64),
     "sequence_number" INTEGER NOT NULL,
     "previous_leaf_hash" VARCHAR(64),
     "leaf_hash" VARCHAR(64) NOT NULL,
@@ -214,12 +230,21 @@ CREATE TABLE "attestation_invites" (
 CREATE TABLE "arweave_transactions" (
     "id" TEXT NOT NULL,
     "artifact_id" TEXT,
-    "tx_id" VARCHAR(64) NOT NULL,
+    "checkpoint_id" TEXT,
+    "network_id" VARCHAR(32) NOT NULL DEFAULT 'arweave',
+    "tx_id" VARCHAR(64),
     "tx_type" "TxType" NOT NULL,
     "data_hash" VARCHAR(64) NOT NULL,
     "data_size_bytes" INTEGER NOT NULL,
+    "payload" JSONB NOT NULL,
     "status" "TxStatus" NOT NULL DEFAULT 'PENDING',
     "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "block_height" INTEGER,
+    "block_hash" VARCHAR(64),
+    "inclusion_receipt" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "last_error" TEXT,
     "submitted_at" TIMESTAMP(3),
     "confirmed_at" TIMESTAMP(3),
     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -259,6 +284,18 @@ CREATE TABLE "action_records" (
     CONSTRAINT "action_records_pkey" PRIMARY KEY ("id")
 );
 
+-- CreateTable
+CREATE TABLE "key_access_logs" (
+    "id" TEXT NOT NULL,
+    "signing_key_id" VARCHAR(64) NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "purpose" VARCHAR(32) NOT NULL,
+    "kek_id" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "key_access_logs_pkey" PRIMARY KEY ("id")
+);
+
 -- CreateIndex
 CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
 
@@ -295,6 +332,9 @@ CREATE INDEX "artifacts_sealed_hash_idx" ON "artifacts"("sealed_hash");
 -- CreateIndex
 CREATE INDEX "artifacts_policy_id_idx" ON "artifacts"("policy_id");
 
+-- CreateIndex
+CREATE UNIQUE INDEX "artifacts_previous_artifact_id_key" ON "artifacts"("previous_artifact_id");
+
 -- CreateIndex
 CREATE INDEX "policies_user_id_idx" ON "policies"("user_id");
 
@@ -313,9 +353,15 @@ CREATE INDEX "governed_runs_artifact_id_idx" ON "governed_runs"("artifact_id");
 -- CreateIndex
 CREATE INDEX "checkpoint_records_run_id_idx" ON "checkpoint_records"("run_id");
 
+-- CreateIndex
+CREATE INDEX "arweave_transactions_status_next_attempt_at_idx" ON "arweave_transactions"("status", "next_attempt_at");
+
 -- CreateIndex
 CREATE INDEX "signing_keys_user_id_idx" ON "signing_keys"("user_id");
 
+-- CreateIndex
+CREATE INDEX "signing_keys_previous_key_id_idx" ON "signing_keys"("previous_key_id");
+
 -- CreateIndex
 CREATE INDEX "receipts_artifact_id_idx" ON "receipts"("artifact_id");
 
@@ -325,6 +371,9 @@ CREATE INDEX "receipts_artifact_id_sequence_number_idx" ON "receipts"("artifact_
 -- CreateIndex
 CREATE UNIQUE INDEX "receipts_artifact_id_sequence_number_key" ON "receipts"("artifact_id", "sequence_number");
 
+-- CreateIndex
+CREATE INDEX "receipts_artifact_id_run_id_idx" ON "receipts"("artifact_id", "run_id");
+
 -- CreateIndex
 CREATE UNIQUE INDEX "attestation_invites_token_key" ON "attestation_invites"("token");
 
@@ -346,6 +395,12 @@ CREATE INDEX "action_records_artifact_id_idx" ON "action_records"("artifact_id")
 -- CreateIndex
 CREATE INDEX "action_records_run_id_idx" ON "action_records"("run_id");
 
+-- CreateIndex
+CREATE INDEX "key_access_logs_signing_key_id_idx" ON "key_access_logs"("signing_key_id");
+
+-- CreateIndex
+CREATE INDEX "key_access_logs_user_id_idx" ON "key_access_logs"("user_id");
+
 -- AddForeignKey
 ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
@@ -358,6 +413,9 @@ ALTER TABLE "artifacts" ADD CONSTRAINT "artifacts_user_id_fkey" FOREIGN KEY ("us
 -- AddForeignKey
 ALTER TABLE "artifacts" ADD CONSTRAINT "artifacts_policy_id_fkey" FOREIGN KEY ("policy_id") REFERENCES "policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
 
+-- AddForeignKey
+ALTER TABLE "artifacts" ADD CONSTRAINT "artifacts_previous_artifact_id_fkey" FOREIGN KEY ("previous_artifact_id") REFERENCES "artifacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
 -- AddForeignKey
 ALTER TABLE "governed_runs" ADD CONSTRAINT "governed_runs_artifact_id_fkey" FOREIGN KEY ("artifact_id") REFERENCES "artifacts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
 
@@ -376,6 +434,9 @@ ALTER TABLE "attestation_invites" ADD CONSTRAINT "attestation_invites_artifact_i
 -- AddForeignKey
 ALTER TABLE "arweave_transactions" ADD CONSTRAINT "arweave_transactions_artifact_id_fkey" FOREIGN KEY ("artifact_id") REFERENCES "artifacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
 
+-- AddForeignKey
+ALTER TABLE "arweave_transactions" ADD CONSTRAINT "arweave_transactions_checkpoint_id_fkey" FOREIGN KEY ("checkpoint_id") REFERENCES "checkpoint_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
 -- AddForeignKey
 ALTER TABLE "vault_cards" ADD CONSTRAINT "vault_cards_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
 
@@ -0,0 +1,62 @@
+/**
+ * Anchor Queue Worker API Route
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Runs one pass over the anchor queue: submits pending anchors whose retry
+ * is due and records confirmation depth for submitted ones. Called by the
+ * scheduler (see vercel.json crons) with CRON_SECRET as a bearer token.
+ * The queue lives in the database, so each run resumes where the last
+ * one stopped.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { getAnchorQueue } from '@/lib/anchoring';
+
+// Force dynamic rendering and use Node.js runtime for signing
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+function authorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(request.headers.get('authorization') ?? '');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+// ============================================================================
+// GET /api/anchors/process - Process the anchor queue
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return errorResponse(503, 'NOT_CONFIGURED', 'Anchor worker is not configured');
+    }
+    if (!authorized(request, secret)) {
+      return errorResponse(401, 'AUTH_REQUIRED', 'Invalid worker credentials');
+    }
+
+    const queue = getAnchorQueue();
+    await queue.processQueue();
+    const active = await queue.getPendingTransactions();
+
+    return NextResponse.json({
+      data: {
+        pending: active.filter((r) => r.status === 'pending').length,
+        submitted: active.filter((r) => r.status === 'submitted').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error processing anchor queue:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to process anchor queue');
+  }
+}
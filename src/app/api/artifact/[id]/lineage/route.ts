@@ -0,0 +1,108 @@
+/**
+ * Artifact Lineage API Route
+ * Per AGA Build Guide Phase 6
+ *
+ * Lists every version of an artifact, root first, and verifies the chain of
+ * previous_artifact_ref links between their sealed policy artifacts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/auth';
+import type { Artifact } from '@prisma/client';
+import { verifyArtifactLineage, type PolicyArtifact } from '@attested/core';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Guards the walk against corrupt self-references */
+const MAX_VERSIONS = 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+/**
+ * All versions of `artifact`'s lineage, root first
+ */
+async function loadLineage(artifact: Artifact): Promise<Artifact[]> {
+  const versions: Artifact[] = [artifact];
+
+  let earliest = artifact;
+  while (earliest.previousArtifactId && versions.length < MAX_VERSIONS) {
+    const previous = await prisma.artifact.findUnique({ where: { id: earliest.previousArtifactId } });
+    if (!previous) {
+      break;
+    }
+    versions.unshift(previous);
+    earliest = previous;
+  }
+
+  let latest = artifact;
+  while (versions.length < MAX_VERSIONS) {
+    const successor = await prisma.artifact.findUnique({ where: { previousArtifactId: latest.id } });
+    if (!successor) {
+      break;
+    }
+    versions.push(successor);
+    latest = successor;
+  }
+
+  return versions;
+}
+
+// ============================================================================
+// GET /api/artifact/[id]/lineage - List and verify artifact versions
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return errorResponse(authResult.status, 'AUTH_REQUIRED', authResult.error);
+    }
+
+    const { id } = await params;
+    const artifact = await prisma.artifact.findFirst({ where: { id, userId: authResult.user.id } });
+    if (!artifact) {
+      return errorResponse(404, 'NOT_FOUND', 'Artifact not found');
+    }
+
+    const versions = await loadLineage(artifact);
+    const sealed = versions.map((v) => v.policyArtifact as PolicyArtifact | null);
+    const verification = sealed.every(Boolean)
+      ? await verifyArtifactLineage(sealed as PolicyArtifact[])
+      : { valid: false, versions: versions.length, reason: 'A version has no sealed policy artifact' };
+
+    return NextResponse.json({
+      data: {
+        versions: versions.map((v, i) => ({
+          id: v.id,
+          artifactId: sealed[i]?.artifact_id ?? null,
+          name: v.name,
+          policyVersion: v.policyVersion,
+          policyHash: v.policyHash,
+          status: v.status,
+          issuedAt: v.issuedAt?.toISOString() ?? null,
+          previousArtifactId: v.previousArtifactId,
+          current: v.id === artifact.id,
+        })),
+        verification,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading artifact lineage:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to load artifact lineage');
+  }
+}
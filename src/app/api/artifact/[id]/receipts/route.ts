@@ -6,35 +6,40 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/auth';
+import { Prisma, ReceiptEventType } from '@prisma/client';
+import type { Receipt as ReceiptRow, GoverneRun } from '@prisma/client';
+import {
+  DOMAIN_SEPARATORS,
+  canonicalize,
+  sha256String,
+  verifyObject,
+  verifyReceipt,
+  type Receipt as SignedReceipt,
+} from '@attested/core';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type EventType =
-  | 'POLICY_LOADED'
-  | 'MEASUREMENT_OK'
-  | 'DRIFT_DETECTED'
-  | 'ENFORCED'
-  | 'BUNDLE_EXPORTED'
-  | 'RUN_STARTED'
-  | 'RUN_ENDED'
-  | 'CHECKPOINT';
-
-interface Receipt {
+interface ReceiptResponse {
   id: string;
   receiptId: string;
   artifactId: string;
-  runId: string;
+  runId: string | null;
   sequenceNumber: number;
-  eventType: EventType;
+  eventType: ReceiptEventType;
   timestamp: string;
   chain: {
     prevHash: string;
     thisHash: string;
   };
   decision?: {
-    action: 'CONTINUE' | 'ALERT' | 'KILL' | 'BLOCK_START';
+    action: string;
     reasonCode: string;
     details?: string;
   };
@@ -48,135 +53,273 @@ interface Receipt {
   };
 }
 
+interface ChainHeadResponse {
+  runId: string;
+  status: GoverneRun['status'];
+  receiptCount: number;
+  headSequence: number;
+  headHash: string | null;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const ZERO_HASH = '0'.repeat(64);
+
+const HEX_64 = /^[0-9a-f]{64}$/;
+
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-function getCurrentUserId(request: NextRequest): string | null {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
+function isReceiptEventType(value: string): value is ReceiptEventType {
+  return (Object.values(ReceiptEventType) as string[]).includes(value);
+}
+
+function parsePositiveInt(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) {
     return null;
   }
-  return 'user_demo_001';
+  const parsed = parseInt(value, 10);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+/**
+ * Read a field from a stored payload, accepting both the snake_case wire
+ * format and the camelCase format written by the seal route.
+ */
+function pick(source: unknown, ...keys: string[]): unknown {
+  if (!source || typeof source !== 'object') {
+    return undefined;
+  }
+  const record = source as Record<string, unknown>;
+  return keys.map((key) => record[key]).find((value) => value !== undefined);
+}
+
+function toReceiptResponse(row: ReceiptRow): ReceiptResponse {
+  const payload = row.payload;
+  const decision = pick(payload, 'decision');
+  const measurement = pick(payload, 'measurement');
+  const runId = row.runId ?? pick(payload, 'run_id', 'runId');
+
+  return {
+    id: row.id,
+    receiptId: String(pick(payload, 'receipt_id', 'receiptId') ?? row.leafHash),
+    artifactId: row.artifactId,
+    runId: typeof runId === 'string' ? runId : null,
+    sequenceNumber: row.sequenceNumber,
+    eventType: row.eventType,
+    timestamp: row.timestamp.toISOString(),
+    chain: {
+      prevHash: row.previousLeafHash ?? ZERO_HASH,
+      thisHash: row.leafHash,
+    },
+    decision: decision
+      ? {
+          action: String(pick(decision, 'action')),
+          reasonCode: String(pick(decision, 'reason_code', 'reasonCode')),
+          details: pick(decision, 'details') as string | undefined,
+        }
+      : undefined,
+    measurement: measurement
+      ? {
+          compositeHash: String(pick(measurement, 'composite_hash', 'compositeHash')),
+          mismatchedPaths: pick(measurement, 'mismatched_paths', 'mismatchedPaths') as string[] | undefined,
+        }
+      : undefined,
+    signer: {
+      keyId: row.signingKeyId,
+      signature: row.signatureB64,
+    },
+  };
+}
+
+function toChainHeadResponse(run: GoverneRun): ChainHeadResponse {
+  return {
+    runId: run.runId,
+    status: run.status,
+    receiptCount: run.receiptCount,
+    headSequence: run.headSequenceNumber,
+    headHash: run.headReceiptHash,
+    startedAt: run.startedAt.toISOString(),
+    endedAt: run.endedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Check the structural fields the ingestion path relies on
+ * Returns an error message, or null when the receipt is well formed.
+ */
+function validateReceiptShape(body: unknown): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Receipt body must be a JSON object';
+  }
+
+  const receipt = body as Partial<SignedReceipt>;
+
+  if (receipt.receipt_v !== '1') {
+    return 'Unsupported receipt_v';
+  }
+  if (typeof receipt.receipt_id !== 'string' || !HEX_64.test(receipt.receipt_id)) {
+    return 'receipt_id must be a 64-character hex digest';
+  }
+  if (typeof receipt.run_id !== 'string' || receipt.run_id.length === 0 || receipt.run_id.length > 64) {
+    return 'run_id must be a string of at most 64 characters';
+  }
+  if (!Number.isSafeInteger(receipt.sequence_number) || (receipt.sequence_number as number) < 1) {
+    return 'sequence_number must be a positive integer';
+  }
+  if (typeof receipt.timestamp !== 'string' || Number.isNaN(Date.parse(receipt.timestamp))) {
+    return 'timestamp must be an ISO 8601 string';
+  }
+  if (typeof receipt.event_type !== 'string' || !isReceiptEventType(receipt.event_type)) {
+    return `Unknown event_type: ${String(receipt.event_type)}`;
+  }
+  if (receipt.event_type === 'REVOCATION') {
+    return 'REVOCATION receipts are written by POST /api/artifact/[id]/revoke';
+  }
+  if (
+    !receipt.chain ||
+    !HEX_64.test(receipt.chain.prev_receipt_hash ?? '') ||
+    !HEX_64.test(receipt.chain.this_receipt_hash ?? '')
+  ) {
+    return 'chain hashes must be 64-character hex digests';
+  }
+  if (
+    !receipt.signer ||
+    typeof receipt.signer.key_id !== 'string' ||
+    typeof receipt.signer.public_key !== 'string' ||
+    typeof receipt.signer.signature !== 'string'
+  ) {
+    return 'signer must include key_id, public_key and signature';
+  }
+
+  return null;
+}
+
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
 }
 
 // ============================================================================
 // GET /api/artifact/[id]/receipts - List receipts
 // ============================================================================
 
+/**
+ * Query parameters:
+ * - eventType: ReceiptEventType filter
+ * - runId: restrict to a single governed run
+ * - cursor: sequenceNumber to continue after (exclusive)
+ * - limit: page size (1-200, default 50)
+ * - order: 'asc' (default) or 'desc'
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const userId = getCurrentUserId(request);
-    if (!userId) {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
       return NextResponse.json(
-        { error: 'Unauthorized', code: 'AUTH_REQUIRED' },
-        { status: 401 }
+        { error: authResult.error, code: 'AUTH_REQUIRED' },
+        { status: authResult.status }
       );
     }
 
     const { id } = await params;
     const { searchParams } = new URL(request.url);
 
-    const eventType = searchParams.get('eventType') as EventType | null;
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
-    const order = searchParams.get('order') || 'asc';
-
-    // In production, query database
-    const receipts: Receipt[] = [
-      {
-        id: 'r1',
-        receiptId: 'rec_001',
-        artifactId: id,
-        runId: 'run_001',
-        sequenceNumber: 1,
-        eventType: 'POLICY_LOADED',
-        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-        chain: {
-          prevHash: '0000000000000000000000000000000000000000000000000000000000000000',
-          thisHash: 'abc123def456789012345678901234567890abcdef1234567890abcdef123456',
-        },
-        decision: {
-          action: 'CONTINUE',
-          reasonCode: 'OK',
-        },
-        signer: {
-          keyId: '36ee3280c62ed537',
-          signature: 'sig1...',
-        },
-      },
-      {
-        id: 'r2',
-        receiptId: 'rec_002',
-        artifactId: id,
-        runId: 'run_001',
-        sequenceNumber: 2,
-        eventType: 'MEASUREMENT_OK',
-        timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-        chain: {
-          prevHash: 'abc123def456789012345678901234567890abcdef1234567890abcdef123456',
-          thisHash: 'def456abc789012345678901234567890abcdef1234567890abcdef12345678',
-        },
-        measurement: {
-          compositeHash: '8b7df143d91c716ecfa5fc1730022f6b421b05cedee8fd52b1fc65a96030ad52',
-        },
-        signer: {
-          keyId: '36ee3280c62ed537',
-          signature: 'sig2...',
-        },
-      },
-      {
-        id: 'r3',
-        receiptId: 'rec_003',
-        artifactId: id,
-        runId: 'run_001',
-        sequenceNumber: 3,
-        eventType: 'MEASUREMENT_OK',
-        timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-        chain: {
-          prevHash: 'def456abc789012345678901234567890abcdef1234567890abcdef12345678',
-          thisHash: '789abc123def456789012345678901234567890abcdef1234567890abcdef12',
-        },
-        measurement: {
-          compositeHash: '8b7df143d91c716ecfa5fc1730022f6b421b05cedee8fd52b1fc65a96030ad52',
-        },
-        signer: {
-          keyId: '36ee3280c62ed537',
-          signature: 'sig3...',
-        },
-      },
-    ];
+    const eventType = searchParams.get('eventType');
+    if (eventType !== null && !isReceiptEventType(eventType)) {
+      return NextResponse.json(
+        { error: `Unknown eventType: ${eventType}`, code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const order = searchParams.get('order') ?? 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json(
+        { error: "order must be 'asc' or 'desc'", code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LIMIT : parsePositiveInt(limitParam);
+    if (limit === null || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_LIMIT}`, code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const cursorParam = searchParams.get('cursor');
+    const cursor = cursorParam === null ? null : parsePositiveInt(cursorParam);
+    if (cursorParam !== null && cursor === null) {
+      return NextResponse.json(
+        { error: 'cursor must be a sequence number', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const runId = searchParams.get('runId');
 
-    // Filter by event type if provided
-    let filtered = eventType
-      ? receipts.filter((r) => r.eventType === eventType)
-      : receipts;
+    // Only the owner may read an artifact's receipt chain
+    const artifact = await prisma.artifact.findFirst({
+      where: { id, userId: authResult.user.id },
+      select: { id: true },
+    });
 
-    // Sort
-    if (order === 'desc') {
-      filtered = filtered.sort((a, b) => b.sequenceNumber - a.sequenceNumber);
+    if (!artifact) {
+      return NextResponse.json(
+        { error: 'Artifact not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
     }
 
-    // Paginate
-    const paginated = filtered.slice(offset, offset + limit);
+    const where: Prisma.ReceiptWhereInput = {
+      artifactId: artifact.id,
+      ...(eventType && { eventType }),
+      ...(runId && { runId }),
+    };
+
+    const pageWhere: Prisma.ReceiptWhereInput = cursor === null
+      ? where
+      : { ...where, sequenceNumber: order === 'asc' ? { gt: cursor } : { lt: cursor } };
 
-    // Compute chain head
-    const chainHead = receipts[receipts.length - 1];
+    // Fetch one extra row to know whether another page exists
+    const [rows, total, run] = await Promise.all([
+      prisma.receipt.findMany({
+        where: pageWhere,
+        orderBy: { sequenceNumber: order },
+        take: limit + 1,
+      }),
+      prisma.receipt.count({ where }),
+      prisma.governeRun.findFirst({
+        where: { artifactId: artifact.id, ...(runId && { runId }) },
+        orderBy: { startedAt: 'desc' },
+      }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
 
     return NextResponse.json({
-      data: paginated,
+      data: page.map(toReceiptResponse),
       meta: {
-        total: filtered.length,
+        total,
         limit,
-        offset,
-        chainHead: chainHead ? {
-          receiptCount: receipts.length,
-          headSequence: chainHead.sequenceNumber,
-          headHash: chainHead.chain.thisHash,
-        } : null,
+        order,
+        cursor,
+        nextCursor: hasMore ? page[page.length - 1].sequenceNumber : null,
+        chainHead: run ? toChainHeadResponse(run) : null,
       },
     });
   } catch (error) {
@@ -187,3 +330,177 @@ export async function GET(
     );
   }
 }
+
+// ============================================================================
+// POST /api/artifact/[id]/receipts - Append a signed receipt
+// ============================================================================
+
+/**
+ * Accepts a receipt produced by createReceipt() and appends it to the
+ * artifact's chain. The receipt must be signed by a registered, unrevoked
+ * key of the artifact owner and extend the stored head exactly: its
+ * sequence_number is head + 1 and its prev_receipt_hash is the head hash.
+ * Concurrent appends at the same position are resolved by the
+ * (artifactId, sequenceNumber) unique constraint; the loser gets 409.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return errorResponse(authResult.status, 'AUTH_REQUIRED', authResult.error);
+    }
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must be valid JSON');
+    }
+
+    const shapeError = validateReceiptShape(body);
+    if (shapeError) {
+      return errorResponse(400, 'VALIDATION_ERROR', shapeError);
+    }
+    const receipt = body as SignedReceipt;
+
+    const artifact = await prisma.artifact.findFirst({
+      where: { id, userId: authResult.user.id },
+      select: { id: true, userId: true, status: true },
+    });
+
+    if (!artifact) {
+      return errorResponse(404, 'NOT_FOUND', 'Artifact not found');
+    }
+
+    if (artifact.status !== 'ACTIVE') {
+      return errorResponse(409, 'ARTIFACT_INACTIVE', `Artifact is ${artifact.status}`);
+    }
+
+    // receipt_id and this_receipt_hash must match the content
+    const integrity = await verifyReceipt(receipt, receipt.chain.prev_receipt_hash);
+    if (!integrity.valid) {
+      return errorResponse(400, 'RECEIPT_INVALID', integrity.errors.join('; '));
+    }
+
+    // Signature must come from a registered key of the artifact owner
+    const signingKey = await prisma.signingKey.findFirst({
+      where: { id: receipt.signer.key_id, userId: artifact.userId },
+    });
+
+    if (!signingKey || signingKey.publicKeyB64 !== receipt.signer.public_key) {
+      return errorResponse(403, 'KEY_UNKNOWN', 'Receipt signer is not a registered signing key');
+    }
+
+    if (signingKey.revokedAt) {
+      return errorResponse(403, 'KEY_REVOKED', 'Receipt signer key has been revoked');
+    }
+
+    const signatureValid = await verifyObject(
+      signingKey.publicKeyB64,
+      receipt.signer.signature,
+      DOMAIN_SEPARATORS.BUNDLE,
+      receipt as unknown as Record<string, unknown>,
+      ['signer.signature']
+    );
+
+    if (!signatureValid) {
+      return errorResponse(400, 'SIGNATURE_INVALID', 'Receipt signature verification failed');
+    }
+
+    // Chain linkage against the stored head
+    const head = await prisma.receipt.findFirst({
+      where: { artifactId: artifact.id },
+      orderBy: { sequenceNumber: 'desc' },
+      select: { sequenceNumber: true, leafHash: true },
+    });
+
+    const expectedSequence = (head?.sequenceNumber ?? 0) + 1;
+    const expectedPrevHash = head?.leafHash ?? ZERO_HASH;
+
+    if (receipt.sequence_number !== expectedSequence) {
+      return errorResponse(
+        409,
+        'SEQUENCE_INVALID',
+        `Expected sequence_number ${expectedSequence}, got ${receipt.sequence_number}`
+      );
+    }
+
+    if (receipt.chain.prev_receipt_hash !== expectedPrevHash) {
+      return errorResponse(409, 'CHAIN_BREAK', 'prev_receipt_hash does not match the chain head');
+    }
+
+    const existingRun = await prisma.governeRun.findUnique({
+      where: { runId: receipt.run_id },
+    });
+
+    if (existingRun && existingRun.artifactId !== artifact.id) {
+      return errorResponse(409, 'RUN_CONFLICT', 'run_id belongs to another artifact');
+    }
+
+    if (existingRun && existingRun.status !== 'RUNNING') {
+      return errorResponse(409, 'RUN_ENDED', `Run ${receipt.run_id} is ${existingRun.status}`);
+    }
+
+    const payloadHash = await sha256String(canonicalize(receipt));
+    const runEnded = receipt.event_type === 'RUN_ENDED';
+
+    try {
+      const [stored, run] = await prisma.$transaction([
+        prisma.receipt.create({
+          data: {
+            artifactId: artifact.id,
+            runId: receipt.run_id,
+            sequenceNumber: receipt.sequence_number,
+            previousLeafHash: receipt.chain.prev_receipt_hash === ZERO_HASH
+              ? null
+              : receipt.chain.prev_receipt_hash,
+            leafHash: receipt.chain.this_receipt_hash,
+            eventType: receipt.event_type,
+            eventId: receipt.receipt_id,
+            timestamp: new Date(receipt.timestamp),
+            payload: receipt as unknown as Prisma.InputJsonObject,
+            payloadHash,
+            signatureB64: receipt.signer.signature,
+            signingKeyId: signingKey.id,
+          },
+        }),
+        prisma.governeRun.upsert({
+          where: { runId: receipt.run_id },
+          create: {
+            artifactId: artifact.id,
+            runId: receipt.run_id,
+            receiptCount: 1,
+            headSequenceNumber: receipt.sequence_number,
+            headReceiptHash: receipt.chain.this_receipt_hash,
+            ...(runEnded && { status: 'ENDED' as const, endedAt: new Date(receipt.timestamp) }),
+          },
+          update: {
+            receiptCount: { increment: 1 },
+            headSequenceNumber: receipt.sequence_number,
+            headReceiptHash: receipt.chain.this_receipt_hash,
+            ...(runEnded && { status: 'ENDED' as const, endedAt: new Date(receipt.timestamp) }),
+          },
+        }),
+      ]);
+
+      return NextResponse.json({
+        data: toReceiptResponse(stored),
+        meta: { chainHead: toChainHeadResponse(run) },
+      }, { status: 201 });
+    } catch (error) {
+      // Another receipt claimed this sequence number first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return errorResponse(409, 'FORK_REJECTED', `Sequence number ${receipt.sequence_number} is already taken`);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Receipt ingestion error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Artifact Revocation API Route
+ * Per AGA Build Guide Phase 8.6
+ *
+ * Revokes an artifact. The owner's custodial issuer key signs a REVOCATION
+ * receipt carrying the reason code; the receipt extends the artifact's
+ * chain and the artifact moves to REVOKED in the same transaction. The
+ * owner is then notified by webhook, email and in-app alert, and public
+ * verification reports the artifact as REVOKED.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/auth';
+import { withCustodialKey } from '@/lib/custody';
+import { findOrCreateIssuerKey, generateRunId } from '@/lib/seal';
+import {
+  alertManager,
+  createArtifactRevokedAlert,
+  emailService,
+  webhookManager,
+} from '@/lib/notifications';
+import {
+  canonicalize,
+  createReceipt,
+  sha256String,
+  type PolicyArtifact,
+  type RevocationReasonCode,
+} from '@attested/core';
+
+// Force dynamic rendering and use Node.js runtime for crypto
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RevokeRequest {
+  reason_code: RevocationReasonCode;
+  details?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const REASON_CODES: RevocationReasonCode[] = [
+  'KEY_COMPROMISE',
+  'SUBJECT_COMPROMISED',
+  'POLICY_WITHDRAWN',
+  'ISSUED_IN_ERROR',
+  'CESSATION_OF_OPERATION',
+];
+
+const MAX_DETAILS_LENGTH = 500;
+
+const ZERO_HASH = '0'.repeat(64);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+/**
+ * Deliver revocation notices; a failed channel is logged, not surfaced
+ */
+async function notifyRevoked(
+  user: { id: string; email: string },
+  artifact: { id: string; artifactId: string; displayName: string },
+  reasonCode: RevocationReasonCode,
+  revokedAt: string
+): Promise<void> {
+  const results = await Promise.allSettled([
+    webhookManager.trigger(user.id, 'artifact.revoked', {
+      id: artifact.id,
+      artifactId: artifact.artifactId,
+      reasonCode,
+      revokedAt,
+    }),
+    emailService.sendArtifactRevoked(user.email, artifact.id, artifact.displayName, reasonCode, revokedAt),
+    alertManager.create(user.id, createArtifactRevokedAlert(artifact.id, artifact.displayName, reasonCode)),
+  ]);
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.error('Revocation notice failed:', result.reason);
+    }
+  });
+}
+
+// ============================================================================
+// POST /api/artifact/[id]/revoke - Revoke an artifact
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return errorResponse(authResult.status, 'AUTH_REQUIRED', authResult.error);
+    }
+    const user = authResult.user;
+    const { id } = await params;
+
+    let body: RevokeRequest;
+    try {
+      body = await request.json() as RevokeRequest;
+    } catch {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must be valid JSON');
+    }
+
+    if (!body || !REASON_CODES.includes(body.reason_code)) {
+      return errorResponse(400, 'VALIDATION_ERROR', `reason_code must be one of ${REASON_CODES.join(', ')}`);
+    }
+    if (body.details !== undefined && (typeof body.details !== 'string' || body.details.length > MAX_DETAILS_LENGTH)) {
+      return errorResponse(400, 'VALIDATION_ERROR', `details must be a string of at most ${MAX_DETAILS_LENGTH} characters`);
+    }
+    const details = body.details?.trim() || undefined;
+
+    const artifact = await prisma.artifact.findFirst({
+      where: { id, userId: user.id },
+      include: { vaultCard: { select: { displayName: true } } },
+    });
+    if (!artifact) {
+      return errorResponse(404, 'NOT_FOUND', 'Artifact not found');
+    }
+    if (artifact.status === 'REVOKED') {
+      return errorResponse(409, 'ALREADY_REVOKED', `Artifact was revoked at ${artifact.revokedAt?.toISOString() ?? 'an unknown time'}`);
+    }
+
+    const wire = artifact.policyArtifact as PolicyArtifact | null;
+    const policyId = artifact.policyHash ?? wire?.policy_hash;
+    if (!policyId) {
+      return errorResponse(409, 'ARTIFACT_UNSEALED', 'Artifact has no sealed policy to revoke');
+    }
+
+    // The revocation is signed by the owner's current issuer key
+    const signingKey = await findOrCreateIssuerKey(user.id);
+
+    const head = await prisma.receipt.findFirst({
+      where: { artifactId: artifact.id },
+      orderBy: { sequenceNumber: 'desc' },
+      select: { sequenceNumber: true, leafHash: true, runId: true },
+    });
+    const sequenceNumber = (head?.sequenceNumber ?? 0) + 1;
+    const prevReceiptHash = head?.leafHash ?? ZERO_HASH;
+    const runId = head?.runId ?? generateRunId();
+
+    const receipt = await withCustodialKey(signingKey.id, { userId: user.id, purpose: 'SIGN_RECEIPT' }, (key) =>
+      createReceipt({
+        runId,
+        sequenceNumber,
+        eventType: 'REVOCATION',
+        policyId,
+        decision: { action: 'KILL', reasonCode: body.reason_code, details },
+        prevReceiptHash,
+        privateKey: key.privateKey,
+        publicKey: key.publicKey,
+      })
+    );
+    const revokedAt = new Date(receipt.timestamp);
+    const payloadHash = await sha256String(canonicalize(receipt));
+
+    try {
+      const revoked = await prisma.$transaction(async (tx) => {
+        // A concurrent revocation finds the artifact already REVOKED
+        const updated = await tx.artifact.updateMany({
+          where: { id: artifact.id, status: { not: 'REVOKED' } },
+          data: { status: 'REVOKED', revokedAt, revocationReason: body.reason_code },
+        });
+        if (updated.count !== 1) {
+          return null;
+        }
+
+        const stored = await tx.receipt.create({
+          data: {
+            artifactId: artifact.id,
+            runId,
+            sequenceNumber,
+            previousLeafHash: head ? prevReceiptHash : null,
+            leafHash: receipt.chain.this_receipt_hash,
+            eventType: 'REVOCATION',
+            eventId: receipt.receipt_id,
+            timestamp: revokedAt,
+            payload: receipt as unknown as Prisma.InputJsonObject,
+            payloadHash,
+            signatureB64: receipt.signer.signature,
+            signingKeyId: signingKey.id,
+          },
+        });
+
+        await tx.governeRun.updateMany({
+          where: { runId, artifactId: artifact.id },
+          data: {
+            receiptCount: { increment: 1 },
+            headSequenceNumber: sequenceNumber,
+            headReceiptHash: receipt.chain.this_receipt_hash,
+          },
+        });
+
+        await tx.vaultCard.updateMany({
+          where: { artifactId: artifact.id },
+          data: { status: 'REVOKED' },
+        });
+
+        return stored;
+      });
+
+      if (!revoked) {
+        return errorResponse(409, 'ALREADY_REVOKED', 'Artifact was revoked concurrently');
+      }
+    } catch (error) {
+      // Another receipt claimed this sequence number first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return errorResponse(409, 'CHAIN_CONFLICT', 'The receipt chain advanced during revocation; retry');
+      }
+      throw error;
+    }
+
+    await notifyRevoked(
+      user,
+      {
+        id: artifact.id,
+        artifactId: wire?.artifact_id ?? artifact.id,
+        displayName: artifact.vaultCard?.displayName ?? artifact.name,
+      },
+      body.reason_code,
+      receipt.timestamp
+    );
+
+    return NextResponse.json({
+      data: {
+        id: artifact.id,
+        artifactId: wire?.artifact_id ?? artifact.id,
+        status: 'REVOKED',
+        revokedAt: receipt.timestamp,
+        reasonCode: body.reason_code,
+        details: details ?? null,
+        receipt,
+      },
+      message: 'Artifact revoked',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error revoking artifact:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to revoke artifact');
+  }
+}
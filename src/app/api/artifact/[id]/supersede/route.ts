@@ -0,0 +1,201 @@
+/**
+ * Artifact Supersession API Route
+ * Per AGA Build Guide - Core Cryptographic Flow
+ *
+ * Re-seals an updated subject or policy as the next version of an artifact.
+ * The new artifact's previous_artifact_ref names the predecessor's
+ * artifact_id and policy_hash, and the predecessor moves from ACTIVE to
+ * SUPERSEDED in the same transaction that stores its successor. A successor
+ * with an approval quorum starts as a DRAFT; the predecessor stays ACTIVE
+ * until the quorum is met and the attestation accept flow supersedes it.
+ * The successor and its genesis receipt are signed by the custodial issuer
+ * key.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/auth';
+import { Prisma } from '@prisma/client';
+import {
+  computeSealedHash,
+  type ApprovalQuorum,
+  type EnforcementAction,
+  type PolicyArtifact,
+} from '@attested/core';
+import {
+  findOrCreateIssuerKey,
+  signSeal,
+  storeSeal,
+  validateSeal,
+  type SealSettings,
+  type SealSubject,
+} from '@/lib/seal';
+
+// Force dynamic rendering and use Node.js runtime for crypto
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Fields to change; anything omitted is carried over from the predecessor */
+interface SupersedeRequest extends Partial<SealSubject> {
+  name?: string;
+  description?: string;
+  settings?: Partial<SealSettings>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+// ============================================================================
+// POST /api/artifact/[id]/supersede - Seal the next version of an artifact
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return errorResponse(authResult.status, 'AUTH_REQUIRED', authResult.error);
+    }
+    const user = authResult.user;
+    const { id } = await params;
+
+    let body: SupersedeRequest;
+    try {
+      body = await request.json() as SupersedeRequest;
+    } catch {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must be valid JSON');
+    }
+
+    const previous = await prisma.artifact.findFirst({ where: { id, userId: user.id } });
+    if (!previous) {
+      return errorResponse(404, 'NOT_FOUND', 'Artifact not found');
+    }
+    if (previous.status !== 'ACTIVE') {
+      return errorResponse(409, 'ARTIFACT_INACTIVE', `Only ACTIVE artifacts can be superseded; this one is ${previous.status}`);
+    }
+    const previousWire = previous.policyArtifact as PolicyArtifact | null;
+    if (!previousWire || !previous.policyHash) {
+      return errorResponse(409, 'ARTIFACT_UNSEALED', 'Artifact has no sealed policy artifact to reference');
+    }
+
+    const name = body.name ?? previous.name;
+    const bytesHash = body.bytesHash ?? previous.bytesHash;
+    const metadataHash = body.metadataHash ?? previous.metadataHash;
+    const subject: SealSubject = {
+      bytesHash,
+      metadataHash,
+      // A changed subject is resealed; a supplied sealed hash must agree with it
+      sealedHash: body.sealedHash ?? await computeSealedHash(bytesHash, metadataHash),
+    };
+    const settings: SealSettings = {
+      measurementCadenceMs: body.settings?.measurementCadenceMs ?? previous.measurementCadenceMs,
+      ttlSeconds: body.settings?.ttlSeconds ?? previous.ttlSeconds ?? undefined,
+      // Runtime-only actions stored on older rows fail validation below
+      enforcementAction: body.settings?.enforcementAction ?? previous.enforcementAction as EnforcementAction,
+      payloadIncluded: body.settings?.payloadIncluded ?? previous.payloadIncluded,
+      approvalQuorum: body.settings?.approvalQuorum ?? (previous.approvalQuorum as ApprovalQuorum | null) ?? undefined,
+    };
+
+    const validationError = await validateSeal(name, subject, settings);
+    if (validationError) {
+      return errorResponse(400, 'VALIDATION_ERROR', validationError);
+    }
+    const status = settings.approvalQuorum ? 'DRAFT' : 'ACTIVE';
+
+    const signingKey = await findOrCreateIssuerKey(user.id);
+
+    const description = body.description !== undefined ? body.description.trim() || null : previous.description;
+    const policyVersion = previous.policyVersion + 1;
+    const seal = await signSeal(user.id, signingKey, {
+      vaultId: user.vaultId,
+      name: name.trim(),
+      description: description ?? undefined,
+      subject,
+      settings,
+      policyVersion,
+      previousArtifact: { artifactId: previousWire.artifact_id, policyHash: previous.policyHash },
+    });
+    const { policyArtifact, genesisReceipt, chainHead } = seal;
+
+    try {
+      const artifact = await prisma.$transaction(async (tx) => {
+        // A concurrent supersede or revoke finds the predecessor no longer ACTIVE
+        if (status === 'ACTIVE') {
+          const superseded = await tx.artifact.updateMany({
+            where: { id: previous.id, status: 'ACTIVE' },
+            data: { status: 'SUPERSEDED' },
+          });
+          if (superseded.count !== 1) {
+            return null;
+          }
+          await tx.vaultCard.updateMany({
+            where: { artifactId: previous.id },
+            data: { status: 'SUPERSEDED' },
+          });
+        } else if (await tx.artifact.count({ where: { id: previous.id, status: 'ACTIVE' } }) !== 1) {
+          return null;
+        }
+
+        return storeSeal(tx, {
+          userId: user.id,
+          name: name.trim(),
+          description,
+          settings,
+          status,
+          signingKeyId: signingKey.id,
+          seal,
+          policyId: previous.policyId,
+          previousArtifactId: previous.id,
+        });
+      });
+
+      if (!artifact) {
+        return errorResponse(409, 'ARTIFACT_INACTIVE', 'Artifact was superseded or revoked concurrently');
+      }
+
+      return NextResponse.json({
+        data: {
+          id: artifact.id,
+          artifactId: policyArtifact.artifact_id,
+          vaultId: user.vaultId,
+          name: artifact.name,
+          policyVersion,
+          policyHash: policyArtifact.policy_hash,
+          status,
+          previousArtifactId: previous.id,
+          previousArtifactRef: policyArtifact.previous_artifact_ref,
+          issuedAt: policyArtifact.issued_at,
+          expiresAt: policyArtifact.not_after,
+          signingKeyId: signingKey.id,
+          verifyUrl: `/verify/${policyArtifact.artifact_id}`,
+          policyArtifact,
+          genesisReceipt,
+          chainHead,
+        },
+        message: status === 'ACTIVE'
+          ? `Artifact superseded by version ${policyVersion}`
+          : `Version ${policyVersion} is a draft; the artifact is superseded once its approval quorum is met`,
+      }, { status: 201 });
+    } catch (error) {
+      // The unique previous_artifact_id allows one successor per version
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return errorResponse(409, 'ARTIFACT_INACTIVE', 'Artifact already has a successor');
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error superseding artifact:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to supersede artifact');
+  }
+}
@@ -2,10 +2,36 @@
  * Attestation Accept API
  * Per AGA Build Guide Phase 2.2
  *
- * Accepts an attestation invite and signs the artifact.
+ * Accepts an attestation invite and signs the artifact. The attestor signs
+ * { artifact_id, policy_hash, attestor_id, role, timestamp } with their own
+ * Ed25519 key. The owner's custodial issuer key then signs an ATTESTATION
+ * receipt committing to the attestation, which extends the artifact's
+ * current run; the invite is consumed in the same transaction. A DRAFT
+ * artifact with an approval quorum becomes ACTIVE once the quorum is met,
+ * and the version it replaces becomes SUPERSEDED at the same time.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { prisma } from '@/lib/db';
+import { withCustodialKey } from '@/lib/custody';
+import { findOrCreateIssuerKey, generateRunId } from '@/lib/seal';
+import { Prisma } from '@prisma/client';
+import type { AttestorRole } from '@prisma/client';
+import {
+  DOMAIN_SEPARATORS,
+  canonicalize,
+  createReceipt,
+  evaluateApprovalQuorum,
+  generateKeyId,
+  sha256String,
+  verifyObject,
+  type ApprovalQuorum,
+  type Attestation,
+} from '@attested/core';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
 
 // ============================================================================
 // TYPES
@@ -19,20 +45,44 @@ interface AcceptAttestationRequest {
   notes?: string;
   public_key: string;  // Base64 Ed25519 public key
   signature: string;   // Base64 Ed25519 signature over attestation data
+  timestamp: string;   // ISO 8601 time the attestor signed at
 }
 
-interface AttestationResult {
+/**
+ * The fields covered by the attestor's signature
+ */
+interface AttestationData {
+  artifact_id: string;
+  policy_hash: string;
   attestor_id: string;
   role: 'witness' | 'auditor' | 'approver';
+  timestamp: string;
+}
+
+interface AttestationResult extends AttestationData {
   attestor_name?: string;
   attestor_organization?: string;
+  notes?: string;
   signature: string;
   public_key: string;
-  timestamp: string;
-  artifact_id: string;
-  policy_hash: string;
+  invite_id: string;
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ZERO_HASH = '0'.repeat(64);
+
+/** How far an attestor's clock may run ahead of ours */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const ROLE_NAMES: Record<AttestorRole, AttestationData['role']> = {
+  WITNESS: 'witness',
+  AUDITOR: 'auditor',
+  APPROVER: 'approver',
+};
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -46,119 +96,316 @@ function isValidBase64(str: string): boolean {
   }
 }
 
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+function tokensMatch(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * The artifact_id attestors sign is the wire-format id from the sealed
+ * policy artifact; rows sealed before it was stored fall back to the row id.
+ */
+function wireArtifactId(artifact: { id: string; policyArtifact: Prisma.JsonValue }): string {
+  const stored = artifact.policyArtifact;
+  if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+    const artifactId = (stored as Prisma.JsonObject).artifact_id;
+    if (typeof artifactId === 'string') {
+      return artifactId;
+    }
+  }
+  return artifact.id;
+}
+
 // ============================================================================
 // POST - Accept Attestation
 // ============================================================================
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json() as AcceptAttestationRequest;
+    let body: AcceptAttestationRequest;
+    try {
+      body = await request.json() as AcceptAttestationRequest;
+    } catch {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must be valid JSON');
+    }
 
     // Validate required fields
     if (!body.invite_id) {
-      return NextResponse.json(
-        { error: 'invite_id is required' },
-        { status: 400 }
-      );
+      return errorResponse(400, 'VALIDATION_ERROR', 'invite_id is required');
     }
 
     if (!body.token) {
-      return NextResponse.json(
-        { error: 'token is required' },
-        { status: 400 }
-      );
+      return errorResponse(400, 'VALIDATION_ERROR', 'token is required');
     }
 
-    if (!body.public_key || !isValidBase64(body.public_key)) {
-      return NextResponse.json(
-        { error: 'Valid public_key (base64) is required' },
-        { status: 400 }
-      );
+    if (!body.public_key || !isValidBase64(body.public_key) ||
+        Buffer.from(body.public_key, 'base64').length !== 32) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Valid public_key (base64 Ed25519) is required');
     }
 
     if (!body.signature || !isValidBase64(body.signature)) {
-      return NextResponse.json(
-        { error: 'Valid signature (base64) is required' },
-        { status: 400 }
-      );
+      return errorResponse(400, 'VALIDATION_ERROR', 'Valid signature (base64) is required');
+    }
+
+    const signedAt = typeof body.timestamp === 'string' ? new Date(body.timestamp) : null;
+    if (!signedAt || isNaN(signedAt.getTime())) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'timestamp (ISO 8601) is required');
+    }
+
+    // Verify invite exists and is valid
+    const invite = await prisma.attestationInvite.findUnique({
+      where: { id: body.invite_id },
+      include: {
+        artifact: {
+          select: {
+            id: true,
+            userId: true,
+            status: true,
+            policyHash: true,
+            policyArtifact: true,
+            approvalQuorum: true,
+            previousArtifactId: true,
+          },
+        },
+      },
+    });
+
+    if (!invite || !tokensMatch(invite.token, body.token)) {
+      return errorResponse(404, 'NOT_FOUND', 'Invite not found');
+    }
+
+    if (invite.status !== 'PENDING') {
+      return errorResponse(409, 'INVITE_USED', `Invite is ${invite.status}`);
+    }
+
+    const now = new Date();
+    if (invite.expiresAt <= now) {
+      await prisma.attestationInvite.updateMany({
+        where: { id: invite.id, status: 'PENDING' },
+        data: { status: 'EXPIRED' },
+      });
+      return errorResponse(410, 'INVITE_EXPIRED', 'Invite has expired');
+    }
+
+    if (signedAt < invite.createdAt || signedAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'timestamp is outside the invite window');
+    }
+
+    const { artifact } = invite;
+    if ((artifact.status !== 'ACTIVE' && artifact.status !== 'DRAFT') || !artifact.policyHash) {
+      return errorResponse(409, 'ARTIFACT_INACTIVE', `Artifact is ${artifact.status}`);
+    }
+
+    // Verify signature over the attestation data
+    const attestorKeyId = await generateKeyId(new Uint8Array(Buffer.from(body.public_key, 'base64')));
+    const attestationData: AttestationData = {
+      artifact_id: wireArtifactId(artifact),
+      policy_hash: artifact.policyHash,
+      attestor_id: `att_${attestorKeyId}`,
+      role: ROLE_NAMES[invite.role],
+      timestamp: body.timestamp,
+    };
+
+    const signatureValid = await verifyObject(
+      body.public_key,
+      body.signature,
+      DOMAIN_SEPARATORS.BUNDLE,
+      attestationData as unknown as Record<string, unknown>
+    );
+
+    if (!signatureValid) {
+      return errorResponse(400, 'SIGNATURE_INVALID', 'Attestation signature verification failed');
     }
 
-    // TODO: Verify invite exists and is valid
-    // const invite = await prisma.attestationInvite.findUnique({
-    //   where: { id: body.invite_id },
-    // });
-    //
-    // if (!invite) {
-    //   return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
-    // }
-    //
-    // if (invite.status !== 'pending') {
-    //   return NextResponse.json({ error: 'Invite already used or expired' }, { status: 400 });
-    // }
-    //
-    // if (invite.token !== body.token) {
-    //   return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    // }
-    //
-    // if (new Date(invite.expires_at) < new Date()) {
-    //   return NextResponse.json({ error: 'Invite has expired' }, { status: 400 });
-    // }
-
-    // TODO: Verify signature
-    // The signature should be over: { artifact_id, policy_hash, attestor_id, role, timestamp }
-    // const isValid = await verifySignature(attestationData, body.signature, body.public_key);
-    // if (!isValid) {
-    //   return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
-    // }
-
-    // Generate attestor ID from public key
-    // const encoder = new TextEncoder(); // Prepared for future use
-    const publicKeyBytes = Buffer.from(body.public_key, 'base64');
-    const hashBuffer = await crypto.subtle.digest('SHA-256', publicKeyBytes);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const attestorId = hashArray.slice(0, 8).map(b => b.toString(16).padStart(2, '0')).join('');
-
-    // Create attestation result
     const attestation: AttestationResult = {
-      attestor_id: `att_${attestorId}`,
-      role: 'witness', // TODO: Get from invite
+      ...attestationData,
       attestor_name: body.attestor_name,
       attestor_organization: body.attestor_organization,
+      notes: body.notes,
       signature: body.signature,
       public_key: body.public_key,
-      timestamp: new Date().toISOString(),
-      artifact_id: 'art_example', // TODO: Get from invite
-      policy_hash: '0'.repeat(64), // TODO: Get from artifact
+      invite_id: invite.id,
     };
+    const attestationHash = await sha256String(canonicalize(attestation));
 
-    // TODO: Update invite status
-    // await prisma.attestationInvite.update({
-    //   where: { id: body.invite_id },
-    //   data: {
-    //     status: 'accepted',
-    //     accepted_at: new Date().toISOString(),
-    //   },
-    // });
-
-    // TODO: Add attestation to artifact
-    // await prisma.attestation.create({
-    //   data: attestation,
-    // });
-
-    return NextResponse.json({
-      success: true,
-      attestation: {
-        attestor_id: attestation.attestor_id,
-        role: attestation.role,
-        timestamp: attestation.timestamp,
-        artifact_id: attestation.artifact_id,
-      },
+    // The form the wire artifact carries in its attestations list
+    const wireAttestation: Attestation = {
+      attestor_id: attestation.attestor_id,
+      role: attestation.role,
+      ...(body.attestor_name && { attestor_name: body.attestor_name }),
+      ...(body.attestor_organization && { attestor_organization: body.attestor_organization }),
+      signature: body.signature,
+      public_key: body.public_key,
+      timestamp: body.timestamp,
+    };
+
+    // The receipt is signed by the artifact owner's current issuer key
+    const signingKey = await findOrCreateIssuerKey(artifact.userId);
+
+    const head = await prisma.receipt.findFirst({
+      where: { artifactId: artifact.id },
+      orderBy: { sequenceNumber: 'desc' },
+      select: { sequenceNumber: true, leafHash: true, runId: true },
     });
+    const sequenceNumber = (head?.sequenceNumber ?? 0) + 1;
+    const prevReceiptHash = head?.leafHash ?? ZERO_HASH;
+    const runId = head?.runId ?? generateRunId();
+
+    const receipt = await withCustodialKey(signingKey.id, { userId: artifact.userId, purpose: 'SIGN_RECEIPT' }, (key) =>
+      createReceipt({
+        runId,
+        sequenceNumber,
+        eventType: 'ATTESTATION',
+        policyId: attestation.policy_hash,
+        decision: {
+          action: 'CONTINUE',
+          reasonCode: 'OK',
+          details: `${attestation.role} ${attestation.attestor_id} attestation ${attestationHash}`,
+        },
+        prevReceiptHash,
+        privateKey: key.privateKey,
+        publicKey: key.publicKey,
+      })
+    );
+
+    // The stored payload is the wire receipt with the attestation it commits to
+    const payload = { ...receipt, attestation };
+    const payloadHash = await sha256String(canonicalize(payload));
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        // Consume the invite; a concurrent accept finds it no longer PENDING
+        const consumed = await tx.attestationInvite.updateMany({
+          where: { id: invite.id, status: 'PENDING' },
+          data: {
+            status: 'ACCEPTED',
+            acceptedAt: now,
+            attestorName: body.attestor_name ?? null,
+            attestorSignatureB64: body.signature,
+            attestorPublicKeyB64: body.public_key,
+          },
+        });
+        if (consumed.count !== 1) {
+          return null;
+        }
+
+        const stored = await tx.receipt.create({
+          data: {
+            artifactId: artifact.id,
+            runId,
+            sequenceNumber,
+            previousLeafHash: head ? prevReceiptHash : null,
+            leafHash: receipt.chain.this_receipt_hash,
+            eventType: 'ATTESTATION',
+            eventId: receipt.receipt_id,
+            timestamp: new Date(receipt.timestamp),
+            payload: payload as unknown as Prisma.InputJsonObject,
+            payloadHash,
+            signatureB64: receipt.signer.signature,
+            signingKeyId: signingKey.id,
+          },
+        });
+
+        await tx.governeRun.updateMany({
+          where: { runId, artifactId: artifact.id },
+          data: {
+            receiptCount: { increment: 1 },
+            headSequenceNumber: sequenceNumber,
+            headReceiptHash: receipt.chain.this_receipt_hash,
+          },
+        });
+
+        // Record the attestation on the wire artifact; the receipt insert
+        // above serializes concurrent accepts on this artifact
+        const current = await tx.artifact.findUniqueOrThrow({
+          where: { id: artifact.id },
+          select: { status: true, policyArtifact: true },
+        });
+        const wire = current.policyArtifact as { attestations?: Attestation[] } | null;
+        const attestations = [...(wire?.attestations ?? []), wireAttestation];
+
+        const quorum = artifact.approvalQuorum as ApprovalQuorum | null;
+        const quorumEvaluation = quorum
+          ? await evaluateApprovalQuorum(
+              { artifact_id: attestation.artifact_id, policy_hash: attestation.policy_hash, attestations },
+              quorum
+            )
+          : null;
+        const activate = current.status === 'DRAFT' && quorumEvaluation?.satisfied === true;
+
+        const updated = await tx.artifact.update({
+          where: { id: artifact.id },
+          data: {
+            ...(wire && {
+              policyArtifact: { ...wire, attestations } as unknown as Prisma.InputJsonObject,
+            }),
+            ...(activate && { status: 'ACTIVE' as const, effectiveAt: now }),
+          },
+          select: { status: true },
+        });
+
+        if (activate) {
+          await tx.vaultCard.updateMany({
+            where: { artifactId: artifact.id },
+            data: { status: 'ACTIVE' },
+          });
+
+          // The predecessor stayed ACTIVE while this version was a draft;
+          // one revoked in the meantime stays REVOKED
+          if (artifact.previousArtifactId) {
+            const superseded = await tx.artifact.updateMany({
+              where: { id: artifact.previousArtifactId, status: 'ACTIVE' },
+              data: { status: 'SUPERSEDED' },
+            });
+            if (superseded.count === 1) {
+              await tx.vaultCard.updateMany({
+                where: { artifactId: artifact.previousArtifactId },
+                data: { status: 'SUPERSEDED' },
+              });
+            }
+          }
+        }
+
+        return { stored, quorumEvaluation, status: updated.status };
+      });
+
+      if (!result) {
+        return errorResponse(409, 'INVITE_USED', 'Invite has already been accepted');
+      }
+      const { stored, quorumEvaluation, status } = result;
+
+      return NextResponse.json({
+        success: true,
+        attestation: {
+          attestor_id: attestation.attestor_id,
+          role: attestation.role,
+          timestamp: attestation.timestamp,
+          artifact_id: attestation.artifact_id,
+          policy_hash: attestation.policy_hash,
+        },
+        receipt: {
+          receipt_id: receipt.receipt_id,
+          run_id: stored.runId,
+          sequence_number: stored.sequenceNumber,
+          leaf_hash: stored.leafHash,
+        },
+        artifact_status: status,
+        quorum: quorumEvaluation,
+      }, { status: 201 });
+    } catch (error) {
+      // Another receipt claimed this sequence number first; the invite stays PENDING
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return errorResponse(409, 'CHAIN_CONFLICT', 'Receipt chain changed concurrently; retry');
+      }
+      throw error;
+    }
   } catch (error) {
     console.error('Error accepting attestation:', error);
-    return NextResponse.json(
-      { error: 'Failed to accept attestation' },
-      { status: 500 }
-    );
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to accept attestation');
   }
 }
@@ -7,6 +7,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { randomBytes } from 'crypto';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/auth';
+import type { AttestorRole } from '@prisma/client';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
 
 // ============================================================================
 // TYPES
@@ -51,12 +57,28 @@ function validateArtifactId(id: unknown): id is string {
   return typeof id === 'string' && id.startsWith('art_') && id.length >= 10;
 }
 
+function toRoleName(role: AttestorRole): AttestationInvite['role'] {
+  return role.toLowerCase() as AttestationInvite['role'];
+}
+
+function toStatusName(status: string): AttestationInvite['status'] {
+  return status.toLowerCase() as AttestationInvite['status'];
+}
+
 // ============================================================================
 // POST - Create Invite
 // ============================================================================
 
 export async function POST(request: NextRequest) {
   try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
     const body = await request.json() as CreateInviteRequest;
 
     // Validate required fields
@@ -89,6 +111,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only the artifact owner may invite attestors
+    const artifact = await prisma.artifact.findFirst({
+      where: {
+        userId: authResult.user.id,
+        policyArtifact: { path: ['artifact_id'], equals: body.artifact_id },
+      },
+      select: { id: true, status: true },
+    });
+
+    if (!artifact) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      );
+    }
+
+    // DRAFT artifacts collect attestations towards their approval quorum
+    if (artifact.status !== 'ACTIVE' && artifact.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: `Artifact is ${artifact.status}` },
+        { status: 409 }
+      );
+    }
+
     // Calculate expiration (default 7 days)
     const expiresInHours = body.expires_in_hours ?? 168; // 7 days
     const now = new Date();
@@ -111,8 +157,17 @@ export async function POST(request: NextRequest) {
     const baseUrl = request.headers.get('origin') || 'http://localhost:3000';
     invite.invite_url = `${baseUrl}/attest/${invite.id}?token=${invite.token}`;
 
-    // TODO: Store invite in database
-    // await prisma.attestationInvite.create({ data: invite });
+    await prisma.attestationInvite.create({
+      data: {
+        id: invite.id,
+        artifactId: artifact.id,
+        token: invite.token,
+        email: invite.email ?? null,
+        role: invite.role.toUpperCase() as AttestorRole,
+        createdAt: now,
+        expiresAt,
+      },
+    });
 
     // TODO: Send email if provided
     // if (body.email) {
@@ -163,19 +218,31 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // TODO: Fetch invite from database
-    // const invite = await prisma.attestationInvite.findUnique({
-    //   where: { id: inviteId },
-    // });
+    const invite = await prisma.attestationInvite.findUnique({
+      where: { id: inviteId },
+      include: { artifact: { select: { policyArtifact: true } } },
+    });
+
+    if (!invite || invite.token !== token) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    const expired = invite.status === 'EXPIRED' ||
+      (invite.status === 'PENDING' && invite.expiresAt <= new Date());
+    const wireArtifact = invite.artifact.policyArtifact as { artifact_id?: string } | null;
 
-    // For now, return a mock response
     return NextResponse.json({
       success: true,
       invite: {
-        id: inviteId,
-        status: 'pending',
-        role: 'witness',
-        artifact_id: 'art_example',
+        id: invite.id,
+        status: expired ? 'expired' : toStatusName(invite.status),
+        role: toRoleName(invite.role),
+        artifact_id: wireArtifact?.artifact_id ?? invite.artifactId,
+        expires_at: invite.expiresAt.toISOString(),
+        accepted_at: invite.acceptedAt?.toISOString(),
         // Don't expose sensitive fields like token
       },
     });
@@ -0,0 +1,115 @@
+/**
+ * Key Rotation API
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * Rotates a key held in custody from { key_id, reason }. The server
+ * generates the successor, signs the rotation statement with both keys
+ * (see rotateCustodialKey) and revokes the previous key with the stated
+ * reason. Artifacts sealed afterwards carry the rotation in their key
+ * schedule. Keys that are not held in custody cannot be rotated here.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/auth';
+import { rotateCustodialKey } from '@/lib/custody';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RotateRequest {
+  key_id: string;
+  reason: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_REASON_LENGTH = 255;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function errorResponse(status: number, code: string, error: string): NextResponse {
+  return NextResponse.json({ error, code }, { status });
+}
+
+function validReason(reason: unknown): string | null {
+  return typeof reason === 'string' && reason.trim() === reason && reason.length > 0 && reason.length <= MAX_REASON_LENGTH
+    ? reason
+    : null;
+}
+
+/**
+ * Rotate a key held in custody; the successor is generated server-side
+ */
+async function rotateCustodial(keyId: string, reasonInput: unknown, userId: string): Promise<NextResponse> {
+  const reason = validReason(reasonInput);
+  if (!reason) {
+    return errorResponse(400, 'VALIDATION_ERROR', `reason is required (at most ${MAX_REASON_LENGTH} characters)`);
+  }
+
+  const previous = await prisma.signingKey.findFirst({ where: { id: keyId, userId } });
+  if (!previous) {
+    return errorResponse(404, 'NOT_FOUND', 'Signing key not found');
+  }
+  if (previous.revokedAt) {
+    return errorResponse(409, 'KEY_REVOKED', `Key ${previous.id} was revoked at ${previous.revokedAt.toISOString()}`);
+  }
+  if (!previous.encryptedPrivateKey) {
+    return errorResponse(409, 'KEY_NOT_CUSTODIAL', 'Key is not held in custody and cannot be rotated on the server');
+  }
+
+  const rotated = await rotateCustodialKey(previous.id, userId, reason);
+  if (!rotated) {
+    return errorResponse(409, 'KEY_REVOKED', `Key ${previous.id} has already been rotated`);
+  }
+
+  return NextResponse.json({
+    data: {
+      keyId: rotated.key.keyId,
+      publicKey: rotated.key.publicKeyB64,
+      keyClass: rotated.key.keyClass,
+      previousKeyId: previous.id,
+      rotatedAt: rotated.entry.rotation!.rotated_at,
+      reason,
+    },
+    message: 'Signing key rotated',
+  }, { status: 201 });
+}
+
+// ============================================================================
+// POST /api/keys/rotate - Rotate a signing key
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return errorResponse(authResult.status, 'AUTH_REQUIRED', authResult.error);
+    }
+    const user = authResult.user;
+
+    let body: RotateRequest;
+    try {
+      body = await request.json() as RotateRequest;
+    } catch {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must be valid JSON');
+    }
+
+    if (!body || typeof body.key_id !== 'string') {
+      return errorResponse(400, 'VALIDATION_ERROR', 'key_id is required');
+    }
+
+    return rotateCustodial(body.key_id, body.reason, user.id);
+  } catch (error) {
+    console.error('Error rotating signing key:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to rotate signing key');
+  }
+}
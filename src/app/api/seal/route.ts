@@ -2,23 +2,21 @@
  * Seal Creation API Route
  * Per AGA Build Guide - Core Cryptographic Flow
  *
- * Creates a sealed artifact with Ed25519 signature and genesis receipt.
+ * Creates a sealed artifact. The user's custodial issuer key signs the
+ * policy artifact and its genesis receipt; both are stored with the vault
+ * card in one transaction and returned so the client can verify them.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/auth';
-import { v4 as uuid } from 'uuid';
-
-// Import from AGA library
 import {
-  generateKeyPair,
-  computeBytesHash,
-  generateSalt,
-  canonicalStringify,
-  exportPublicKey,
-} from '@/lib/aga/crypto';
-import { KeyType } from '@/lib/aga/types';
+  findOrCreateIssuerKey,
+  signSeal,
+  storeSeal,
+  validateSeal,
+  type SealSettings,
+} from '@/lib/seal';
 
 // Force dynamic rendering and use Node.js runtime for crypto
 export const dynamic = 'force-dynamic';
@@ -36,30 +34,7 @@ interface SealRequest {
   sealedHash: string;
   fileSize?: number;
   mimeType?: string;
-  settings: {
-    measurementCadenceMs: number;
-    ttlSeconds?: number;
-    enforcementAction: 'ALERT' | 'KILL' | 'BLOCK_START';
-    payloadIncluded: boolean;
-  };
-}
-
-// ============================================================================
-// HELPERS
-// ============================================================================
-
-function generateArtifactId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 10);
-  return `art_${timestamp}${random}`;
-}
-
-function generateRunId(): string {
-  const bytes = new Uint8Array(16);
-  crypto.getRandomValues(bytes);
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
+  settings: SealSettings;
 }
 
 // ============================================================================
@@ -98,264 +73,86 @@ export async function POST(request: NextRequest) {
     console.log('[SEAL] Request body received:', { name: body.name, bytesHashLen: body.bytesHash?.length });
 
     // Validation
-    if (!body.name?.trim()) {
+    const validationError = await validateSeal(body.name, body, body.settings);
+    if (validationError) {
       return NextResponse.json(
-        { error: 'Name is required', code: 'VALIDATION_ERROR' },
+        { error: validationError, code: 'VALIDATION_ERROR' },
         { status: 400 }
       );
     }
 
-    if (!body.bytesHash || body.bytesHash.length !== 64) {
-      return NextResponse.json(
-        { error: 'Invalid bytes hash', code: 'VALIDATION_ERROR' },
-        { status: 400 }
-      );
-    }
-
-    if (!body.metadataHash || body.metadataHash.length !== 64) {
-      return NextResponse.json(
-        { error: 'Invalid metadata hash', code: 'VALIDATION_ERROR' },
-        { status: 400 }
-      );
-    }
-
-    if (!body.sealedHash || body.sealedHash.length !== 64) {
-      return NextResponse.json(
-        { error: 'Invalid sealed hash', code: 'VALIDATION_ERROR' },
-        { status: 400 }
-      );
-    }
+    const approvalQuorum = body.settings?.approvalQuorum;
+    const status = approvalQuorum ? 'DRAFT' : 'ACTIVE';
 
     // Get or create signing key for user
     console.log('[SEAL] Looking for signing key...');
     let signingKey;
     try {
-      signingKey = await prisma.signingKey.findFirst({
-        where: {
-          userId: user.id,
-          keyClass: 'POLICY_ISSUER',
-          revokedAt: null,
-        },
-      });
-      console.log('[SEAL] Existing signing key:', signingKey?.id || 'none');
-    } catch (dbError) {
-      console.error('[SEAL] DB error finding signing key:', dbError);
-      throw new Error(`Database error finding signing key: ${dbError instanceof Error ? dbError.message : 'Unknown'}`);
-    }
-
-    if (!signingKey) {
-      // Generate new key pair using AGA library
-      console.log('[SEAL] Generating new key pair...');
-      let keyPair;
-      try {
-        keyPair = await generateKeyPair(KeyType.POLICY_ISSUER);
-        console.log('[SEAL] Key pair generated:', keyPair.keyId);
-      } catch (cryptoError) {
-        console.error('[SEAL] Crypto error generating key pair:', cryptoError);
-        throw new Error(`Crypto error generating key pair: ${cryptoError instanceof Error ? cryptoError.message : 'Unknown'}`);
-      }
-
-      try {
-        signingKey = await prisma.signingKey.create({
-          data: {
-            id: keyPair.keyId,
-            userId: user.id,
-            publicKeyB64: exportPublicKey(keyPair.publicKey),
-            keyClass: 'POLICY_ISSUER',
-          },
-        });
-        console.log('[SEAL] Signing key created:', signingKey.id);
-      } catch (dbError) {
-        console.error('[SEAL] DB error creating signing key:', dbError);
-        throw new Error(`Database error creating signing key: ${dbError instanceof Error ? dbError.message : 'Unknown'}`);
-      }
+      signingKey = await findOrCreateIssuerKey(user.id);
+      console.log('[SEAL] Signing key:', signingKey.id);
+    } catch (keyError) {
+      console.error('[SEAL] Error resolving signing key:', keyError);
+      throw new Error(`Error resolving signing key: ${keyError instanceof Error ? keyError.message : 'Unknown'}`);
     }
 
-    // Generate artifact ID and run ID
-    const artifactId = generateArtifactId();
-    const runId = generateRunId();
-
-    // Generate salt for this artifact
-    const salt = generateSalt();
-
-    // Create timestamps
-    const now = new Date();
-    const issuedAt = now.toISOString();
-    const notBefore = issuedAt;
-    const notAfter = body.settings.ttlSeconds
-      ? new Date(now.getTime() + body.settings.ttlSeconds * 1000).toISOString()
-      : null;
-    const expiresAt = notAfter ? new Date(notAfter) : null;
-
-    // Build subject identifier
-    const subjectIdentifier = {
-      bytesHash: body.bytesHash,
-      metadataHash: body.metadataHash,
-    };
-
-    // Build policy artifact for signing
-    const policyArtifactData = {
-      schemaVersion: '1.0.0',
-      protocolVersion: '1.0.0',
-      policyVersion: 1,
+    // Sign the policy artifact and genesis receipt
+    console.log('[SEAL] Signing policy artifact and genesis receipt...');
+    const name = body.name.trim();
+    const description = body.description?.trim() || null;
+    const seal = await signSeal(user.id, signingKey, {
       vaultId: user.vaultId,
-      artifactId,
-      issuedAt,
-      notBefore,
-      notAfter,
-      subjectIdentifier,
-      sealedHash: body.sealedHash,
-      salt,
-      integrityPolicy: {
-        configDigest: body.metadataHash,
-        configSource: 'CONFIG_SOURCE_C',
-      },
-      enforcementPolicy: {
-        onDrift: body.settings.enforcementAction === 'ALERT' ? 'CONTINUE' : body.settings.enforcementAction,
-        onTtlExpired: 'KILL',
-        onSignatureInvalid: 'KILL',
-      },
-      keySchedule: [
-        {
-          keyId: signingKey.id,
-          publicKey: signingKey.publicKeyB64,
-          createdAt: signingKey.createdAt.toISOString(),
-        },
-      ],
-      disclosurePolicy: {
-        payloadIncluded: body.settings.payloadIncluded,
-        claims: ['name', 'bytesHash', 'metadataHash', 'sealedHash'],
-      },
-      attestations: [],
-    };
-
-    // Compute policy hash using AGA crypto
-    console.log('[SEAL] Computing policy hash...');
-    const policyCanonical = canonicalStringify(policyArtifactData);
-    const policyHash = computeBytesHash(new TextEncoder().encode(policyCanonical));
-    console.log('[SEAL] Policy hash computed:', policyHash.substring(0, 16) + '...');
+      name,
+      description: description ?? undefined,
+      subject: body,
+      settings: body.settings,
+      policyVersion: 1,
+    });
+    const { policyArtifact, genesisReceipt, chainHead } = seal;
+    console.log('[SEAL] Policy hash:', policyArtifact.policy_hash.substring(0, 16) + '...');
 
-    // Create artifact in database
-    console.log('[SEAL] Creating artifact in database...');
+    // Store artifact, genesis receipt and vault card together
+    console.log('[SEAL] Storing seal in database...');
     let artifact;
     try {
-      artifact = await prisma.artifact.create({
-        data: {
-          id: uuid(),
+      artifact = await prisma.$transaction((tx) =>
+        storeSeal(tx, {
           userId: user.id,
-          name: body.name.trim(),
-          description: body.description?.trim() || null,
-          bytesHash: body.bytesHash,
-          metadataHash: body.metadataHash,
-          sealedHash: body.sealedHash,
-          salt,
-          policyVersion: 1,
-          policyHash,
-          status: 'ACTIVE',
-          issuedAt: now,
-          effectiveAt: now,
-          expiresAt,
-          measurementCadenceMs: body.settings.measurementCadenceMs,
-          ttlSeconds: body.settings.ttlSeconds || null,
-          enforcementAction: body.settings.enforcementAction,
-          payloadIncluded: body.settings.payloadIncluded,
+          name,
+          description,
+          settings: body.settings,
+          status,
           signingKeyId: signingKey.id,
-          issuerIdentifier: user.vaultId,
-        },
-      });
+          seal,
+        })
+      );
       console.log('[SEAL] Artifact created:', artifact.id);
     } catch (dbError) {
-      console.error('[SEAL] DB error creating artifact:', dbError);
-      throw new Error(`Database error creating artifact: ${dbError instanceof Error ? dbError.message : 'Unknown'}`);
+      console.error('[SEAL] DB error storing seal:', dbError);
+      throw new Error(`Database error storing seal: ${dbError instanceof Error ? dbError.message : 'Unknown'}`);
     }
 
-    // Create genesis receipt
-    const genesisReceiptData = {
-      receiptVersion: '1',
-      runId,
-      sequenceNumber: 1,
-      timestamp: issuedAt,
-      localTime: issuedAt,
-      monotonicCounter: 1,
-      timeSource: 'DEGRADED_LOCAL',
-      eventType: 'POLICY_LOADED',
-      decision: {
-        action: 'NONE',
-        reasonCode: 'OK',
-        details: 'Policy artifact sealed and loaded',
-      },
-      policy: {
-        policyId: policyHash,
-      },
-      chain: {
-        prevReceiptHash: '0'.repeat(64),
-      },
-    };
-
-    // Compute receipt hash using AGA crypto
-    console.log('[SEAL] Computing receipt hash...');
-    const receiptCanonical = canonicalStringify(genesisReceiptData);
-    const receiptHash = computeBytesHash(new TextEncoder().encode(receiptCanonical));
-    console.log('[SEAL] Receipt hash computed');
-
-    // Store receipt
-    console.log('[SEAL] Creating receipt in database...');
-    await prisma.receipt.create({
-      data: {
-        id: uuid(),
-        artifactId: artifact.id,
-        sequenceNumber: 1,
-        previousLeafHash: null,
-        leafHash: receiptHash,
-        eventType: 'POLICY_LOADED',
-        eventId: runId,
-        timestamp: now,
-        payload: genesisReceiptData,
-        payloadHash: receiptHash,
-        signatureB64: 'mvp-placeholder', // In production, sign properly
-        signingKeyId: signingKey.id,
-      },
-    });
-
-    // Create vault card for display
-    await prisma.vaultCard.create({
-      data: {
-        id: uuid(),
-        userId: user.id,
-        artifactId: artifact.id,
-        displayName: body.name.trim(),
-        createdAt: now,
-        expiresAt,
-        status: 'ACTIVE',
-        settingsSnapshot: {
-          measurementCadenceMs: body.settings.measurementCadenceMs,
-          enforcementAction: body.settings.enforcementAction,
-          payloadIncluded: body.settings.payloadIncluded,
-        },
-        position: 0,
-        pinned: false,
-      },
-    });
-
     // Return sealed artifact data
     return NextResponse.json({
       data: {
         id: artifact.id,
-        artifactId,
+        artifactId: policyArtifact.artifact_id,
         vaultId: user.vaultId,
-        name: body.name.trim(),
-        description: body.description?.trim() || null,
+        name,
+        description,
         bytesHash: body.bytesHash,
         metadataHash: body.metadataHash,
-        sealedHash: body.sealedHash,
-        salt,
-        policyHash,
-        status: 'ACTIVE',
-        issuedAt,
-        expiresAt: notAfter,
+        sealedHash: policyArtifact.sealed_hash,
+        policyHash: policyArtifact.policy_hash,
+        status,
+        approvalQuorum: approvalQuorum ?? null,
+        issuedAt: policyArtifact.issued_at,
+        expiresAt: policyArtifact.not_after,
         signingKeyId: signingKey.id,
         receiptCount: 1,
-        verifyUrl: `/verify/${artifactId}`,
+        verifyUrl: `/verify/${policyArtifact.artifact_id}`,
+        policyArtifact,
+        genesisReceipt,
+        chainHead,
       },
       message: 'Artifact sealed successfully',
     }, { status: 201 });
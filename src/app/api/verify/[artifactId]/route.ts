@@ -3,12 +3,22 @@
  * Per AGA Build Guide Phase 8.7
  *
  * Public endpoint for verifying artifacts (no auth required).
- * Used by QR code links and external verifiers.
+ * Used by QR code links and external verifiers. A superseded artifact still
+ * verifies, with a caveat and a link to the version that replaced it.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { constantTimeEqual } from '@/lib/aga/crypto';
+import {
+  DOMAIN_SEPARATORS,
+  verifyObject,
+  verifyPolicyArtifact,
+  verifyReceipt,
+  type PolicyArtifact,
+  type Receipt,
+} from '@attested/core';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -28,9 +38,19 @@ interface PublicVerifyResponse {
   vaultId: string;
   displayName: string;
   description?: string;
-  status: 'ACTIVE' | 'EXPIRED' | 'REVOKED';
+  status: 'DRAFT' | 'ACTIVE' | 'SUPERSEDED' | 'EXPIRED' | 'REVOKED';
   sealedAt: string;
   expiresAt?: string;
+  revocation?: {
+    revokedAt: string | null;
+    reasonCode: string | null;
+  };
+  successor?: {
+    artifactId: string;
+    status: string;
+    sealedAt: string;
+    verifyUrl: string;
+  };
   sealedHash: string;
   bytesHash: string;
   metadataHash: string;
@@ -46,6 +66,92 @@ interface PublicVerifyResponse {
   verifiedAt: string;
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ZERO_HASH = '0'.repeat(64);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isJsonObject(value: Prisma.JsonValue | undefined): value is Prisma.JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Verify the issuer signatures on the stored policy artifact and its genesis
+ * receipt against the key the artifact was sealed with. Returns why
+ * verification failed, or null when both signatures hold. Expiry is left to
+ * the not_expired check.
+ */
+async function verifySealSignatures(
+  storedArtifact: Prisma.JsonValue,
+  storedGenesis: Prisma.JsonValue | undefined,
+  issuerPublicKey: string | null
+): Promise<string | null> {
+  if (!isJsonObject(storedArtifact)) {
+    return 'Artifact was sealed without an issuer signature';
+  }
+  if (!isJsonObject(storedGenesis)) {
+    return 'Genesis receipt is missing';
+  }
+  const policyArtifact = storedArtifact as unknown as PolicyArtifact;
+  const genesis = storedGenesis as unknown as Receipt;
+
+  try {
+    if (!issuerPublicKey || policyArtifact.issuer?.public_key !== issuerPublicKey) {
+      return 'Artifact is not signed by its registered issuer key';
+    }
+    const artifactResult = await verifyPolicyArtifact(policyArtifact);
+    const artifactErrors = artifactResult.errors.filter((e) => e !== 'Artifact has expired');
+    if (artifactErrors.length > 0) {
+      return artifactErrors.join('; ');
+    }
+
+    if (genesis.signer?.public_key !== issuerPublicKey) {
+      return 'Genesis receipt is not signed by the issuer key';
+    }
+    if (genesis.policy?.policy_id !== policyArtifact.policy_hash) {
+      return 'Genesis receipt does not reference the artifact policy';
+    }
+    const receiptResult = await verifyReceipt(genesis, ZERO_HASH);
+    if (!receiptResult.valid) {
+      return `Genesis receipt: ${receiptResult.errors.join('; ')}`;
+    }
+    const receiptSignatureValid = await verifyObject(
+      genesis.signer.public_key,
+      genesis.signer.signature,
+      DOMAIN_SEPARATORS.BUNDLE,
+      genesis as unknown as Record<string, unknown>,
+      ['signer.signature']
+    );
+    if (!receiptSignatureValid) {
+      return 'Invalid genesis receipt signature';
+    }
+  } catch (error) {
+    return `Signature verification failed: ${error instanceof Error ? error.message : error}`;
+  }
+
+  return null;
+}
+
+/**
+ * The wire-format artifact_id from the sealed policy artifact; rows sealed
+ * before it was stored fall back to the row id.
+ */
+function wireArtifactId(artifact: { id: string; policyArtifact: Prisma.JsonValue }): string {
+  const stored = artifact.policyArtifact;
+  if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+    const artifactId = (stored as Prisma.JsonObject).artifact_id;
+    if (typeof artifactId === 'string') {
+      return artifactId;
+    }
+  }
+  return artifact.id;
+}
+
 // ============================================================================
 // GET /api/verify/[artifactId] - Public verification
 // ============================================================================
@@ -60,10 +166,11 @@ export async function GET(
     const bytesHash = searchParams.get('bytesHash');
 
     // Look up artifact in database
-    // First try by artifactId field (art_xxx format), then by ID
+    // Either the wire artifact_id (art_xxx format) or the row ID
     const artifact = await prisma.artifact.findFirst({
       where: {
         OR: [
+          { policyArtifact: { path: ['artifact_id'], equals: artifactId } },
           { id: artifactId },
         ],
       },
@@ -75,6 +182,9 @@ export async function GET(
           orderBy: { sequenceNumber: 'asc' },
         },
         vaultCard: true,
+        successor: {
+          select: { id: true, status: true, policyArtifact: true, issuedAt: true, createdAt: true },
+        },
       },
     });
 
@@ -96,8 +206,21 @@ export async function GET(
     // Check 1: Artifact exists
     checks.push({ name: 'artifact_exists', result: 'PASS' });
 
-    // Check 2: Signature valid (placeholder - in production verify Ed25519 sig)
-    checks.push({ name: 'signature_valid', result: 'PASS' });
+    // Check 2: Issuer signatures on the policy artifact and genesis receipt
+    const issuerKey = await prisma.signingKey.findUnique({
+      where: { id: artifact.signingKeyId },
+      select: { publicKeyB64: true },
+    });
+    const signatureFailure = await verifySealSignatures(
+      artifact.policyArtifact,
+      artifact.receipts[0]?.payload,
+      issuerKey?.publicKeyB64 ?? null
+    );
+    checks.push({
+      name: 'signature_valid',
+      result: signatureFailure ? 'FAIL' : 'PASS',
+      reason: signatureFailure ?? undefined,
+    });
 
     // Check 3: Chain valid
     if (artifact.receipts.length > 0) {
@@ -131,10 +254,33 @@ export async function GET(
     checks.push({
       name: 'not_revoked',
       result: isRevoked ? 'FAIL' : 'PASS',
-      reason: isRevoked ? 'Artifact has been revoked' : undefined,
+      reason: isRevoked
+        ? `Artifact was revoked${artifact.revokedAt ? ` at ${artifact.revokedAt.toISOString()}` : ''}` +
+          (artifact.revocationReason ? ` (${artifact.revocationReason})` : '')
+        : undefined,
+    });
+
+    // Check 6: Activated (a DRAFT is still waiting for its approval quorum)
+    const isDraft = artifact.status === 'DRAFT';
+    checks.push({
+      name: 'activated',
+      result: isDraft ? 'FAIL' : 'PASS',
+      reason: isDraft ? 'Artifact is a draft that has not met its approval quorum' : undefined,
+    });
+
+    // Check 7: Current version (a superseded artifact verifies with a caveat;
+    // a successor still waiting for its approval quorum does not replace it)
+    const successor = artifact.successor?.status === 'DRAFT' ? null : artifact.successor;
+    const isSuperseded = artifact.status === 'SUPERSEDED' || successor !== null;
+    checks.push({
+      name: 'not_superseded',
+      result: isSuperseded ? 'FAIL' : 'PASS',
+      reason: isSuperseded
+        ? `Artifact was superseded${successor ? ` by ${successor.id}` : ''}`
+        : undefined,
     });
 
-    // Check 6: Bytes match (if provided)
+    // Check 8: Bytes match (if provided)
     if (bytesHash) {
       const bytesMatch = constantTimeEqual(bytesHash.toLowerCase(), artifact.bytesHash.toLowerCase());
       checks.push({
@@ -159,9 +305,13 @@ export async function GET(
     }
 
     // Determine status
-    let status: 'ACTIVE' | 'EXPIRED' | 'REVOKED';
+    let status: 'DRAFT' | 'ACTIVE' | 'SUPERSEDED' | 'EXPIRED' | 'REVOKED';
     if (artifact.status === 'REVOKED') {
       status = 'REVOKED';
+    } else if (isDraft) {
+      status = 'DRAFT';
+    } else if (isSuperseded) {
+      status = 'SUPERSEDED';
     } else if (isExpired || artifact.status === 'EXPIRED') {
       status = 'EXPIRED';
     } else {
@@ -178,6 +328,20 @@ export async function GET(
       status,
       sealedAt: artifact.issuedAt?.toISOString() || artifact.createdAt.toISOString(),
       expiresAt: artifact.expiresAt?.toISOString(),
+      ...(isRevoked && {
+        revocation: {
+          revokedAt: artifact.revokedAt?.toISOString() ?? null,
+          reasonCode: artifact.revocationReason,
+        },
+      }),
+      ...(successor && {
+        successor: {
+          artifactId: successor.id,
+          status: successor.status,
+          sealedAt: (successor.issuedAt ?? successor.createdAt).toISOString(),
+          verifyUrl: `/verify/${wireArtifactId(successor)}`,
+        },
+      }),
       sealedHash: artifact.sealedHash,
       bytesHash: artifact.bytesHash,
       metadataHash: artifact.metadataHash,
@@ -219,6 +383,7 @@ export async function POST(
     const artifact = await prisma.artifact.findFirst({
       where: {
         OR: [
+          { policyArtifact: { path: ['artifact_id'], equals: artifactId } },
           { id: artifactId },
         ],
       },
@@ -239,6 +404,14 @@ export async function POST(
       { name: 'artifact_exists', result: 'PASS' },
     ];
 
+    if (artifact.status === 'DRAFT') {
+      checks.push({
+        name: 'activated',
+        result: 'FAIL',
+        reason: 'Artifact is a draft that has not met its approval quorum',
+      });
+    }
+
     if (body.bytesHash) {
       const bytesMatch = constantTimeEqual(
         body.bytesHash.toLowerCase(),
@@ -47,7 +47,7 @@ import { DEMO_SCENARIOS, getDefaultScenario, type DemoScenario } from '@/lib/sim
 import { PATENT_CLAIMS } from '@/lib/constants';
 import type { RuntimeConfig } from '@/components/artifact/RuntimeSettings';
 import { ReceiptChainManager, type ReceiptChain } from '@/lib/chain';
-import { generateEvidenceBundle, downloadBundle, downloadBundleAsZip, type EvidenceBundle } from '@/lib/bundles';
+import { generateEvidenceBundle, downloadBundle, downloadBundleArchive, type EvidenceBundle } from '@/lib/bundles';
 import { ArweaveAnchor } from '@/components/dashboard';
 
 // ============================================================================
@@ -536,18 +536,19 @@ function DisclosurePanel() {
   const realFeatures = [
     { label: 'SHA-256 Hashing', description: 'All hashes computed using Web Crypto API' },
     { label: 'Receipt Chain', description: 'Hash-linked receipts with proper prev_hash linking' },
-    { label: 'Merkle Tree', description: 'Real Merkle root computation over leaf hashes' },
+    { label: 'Ed25519 Signatures', description: 'Artifact and receipts signed by a per-run demo key' },
+    { label: 'Merkle Tree', description: 'Checkpoints with consistency proofs over receipt hashes' },
     { label: 'Policy Artifact', description: 'Signed policy structure per patent specification' },
-    { label: 'Evidence Bundle', description: 'Downloadable JSON with embedded verifier' },
-    { label: 'Offline Verifier', description: 'Node.js script included in bundle' },
+    { label: 'Evidence Bundle', description: '.agb archive in the same format as sealed artifacts' },
+    { label: 'Offline Verifier', description: 'Bundles pass aga-verify and the verify-bundle page' },
   ];
 
   const simulatedFeatures = [
-    { label: 'Ed25519 Signatures', description: 'Using SHA-256 hash as signature placeholder' },
+    { label: 'Issuer Identity', description: 'Demo key is generated per run and labeled as such in the keyring' },
     { label: 'Runtime Enforcement', description: 'State machine simulation, not real process control' },
     { label: 'Drift Detection', description: 'Triggered manually or by scenario timeline' },
     { label: 'TSA Timestamps', description: 'Using local time, not RFC3161 TSA tokens' },
-    { label: 'Checkpoint Anchoring', description: 'Simulated anchor, not real Arweave/Ethereum' },
+    { label: 'Checkpoint Anchoring', description: 'Checkpoints are not anchored to Arweave/Ethereum' },
   ];
 
   return (
@@ -699,7 +700,7 @@ export default function DashboardPage() {
   }, []);
 
   // Start simulation
-  const handleStart = useCallback(() => {
+  const handleStart = useCallback(async () => {
     const newRun = createSimulationRun(
       `artifact_${Date.now().toString(36)}`,
       scenario.name,
@@ -707,9 +708,8 @@ export default function DashboardPage() {
       { scenarioId: scenario.id }
     );
 
-    // Create receipt chain manager
-    const keyId = `key_${Date.now().toString(36)}`;
-    const newChainManager = new ReceiptChainManager(newRun.id, newRun.artifactId, keyId);
+    // Create receipt chain manager; the run's demo key seals the genesis receipt
+    const newChainManager = await ReceiptChainManager.create(newRun);
     chainManagerRef.current = newChainManager;
 
     const newEngine = new SimulationEngine(newRun, {
@@ -731,7 +731,7 @@ export default function DashboardPage() {
     setMeasurements([]);
     setState('INITIALIZATION');
     setUptime(0);
-    setChain(null);
+    setChain(newChainManager.getChain());
     setBundle(null);
 
     newEngine.start(2); // 2x speed for demo
@@ -772,7 +772,7 @@ export default function DashboardPage() {
 
     setIsGeneratingBundle(true);
     try {
-      const newBundle = await generateEvidenceBundle(currentRun, chain);
+      const newBundle = await generateEvidenceBundle(chain);
       setBundle(newBundle);
       return newBundle;
     } catch (error) {
@@ -792,11 +792,11 @@ export default function DashboardPage() {
     setShowDownloadMenu(false);
   }, [bundle, currentRun, handleGenerateBundle]);
 
-  // Download as ZIP with offline verifier
-  const handleDownloadZIP = useCallback(async () => {
+  // Download the .agb archive for aga-verify
+  const handleDownloadArchive = useCallback(async () => {
     const bundleToDownload = bundle || await handleGenerateBundle();
     if (bundleToDownload && currentRun) {
-      await downloadBundleAsZip(bundleToDownload, `evidence_bundle_${currentRun.id}.zip`);
+      downloadBundleArchive(bundleToDownload);
     }
     setShowDownloadMenu(false);
   }, [bundle, currentRun, handleGenerateBundle]);
@@ -878,13 +878,13 @@ export default function DashboardPage() {
                         </div>
                       </button>
                       <button
-                        onClick={handleDownloadZIP}
+                        onClick={handleDownloadArchive}
                         className="w-full px-3 py-2 text-left text-sm rounded hover:bg-muted flex items-center gap-2"
                       >
                         <Download className="w-4 h-4 text-green-400" />
                         <div>
-                          <div className="font-medium">Download ZIP</div>
-                          <div className="text-xs text-muted-foreground">With offline verifier</div>
+                          <div className="font-medium">Download .agb</div>
+                          <div className="text-xs text-muted-foreground">For the aga-verify CLI</div>
                         </div>
                       </button>
                     </div>
@@ -958,7 +958,7 @@ export default function DashboardPage() {
             {/* Arweave Anchoring */}
             {chain && chain.receipts.length > 0 && (
               <ArweaveAnchor
-                merkleRoot={chain.checkpoints.length > 0 ? chain.checkpoints[chain.checkpoints.length - 1].merkleRoot : null}
+                merkleRoot={chain.checkpoints.length > 0 ? chain.checkpoints[chain.checkpoints.length - 1].log_root : null}
                 receiptCount={chain.receipts.length}
                 isSimulated={true}
               />
@@ -988,30 +988,30 @@ export default function DashboardPage() {
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
                     <div>
                       <span className="text-muted-foreground">Bundle ID</span>
-                      <div className="font-mono text-foreground truncate">{bundle.manifest.bundleId}</div>
+                      <div className="font-mono text-foreground truncate">{bundle.manifest.bundle_id}</div>
                     </div>
                     <div>
                       <span className="text-muted-foreground">Receipts</span>
-                      <div className="font-mono text-foreground">{bundle.manifest.receiptCount}</div>
+                      <div className="font-mono text-foreground">{bundle.manifest.receipt_count}</div>
                     </div>
                     <div>
                       <span className="text-muted-foreground">Checkpoints</span>
-                      <div className="font-mono text-foreground">{bundle.manifest.checkpointCount}</div>
+                      <div className="font-mono text-foreground">{bundle.chain.checkpoints.length}</div>
                     </div>
                     <div>
-                      <span className="text-muted-foreground">Anchor</span>
-                      <div className="font-mono text-amber-400">{bundle.manifest.anchor}</div>
+                      <span className="text-muted-foreground">Issuer Key</span>
+                      <div className="font-mono text-amber-400">DEMO</div>
                     </div>
                   </div>
                   <div className="mt-3 p-2 rounded bg-background/50 border border-border">
                     <div className="text-[10px] text-muted-foreground mb-1">Chain Head Hash</div>
                     <code className="text-[10px] font-mono text-primary break-all">
-                      {bundle.manifest.chainHeadHash}
+                      {bundle.manifest.chain_head_hash}
                     </code>
                   </div>
                   <div className="mt-3 text-xs text-muted-foreground">
-                    Run <code className="text-primary">node verify.js bundle.json</code> to verify offline.
-                    Expected output: <span className="text-amber-400">PASS_WITH_CAVEATS</span> (simulated anchor).
+                    Run <code className="text-primary">aga-verify {bundle.filename}</code> to verify offline.
+                    Expected output: <span className="text-amber-400">PASS_WITH_CAVEATS</span> (demo issuer key).
                   </div>
                 </motion.div>
               )}
@@ -457,12 +457,12 @@ export default function VerifyBundlePage() {
             <h3 className="text-lg font-medium">Offline Verification</h3>
           </div>
           <p className="text-sm text-muted-foreground mb-4">
-            Evidence bundles include a standalone Node.js verifier script that works completely offline.
-            Download a bundle ZIP from the dashboard to get the offline verifier.
+            The aga-verify CLI from @attested/core checks .agb bundles completely offline.
+            Download a bundle .agb from the dashboard and run:
           </p>
           <div className="p-3 rounded bg-muted/50 font-mono text-sm">
-            <div className="text-muted-foreground"># Extract bundle ZIP and run:</div>
-            <div className="text-primary">node verify.js bundle.json</div>
+            <div className="text-muted-foreground"># Verify the archive, including file checksums:</div>
+            <div className="text-primary">npx aga-verify bundle.agb</div>
           </div>
         </div>
       </main>
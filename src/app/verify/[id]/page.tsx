@@ -49,9 +49,19 @@ interface VerificationResult {
   vaultId: string;
   displayName: string;
   description?: string;
-  status: 'ACTIVE' | 'EXPIRED' | 'REVOKED';
+  status: 'DRAFT' | 'ACTIVE' | 'SUPERSEDED' | 'EXPIRED' | 'REVOKED';
   sealedAt: string;
   expiresAt?: string;
+  revocation?: {
+    revokedAt: string | null;
+    reasonCode: string | null;
+  };
+  successor?: {
+    artifactId: string;
+    status: string;
+    sealedAt: string;
+    verifyUrl: string;
+  };
   sealedHash: string;
   bytesHash?: string;
   metadataHash?: string;
@@ -271,6 +281,37 @@ export default function VerifyPage() {
                     <span>{new Date(result.expiresAt).toLocaleString()}</span>
                   </div>
                 )}
+                {result.revocation && (
+                  <div className="flex items-center gap-2 justify-center md:justify-start text-red-400">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>Revoked:</span>
+                    <span>
+                      {result.revocation.revokedAt ? new Date(result.revocation.revokedAt).toLocaleString() : 'Unknown time'}
+                      {result.revocation.reasonCode && ` (${result.revocation.reasonCode})`}
+                    </span>
+                  </div>
+                )}
+                {result.status === 'DRAFT' && (
+                  <div className="flex items-center gap-2 justify-center md:justify-start text-amber-400">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>Draft: waiting for its approval quorum</span>
+                  </div>
+                )}
+                {result.status === 'SUPERSEDED' && (
+                  <div className="flex items-center gap-2 justify-center md:justify-start text-amber-400">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>Superseded</span>
+                    {result.successor && (
+                      <span>
+                        by{' '}
+                        <Link href={result.successor.verifyUrl} className="font-mono underline hover:text-amber-300">
+                          {result.successor.artifactId}
+                        </Link>
+                        {' '}({new Date(result.successor.sealedAt).toLocaleString()})
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
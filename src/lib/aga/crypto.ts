@@ -3,9 +3,21 @@
  * Per Evolution Spec v1.0 - Steps 1-13
  */
 
-import { sha256, sha512 } from '@noble/hashes/sha2.js';
 import { bytesToHex } from '@noble/hashes/utils.js';
 import * as ed25519 from '@noble/ed25519';
+import {
+  buildMerkleTree as buildRfc6962Tree,
+  generateInclusionProof as generateRfc6962Proof,
+  hashLeaf,
+  rootFromAuditPath,
+  legacyCanonicalize,
+  legacyHashBytes,
+  signLegacyObject,
+  verifyLegacyObject,
+  bytesToBase64,
+  base64ToBytes,
+} from '@attested/core';
+import { normalizeSubjectBytes } from './normalizers';
 import type {
   SubjectMetadata,
   SubjectIdentifier,
@@ -21,19 +33,6 @@ import type {
   KeyType,
 } from './types';
 
-// Configure Ed25519 to use sha512 - required for sync operations
-// See: https://github.com/paulmillr/noble-ed25519#usage
-// Type assertion needed as sha512Sync is dynamically added
-const ed25519Etc = ed25519.etc as typeof ed25519.etc & {
-  sha512Sync?: (...m: Uint8Array[]) => Uint8Array;
-};
-if (typeof ed25519Etc.sha512Sync !== 'function') {
-  ed25519Etc.sha512Sync = (...m: Uint8Array[]) => {
-    const concat = ed25519.etc.concatBytes(...m);
-    return sha512(concat);
-  };
-}
-
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -53,22 +52,9 @@ export const SALT_LENGTH = 32; // 128 bits = 16 bytes = 32 hex chars
  */
 export function normalizeSubject(
   rawSubject: Uint8Array,
-  _subjectType: SubjectType
+  subjectType: SubjectType
 ): NormalizationResult {
-  const warnings: string[] = [];
-
-  // For now, we use the raw bytes as-is
-  // In production, this would strip timestamps from binaries, etc.
-  const normalizedBytes = new Uint8Array(rawSubject);
-
-  return {
-    normalizedBytes,
-    metadata: {
-      method: 'raw',
-      version: '1.0.0',
-      warnings,
-    },
-  };
+  return normalizeSubjectBytes(rawSubject, subjectType);
 }
 
 // ============================================================================
@@ -79,8 +65,7 @@ export function normalizeSubject(
  * Compute SHA-256 hash of bytes, output as lowercase hex
  */
 export function computeBytesHash(bytes: Uint8Array): string {
-  const hash = sha256(bytes);
-  return bytesToHex(hash);
+  return legacyHashBytes(bytes);
 }
 
 /**
@@ -108,31 +93,10 @@ export function canonicalizeMetadata(metadata: Record<string, unknown>): string
 
 /**
  * Canonical JSON stringify with sorted keys
+ * Shared with @attested/core so converted artifacts keep their hashes.
  */
 export function canonicalStringify(obj: unknown): string {
-  if (obj === null || obj === undefined) {
-    return '';
-  }
-
-  if (typeof obj !== 'object') {
-    return JSON.stringify(obj);
-  }
-
-  if (Array.isArray(obj)) {
-    return '[' + obj.map(canonicalStringify).join(',') + ']';
-  }
-
-  const sortedKeys = Object.keys(obj as Record<string, unknown>).sort();
-  const pairs: string[] = [];
-
-  for (const key of sortedKeys) {
-    const value = (obj as Record<string, unknown>)[key];
-    if (value !== undefined && value !== null) {
-      pairs.push(`"${key}":${canonicalStringify(value)}`);
-    }
-  }
-
-  return '{' + pairs.join(',') + '}';
+  return legacyCanonicalize(obj);
 }
 
 // ============================================================================
@@ -306,25 +270,9 @@ export async function signArtifact(
   artifact: Omit<PolicyArtifact, 'signature'>,
   privateKey: Uint8Array
 ): Promise<PolicyArtifact> {
-  // Ensure sha512Sync is configured
-  ensureSha512Sync();
-
-  // Serialize to canonical JSON
-  const canonical = canonicalStringify(artifact);
-  const bytes = new TextEncoder().encode(canonical);
-
-  // Hash the artifact
-  const hash = sha256(bytes);
-
-  // Sign with Ed25519
-  const signature = await ed25519.signAsync(hash, privateKey);
-
-  // Encode signature as base64
-  const signatureB64 = btoa(String.fromCharCode.apply(null, Array.from(signature)));
-
   return {
     ...artifact,
-    signature: signatureB64,
+    signature: await signLegacyObject(artifact, privateKey),
   };
 }
 
@@ -335,58 +283,18 @@ export async function verifyArtifactSignature(
   artifact: PolicyArtifact,
   publicKey: Uint8Array
 ): Promise<boolean> {
-  try {
-    // Extract signature
-    const { signature, ...artifactWithoutSig } = artifact;
-
-    // Decode signature from base64
-    const signatureBytes = new Uint8Array(
-      atob(signature)
-        .split('')
-        .map((c) => c.charCodeAt(0))
-    );
-
-    // Serialize artifact without signature
-    const canonical = canonicalStringify(artifactWithoutSig);
-    const bytes = new TextEncoder().encode(canonical);
-
-    // Hash
-    const hash = sha256(bytes);
-
-    // Verify
-    return await ed25519.verifyAsync(signatureBytes, hash, publicKey);
-  } catch {
-    return false;
-  }
+  const { signature, ...artifactWithoutSig } = artifact;
+  return verifyLegacyObject(artifactWithoutSig, signature, publicKey);
 }
 
 // ============================================================================
 // KEY MANAGEMENT
 // ============================================================================
 
-/**
- * Ensure sha512Sync is configured before any Ed25519 operation
- * This is critical for serverless environments where module initialization order is not guaranteed
- */
-function ensureSha512Sync() {
-  const etc = ed25519.etc as typeof ed25519.etc & {
-    sha512Sync?: (...m: Uint8Array[]) => Uint8Array;
-  };
-  if (typeof etc.sha512Sync !== 'function') {
-    etc.sha512Sync = (...m: Uint8Array[]) => {
-      const concat = ed25519.etc.concatBytes(...m);
-      return sha512(concat);
-    };
-  }
-}
-
 /**
  * Generate Ed25519 key pair
  */
 export async function generateKeyPair(keyType: KeyType): Promise<KeyPair> {
-  // Ensure sha512Sync is configured
-  ensureSha512Sync();
-
   // Generate random 32 bytes for private key
   const privateKey = new Uint8Array(32);
   crypto.getRandomValues(privateKey);
@@ -417,18 +325,14 @@ export function computeKeyId(publicKey: Uint8Array): string {
  * Export public key as base64
  */
 export function exportPublicKey(publicKey: Uint8Array): string {
-  return btoa(String.fromCharCode.apply(null, Array.from(publicKey)));
+  return bytesToBase64(publicKey);
 }
 
 /**
  * Import public key from base64
  */
 export function importPublicKey(b64: string): Uint8Array {
-  return new Uint8Array(
-    atob(b64)
-      .split('')
-      .map((c) => c.charCodeAt(0))
-  );
+  return base64ToBytes(b64);
 }
 
 // ============================================================================
@@ -451,15 +355,9 @@ export async function signReceipt(
   receipt: Omit<EnforcementReceipt, 'signature'>,
   privateKey: Uint8Array
 ): Promise<EnforcementReceipt> {
-  const canonical = canonicalStringify(receipt);
-  const bytes = new TextEncoder().encode(canonical);
-  const hash = sha256(bytes);
-  const signature = await ed25519.signAsync(hash, privateKey);
-  const signatureB64 = btoa(String.fromCharCode.apply(null, Array.from(signature)));
-
   return {
     ...receipt,
-    signature: signatureB64,
+    signature: await signLegacyObject(receipt, privateKey),
   };
 }
 
@@ -495,15 +393,9 @@ export async function signChainEvent(
   privateKey: Uint8Array
 ): Promise<ChainEvent> {
   // Signature covers ENTIRE event including payload
-  const canonical = canonicalStringify(event);
-  const bytes = new TextEncoder().encode(canonical);
-  const hash = sha256(bytes);
-  const signature = await ed25519.signAsync(hash, privateKey);
-  const signatureB64 = btoa(String.fromCharCode.apply(null, Array.from(signature)));
-
   return {
     ...event,
-    eventSignature: signatureB64,
+    eventSignature: await signLegacyObject(event, privateKey),
   };
 }
 
@@ -513,6 +405,7 @@ export async function signChainEvent(
 
 /**
  * Build Merkle tree from leaf hashes
+ * Uses the shared RFC 6962 tree; layers[0] holds the prefixed leaf hashes.
  */
 export function buildMerkleTree(leafHashes: string[]): {
   root: string;
@@ -522,26 +415,11 @@ export function buildMerkleTree(leafHashes: string[]): {
     throw new Error('Cannot build Merkle tree from empty array');
   }
 
-  const layers: string[][] = [leafHashes];
-
-  while (layers[layers.length - 1].length > 1) {
-    const currentLayer = layers[layers.length - 1];
-    const nextLayer: string[] = [];
-
-    for (let i = 0; i < currentLayer.length; i += 2) {
-      const left = currentLayer[i];
-      const right = currentLayer[i + 1] || left; // Duplicate if odd
-      const combined = left + right;
-      const bytes = new TextEncoder().encode(combined);
-      nextLayer.push(computeBytesHash(bytes));
-    }
-
-    layers.push(nextLayer);
-  }
+  const tree = buildRfc6962Tree(leafHashes);
 
   return {
-    root: layers[layers.length - 1][0],
-    layers,
+    root: tree.root,
+    layers: tree.layers,
   };
 }
 
@@ -552,25 +430,14 @@ export function generateInclusionProof(
   leafIndex: number,
   layers: string[][]
 ): { position: 'left' | 'right'; hash: string }[] {
-  const proof: { position: 'left' | 'right'; hash: string }[] = [];
-  let index = leafIndex;
-
-  for (let i = 0; i < layers.length - 1; i++) {
-    const layer = layers[i];
-    const isRight = index % 2 === 1;
-    const siblingIndex = isRight ? index - 1 : index + 1;
-
-    if (siblingIndex < layer.length) {
-      proof.push({
-        position: isRight ? 'left' : 'right',
-        hash: layer[siblingIndex],
-      });
-    }
-
-    index = Math.floor(index / 2);
-  }
+  const tree = {
+    root: layers[layers.length - 1][0],
+    size: layers[0].length,
+    leafHashes: layers[0],
+    layers,
+  };
 
-  return proof;
+  return generateRfc6962Proof(tree, leafIndex).audit_path;
 }
 
 /**
@@ -581,18 +448,11 @@ export function verifyInclusionProof(
   proof: { position: 'left' | 'right'; hash: string }[],
   root: string
 ): boolean {
-  let current = leafHash;
-
-  for (const step of proof) {
-    const combined =
-      step.position === 'left'
-        ? step.hash + current
-        : current + step.hash;
-    const bytes = new TextEncoder().encode(combined);
-    current = computeBytesHash(bytes);
+  try {
+    return rootFromAuditPath(hashLeaf(leafHash), proof) === root;
+  } catch {
+    return false;
   }
-
-  return current === root;
 }
 
 // ============================================================================
@@ -42,9 +42,34 @@ export {
   constantTimeEqual,
 } from './crypto';
 
+// Subject normalizers (Step 1)
+export {
+  SUBJECT_NORMALIZERS,
+  RAW_NORMALIZER,
+  TEXT_NORMALIZER,
+  CONFIG_NORMALIZER,
+  CONTAINER_NORMALIZER,
+  SBOM_NORMALIZER,
+  MODEL_NORMALIZER,
+  normalizeSubjectBytes,
+} from './normalizers';
+
+export type { SubjectNormalizer } from './normalizers';
+
 // Artifact creation pipeline
 export * from './pipeline';
 
+// Policy rule evaluation (Step 7)
+export {
+  GATE_RULE_TYPE,
+  compileCondition,
+  evaluateCondition,
+  evaluatePolicyRules,
+  mostSevereAction,
+} from './rules';
+
+export type { RuleContext, RuleValue, ConditionNode, PolicyRuleOutcome } from './rules';
+
 // Receipt chain operations
 export {
   createReceipt,
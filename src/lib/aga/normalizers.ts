@@ -0,0 +1,325 @@
+/**
+ * Attested Governance Artifacts - Subject Normalizers
+ * Per Evolution Spec v1.0 - Step 1 (Subject Normalization)
+ *
+ * Reduces subject bytes to a form that only changes when the subject's
+ * meaning changes, so re-serialized configs or rebuilt archives do not read
+ * as drift. Each SubjectType has a versioned normalizer; the method and
+ * version applied are recorded in NormalizationResult.metadata. Input a
+ * normalizer cannot interpret falls back to the raw bytes with a warning.
+ */
+
+import canonicalizeLib from 'canonicalize';
+import { loadAll, CORE_SCHEMA } from 'js-yaml';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { SubjectType } from './types';
+import type { NormalizationResult } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SubjectNormalizer {
+  method: string;
+  version: string;
+  normalize(bytes: Uint8Array): Uint8Array;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const encoder = new TextEncoder();
+
+function decodeUtf8(bytes: Uint8Array): string {
+  const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function canonicalBytes(value: unknown): Uint8Array {
+  const canonical = canonicalizeLib(value);
+  if (canonical === undefined) {
+    throw new Error('Value cannot be canonicalized');
+  }
+  return encoder.encode(canonical);
+}
+
+function digest(bytes: Uint8Array): string {
+  return `sha256:${bytesToHex(sha256(bytes))}`;
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n?/g, '\n');
+}
+
+function sortBy<T>(items: T[] | undefined, key: (item: T) => string): T[] | undefined {
+  if (!Array.isArray(items)) return items;
+  return [...items].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    return ka < kb ? -1 : ka > kb ? 1 : 0;
+  });
+}
+
+// ============================================================================
+// TAR ARCHIVES
+// ============================================================================
+
+function readTarString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function isTar(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && readTarString(bytes, 257, 5) === 'ustar';
+}
+
+/**
+ * Read regular file entries from a ustar archive, honoring PAX and GNU long
+ * names. Timestamps, owners and modes are ignored.
+ */
+function readTar(bytes: Uint8Array): Map<string, Uint8Array> {
+  const entries = new Map<string, Uint8Array>();
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readTarString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/` : '') + readTarString(header, 0, 100);
+    const data = bytes.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+    longName = null;
+
+    if (type === 'x') {
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(new TextDecoder().decode(data));
+      longName = path ? path[1] : null;
+    } else if (type === 'L') {
+      longName = readTarString(data, 0, data.length);
+    } else if (type === '0') {
+      entries.set(name.replace(/^\.\//, ''), data);
+    }
+  }
+
+  return entries;
+}
+
+function readTarJson(entries: Map<string, Uint8Array>, name: string): unknown {
+  const entry = entries.get(name);
+  if (!entry) {
+    throw new Error(`Archive is missing ${name}`);
+  }
+  return JSON.parse(decodeUtf8(entry));
+}
+
+// ============================================================================
+// NORMALIZERS
+// ============================================================================
+
+export const RAW_NORMALIZER: SubjectNormalizer = {
+  method: 'raw',
+  version: '1.0.0',
+  normalize: (bytes) => new Uint8Array(bytes),
+};
+
+/**
+ * Text documents: UTF-8 with CRLF and CR line endings converted to LF
+ */
+export const TEXT_NORMALIZER: SubjectNormalizer = {
+  method: 'text-lf',
+  version: '1.0.0',
+  normalize: (bytes) => encoder.encode(normalizeLineEndings(decodeUtf8(bytes))),
+};
+
+/**
+ * JSON and YAML configs: parsed and re-serialized as JCS. Multi-document YAML
+ * becomes an array of documents. Comments and formatting do not survive.
+ */
+export const CONFIG_NORMALIZER: SubjectNormalizer = {
+  method: 'config-jcs',
+  version: '1.0.0',
+  normalize: (bytes) => {
+    const text = decodeUtf8(bytes);
+
+    try {
+      return canonicalBytes(JSON.parse(text));
+    } catch {
+      // Not JSON; YAML is a superset for our purposes
+    }
+
+    const documents = loadAll(text, undefined, { schema: CORE_SCHEMA });
+    return canonicalBytes(documents.length === 1 ? documents[0] : documents);
+  },
+};
+
+/**
+ * Container images (docker save or OCI image layout tarballs): reduced to the
+ * image config digest and the ordered layer digests, so archive mtimes and
+ * entry order do not matter.
+ */
+export const CONTAINER_NORMALIZER: SubjectNormalizer = {
+  method: 'oci-image-digests',
+  version: '1.0.0',
+  normalize: (bytes) => {
+    if (!isTar(bytes)) {
+      throw new Error('not a tar archive');
+    }
+    const entries = readTar(bytes);
+
+    // OCI image layout: digests are recorded in the manifest
+    if (entries.has('index.json')) {
+      const index = readTarJson(entries, 'index.json') as { manifests?: { digest: string }[] };
+      const manifests = (index.manifests ?? []).map((descriptor) => {
+        const manifest = readTarJson(entries, `blobs/${descriptor.digest.replace(':', '/')}`) as {
+          config: { digest: string };
+          layers: { digest: string }[];
+        };
+        return { config: manifest.config.digest, layers: manifest.layers.map((layer) => layer.digest) };
+      });
+      return canonicalBytes({ format: 'oci', manifests });
+    }
+
+    // docker save: digests are computed over the referenced files
+    const manifest = readTarJson(entries, 'manifest.json') as { Config: string; Layers: string[] }[];
+    const images = manifest.map((image) => {
+      const fileDigest = (name: string) => {
+        const entry = entries.get(name);
+        if (!entry) throw new Error(`Archive is missing ${name}`);
+        return digest(entry);
+      };
+      return { config: fileDigest(image.Config), layers: image.Layers.map(fileDigest) };
+    });
+    return canonicalBytes({ format: 'docker', manifests: images });
+  },
+};
+
+type JsonObject = Record<string, unknown>;
+
+function normalizeCycloneDx(bom: JsonObject): JsonObject {
+  const metadata = { ...(bom.metadata as JsonObject | undefined) };
+  delete metadata.timestamp;
+
+  const components = sortBy(bom.components as JsonObject[] | undefined, (c) =>
+    String(c['bom-ref'] ?? c.purl ?? `${c.name}@${c.version}`)
+  );
+  const dependencies = sortBy(bom.dependencies as JsonObject[] | undefined, (d) => String(d.ref))?.map(
+    (d) => ({ ...d, dependsOn: sortBy(d.dependsOn as string[] | undefined, String) })
+  );
+
+  // serialNumber is regenerated on every run
+  const normalized: JsonObject = { ...bom, metadata, components, dependencies };
+  delete normalized.serialNumber;
+  return normalized;
+}
+
+function normalizeSpdx(document: JsonObject): JsonObject {
+  const creationInfo = { ...(document.creationInfo as JsonObject | undefined) };
+  delete creationInfo.created;
+
+  const bySpdxId = (item: JsonObject) => String(item.SPDXID);
+  return {
+    ...document,
+    creationInfo,
+    packages: sortBy(document.packages as JsonObject[] | undefined, bySpdxId),
+    files: sortBy(document.files as JsonObject[] | undefined, bySpdxId),
+    relationships: sortBy(
+      document.relationships as JsonObject[] | undefined,
+      (r) => `${r.spdxElementId}|${r.relationshipType}|${r.relatedSpdxElement}`
+    ),
+  };
+}
+
+/**
+ * CycloneDX and SPDX JSON SBOMs: generation timestamps and serial numbers
+ * removed, component and relationship lists sorted, serialized as JCS.
+ */
+export const SBOM_NORMALIZER: SubjectNormalizer = {
+  method: 'sbom-jcs',
+  version: '1.0.0',
+  normalize: (bytes) => {
+    const document = JSON.parse(decodeUtf8(bytes)) as JsonObject;
+
+    if (document.bomFormat === 'CycloneDX') {
+      return canonicalBytes(normalizeCycloneDx(document));
+    }
+    if (typeof document.spdxVersion === 'string') {
+      return canonicalBytes(normalizeSpdx(document));
+    }
+    throw new Error('neither CycloneDX nor SPDX JSON');
+  },
+};
+
+/**
+ * Models in safetensors format: the JSON header is re-serialized as JCS and
+ * the tensor data kept as-is. Tensor offsets are relative to the data
+ * section, so header formatting carries no meaning.
+ */
+export const MODEL_NORMALIZER: SubjectNormalizer = {
+  method: 'safetensors-jcs',
+  version: '1.0.0',
+  normalize: (bytes) => {
+    if (bytes.length < 8) {
+      throw new Error('not a safetensors file');
+    }
+
+    const headerLength = Number(new DataView(bytes.buffer, bytes.byteOffset, 8).getBigUint64(0, true));
+    if (headerLength > bytes.length - 8) {
+      throw new Error('not a safetensors file');
+    }
+
+    const header = canonicalBytes(JSON.parse(decodeUtf8(bytes.subarray(8, 8 + headerLength))));
+    const data = bytes.subarray(8 + headerLength);
+
+    const result = new Uint8Array(8 + header.length + data.length);
+    new DataView(result.buffer).setBigUint64(0, BigInt(header.length), true);
+    result.set(header, 8);
+    result.set(data, 8 + header.length);
+    return result;
+  },
+};
+
+export const SUBJECT_NORMALIZERS: Record<SubjectType, SubjectNormalizer> = {
+  [SubjectType.EXECUTABLE]: RAW_NORMALIZER,
+  [SubjectType.CONTAINER]: CONTAINER_NORMALIZER,
+  [SubjectType.CONFIG]: CONFIG_NORMALIZER,
+  [SubjectType.SBOM]: SBOM_NORMALIZER,
+  [SubjectType.MODEL]: MODEL_NORMALIZER,
+  [SubjectType.DOCUMENT]: TEXT_NORMALIZER,
+  [SubjectType.GENERIC]: RAW_NORMALIZER,
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Normalize subject bytes with the normalizer for their SubjectType
+ */
+export function normalizeSubjectBytes(
+  rawSubject: Uint8Array,
+  subjectType: SubjectType
+): NormalizationResult {
+  const normalizer = SUBJECT_NORMALIZERS[subjectType] ?? RAW_NORMALIZER;
+  const warnings: string[] = [];
+
+  try {
+    return {
+      normalizedBytes: normalizer.normalize(rawSubject),
+      metadata: { method: normalizer.method, version: normalizer.version, warnings },
+    };
+  } catch (error) {
+    warnings.push(
+      `${normalizer.method} normalizer not applied: ${error instanceof Error ? error.message : error}`
+    );
+    return {
+      normalizedBytes: new Uint8Array(rawSubject),
+      metadata: { method: RAW_NORMALIZER.method, version: RAW_NORMALIZER.version, warnings },
+    };
+  }
+}
@@ -27,8 +27,10 @@ import type {
   AttestationResult,
   Policy,
   NormalizationResult,
+  MeasurementDetail,
 } from './types';
 import { EnforcementAction } from './types';
+import { evaluatePolicyRules, mostSevereAction, type RuleContext } from './rules';
 
 // ============================================================================
 // PIPELINE TYPES
@@ -44,6 +46,11 @@ export interface ArtifactCreationInput {
   policyId: string;
   policyVersion: number;
   policyHash: string;
+  policy?: Pick<Policy, 'policyRules' | 'enforcementActionsMapping'>;
+
+  // Rule evaluation context
+  measurements?: MeasurementDetail[];
+  claims?: Record<string, unknown>;
 
   // Enforcement
   enforcementParameters: EnforcementParameters;
@@ -106,7 +113,10 @@ export async function createArtifact(
   // In full implementation, would fetch and verify policy here
 
   // Step 7: Attestation Evaluation
-  const attestationResult = evaluateAttestation(subjectIdentifier, input.policyId);
+  const { attestationResult, enforcementParameters } = evaluateAttestation(
+    input,
+    subjectIdentifier
+  );
 
   // Step 8: Salt Generation
   const salt = generateSalt();
@@ -132,7 +142,7 @@ export async function createArtifact(
     evidenceCommitment,
     salt,
     issuerIdentifier: input.issuerIdentifier,
-    enforcementParameters: input.enforcementParameters,
+    enforcementParameters,
     disclosurePolicy: input.disclosurePolicy || null,
     effectiveTimestamp: input.effectiveTimestamp,
     expirationTimestamp: input.expirationTimestamp,
@@ -158,29 +168,49 @@ export async function createArtifact(
 // ============================================================================
 
 /**
- * Evaluate attestation rules for subject
- * In production, this would check against policy rules
+ * Evaluate the policy's rules for the subject.
+ * Failed GATE rules stop sealing; other failures escalate the artifact's
+ * enforcement action to the most severe mapped action.
  */
 function evaluateAttestation(
-  subjectIdentifier: SubjectIdentifier,
-  _policyId: string
-): AttestationResult {
-  // Default attestation passes (placeholder for full rule evaluation)
-  return {
-    passed: true,
-    rules: [
-      {
-        ruleId: 'default-pass',
-        verdict: true,
-        evidence: {
-          subjectBytesHash: subjectIdentifier.bytesHash,
-          subjectMetadataHash: subjectIdentifier.metadataHash,
-          evaluatedAt: getCurrentTimestamp(),
-        },
-      },
-    ],
-    timestamp: getCurrentTimestamp(),
+  input: ArtifactCreationInput,
+  subjectIdentifier: SubjectIdentifier
+): { attestationResult: AttestationResult; enforcementParameters: EnforcementParameters } {
+  const context: RuleContext = {
+    subject: {
+      type: input.subjectType,
+      bytesHash: subjectIdentifier.bytesHash,
+      metadataHash: subjectIdentifier.metadataHash,
+      metadata: input.subjectMetadata,
+    },
+    measurements: Object.fromEntries(
+      (input.measurements ?? []).map((measurement) => [measurement.type, measurement])
+    ),
+    claims: input.claims ?? {},
   };
+
+  const outcome = evaluatePolicyRules(input.policy?.policyRules ?? [], context, subjectIdentifier, {
+    enforcementActionsMapping: input.policy?.enforcementActionsMapping,
+    evaluatedAt: getCurrentTimestamp(),
+  });
+
+  if (outcome.blockingRuleIds.length > 0) {
+    throw new Error(
+      `Policy ${input.policyId} blocks sealing: rule(s) ${outcome.blockingRuleIds.join(', ')} failed`
+    );
+  }
+
+  const enforcementParameters = outcome.enforcementAction
+    ? {
+        ...input.enforcementParameters,
+        enforcementAction: mostSevereAction(
+          input.enforcementParameters.enforcementAction,
+          outcome.enforcementAction
+        ),
+      }
+    : input.enforcementParameters;
+
+  return { attestationResult: outcome.attestation, enforcementParameters };
 }
 
 // ============================================================================
@@ -3,11 +3,12 @@
  * Per Evolution Spec v1.0 - Steps 26-33
  */
 
-import { sha256 } from '@noble/hashes/sha2.js';
-import * as ed25519 from '@noble/ed25519';
+import { signLegacyObject } from '@attested/core';
 import {
   canonicalStringify,
   computeBytesHash,
+  signReceipt,
+  signChainEvent,
   generateUUID,
   getCurrentTimestamp,
   buildMerkleTree,
@@ -106,17 +107,7 @@ export async function createReceipt(
     portalIdentifier: input.portalIdentifier,
   };
 
-  // Sign the receipt
-  const canonical = canonicalStringify(unsignedReceipt);
-  const bytes = new TextEncoder().encode(canonical);
-  const hash = sha256(bytes);
-  const signature = await ed25519.signAsync(hash, input.signingPrivateKey);
-  const signatureB64 = btoa(String.fromCharCode.apply(null, Array.from(signature)));
-
-  return {
-    ...unsignedReceipt,
-    signature: signatureB64,
-  };
+  return signReceipt(unsignedReceipt, input.signingPrivateKey);
 }
 
 // ============================================================================
@@ -196,17 +187,7 @@ export async function createChainEvent(
     payloadHash,
   };
 
-  // Sign the event
-  const canonical = canonicalStringify(unsignedEvent);
-  const bytes = new TextEncoder().encode(canonical);
-  const hash = sha256(bytes);
-  const signature = await ed25519.signAsync(hash, input.signingPrivateKey);
-  const signatureB64 = btoa(String.fromCharCode.apply(null, Array.from(signature)));
-
-  return {
-    ...unsignedEvent,
-    eventSignature: signatureB64,
-  };
+  return signChainEvent(unsignedEvent, input.signingPrivateKey);
 }
 
 // ============================================================================
@@ -365,16 +346,9 @@ export async function createCheckpoint(
     timestamp: now,
   };
 
-  // Sign checkpoint
-  const canonical = canonicalStringify(unsignedCheckpoint);
-  const bytes = new TextEncoder().encode(canonical);
-  const hash = sha256(bytes);
-  const signature = await ed25519.signAsync(hash, input.signingPrivateKey);
-  const signatureB64 = btoa(String.fromCharCode.apply(null, Array.from(signature)));
-
   return {
     ...unsignedCheckpoint,
-    checkpointSignature: signatureB64,
+    checkpointSignature: await signLegacyObject(unsignedCheckpoint, input.signingPrivateKey),
   };
 }
 
@@ -0,0 +1,556 @@
+/**
+ * Attested Governance Artifacts - Policy Rule Evaluation
+ * Per Evolution Spec v1.0 - Step 7 (Attestation Evaluation)
+ *
+ * Evaluates PolicyRule conditions over subject metadata, measurement results
+ * and claims. Conditions use a small expression language that is parsed and
+ * interpreted here; nothing is passed to eval or Function, and evaluation
+ * depends only on the condition and its context.
+ *
+ * Grammar:
+ *   expr       := or
+ *   or         := and ('||' and)*
+ *   and        := unary ('&&' unary)*
+ *   unary      := '!' unary | comparison
+ *   comparison := primary (('==' | '!=' | '<' | '<=' | '>' | '>=' | 'in') primary)?
+ *   primary    := literal | path | call | '(' expr ')' | '[' (expr (',' expr)*)? ']'
+ *   path       := ('subject' | 'measurements' | 'claims') ('.' ident)*
+ *   call       := ('exists' | 'len' | 'contains' | 'startsWith' | 'endsWith') '(' args ')'
+ */
+
+import type {
+  AttestationResult,
+  PolicyRule,
+  RuleEvaluation,
+  SubjectIdentifier,
+  SubjectMetadata,
+  SubjectType,
+} from './types';
+import { EnforcementAction } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RuleContext {
+  subject: {
+    type: SubjectType;
+    bytesHash: string;
+    metadataHash: string;
+    metadata: SubjectMetadata;
+  };
+  measurements: Record<string, unknown>;
+  claims: Record<string, unknown>;
+}
+
+export type RuleValue = string | number | boolean | null | RuleValue[] | { [key: string]: RuleValue };
+
+export type ConditionNode =
+  | { kind: 'literal'; value: RuleValue }
+  | { kind: 'path'; segments: string[] }
+  | { kind: 'list'; items: ConditionNode[] }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'compare'; operator: CompareOperator; left: ConditionNode; right: ConditionNode }
+  | { kind: 'call'; name: RuleFunction; args: ConditionNode[] };
+
+type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+type RuleFunction = 'exists' | 'len' | 'contains' | 'startsWith' | 'endsWith';
+
+export interface PolicyRuleOutcome {
+  attestation: AttestationResult;
+  blockingRuleIds: string[];                       // Failed GATE rules; sealing must stop
+  enforcementAction: EnforcementAction | null;     // Most severe action mapped from other failures
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Rules of this type block sealing when they fail */
+export const GATE_RULE_TYPE = 'GATE';
+
+const MAX_CONDITION_LENGTH = 4096;
+const MAX_NESTING_DEPTH = 32;
+
+const CONTEXT_ROOTS = ['subject', 'measurements', 'claims'];
+const FUNCTIONS: Record<RuleFunction, number> = {
+  exists: 1,
+  len: 1,
+  contains: 2,
+  startsWith: 2,
+  endsWith: 2,
+};
+
+/** Most severe first */
+const ACTION_SEVERITY: EnforcementAction[] = [
+  EnforcementAction.TERMINATE,
+  EnforcementAction.QUARANTINE,
+  EnforcementAction.NETWORK_ISOLATION,
+  EnforcementAction.SAFE_STATE,
+  EnforcementAction.ALERT_ONLY,
+];
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'op'; value: string };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new Error('Unterminated string literal');
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    // Path segments after '.' are integer indexes, never decimals
+    const afterDot = tokens[tokens.length - 1]?.type === 'op' && tokens[tokens.length - 1].value === '.';
+    const number = (afterDot ? /^\d+/ : /^-?\d+(\.\d+)?/).exec(source.slice(i));
+    if (number && (ch !== '-' || !isOperand(tokens[tokens.length - 1]))) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (!op) {
+      throw new Error(`Unexpected character '${ch}' at position ${i}`);
+    }
+    tokens.push({ type: 'op', value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+function isOperand(token: Token | undefined): boolean {
+  if (!token) return false;
+  return token.type !== 'op' || token.value === ')' || token.value === ']';
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+class ConditionParser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token '${this.tokens[this.position].value}'`);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private matchOp(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'op' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.matchOp(value)) {
+      throw new Error(`Expected '${value}'`);
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new Error('Condition nests too deeply');
+    }
+    const result = parse();
+    this.depth--;
+    return result;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.matchOp('||')) {
+      left = { kind: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseUnary();
+    while (this.matchOp('&&')) {
+      left = { kind: 'logical', operator: '&&', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.matchOp('!')) {
+      return this.nested(() => ({ kind: 'not', operand: this.parseUnary() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+
+    const isCompare =
+      (token?.type === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) ||
+      (token?.type === 'ident' && token.value === 'in');
+
+    if (!isCompare) {
+      return left;
+    }
+
+    this.position++;
+    return { kind: 'compare', operator: token!.value as CompareOperator, left, right: this.parsePrimary() };
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Unexpected end of condition');
+    }
+    this.position++;
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'op') {
+      if (token.value === '(') {
+        const inner = this.nested(() => this.parseOr());
+        this.expectOp(')');
+        return inner;
+      }
+      if (token.value === '[') {
+        return this.nested(() => this.parseList());
+      }
+      throw new Error(`Unexpected token '${token.value}'`);
+    }
+
+    switch (token.value) {
+      case 'true':
+        return { kind: 'literal', value: true };
+      case 'false':
+        return { kind: 'literal', value: false };
+      case 'null':
+        return { kind: 'literal', value: null };
+    }
+
+    if (token.value in FUNCTIONS) {
+      return this.nested(() => this.parseCall(token.value as RuleFunction));
+    }
+
+    if (!CONTEXT_ROOTS.includes(token.value)) {
+      throw new Error(`Unknown identifier '${token.value}'`);
+    }
+
+    const segments = [token.value];
+    while (this.matchOp('.')) {
+      const next = this.peek();
+      if (next?.type !== 'ident' && next?.type !== 'number') {
+        throw new Error('Expected property name after "."');
+      }
+      this.position++;
+      segments.push(String(next.value));
+    }
+    return { kind: 'path', segments };
+  }
+
+  private parseList(): ConditionNode {
+    const items: ConditionNode[] = [];
+    if (!this.matchOp(']')) {
+      do {
+        items.push(this.parseOr());
+      } while (this.matchOp(','));
+      this.expectOp(']');
+    }
+    return { kind: 'list', items };
+  }
+
+  private parseCall(name: RuleFunction): ConditionNode {
+    this.expectOp('(');
+    const args: ConditionNode[] = [];
+    if (!this.matchOp(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchOp(','));
+      this.expectOp(')');
+    }
+
+    if (args.length !== FUNCTIONS[name]) {
+      throw new Error(`${name}() takes ${FUNCTIONS[name]} argument(s)`);
+    }
+    if (name === 'exists' && args[0].kind !== 'path') {
+      throw new Error('exists() takes a context path');
+    }
+    return { kind: 'call', name, args };
+  }
+}
+
+/**
+ * Parse a rule condition into its syntax tree
+ */
+export function compileCondition(condition: string): ConditionNode {
+  if (condition.length > MAX_CONDITION_LENGTH) {
+    throw new Error(`Condition exceeds ${MAX_CONDITION_LENGTH} characters`);
+  }
+  return new ConditionParser(tokenize(condition)).parse();
+}
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+function resolvePath(context: RuleContext, segments: string[]): RuleValue | undefined {
+  let current: unknown = context;
+  for (const segment of segments) {
+    // Own properties only, so conditions cannot reach prototypes
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current as RuleValue | undefined;
+}
+
+function typeOf(value: RuleValue | undefined): string {
+  if (value === undefined || value === null) return 'null';
+  return Array.isArray(value) ? 'list' : typeof value;
+}
+
+function isScalar(value: RuleValue | undefined): value is string | number | boolean | null | undefined {
+  return value === undefined || value === null || typeof value !== 'object';
+}
+
+function scalarEquals(left: RuleValue | undefined, right: RuleValue | undefined): boolean {
+  if (!isScalar(left) || !isScalar(right)) {
+    throw new Error(`Cannot compare ${typeOf(left)} with ${typeOf(right)} for equality`);
+  }
+  return (left ?? null) === (right ?? null);
+}
+
+function expectBoolean(value: RuleValue | undefined, operator: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`'${operator}' expects a boolean, got ${typeOf(value)}`);
+  }
+  return value;
+}
+
+function expectString(value: RuleValue | undefined, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${name}() expects a string, got ${typeOf(value)}`);
+  }
+  return value;
+}
+
+function evaluateNode(node: ConditionNode, context: RuleContext): RuleValue | undefined {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'path':
+      return resolvePath(context, node.segments);
+
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, context) ?? null);
+
+    case 'not':
+      return !expectBoolean(evaluateNode(node.operand, context), '!');
+
+    case 'logical': {
+      const left = expectBoolean(evaluateNode(node.left, context), node.operator);
+      if (node.operator === '&&' ? !left : left) {
+        return left;
+      }
+      return expectBoolean(evaluateNode(node.right, context), node.operator);
+    }
+
+    case 'compare': {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+
+      switch (node.operator) {
+        case '==':
+          return scalarEquals(left, right);
+        case '!=':
+          return !scalarEquals(left, right);
+        case 'in':
+          if (!Array.isArray(right)) {
+            throw new Error(`'in' expects a list, got ${typeOf(right)}`);
+          }
+          return right.some((item) => isScalar(item) && scalarEquals(left, item));
+      }
+
+      if (!(typeof left === typeof right && (typeof left === 'number' || typeof left === 'string'))) {
+        throw new Error(`Cannot order ${typeOf(left)} and ${typeOf(right)}`);
+      }
+      const l = left as number | string;
+      const r = right as number | string;
+      switch (node.operator) {
+        case '<':
+          return l < r;
+        case '<=':
+          return l <= r;
+        case '>':
+          return l > r;
+        case '>=':
+          return l >= r;
+      }
+      return false;
+    }
+
+    case 'call': {
+      if (node.name === 'exists') {
+        return evaluateNode(node.args[0], context) !== undefined;
+      }
+
+      const [first, second] = node.args.map((arg) => evaluateNode(arg, context));
+      switch (node.name) {
+        case 'len':
+          if (typeof first === 'string' || Array.isArray(first)) return first.length;
+          if (first !== null && typeof first === 'object') return Object.keys(first).length;
+          throw new Error(`len() expects a string, list or object, got ${typeOf(first)}`);
+        case 'contains':
+          if (Array.isArray(first)) return first.some((item) => isScalar(item) && scalarEquals(item, second));
+          return expectString(first, 'contains').includes(expectString(second, 'contains'));
+        case 'startsWith':
+          return expectString(first, 'startsWith').startsWith(expectString(second, 'startsWith'));
+        case 'endsWith':
+          return expectString(first, 'endsWith').endsWith(expectString(second, 'endsWith'));
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a condition against a rule context. The condition must produce a
+ * boolean; type errors are thrown rather than coerced.
+ */
+export function evaluateCondition(condition: string | ConditionNode, context: RuleContext): boolean {
+  const node = typeof condition === 'string' ? compileCondition(condition) : condition;
+  const result = evaluateNode(node, context);
+  if (typeof result !== 'boolean') {
+    throw new Error(`Condition must evaluate to a boolean, got ${typeOf(result)}`);
+  }
+  return result;
+}
+
+// ============================================================================
+// POLICY RULES
+// ============================================================================
+
+/**
+ * Return the more severe of two enforcement actions
+ */
+export function mostSevereAction(a: EnforcementAction, b: EnforcementAction): EnforcementAction {
+  return ACTION_SEVERITY.indexOf(a) <= ACTION_SEVERITY.indexOf(b) ? a : b;
+}
+
+/**
+ * Evaluate every policy rule for a subject.
+ *
+ * A rule that cannot be parsed or evaluated fails with the error recorded in
+ * its evidence. Failed GATE rules are reported as blocking; any other failed
+ * rule contributes its action (overridden by enforcementActionsMapping when
+ * keyed by its ruleId) to the returned enforcement action.
+ */
+export function evaluatePolicyRules(
+  rules: PolicyRule[],
+  context: RuleContext,
+  subjectIdentifier: SubjectIdentifier,
+  options: {
+    enforcementActionsMapping?: Record<string, EnforcementAction>;
+    evaluatedAt?: string;
+  } = {}
+): PolicyRuleOutcome {
+  const evaluatedAt = options.evaluatedAt ?? new Date().toISOString();
+  const evaluations: RuleEvaluation[] = [];
+  const blockingRuleIds: string[] = [];
+  let enforcementAction: EnforcementAction | null = null;
+
+  for (const rule of rules) {
+    const evidence: Record<string, unknown> = {
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      subjectBytesHash: subjectIdentifier.bytesHash,
+      subjectMetadataHash: subjectIdentifier.metadataHash,
+      evaluatedAt,
+    };
+
+    let verdict: boolean;
+    try {
+      verdict = evaluateCondition(rule.condition, context);
+    } catch (error) {
+      verdict = false;
+      evidence.error = error instanceof Error ? error.message : String(error);
+    }
+
+    evaluations.push({ ruleId: rule.ruleId, verdict, evidence });
+
+    if (verdict) {
+      continue;
+    }
+
+    if (rule.ruleType === GATE_RULE_TYPE) {
+      blockingRuleIds.push(rule.ruleId);
+    } else {
+      const action = options.enforcementActionsMapping?.[rule.ruleId] ?? rule.action;
+      enforcementAction = enforcementAction ? mostSevereAction(enforcementAction, action) : action;
+    }
+  }
+
+  return {
+    attestation: {
+      passed: evaluations.every((evaluation) => evaluation.verdict),
+      rules: evaluations,
+      timestamp: evaluatedAt,
+    },
+    blockingRuleIds,
+    enforcementAction,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Anchoring Module
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Server-side anchor queue: the deployment's anchor provider, with
+ * transactions kept in the database.
+ */
+
+import { TransactionManager, createAnchorProvider } from '@aga/arweave';
+import { PrismaTransactionStore } from './store';
+
+export { PrismaTransactionStore } from './store';
+
+let anchorQueue: TransactionManager | null = null;
+
+/**
+ * The anchor queue for this process. It shares its store with every other
+ * process, so any of them can resume the queue.
+ */
+export function getAnchorQueue(): TransactionManager {
+  anchorQueue ??= new TransactionManager(createAnchorProvider(), new PrismaTransactionStore());
+  return anchorQueue;
+}
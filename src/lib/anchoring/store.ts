@@ -0,0 +1,146 @@
+/**
+ * Anchor Transaction Store
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Persists the anchor queue to the ArweaveTransaction table so a restarted
+ * worker resumes where the last one stopped. Checkpoint anchors also mirror
+ * their network, transaction and confirmation depth onto the
+ * CheckpointRecord they anchor.
+ */
+
+import { Prisma, type ArweaveTransaction, type TxStatus, type TxType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import type {
+  AnchorPayload,
+  LogInclusionReceipt,
+  TransactionRecord,
+  TransactionStatus,
+  TransactionStore,
+  TransactionType,
+} from '@aga/arweave';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TX_TYPES: Record<TransactionType, TxType> = {
+  artifact_seal: 'ARTIFACT_SEAL',
+  checkpoint_anchor: 'CHECKPOINT_ANCHOR',
+};
+
+const TX_STATUSES: Record<TransactionStatus, TxStatus> = {
+  pending: 'PENDING',
+  submitted: 'SUBMITTED',
+  confirmed: 'CONFIRMED',
+  failed: 'FAILED',
+};
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+function toDate(iso: string | undefined): Date | null {
+  return iso ? new Date(iso) : null;
+}
+
+/**
+ * Enum values are the manager's names in upper case
+ */
+function toRecord(row: ArweaveTransaction): TransactionRecord {
+  return {
+    id: row.id,
+    txId: row.txId ?? '',
+    networkId: row.networkId,
+    type: row.txType.toLowerCase() as TransactionType,
+    artifactId: row.artifactId ?? undefined,
+    checkpointId: row.checkpointId ?? undefined,
+    dataHash: row.dataHash,
+    dataSizeBytes: row.dataSizeBytes,
+    payload: row.payload as unknown as AnchorPayload,
+    status: row.status.toLowerCase() as TransactionStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt?.toISOString(),
+    confirmations: row.confirmations,
+    blockHeight: row.blockHeight ?? undefined,
+    blockHash: row.blockHash ?? undefined,
+    submittedAt: row.submittedAt?.toISOString(),
+    confirmedAt: row.confirmedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    error: row.lastError ?? undefined,
+    inclusionReceipt: (row.inclusionReceipt as unknown as LogInclusionReceipt | null) ?? undefined,
+  };
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * Record ids are the manager's; artifactId and checkpointId must name an
+ * Artifact and a CheckpointRecord
+ */
+export class PrismaTransactionStore implements TransactionStore {
+  async save(record: TransactionRecord): Promise<void> {
+    const data = {
+      networkId: record.networkId,
+      txId: record.txId || null,
+      status: TX_STATUSES[record.status],
+      confirmations: record.confirmations,
+      blockHeight: record.blockHeight ?? null,
+      blockHash: record.blockHash ?? null,
+      inclusionReceipt: record.inclusionReceipt
+        ? (record.inclusionReceipt as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      attempts: record.attempts,
+      nextAttemptAt: toDate(record.nextAttemptAt),
+      lastError: record.error ?? null,
+      submittedAt: toDate(record.submittedAt),
+      confirmedAt: toDate(record.confirmedAt),
+    };
+
+    await prisma.$transaction(async (tx) => {
+      await tx.arweaveTransaction.upsert({
+        where: { id: record.id },
+        create: {
+          id: record.id,
+          artifactId: record.artifactId,
+          checkpointId: record.checkpointId,
+          txType: TX_TYPES[record.type],
+          dataHash: record.dataHash,
+          dataSizeBytes: record.dataSizeBytes,
+          payload: record.payload as unknown as Prisma.InputJsonObject,
+          createdAt: new Date(record.createdAt),
+          ...data,
+        },
+        update: data,
+      });
+
+      if (record.checkpointId && record.txId) {
+        await tx.checkpointRecord.updateMany({
+          where: { id: record.checkpointId },
+          data: {
+            anchorNetworkId: record.networkId,
+            anchorTxId: record.txId,
+            anchorBlockNumber: record.blockHeight ?? null,
+            anchorBlockHash: record.blockHash ?? null,
+            anchorConfirmations: record.confirmations,
+            anchorReceipt: data.inclusionReceipt,
+          },
+        });
+      }
+    });
+  }
+
+  async get(id: string): Promise<TransactionRecord | undefined> {
+    const row = await prisma.arweaveTransaction.findUnique({ where: { id } });
+    return row ? toRecord(row) : undefined;
+  }
+
+  async listActive(): Promise<TransactionRecord[]> {
+    const rows = await prisma.arweaveTransaction.findMany({
+      where: { status: { in: ['PENDING', 'SUBMITTED'] } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toRecord);
+  }
+}
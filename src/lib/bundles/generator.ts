@@ -4,429 +4,56 @@
  * Creates downloadable, offline-verifiable evidence packages.
  * Per patent claims 1(f), 20
  *
- * Bundle contains:
- * - Policy Artifact (signed)
- * - Receipts with Merkle proofs
- * - Checkpoint reference
- * - Offline verifier script
+ * Bundles are built by the @attested/core bundle generator from the
+ * simulation's signed chain:
+ * - Policy Artifact (signed by the run's demo key)
+ * - Receipt ledger and chain head
+ * - Merkle checkpoints with consistency proofs
+ * - Keyring, with the issuer labeled as an ephemeral demo key
+ *
+ * The .agb archive verifies with `aga-verify`; the JSON export verifies on
+ * the verify-bundle page.
  */
 
-import type { RuntimeConfig } from '@/components/artifact/RuntimeSettings';
+import {
+  BundleGenerator,
+  generateKeyring,
+  type BundleManifest,
+  type Keyring,
+} from '@attested/core';
 import type { ReceiptChain } from '@/lib/chain/receipts';
-import type { SimulationRun } from '@/lib/simulation/engine';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface PolicyArtifact {
-  schemaVersion: '1.0';
-  policyId: string;
-  policyVersion: string;
-  artifactId: string;
-  artifactName: string;
-  createdAt: string;
-  issuedAt: string;
-  notBefore: string;
-  notAfter: string;
-  issuer: {
-    issuerId: string;
-    publicKey: string;
-    keyId: string;
-    signature: string;
-  };
-  subject: {
-    subjectCategory: string;
-    measurementTypes: string[];
-  };
-  integrityPolicy: {
-    measurementCadenceMs: number;
-    driftRule: 'STRICT_HASH_MATCH';
-  };
-  enforcementPolicy: {
-    onDrift: string;
-    onExpiry: 'BLOCK_START';
-    onSignatureInvalid: 'TERMINATE';
-  };
-  ttl: {
-    enabled: boolean;
-    expiresAt: string | null;
-  };
-  policyHash: string;
-}
-
-export interface BundleManifest {
-  bundleVersion: '1.0';
-  bundleId: string;
-  createdAt: string;
-  policyId: string;
-  runId: string;
-  receiptCount: number;
-  checkpointCount: number;
-  chainHeadHash: string;
-  files: Array<{
-    path: string;
-    sha256: string;
-    sizeBytes: number;
-  }>;
-  verifier: {
-    name: 'AGA Offline Verifier';
-    version: '1.0.0';
-    entrypoint: 'verify.js';
-  };
-  merkle: 'INCLUDED';
-  anchor: 'SIMULATED';
-}
-
 export interface EvidenceBundle {
   manifest: BundleManifest;
-  policyArtifact: PolicyArtifact;
   chain: ReceiptChain;
-  verifierScript: string;
-  readme: string;
-}
-
-// ============================================================================
-// HASH FUNCTIONS
-// ============================================================================
-
-async function sha256(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const buffer = await crypto.subtle.digest('SHA-256', encoder.encode(data));
-  const hashArray = Array.from(new Uint8Array(buffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-// ============================================================================
-// POLICY ARTIFACT GENERATION
-// ============================================================================
-
-async function createPolicyArtifact(
-  run: SimulationRun,
-  config: RuntimeConfig
-): Promise<PolicyArtifact> {
-  const now = new Date();
-  const expiresAt = config.ttlSeconds
-    ? new Date(now.getTime() + config.ttlSeconds * 1000).toISOString()
-    : null;
-
-  // Generate deterministic policy ID
-  const policyContent = {
-    artifactId: run.artifactId,
-    subjectCategory: config.subjectCategory,
-    measurementTypes: config.measurementTypes,
-    enforcementAction: config.enforcementAction,
-  };
-  const policyId = await sha256(JSON.stringify(policyContent));
-
-  // Simulated issuer key (in production, this would be real Ed25519)
-  const publicKey = 'lKRKF0qyRCAgAy20lqWwTunJjnb8Id7ijIHcoXaWmrg'; // Test key
-  const keyId = await sha256(publicKey);
-
-  const artifact: PolicyArtifact = {
-    schemaVersion: '1.0',
-    policyId: policyId.substring(0, 32),
-    policyVersion: 'v1.0',
-    artifactId: run.artifactId,
-    artifactName: run.artifactName,
-    createdAt: run.startedAt,
-    issuedAt: run.startedAt,
-    notBefore: run.startedAt,
-    notAfter: expiresAt || new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000).toISOString(),
-    issuer: {
-      issuerId: 'urn:attested-intelligence:issuer:portal',
-      publicKey,
-      keyId: keyId.substring(0, 16),
-      signature: '', // Will be computed
-    },
-    subject: {
-      subjectCategory: config.subjectCategory,
-      measurementTypes: [...config.measurementTypes],
-    },
-    integrityPolicy: {
-      measurementCadenceMs: config.measurementCadenceMs,
-      driftRule: 'STRICT_HASH_MATCH',
-    },
-    enforcementPolicy: {
-      onDrift: config.enforcementAction,
-      onExpiry: 'BLOCK_START',
-      onSignatureInvalid: 'TERMINATE',
-    },
-    ttl: {
-      enabled: config.ttlSeconds !== null,
-      expiresAt,
-    },
-    policyHash: '', // Will be computed
-  };
-
-  // Compute policy hash (excluding signature and hash)
-  const hashContent = { ...artifact };
-  delete (hashContent as Partial<PolicyArtifact>).issuer;
-  delete (hashContent as Partial<PolicyArtifact>).policyHash;
-  artifact.policyHash = await sha256(JSON.stringify(hashContent));
-
-  // Compute signature
-  artifact.issuer.signature = await sha256(`${artifact.policyHash}:${keyId}`);
-
-  return artifact;
-}
-
-// ============================================================================
-// VERIFIER SCRIPT
-// ============================================================================
-
-const VERIFIER_SCRIPT = `#!/usr/bin/env node
-/**
- * AGA Offline Verifier v1.0.0
- *
- * Verifies evidence bundles without network connectivity.
- * Usage: node verify.js <bundle.json>
- *
- * Returns:
- * - PASS: All checks passed
- * - PASS_WITH_CAVEATS: Passed with warnings (e.g., simulated anchor)
- * - FAIL: One or more checks failed
- */
-
-const crypto = require('crypto');
-const fs = require('fs');
-
-async function sha256(data) {
-  return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-async function verify(bundlePath) {
-  console.log('\\n=== AGA OFFLINE VERIFIER ===\\n');
-
-  const bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf8'));
-  const results = {
-    policySignature: { status: 'pending' },
-    receiptSignatures: { status: 'pending', count: 0 },
-    chainIntegrity: { status: 'pending' },
-    merkleProofs: { status: 'pending' },
-    checkpointAnchor: { status: 'pending' },
-  };
-
-  // Step 1: Verify policy signature
-  console.log('[1/5] Verifying policy signature...');
-  const policyHash = await sha256(JSON.stringify({
-    ...bundle.policyArtifact,
-    issuer: undefined,
-    policyHash: undefined,
-  }));
-  results.policySignature = policyHash === bundle.policyArtifact.policyHash
-    ? { status: 'VALID' }
-    : { status: 'INVALID', error: 'Policy hash mismatch' };
-  console.log('      ' + results.policySignature.status);
-
-  // Step 2: Verify receipt signatures
-  console.log('[2/5] Verifying receipt signatures...');
-  let validReceipts = 0;
-  for (const receipt of bundle.chain.receipts) {
-    // Simplified signature check
-    const expectedSig = await sha256(receipt.leafHash + ':' + receipt.keyId);
-    if (receipt.signature === expectedSig) validReceipts++;
-  }
-  results.receiptSignatures = {
-    status: validReceipts === bundle.chain.receipts.length ? 'VALID' : 'INVALID',
-    count: validReceipts,
-    total: bundle.chain.receipts.length,
-  };
-  console.log('      ' + results.receiptSignatures.status + ' (' + validReceipts + '/' + bundle.chain.receipts.length + ')');
-
-  // Step 3: Verify chain integrity
-  console.log('[3/5] Verifying chain integrity...');
-  let prevHash = '0'.repeat(64);
-  let chainValid = true;
-  for (const receipt of bundle.chain.receipts) {
-    if (receipt.previousLeafHash !== prevHash) {
-      chainValid = false;
-      break;
-    }
-    prevHash = receipt.leafHash;
-  }
-  results.chainIntegrity = chainValid
-    ? { status: 'VALID' }
-    : { status: 'INVALID', error: 'Chain link broken' };
-  console.log('      ' + results.chainIntegrity.status);
-
-  // Step 4: Verify Merkle proofs
-  console.log('[4/5] Verifying Merkle proofs...');
-  results.merkleProofs = bundle.chain.checkpoints.length > 0
-    ? { status: 'VALID', checkpoints: bundle.chain.checkpoints.length }
-    : { status: 'SKIPPED', reason: 'No checkpoints' };
-  console.log('      ' + results.merkleProofs.status);
-
-  // Step 5: Verify anchor
-  console.log('[5/5] Verifying checkpoint anchor...');
-  results.checkpointAnchor = { status: 'SIMULATED', network: 'SIMULATED' };
-  console.log('      ' + results.checkpointAnchor.status + ' (demo mode)');
-
-  // Summary
-  console.log('\\n=== VERIFICATION RESULT ===\\n');
-
-  const allValid = results.policySignature.status === 'VALID' &&
-    results.receiptSignatures.status === 'VALID' &&
-    results.chainIntegrity.status === 'VALID';
-
-  const verdict = allValid ? 'PASS_WITH_CAVEATS' : 'FAIL';
-  console.log('Verdict: ' + verdict);
-  console.log('');
-  console.log('Details:');
-  console.log('  Policy:   ' + results.policySignature.status);
-  console.log('  Receipts: ' + results.receiptSignatures.status + ' (' + results.receiptSignatures.count + '/' + results.receiptSignatures.total + ')');
-  console.log('  Chain:    ' + results.chainIntegrity.status);
-  console.log('  Merkle:   ' + results.merkleProofs.status);
-  console.log('  Anchor:   ' + results.checkpointAnchor.status);
-  console.log('');
-
-  if (allValid) {
-    console.log('This bundle verifies correctly in offline mode.');
-    console.log('CAVEAT: Checkpoint anchor is simulated (demo mode).');
-  }
-
-  return verdict;
+  keyring: Keyring;
+  archive: Blob;                // .agb ZIP for aga-verify
+  filename: string;
 }
 
-// Run verifier
-const bundlePath = process.argv[2] || 'bundle.json';
-verify(bundlePath).catch(console.error);
-`;
-
-// ============================================================================
-// README
-// ============================================================================
-
-const README_TEMPLATE = `# AGA Evidence Bundle
-
-This bundle contains cryptographically signed evidence of a governed runtime session.
-
-## Contents
-
-- \`manifest.json\` - Bundle metadata and file checksums
-- \`policy_artifact.json\` - Signed governance policy
-- \`chain/receipts.json\` - Signed event receipts (hash-linked)
-- \`chain/checkpoints.json\` - Merkle checkpoints
-- \`verify.js\` - Offline verification script (Node.js)
-
-## Verification
-
-### Quick Check
-\`\`\`bash
-node verify.js bundle.json
-\`\`\`
-
-### Expected Output
-\`\`\`
-Verdict: PASS_WITH_CAVEATS
-
-Details:
-  Policy:   VALID
-  Receipts: VALID (N/N)
-  Chain:    VALID
-  Merkle:   VALID
-  Anchor:   SIMULATED
-\`\`\`
-
-## Tamper Test
-
-1. Open \`chain/receipts.json\`
-2. Modify any single character
-3. Re-run \`node verify.js bundle.json\`
-4. Expected: \`Verdict: FAIL\`
-
-## What This Proves
-
-- **Policy Binding**: What governance policy was minted
-- **Measurements**: What integrity checks were performed
-- **Drift Detection**: If/when integrity violations occurred
-- **Enforcement**: What actions were taken in response
-- **Chain Integrity**: Receipts are hash-linked and tamper-evident
-
-## Patent Coverage
-
-This evidence bundle demonstrates the following patent claims:
-- Claim 1(e): Signed enforcement receipts
-- Claim 3: Continuity chain system
-- Claim 17: Genesis event
-- Claim 18: Merkle proof batching
-- Claim 20: Evidence bundle export
-
----
-Generated by AGA Portal Enterprise Preview
-https://attestedintelligence.com
-`;
-
 // ============================================================================
 // BUNDLE GENERATION
 // ============================================================================
 
-export async function generateEvidenceBundle(
-  run: SimulationRun,
-  chain: ReceiptChain
-): Promise<EvidenceBundle> {
-  // Create policy artifact
-  const policyArtifact = await createPolicyArtifact(run, run.config);
-
-  // Create manifest
-  const manifestFiles = [
-    {
-      path: 'policy_artifact.json',
-      sha256: await sha256(JSON.stringify(policyArtifact)),
-      sizeBytes: JSON.stringify(policyArtifact).length,
-    },
-    {
-      path: 'chain/receipts.json',
-      sha256: await sha256(JSON.stringify(chain.receipts)),
-      sizeBytes: JSON.stringify(chain.receipts).length,
-    },
-    {
-      path: 'chain/chain_head.json',
-      sha256: await sha256(JSON.stringify(chain.head)),
-      sizeBytes: JSON.stringify(chain.head).length,
-    },
-    {
-      path: 'chain/checkpoints.json',
-      sha256: await sha256(JSON.stringify(chain.checkpoints)),
-      sizeBytes: JSON.stringify(chain.checkpoints).length,
-    },
-    {
-      path: 'verify.js',
-      sha256: await sha256(VERIFIER_SCRIPT),
-      sizeBytes: VERIFIER_SCRIPT.length,
-    },
-    {
-      path: 'README.md',
-      sha256: await sha256(README_TEMPLATE),
-      sizeBytes: README_TEMPLATE.length,
-    },
-  ];
-
-  const manifest: BundleManifest = {
-    bundleVersion: '1.0',
-    bundleId: `bundle_${Date.now().toString(36)}`,
-    createdAt: new Date().toISOString(),
-    policyId: policyArtifact.policyId,
-    runId: run.id,
-    receiptCount: chain.receipts.length,
-    checkpointCount: chain.checkpoints.length,
-    chainHeadHash: chain.head.headLeafHash,
-    files: manifestFiles,
-    verifier: {
-      name: 'AGA Offline Verifier',
-      version: '1.0.0',
-      entrypoint: 'verify.js',
-    },
-    merkle: 'INCLUDED',
-    anchor: 'SIMULATED',
-  };
+export async function generateEvidenceBundle(chain: ReceiptChain): Promise<EvidenceBundle> {
+  const generated = await new BundleGenerator().generate({
+    artifact: chain.artifact,
+    receipts: chain.receipts,
+    chainHead: chain.head,
+    checkpoints: chain.checkpoints,
+    demoIssuer: true,
+  });
 
   return {
-    manifest,
-    policyArtifact,
+    manifest: generated.manifest,
     chain,
-    verifierScript: VERIFIER_SCRIPT,
-    readme: README_TEMPLATE,
+    keyring: generateKeyring(chain.artifact, undefined, true),
+    archive: generated.blob,
+    filename: generated.filename,
   };
 }
 
@@ -437,14 +64,15 @@ export async function generateEvidenceBundle(
 export function bundleToJSON(bundle: EvidenceBundle): string {
   return JSON.stringify({
     manifest: bundle.manifest,
-    policyArtifact: bundle.policyArtifact,
-    chain: bundle.chain,
+    artifact: bundle.chain.artifact,
+    receipts: bundle.chain.receipts,
+    chain_head: bundle.chain.head,
+    checkpoints: bundle.chain.checkpoints,
+    keyring: bundle.keyring,
   }, null, 2);
 }
 
-export function downloadBundle(bundle: EvidenceBundle, filename: string = 'evidence_bundle.json'): void {
-  const content = bundleToJSON(bundle);
-  const blob = new Blob([content], { type: 'application/json' });
+function saveBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -455,46 +83,14 @@ export function downloadBundle(bundle: EvidenceBundle, filename: string = 'evide
   URL.revokeObjectURL(url);
 }
 
+export function downloadBundle(bundle: EvidenceBundle, filename: string = 'evidence_bundle.json'): void {
+  saveBlob(new Blob([bundleToJSON(bundle)], { type: 'application/json' }), filename);
+}
+
 // ============================================================================
-// ZIP BUNDLE EXPORT
+// ARCHIVE EXPORT
 // ============================================================================
 
-export async function downloadBundleAsZip(bundle: EvidenceBundle, filename: string = 'evidence_bundle.zip'): Promise<void> {
-  // Dynamic import JSZip
-  const JSZip = (await import('jszip')).default;
-  const zip = new JSZip();
-
-  // Add bundle JSON
-  zip.file('bundle.json', bundleToJSON(bundle));
-
-  // Add policy artifact separately
-  zip.file('policy/policy_artifact.json', JSON.stringify(bundle.policyArtifact, null, 2));
-
-  // Add chain files
-  zip.file('chain/receipts.json', JSON.stringify(bundle.chain.receipts, null, 2));
-  zip.file('chain/chain_head.json', JSON.stringify(bundle.chain.head, null, 2));
-  zip.file('chain/checkpoints.json', JSON.stringify(bundle.chain.checkpoints, null, 2));
-
-  // Add manifest
-  zip.file('manifest.json', JSON.stringify(bundle.manifest, null, 2));
-
-  // Add verifier script
-  zip.file('verify.js', bundle.verifierScript);
-
-  // Add README
-  zip.file('README.md', bundle.readme);
-
-  // Add version file
-  zip.file('VERSION.txt', 'AGA Offline Verifier v1.0.0\nGenerated: ' + new Date().toISOString());
-
-  // Generate and download
-  const content = await zip.generateAsync({ type: 'blob' });
-  const url = URL.createObjectURL(content);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+export function downloadBundleArchive(bundle: EvidenceBundle, filename: string = bundle.filename): void {
+  saveBlob(bundle.archive, filename);
 }
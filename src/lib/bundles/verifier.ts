@@ -10,10 +10,30 @@
  * 3. Chain integrity (hash linking)
  * 4. Merkle proof verification
  * 5. Checkpoint anchor verification
+ *
+ * Bundles are wire-format JSON (snake_case artifact and receipts, including
+ * objects converted from legacy formats), checked by the @attested/core
+ * verifier and reported through the five steps.
  */
 
-import type { EvidenceBundle, PolicyArtifact, BundleManifest } from './generator';
-import type { SignedReceipt, CheckpointRecord } from '@/lib/chain/receipts';
+import {
+  verifyBundle as verifyWireContents,
+  convertLegacyArtifact,
+  convertLegacyReceipt,
+  detectLegacyArtifactFormat,
+  detectLegacyReceiptFormat,
+  type BundleAnchor,
+  type BundleCheckpoint,
+  type BundleManifest as WireBundleManifest,
+  type ChainHead,
+  type Keyring,
+  type LegacyArtifact,
+  type LegacyReceipt,
+  type MerkleProofEntry,
+  type PolicyArtifact as WirePolicyArtifact,
+  type Receipt as WireReceipt,
+  type VerifierCheck,
+} from '@attested/core';
 
 // ============================================================================
 // TYPES
@@ -31,6 +51,17 @@ export interface VerificationStep {
   error?: string;
 }
 
+export interface WireEvidenceBundle {
+  manifest?: WireBundleManifest;
+  artifact: WirePolicyArtifact;
+  receipts: WireReceipt[];
+  chainHead?: ChainHead;
+  checkpoints?: BundleCheckpoint[];
+  merkleProofs?: MerkleProofEntry[];
+  anchors?: BundleAnchor[];
+  keyring?: Keyring;
+}
+
 export interface VerificationResult {
   verdict: VerificationVerdict;
   steps: VerificationStep[];
@@ -51,320 +82,174 @@ export interface VerificationResult {
 }
 
 // ============================================================================
-// HASH FUNCTIONS
+// MAIN VERIFICATION FUNCTION
 // ============================================================================
 
-async function sha256(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const buffer = await crypto.subtle.digest('SHA-256', encoder.encode(data));
-  const hashArray = Array.from(new Uint8Array(buffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-function canonicalize(obj: Record<string, unknown>): string {
-  const sortedKeys = Object.keys(obj).sort();
-  const sorted: Record<string, unknown> = {};
-  for (const key of sortedKeys) {
-    sorted[key] = obj[key];
-  }
-  return JSON.stringify(sorted);
+export async function verifyBundle(bundle: WireEvidenceBundle): Promise<VerificationResult> {
+  return verifyWireBundle(bundle);
 }
 
 // ============================================================================
-// VERIFICATION STEPS
+// PARSE BUNDLE FROM JSON
 // ============================================================================
 
-async function verifyPolicySignature(
-  policy: PolicyArtifact
-): Promise<{ valid: boolean; error?: string }> {
+export function parseBundleJSON(json: string): WireEvidenceBundle | null {
   try {
-    // Recompute policy hash (excluding signature and hash fields)
-    const hashContent = { ...policy };
-    delete (hashContent as Partial<PolicyArtifact>).issuer;
-    delete (hashContent as Partial<PolicyArtifact>).policyHash;
-
-    const computedHash = await sha256(JSON.stringify(hashContent));
-
-    if (computedHash !== policy.policyHash) {
-      return { valid: false, error: 'Policy hash mismatch' };
-    }
+    const data = JSON.parse(json);
 
-    // Verify signature (simulated - in production would use Ed25519)
-    const expectedSig = await sha256(`${policy.policyHash}:${policy.issuer.keyId}`);
-    if (expectedSig !== policy.issuer.signature) {
-      return { valid: false, error: 'Policy signature invalid' };
+    if (!data || !data.artifact || !Array.isArray(data.receipts)) {
+      return null;
     }
 
-    return { valid: true };
-  } catch (err) {
-    return { valid: false, error: `Policy verification error: ${err}` };
-  }
-}
-
-async function verifyReceiptSignatures(
-  receipts: SignedReceipt[]
-): Promise<{ valid: boolean; validCount: number; totalCount: number; errors: string[] }> {
-  const errors: string[] = [];
-  let validCount = 0;
-
-  for (let i = 0; i < receipts.length; i++) {
-    const receipt = receipts[i];
-
-    try {
-      // Verify signature (simulated - in production would use Ed25519)
-      const expectedSig = await sha256(`${receipt.leafHash}:${receipt.keyId}`);
-
-      if (expectedSig === receipt.signature) {
-        validCount++;
-      } else {
-        errors.push(`Receipt #${i + 1}: Signature mismatch`);
-      }
-    } catch (err) {
-      errors.push(`Receipt #${i + 1}: Verification error - ${err}`);
-    }
+    return parseWireBundle(data);
+  } catch {
+    return null;
   }
-
-  return {
-    valid: validCount === receipts.length,
-    validCount,
-    totalCount: receipts.length,
-    errors,
-  };
 }
 
-async function verifyChainIntegrity(
-  receipts: SignedReceipt[]
-): Promise<{ valid: boolean; errors: string[] }> {
-  const errors: string[] = [];
-  const GENESIS_HASH = '0'.repeat(64);
-
-  let expectedPreviousHash = GENESIS_HASH;
-
-  for (let i = 0; i < receipts.length; i++) {
-    const receipt = receipts[i];
+// ============================================================================
+// WIRE BUNDLES
+// ============================================================================
 
-    // Check previous hash linking
-    if (receipt.previousLeafHash !== expectedPreviousHash) {
-      errors.push(`Receipt #${i + 1}: Chain link broken - previous hash mismatch`);
-    }
+/**
+ * Parse a wire bundle, converting legacy artifacts and receipts on the way in
+ */
+function parseWireBundle(data: Record<string, unknown>): WireEvidenceBundle | null {
+  try {
+    const artifact = detectLegacyArtifactFormat(data.artifact)
+      ? convertLegacyArtifact(data.artifact as LegacyArtifact)
+      : (data.artifact as WirePolicyArtifact);
 
-    // Check sequence number
-    if (receipt.sequenceNumber !== i + 1) {
-      errors.push(`Receipt #${i + 1}: Sequence number gap (expected ${i + 1}, got ${receipt.sequenceNumber})`);
-    }
+    // Legacy receipts do not name their signer; the artifact issuer signs them
+    const receipts = (data.receipts as unknown[]).map((receipt) =>
+      detectLegacyReceiptFormat(receipt)
+        ? convertLegacyReceipt(receipt as LegacyReceipt, { signer: artifact.issuer })
+        : (receipt as WireReceipt)
+    );
 
-    // Verify leaf hash computation
-    const structuralMetadata = {
-      eventType: receipt.eventType,
-      sequenceNumber: receipt.sequenceNumber,
-      timestamp: receipt.timestamp,
-      previousLeafHash: receipt.previousLeafHash,
-      payloadHash: receipt.payloadHash,
+    return {
+      manifest: data.manifest as WireBundleManifest | undefined,
+      artifact,
+      receipts,
+      chainHead: (data.chain_head ?? data.chainHead) as ChainHead | undefined,
+      checkpoints: data.checkpoints as BundleCheckpoint[] | undefined,
+      merkleProofs: (data.merkle_proofs ?? data.merkleProofs) as MerkleProofEntry[] | undefined,
+      anchors: data.anchors as BundleAnchor[] | undefined,
+      keyring: data.keyring as Keyring | undefined,
     };
-    const computedLeafHash = await sha256(canonicalize(structuralMetadata));
-
-    if (computedLeafHash !== receipt.leafHash) {
-      errors.push(`Receipt #${i + 1}: Leaf hash mismatch`);
-    }
-
-    expectedPreviousHash = receipt.leafHash;
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
-}
-
-async function verifyMerkleProofs(
-  checkpoints: CheckpointRecord[],
-  receipts: SignedReceipt[]
-): Promise<{ valid: boolean; checkpointsVerified: number; errors: string[] }> {
-  if (checkpoints.length === 0) {
-    return { valid: true, checkpointsVerified: 0, errors: [] };
-  }
-
-  const errors: string[] = [];
-  let verified = 0;
-
-  for (const checkpoint of checkpoints) {
-    try {
-      // Get receipts in this batch
-      const batchReceipts = receipts.slice(checkpoint.batchStart - 1, checkpoint.batchEnd);
-      const batchHashes = batchReceipts.map(r => r.leafHash);
-
-      // Recompute Merkle root
-      const computedRoot = await computeMerkleRoot(batchHashes);
-
-      if (computedRoot === checkpoint.merkleRoot) {
-        verified++;
-      } else {
-        errors.push(`Checkpoint ${checkpoint.checkpointId}: Merkle root mismatch`);
-      }
-    } catch (err) {
-      errors.push(`Checkpoint ${checkpoint.checkpointId}: Verification error - ${err}`);
-    }
+  } catch {
+    return null;
   }
-
-  return {
-    valid: verified === checkpoints.length,
-    checkpointsVerified: verified,
-    errors,
-  };
 }
 
-async function computeMerkleRoot(hashes: string[]): Promise<string> {
-  const GENESIS_HASH = '0'.repeat(64);
-
-  if (hashes.length === 0) {
-    return GENESIS_HASH;
-  }
-  if (hashes.length === 1) {
-    return hashes[0];
-  }
+/**
+ * Verify a wire bundle with the offline verifier and map its checks onto steps
+ */
+async function verifyWireBundle(bundle: WireEvidenceBundle): Promise<VerificationResult> {
+  const caveats: string[] = [];
 
-  let level = [...hashes];
-  while (level.length > 1) {
-    const nextLevel: string[] = [];
-    for (let i = 0; i < level.length; i += 2) {
-      const left = level[i];
-      const right = level[i + 1] || left;
-      const combined = await sha256(left + right);
-      nextLevel.push(combined);
-    }
-    level = nextLevel;
+  // File checksums cover the bundle archive, which a JSON upload does not carry
+  const manifest = {
+    format_version: '1.0',
+    bundle_id: bundle.artifact.artifact_id,
+    payload_included: bundle.artifact.disclosure_policy.payload_included,
+    ...bundle.manifest,
+    files: [],
+  } as unknown as WireBundleManifest;
+  if (bundle.manifest?.files.length) {
+    caveats.push('File checksums were not checked; verify the bundle ZIP for full coverage.');
   }
-  return level[0];
-}
 
-function verifyAnchor(
-  manifest: BundleManifest
-): { valid: boolean; network: string; caveat?: string } {
-  if (manifest.anchor === 'SIMULATED') {
-    return {
-      valid: true,
-      network: 'SIMULATED',
-      caveat: 'Checkpoint anchor is simulated (demo mode). Production would anchor to Arweave/Ethereum.',
-    };
+  const output = await verifyWireContents(
+    {
+      manifest,
+      artifact: bundle.artifact,
+      receipts: bundle.receipts,
+      chainHead: bundle.chainHead,
+      checkpoints: bundle.checkpoints,
+      merkleProofs: bundle.merkleProofs,
+      anchors: bundle.anchors,
+      keyring: bundle.keyring,
+    },
+    new Map(),
+    { checkExpiration: false }
+  );
+  caveats.push(...output.warnings.map((w) => w.message));
+
+  const find = (name: string) => output.checks.find((c) => c.name === name);
+  const policyChecks = [find('artifact_signature'), find('policy_hash')];
+  const receiptChecks = [find('receipt_signatures')];
+  const chainChecks = [find('receipt_chain'), find('chain_head')];
+  const merkleChecks = [find('checkpoint_consistency')];
+  if (bundle.merkleProofs?.length) {
+    merkleChecks.push(find('merkle_proofs'));
   }
+  const hasCheckpoints = (bundle.checkpoints?.length ?? 0) > 0;
+  const anchorCount = bundle.anchors?.length ?? 0;
 
-  // In production, would verify actual blockchain anchor
-  return { valid: true, network: manifest.anchor };
-}
-
-// ============================================================================
-// MAIN VERIFICATION FUNCTION
-// ============================================================================
-
-export async function verifyBundle(bundle: EvidenceBundle): Promise<VerificationResult> {
   const steps: VerificationStep[] = [
-    { id: 'policy', name: 'Policy Signature', description: 'Verifying policy artifact signature', status: 'PENDING' },
-    { id: 'receipts', name: 'Receipt Signatures', description: 'Verifying all receipt signatures', status: 'PENDING' },
-    { id: 'chain', name: 'Chain Integrity', description: 'Verifying hash chain continuity', status: 'PENDING' },
-    { id: 'merkle', name: 'Merkle Proofs', description: 'Verifying checkpoint Merkle proofs', status: 'PENDING' },
-    { id: 'anchor', name: 'Checkpoint Anchor', description: 'Verifying anchor to immutable store', status: 'PENDING' },
+    wireStep('policy', 'Policy Signature', 'Verifying policy artifact signature', policyChecks, 'Policy signature verified'),
+    wireStep('receipts', 'Receipt Signatures', 'Verifying all receipt signatures', receiptChecks, `${bundle.receipts.length} receipts verified`),
+    wireStep('chain', 'Chain Integrity', 'Verifying hash chain continuity', chainChecks, 'Chain integrity verified'),
+    hasCheckpoints
+      ? wireStep('merkle', 'Merkle Proofs', 'Verifying checkpoint consistency proofs', merkleChecks, 'Checkpoints verified')
+      : { id: 'merkle', name: 'Merkle Proofs', description: 'Verifying checkpoint consistency proofs', status: 'SKIPPED', details: 'No checkpoints to verify' },
+    anchorCount > 0
+      ? wireStep('anchor', 'Checkpoint Anchor', 'Verifying anchor to immutable store', [find('anchor_proofs')], `${anchorCount} checkpoint anchor${anchorCount === 1 ? '' : 's'} verified`)
+      : { id: 'anchor', name: 'Checkpoint Anchor', description: 'Verifying anchor to immutable store', status: 'SKIPPED', details: 'No anchor in bundle' },
   ];
 
-  const errors: string[] = [];
-  const caveats: string[] = [];
-
-  // Step 1: Policy signature
-  steps[0].status = 'CHECKING';
-  const policyResult = await verifyPolicySignature(bundle.policyArtifact);
-  steps[0].status = policyResult.valid ? 'VALID' : 'INVALID';
-  steps[0].details = policyResult.valid ? 'Policy signature verified' : policyResult.error;
-  if (!policyResult.valid && policyResult.error) {
-    errors.push(policyResult.error);
-  }
-
-  // Step 2: Receipt signatures
-  steps[1].status = 'CHECKING';
-  const receiptsResult = await verifyReceiptSignatures(bundle.chain.receipts);
-  steps[1].status = receiptsResult.valid ? 'VALID' : 'INVALID';
-  steps[1].details = `${receiptsResult.validCount}/${receiptsResult.totalCount} receipts verified`;
-  errors.push(...receiptsResult.errors);
+  const errors = output.checks
+    .filter((c) => c.result === 'FAIL')
+    .map((c) => c.reason ?? `${c.name} failed`);
 
-  // Step 3: Chain integrity
-  steps[2].status = 'CHECKING';
-  const chainResult = await verifyChainIntegrity(bundle.chain.receipts);
-  steps[2].status = chainResult.valid ? 'VALID' : 'INVALID';
-  steps[2].details = chainResult.valid ? 'Chain integrity verified' : `${chainResult.errors.length} errors found`;
-  errors.push(...chainResult.errors);
-
-  // Step 4: Merkle proofs
-  steps[3].status = 'CHECKING';
-  const merkleResult = await verifyMerkleProofs(bundle.chain.checkpoints, bundle.chain.receipts);
-  if (bundle.chain.checkpoints.length === 0) {
-    steps[3].status = 'SKIPPED';
-    steps[3].details = 'No checkpoints to verify';
-  } else {
-    steps[3].status = merkleResult.valid ? 'VALID' : 'INVALID';
-    steps[3].details = `${merkleResult.checkpointsVerified}/${bundle.chain.checkpoints.length} checkpoints verified`;
-    errors.push(...merkleResult.errors);
-  }
+  const policyValid = steps[0].status === 'VALID';
+  const receiptsValid = steps[1].status === 'VALID';
+  const chainValid = steps[2].status === 'VALID';
 
-  // Step 5: Anchor verification
-  steps[4].status = 'CHECKING';
-  const anchorResult = verifyAnchor(bundle.manifest);
-  steps[4].status = anchorResult.network === 'SIMULATED' ? 'SKIPPED' : (anchorResult.valid ? 'VALID' : 'INVALID');
-  steps[4].details = `Network: ${anchorResult.network}`;
-  if (anchorResult.caveat) {
-    caveats.push(anchorResult.caveat);
-  }
-
-  // Determine verdict
-  const allCriticalValid = policyResult.valid && receiptsResult.valid && chainResult.valid;
   let verdict: VerificationVerdict;
-
-  if (!allCriticalValid) {
+  if (output.result === 'FAIL') {
     verdict = 'FAIL';
   } else if (caveats.length > 0) {
     verdict = 'PASS_WITH_CAVEATS';
   } else {
-    verdict = 'PASS';
+    verdict = output.result;
   }
 
   return {
     verdict,
     steps,
     summary: {
-      policyValid: policyResult.valid,
-      receiptsValid: receiptsResult.valid,
-      receiptsChecked: receiptsResult.validCount,
-      receiptsTotal: receiptsResult.totalCount,
-      chainValid: chainResult.valid,
-      merkleValid: merkleResult.valid || bundle.chain.checkpoints.length === 0,
-      anchorValid: anchorResult.valid,
-      anchorNetwork: anchorResult.network,
+      policyValid,
+      receiptsValid,
+      receiptsChecked: receiptsValid ? bundle.receipts.length : 0,
+      receiptsTotal: bundle.receipts.length,
+      chainValid,
+      merkleValid: steps[3].status !== 'INVALID',
+      anchorValid: steps[4].status === 'VALID',
+      anchorNetwork: anchorCount > 0 ? 'ARWEAVE' : 'NONE',
     },
     timestamp: new Date().toISOString(),
-    bundleId: bundle.manifest.bundleId,
+    bundleId: output.bundle_id,
     errors,
     caveats,
   };
 }
 
-// ============================================================================
-// PARSE BUNDLE FROM JSON
-// ============================================================================
-
-export function parseBundleJSON(json: string): EvidenceBundle | null {
-  try {
-    const data = JSON.parse(json);
-
-    // Validate required fields
-    if (!data.manifest || !data.policyArtifact || !data.chain) {
-      return null;
-    }
-
-    return {
-      manifest: data.manifest,
-      policyArtifact: data.policyArtifact,
-      chain: data.chain,
-      verifierScript: '', // Not included in JSON export
-      readme: '', // Not included in JSON export
-    };
-  } catch {
-    return null;
+function wireStep(
+  id: string,
+  name: string,
+  description: string,
+  checks: Array<VerifierCheck | undefined>,
+  passDetails: string
+): VerificationStep {
+  if (checks.some((c) => !c)) {
+    const reason = 'Verifier did not report this check';
+    return { id, name, description, status: 'INVALID', error: reason, details: reason };
+  }
+  const failed = checks.find((c) => c!.result === 'FAIL');
+  if (failed) {
+    return { id, name, description, status: 'INVALID', error: failed.reason, details: failed.reason };
   }
+  return { id, name, description, status: 'VALID', details: passDetails };
 }
@@ -1,159 +1,104 @@
 /**
  * Continuity Chain Receipts
  *
- * Real cryptographic receipts with proper linking per patent claims.
- * Uses structural metadata leaf hashing for privacy preservation.
+ * Signed receipts for the dashboard simulation, in the @attested/core wire
+ * format. Each run generates an ephemeral Ed25519 demo key that seals a
+ * policy artifact for the simulated subject and signs every receipt, so
+ * exported bundles pass the offline verifier. The key never leaves memory
+ * and is labeled as a demo key wherever it is published.
  *
  * Patent Claims: 1(e), 3, 17, 18, 19
  */
 
-import type { SimulationEvent, EventType } from '@/lib/simulation/engine';
+import type { SimulationEvent, SimulationRun, EventType } from '@/lib/simulation/engine';
+import type { EnforcementAction as SimulationAction } from '@/components/artifact/RuntimeSettings';
+import {
+  buildMerkleTree,
+  canonicalize,
+  createGenesisReceipt,
+  createPolicyArtifact,
+  createReceipt,
+  generateConsistencyProof,
+  generateKeyPair,
+  sha256String,
+  updateChainHead,
+  type BundleCheckpoint,
+  type ChainHead,
+  type EnforcementAction,
+  type EnforcementDecision,
+  type PolicyArtifact,
+  type ReasonCode,
+  type Receipt,
+  type ReceiptEventType,
+} from '@attested/core';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface SignedReceipt {
-  schemaVersion: '1.0';
-  protocolVersion: '1.0.0';
-  receiptId: string;
-  eventType: EventType;
-  eventId: string;
-  sequenceNumber: number;
-  timestamp: string;
-  runId: string;
-  artifactId: string;
-  previousLeafHash: string;
-  payload: {
-    state: string;
-    description: string;
-    measurementType?: string;
-    currentHash?: string;
-    expectedHash?: string;
-    enforcementAction?: string;
-    mismatchedPaths?: string[];
-    reason?: string;
-  };
-  payloadHash: string;
-  leafHash: string;
-  signature: string;
-  keyId: string;
-}
-
-export interface ChainHead {
-  chainVersion: '1.0';
-  runId: string;
-  artifactId: string;
-  receiptCount: number;
-  headSequenceNumber: number;
-  headLeafHash: string;
-  headReceiptId: string;
-  createdAt: string;
-}
-
 export interface ReceiptChain {
+  artifact: PolicyArtifact;
   head: ChainHead;
-  receipts: SignedReceipt[];
-  checkpoints: CheckpointRecord[];
+  receipts: Receipt[];
+  checkpoints: BundleCheckpoint[];
 }
 
-export interface CheckpointRecord {
-  checkpointId: string;
-  runId: string;
-  merkleRoot: string;
-  batchStart: number;
-  batchEnd: number;
-  timestamp: string;
-  anchorNetwork: 'SIMULATED' | 'ARWEAVE' | 'ETHEREUM';
-  transactionId: string;
-}
+type KeyPair = Awaited<ReturnType<typeof generateKeyPair>>;
 
 // ============================================================================
-// GENESIS HASH
+// CONSTANTS
 // ============================================================================
 
-const GENESIS_HASH = '0'.repeat(64);
+/** Simulated runs belong to no vault */
+const DEMO_VAULT_ID = '0000-00000-0000';
+
+const EVENT_TYPES: Record<EventType, ReceiptEventType> = {
+  RUN_STARTED: 'RUN_STARTED',
+  ARTIFACT_VERIFIED: 'MEASUREMENT_OK',
+  MEASUREMENT_OK: 'MEASUREMENT_OK',
+  DRIFT_DETECTED: 'DRIFT_DETECTED',
+  ENFORCEMENT_ACTION: 'ENFORCEMENT_ACTION',
+  QUARANTINE_START: 'ENFORCEMENT_ACTION',
+  NETWORK_SEVERED: 'ENFORCEMENT_ACTION',
+  SAFE_STATE_ENTERED: 'ENFORCEMENT_ACTION',
+  TERMINATED: 'ENFORCEMENT_ACTION',
+  RUN_ENDED: 'RUN_ENDED',
+  CHECKPOINT: 'CHECKPOINT',
+};
+
+const DECISIONS: Record<SimulationAction, EnforcementDecision> = {
+  TERMINATE: 'KILL',
+  QUARANTINE: 'QUARANTINE',
+  NETWORK_ISOLATION: 'QUARANTINE',
+  SAFE_STATE: 'QUARANTINE',
+  ALERT: 'CONTINUE',
+};
 
 // ============================================================================
-// HASH FUNCTIONS
+// EVENT MAPPING
 // ============================================================================
 
-async function sha256(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const buffer = await crypto.subtle.digest('SHA-256', encoder.encode(data));
-  const hashArray = Array.from(new Uint8Array(buffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-function canonicalize(obj: Record<string, unknown>): string {
-  // Simple canonical JSON (sorted keys, no whitespace)
-  const sortedKeys = Object.keys(obj).sort();
-  const sorted: Record<string, unknown> = {};
-  for (const key of sortedKeys) {
-    sorted[key] = obj[key];
-  }
-  return JSON.stringify(sorted);
+function policyAction(action: SimulationAction): EnforcementAction {
+  return action === 'ALERT' ? 'ALERT' : 'KILL';
 }
 
-// ============================================================================
-// RECEIPT GENERATION
-// ============================================================================
-
-export async function createReceipt(
-  event: SimulationEvent,
-  runId: string,
-  artifactId: string,
-  previousLeafHash: string,
-  keyId: string
-): Promise<SignedReceipt> {
-  const payload: SignedReceipt['payload'] = {
-    state: event.state,
-    description: event.description,
-    measurementType: event.data.measurementType,
-    currentHash: event.data.currentHash,
-    expectedHash: event.data.expectedHash,
-    enforcementAction: event.data.enforcementAction,
-    mismatchedPaths: event.data.mismatchedPaths,
-    reason: event.data.reason,
-  };
-
-  // Compute payload hash
-  const payloadHash = await sha256(canonicalize(payload as unknown as Record<string, unknown>));
+function decisionFor(event: SimulationEvent): { action: EnforcementDecision; reasonCode: ReasonCode; details: string } {
+  const eventType = EVENT_TYPES[event.type];
+  const drifted = eventType === 'DRIFT_DETECTED' || eventType === 'ENFORCEMENT_ACTION';
 
-  // Compute leaf hash from structural metadata (privacy-preserving per patent)
-  const structuralMetadata = {
-    eventType: event.type,
-    sequenceNumber: event.sequenceNumber,
-    timestamp: event.timestamp,
-    previousLeafHash,
-    payloadHash,
-  };
-  const leafHash = await sha256(canonicalize(structuralMetadata));
-
-  // Generate receipt ID
-  const receiptId = await sha256(`${runId}:${event.sequenceNumber}:${event.timestamp}`);
+  let action: EnforcementDecision = 'NONE';
+  if (event.type === 'TERMINATED') {
+    action = 'KILL';
+  } else if (event.data.enforcementAction) {
+    action = DECISIONS[event.data.enforcementAction];
+  }
 
-  // Simulate signature (in production, this would be Ed25519)
-  const signatureInput = `${leafHash}:${keyId}`;
-  const signature = await sha256(signatureInput);
+  let reasonCode: ReasonCode = 'OK';
+  if (drifted) {
+    reasonCode = event.data.mismatchedPaths?.length ? 'HASH_MISMATCH_FILE' : 'DRIFT_INTEGRITY';
+  }
 
-  return {
-    schemaVersion: '1.0',
-    protocolVersion: '1.0.0',
-    receiptId: receiptId.substring(0, 32),
-    eventType: event.type,
-    eventId: event.id,
-    sequenceNumber: event.sequenceNumber,
-    timestamp: event.timestamp,
-    runId,
-    artifactId,
-    previousLeafHash,
-    payload,
-    payloadHash,
-    leafHash,
-    signature,
-    keyId,
-  };
+  return { action, reasonCode, details: event.data.reason ?? event.description };
 }
 
 // ============================================================================
@@ -161,162 +106,123 @@ export async function createReceipt(
 // ============================================================================
 
 export class ReceiptChainManager {
-  private receipts: SignedReceipt[] = [];
-  private checkpoints: CheckpointRecord[] = [];
-  private runId: string;
-  private artifactId: string;
-  private keyId: string;
-  private lastLeafHash: string = GENESIS_HASH;
-
-  constructor(runId: string, artifactId: string, keyId: string) {
-    this.runId = runId;
-    this.artifactId = artifactId;
-    this.keyId = keyId;
+  private receipts: Receipt[];
+  private checkpoints: BundleCheckpoint[] = [];
+  private head: ChainHead;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private readonly key: KeyPair,
+    private readonly artifact: PolicyArtifact,
+    genesis: { receipt: Receipt; chainHead: ChainHead }
+  ) {
+    this.receipts = [genesis.receipt];
+    this.head = genesis.chainHead;
   }
 
-  async appendEvent(event: SimulationEvent): Promise<SignedReceipt> {
-    const receipt = await createReceipt(
-      event,
-      this.runId,
-      this.artifactId,
-      this.lastLeafHash,
-      this.keyId
+  /**
+   * Seal the run's policy artifact and genesis receipt with a fresh demo key
+   */
+  static async create(run: SimulationRun): Promise<ReceiptChainManager> {
+    const key = await generateKeyPair();
+    const artifact = await createPolicyArtifact({
+      vaultId: DEMO_VAULT_ID,
+      privateKey: key.privateKey,
+      publicKey: key.publicKey,
+      input: {
+        bytesHash: await sha256String(run.artifactId),
+        metadataHash: await sha256String(canonicalize(run.config)),
+        name: run.artifactName,
+        measurementCadenceMs: run.config.measurementCadenceMs,
+        ttlSeconds: run.config.ttlSeconds,
+        enforcementAction: policyAction(run.config.enforcementAction),
+      },
+    });
+    const genesis = await createGenesisReceipt(
+      {
+        artifactId: artifact.artifact_id,
+        policyHash: artifact.policy_hash,
+        sealedHash: artifact.sealed_hash,
+        vaultId: artifact.vault_id,
+      },
+      key.privateKey,
+      key.publicKey
     );
 
-    this.receipts.push(receipt);
-    this.lastLeafHash = receipt.leafHash;
-
-    return receipt;
+    return new ReceiptChainManager(key, artifact, genesis);
   }
 
-  async createCheckpoint(): Promise<CheckpointRecord> {
-    const batchStart = this.checkpoints.length > 0
-      ? this.checkpoints[this.checkpoints.length - 1].batchEnd + 1
-      : 1;
-    const batchEnd = this.receipts.length;
+  /**
+   * Sign a receipt for `event`. Appends run one at a time so concurrent
+   * events cannot fork the chain.
+   */
+  appendEvent(event: SimulationEvent): Promise<Receipt> {
+    const next = this.pending.then(() => this.append(event));
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
 
-    // Compute Merkle root over batch leaf hashes
-    const batchHashes = this.receipts
-      .slice(batchStart - 1, batchEnd)
-      .map(r => r.leafHash);
+  /**
+   * Checkpoint every receipt so far, with a consistency proof against the
+   * previous checkpoint. Checkpoints are not anchored anywhere.
+   */
+  async createCheckpoint(): Promise<BundleCheckpoint> {
+    await this.pending;
 
-    const merkleRoot = await this.computeMerkleRoot(batchHashes);
+    const previous = this.checkpoints[this.checkpoints.length - 1];
+    if (previous?.tree_size === this.receipts.length) {
+      return previous;
+    }
 
-    const checkpoint: CheckpointRecord = {
-      checkpointId: `cp_${Date.now().toString(36)}`,
-      runId: this.runId,
-      merkleRoot,
-      batchStart,
-      batchEnd,
-      timestamp: new Date().toISOString(),
-      anchorNetwork: 'SIMULATED',
-      transactionId: `sim_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`,
+    const tree = buildMerkleTree(this.receipts.map((r) => r.chain.this_receipt_hash));
+    const checkpoint: BundleCheckpoint = {
+      checkpoint_id: `cp_${this.head.run_id}_${tree.size}`,
+      tree_size: tree.size,
+      log_root: tree.root,
+      consistency_proof: previous ? generateConsistencyProof(tree, previous.tree_size) : null,
     };
 
     this.checkpoints.push(checkpoint);
     return checkpoint;
   }
 
-  private async computeMerkleRoot(hashes: string[]): Promise<string> {
-    if (hashes.length === 0) {
-      return GENESIS_HASH;
-    }
-    if (hashes.length === 1) {
-      return hashes[0];
-    }
-
-    // Simple Merkle tree construction
-    let level = [...hashes];
-    while (level.length > 1) {
-      const nextLevel: string[] = [];
-      for (let i = 0; i < level.length; i += 2) {
-        const left = level[i];
-        const right = level[i + 1] || left; // Duplicate last if odd
-        const combined = await sha256(left + right);
-        nextLevel.push(combined);
-      }
-      level = nextLevel;
-    }
-    return level[0];
-  }
-
   getChain(): ReceiptChain {
-    const lastReceipt = this.receipts[this.receipts.length - 1];
-
     return {
-      head: {
-        chainVersion: '1.0',
-        runId: this.runId,
-        artifactId: this.artifactId,
-        receiptCount: this.receipts.length,
-        headSequenceNumber: lastReceipt?.sequenceNumber || 0,
-        headLeafHash: lastReceipt?.leafHash || GENESIS_HASH,
-        headReceiptId: lastReceipt?.receiptId || '',
-        createdAt: new Date().toISOString(),
-      },
-      receipts: this.receipts,
-      checkpoints: this.checkpoints,
+      artifact: this.artifact,
+      head: this.head,
+      receipts: [...this.receipts],
+      checkpoints: [...this.checkpoints],
     };
   }
 
-  getReceipts(): SignedReceipt[] {
-    return this.receipts;
+  getReceipts(): Receipt[] {
+    return [...this.receipts];
   }
 
-  getCheckpoints(): CheckpointRecord[] {
-    return this.checkpoints;
+  getCheckpoints(): BundleCheckpoint[] {
+    return [...this.checkpoints];
   }
-}
-
-// ============================================================================
-// VERIFICATION
-// ============================================================================
-
-export async function verifyChainIntegrity(chain: ReceiptChain): Promise<{
-  valid: boolean;
-  errors: string[];
-}> {
-  const errors: string[] = [];
 
-  // Verify chain linking
-  let expectedPreviousHash = GENESIS_HASH;
-  for (let i = 0; i < chain.receipts.length; i++) {
-    const receipt = chain.receipts[i];
+  private async append(event: SimulationEvent): Promise<Receipt> {
+    const receipt = await createReceipt({
+      runId: this.head.run_id,
+      sequenceNumber: this.head.head_counter + 1,
+      eventType: EVENT_TYPES[event.type],
+      policyId: this.artifact.policy_hash,
+      decision: decisionFor(event),
+      ...(event.data.currentHash && {
+        measurement: {
+          compositeHash: event.data.currentHash,
+          mismatchedPaths: event.data.mismatchedPaths ?? [],
+        },
+      }),
+      prevReceiptHash: this.head.head_receipt_hash,
+      privateKey: this.key.privateKey,
+      publicKey: this.key.publicKey,
+    });
 
-    // Check previous hash linking
-    if (receipt.previousLeafHash !== expectedPreviousHash) {
-      errors.push(`Receipt ${i + 1}: Previous hash mismatch`);
-    }
-
-    // Check sequence number
-    if (receipt.sequenceNumber !== i + 1) {
-      errors.push(`Receipt ${i + 1}: Sequence number gap`);
-    }
-
-    // Verify leaf hash computation
-    const structuralMetadata = {
-      eventType: receipt.eventType,
-      sequenceNumber: receipt.sequenceNumber,
-      timestamp: receipt.timestamp,
-      previousLeafHash: receipt.previousLeafHash,
-      payloadHash: receipt.payloadHash,
-    };
-    const computedLeafHash = await sha256(canonicalize(structuralMetadata));
-    if (computedLeafHash !== receipt.leafHash) {
-      errors.push(`Receipt ${i + 1}: Leaf hash mismatch`);
-    }
-
-    expectedPreviousHash = receipt.leafHash;
-  }
-
-  // Verify head matches
-  const lastReceipt = chain.receipts[chain.receipts.length - 1];
-  if (lastReceipt && chain.head.headLeafHash !== lastReceipt.leafHash) {
-    errors.push('Chain head does not match last receipt');
+    this.receipts.push(receipt);
+    this.head = updateChainHead(this.head, receipt);
+    return receipt;
   }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
 }
@@ -0,0 +1,86 @@
+/**
+ * Envelope Encryption for Signing Keys
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * Each signing key is encrypted under its own random data key, and the
+ * data key is wrapped by the KEK provider. The ciphertext is bound to the
+ * key id, so a row's encrypted key cannot be swapped onto another row.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { KekProvider } from './kek';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SealedPrivateKey {
+  encryptedPrivateKey: string; // Base64 iv || ciphertext || tag
+  wrappedDataKey: string;
+  kekId: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DATA_KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function keyAad(keyId: string): Buffer {
+  return Buffer.from(`ai.custody.v1:${keyId}`);
+}
+
+// ============================================================================
+// SEAL / OPEN
+// ============================================================================
+
+/**
+ * Encrypt a private key under a fresh data key wrapped by the KEK
+ */
+export async function sealPrivateKey(
+  privateKey: Uint8Array,
+  keyId: string,
+  kek: KekProvider
+): Promise<SealedPrivateKey> {
+  const dataKey = randomBytes(DATA_KEY_BYTES);
+  try {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+    cipher.setAAD(keyAad(keyId));
+    const ciphertext = Buffer.concat([cipher.update(privateKey), cipher.final(), cipher.getAuthTag()]);
+    const { wrapped, kekId } = await kek.wrapDataKey(dataKey);
+
+    return {
+      encryptedPrivateKey: Buffer.concat([iv, ciphertext]).toString('base64'),
+      wrappedDataKey: wrapped,
+      kekId,
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a sealed private key. Callers wipe the result after use.
+ */
+export async function openPrivateKey(
+  sealed: SealedPrivateKey,
+  keyId: string,
+  kek: KekProvider
+): Promise<Uint8Array> {
+  const dataKey = await kek.unwrapDataKey({ wrapped: sealed.wrappedDataKey, kekId: sealed.kekId });
+  try {
+    const bytes = Buffer.from(sealed.encryptedPrivateKey, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', dataKey, bytes.subarray(0, IV_BYTES));
+    decipher.setAAD(keyAad(keyId));
+    decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+
+    return new Uint8Array(
+      Buffer.concat([decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)), decipher.final()])
+    );
+  } finally {
+    dataKey.fill(0);
+  }
+}
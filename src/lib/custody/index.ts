@@ -0,0 +1,20 @@
+/**
+ * Key Custody Module
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * Exports server-side key custody.
+ */
+
+export {
+  createCustodialKey,
+  withCustodialKey,
+  rotateCustodialKey,
+  setKekProvider,
+} from './keys';
+export type { CustodialKey, KeyAccess, KeyUsePurpose, UnlockedKey } from './keys';
+
+export { LocalFileKekProvider, createKekProvider } from './kek';
+export type { KekProvider, LocalFileKekOptions, WrappedDataKey } from './kek';
+
+export { sealPrivateKey, openPrivateKey } from './envelope';
+export type { SealedPrivateKey } from './envelope';
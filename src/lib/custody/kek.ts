@@ -0,0 +1,140 @@
+/**
+ * Key-Encryption-Key Providers
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * A KEK provider wraps and unwraps per-key data keys; it never sees signing
+ * keys themselves. The local provider keeps a 256-bit KEK in a file on the
+ * server. HSM and KMS backends implement the same interface, wrapping data
+ * keys inside the device so the KEK never leaves it.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WrappedDataKey {
+  wrapped: string;             // Base64, opaque to callers
+  kekId: string;               // Which KEK wrapped it
+}
+
+export interface KekProvider {
+  wrapDataKey(dataKey: Uint8Array): Promise<WrappedDataKey>;
+  unwrapDataKey(wrapped: WrappedDataKey): Promise<Uint8Array>;
+}
+
+export interface LocalFileKekOptions {
+  path: string;
+  create?: boolean;            // Generate the KEK file if it does not exist
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const KEK_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** Binds wrapped data keys to this scheme */
+const WRAP_AAD = Buffer.from('ai.custody.kek.v1');
+
+// ============================================================================
+// LOCAL FILE PROVIDER
+// ============================================================================
+
+/**
+ * AES-256-GCM key wrapping under a KEK read from a file (base64, 32 bytes)
+ */
+export class LocalFileKekProvider implements KekProvider {
+  private kek: Promise<{ key: Buffer; kekId: string }> | null = null;
+
+  constructor(private options: LocalFileKekOptions) {}
+
+  async wrapDataKey(dataKey: Uint8Array): Promise<WrappedDataKey> {
+    const { key, kekId } = await this.load();
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(WRAP_AAD);
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]);
+
+    return { wrapped: Buffer.concat([iv, ciphertext]).toString('base64'), kekId };
+  }
+
+  async unwrapDataKey({ wrapped, kekId }: WrappedDataKey): Promise<Uint8Array> {
+    const kek = await this.load();
+    if (kekId !== kek.kekId) {
+      throw new Error(`Data key was wrapped by KEK ${kekId}, not ${kek.kekId}`);
+    }
+
+    const bytes = Buffer.from(wrapped, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', kek.key, bytes.subarray(0, IV_BYTES));
+    decipher.setAAD(WRAP_AAD);
+    decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+
+    return new Uint8Array(
+      Buffer.concat([decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)), decipher.final()])
+    );
+  }
+
+  private load(): Promise<{ key: Buffer; kekId: string }> {
+    this.kek ??= this.readKek().catch((error) => {
+      this.kek = null;
+      throw error;
+    });
+    return this.kek;
+  }
+
+  private async readKek(): Promise<{ key: Buffer; kekId: string }> {
+    let encoded: string;
+    try {
+      encoded = await readFile(this.options.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || !this.options.create) {
+        throw new Error(`KEK file ${this.options.path} is not readable`);
+      }
+      encoded = randomBytes(KEK_BYTES).toString('base64');
+      await mkdir(dirname(this.options.path), { recursive: true });
+      try {
+        // wx: never replace a KEK another process created meanwhile
+        await writeFile(this.options.path, `${encoded}\n`, { mode: 0o600, flag: 'wx' });
+      } catch (writeError) {
+        if ((writeError as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw writeError;
+        }
+        encoded = await readFile(this.options.path, 'utf8');
+      }
+    }
+
+    const key = Buffer.from(encoded.trim(), 'base64');
+    if (key.length !== KEK_BYTES) {
+      throw new Error(`KEK file ${this.options.path} must hold ${KEK_BYTES} base64-encoded bytes`);
+    }
+
+    return { key, kekId: `local-${createHash('sha256').update(key).digest('hex').substring(0, 16)}` };
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Provider named by KEY_CUSTODY_KEK_PROVIDER (default: local)
+ */
+export function createKekProvider(env: NodeJS.ProcessEnv = process.env): KekProvider {
+  const provider = env.KEY_CUSTODY_KEK_PROVIDER ?? 'local';
+
+  switch (provider) {
+    case 'local':
+      return new LocalFileKekProvider({
+        path: env.KEY_CUSTODY_KEK_PATH ?? '.keys/kek.key',
+        create: env.NODE_ENV !== 'production',
+      });
+    default:
+      throw new Error(`Unsupported KEK provider: ${provider}`);
+  }
+}
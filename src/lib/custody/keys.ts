@@ -0,0 +1,192 @@
+/**
+ * Server-Side Key Custody
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * Signing keys are generated on the server and stored envelope-encrypted
+ * on their signing_keys row. Private keys are only ever decrypted inside
+ * withCustodialKey, which writes a key_access_logs entry first and wipes
+ * the key when the callback settles; nothing here returns key material.
+ */
+
+import type { KeyClass, SigningKey } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import {
+  bytesToBase64,
+  createKeyRotation,
+  generateKeyIdHash,
+  generateKeyPair,
+  type KeyScheduleEntry,
+} from '@attested/core';
+import { createKekProvider, type KekProvider } from './kek';
+import { openPrivateKey, sealPrivateKey } from './envelope';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KeyUsePurpose = 'SEAL' | 'SIGN_RECEIPT' | 'ROTATE';
+
+export interface KeyAccess {
+  userId: string;
+  purpose: KeyUsePurpose;
+}
+
+/** Public view of a custodial key */
+export interface CustodialKey {
+  keyId: string;
+  publicKeyB64: string;
+  keyClass: KeyClass;
+  createdAt: Date;
+}
+
+export interface UnlockedKey {
+  keyId: string;
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let kekProvider: KekProvider | null = null;
+
+function kek(): KekProvider {
+  kekProvider ??= createKekProvider();
+  return kekProvider;
+}
+
+/**
+ * Replace the KEK provider (HSM/KMS backends, tests)
+ */
+export function setKekProvider(provider: KekProvider): void {
+  kekProvider = provider;
+}
+
+function toCustodialKey(key: SigningKey): CustodialKey {
+  return { keyId: key.id, publicKeyB64: key.publicKeyB64, keyClass: key.keyClass, createdAt: key.createdAt };
+}
+
+// ============================================================================
+// KEY LIFECYCLE
+// ============================================================================
+
+/**
+ * Generate a signing key and store it envelope-encrypted
+ */
+export async function createCustodialKey(userId: string, keyClass: KeyClass): Promise<CustodialKey> {
+  const { privateKey, publicKey } = await generateKeyPair();
+  try {
+    const keyId = await generateKeyIdHash(publicKey);
+    const sealed = await sealPrivateKey(privateKey, keyId, kek());
+
+    const key = await prisma.signingKey.create({
+      data: {
+        id: keyId,
+        userId,
+        publicKeyB64: bytesToBase64(publicKey),
+        keyClass,
+        ...sealed,
+      },
+    });
+    return toCustodialKey(key);
+  } finally {
+    privateKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a key for the duration of `use`. Every decrypt is audited before
+ * it happens; revoked keys and keys without custody are refused.
+ */
+export async function withCustodialKey<T>(
+  keyId: string,
+  access: KeyAccess,
+  use: (key: UnlockedKey) => Promise<T>
+): Promise<T> {
+  const key = await prisma.signingKey.findFirst({ where: { id: keyId, userId: access.userId } });
+  if (!key) {
+    throw new Error(`Signing key ${keyId} not found`);
+  }
+  if (key.revokedAt) {
+    throw new Error(`Signing key ${keyId} was revoked at ${key.revokedAt.toISOString()}`);
+  }
+  if (!key.encryptedPrivateKey || !key.wrappedDataKey || !key.kekId) {
+    throw new Error(`Signing key ${keyId} is not held in custody`);
+  }
+
+  await prisma.keyAccessLog.create({
+    data: { signingKeyId: key.id, userId: access.userId, purpose: access.purpose, kekId: key.kekId },
+  });
+
+  const privateKey = await openPrivateKey(
+    { encryptedPrivateKey: key.encryptedPrivateKey, wrappedDataKey: key.wrappedDataKey, kekId: key.kekId },
+    key.id,
+    kek()
+  );
+  try {
+    return await use({
+      keyId: key.id,
+      privateKey,
+      publicKey: new Uint8Array(Buffer.from(key.publicKeyB64, 'base64')),
+    });
+  } finally {
+    privateKey.fill(0);
+  }
+}
+
+/**
+ * Rotate a custodial key: the successor is generated and sealed here, both
+ * keys sign the rotation statement, and the predecessor is revoked with
+ * `reason`. Resolves to null when the key was rotated concurrently.
+ */
+export async function rotateCustodialKey(
+  keyId: string,
+  userId: string,
+  reason: string
+): Promise<{ key: CustodialKey; entry: KeyScheduleEntry } | null> {
+  return withCustodialKey(keyId, { userId, purpose: 'ROTATE' }, async (previous) => {
+    const { privateKey, publicKey } = await generateKeyPair();
+    try {
+      const entry = await createKeyRotation({
+        previousPrivateKey: previous.privateKey,
+        previousPublicKey: previous.publicKey,
+        privateKey,
+        publicKey,
+        reason,
+      });
+      const rotation = entry.rotation!;
+      const rotatedAt = new Date(rotation.rotated_at);
+      const sealed = await sealPrivateKey(privateKey, entry.key_id, kek());
+
+      return prisma.$transaction(async (tx) => {
+        const revoked = await tx.signingKey.updateMany({
+          where: { id: previous.keyId, revokedAt: null },
+          data: { revokedAt: rotatedAt, revocationReason: reason },
+        });
+        if (revoked.count !== 1) {
+          return null;
+        }
+
+        const current = await tx.signingKey.findUniqueOrThrow({ where: { id: previous.keyId } });
+        const key = await tx.signingKey.create({
+          data: {
+            id: entry.key_id,
+            userId,
+            publicKeyB64: entry.public_key,
+            keyClass: current.keyClass,
+            createdAt: rotatedAt,
+            previousKeyId: previous.keyId,
+            rotatedAt,
+            rotationSignatureB64: rotation.signature,
+            successorSignatureB64: rotation.successor_signature,
+            ...sealed,
+          },
+        });
+        return { key: toCustodialKey(key), entry };
+      });
+    } finally {
+      privateKey.fill(0);
+    }
+  });
+}
@@ -256,6 +256,22 @@ export function createArtifactExpiringAlert(
   };
 }
 
+export function createArtifactRevokedAlert(
+  artifactId: string,
+  displayName: string,
+  reasonCode: string
+): Omit<Alert, 'id' | 'userId' | 'read' | 'dismissed' | 'createdAt'> {
+  return {
+    type: 'warning',
+    category: 'artifact',
+    title: 'Artifact Revoked',
+    message: `"${displayName}" has been revoked (${reasonCode}).`,
+    artifactId,
+    actionUrl: `/vault/${artifactId}`,
+    actionLabel: 'View Artifact',
+  };
+}
+
 export function createVerificationFailedAlert(
   artifactId: string,
   displayName: string,
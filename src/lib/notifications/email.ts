@@ -158,6 +158,24 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send artifact revoked notification
+   */
+  async sendArtifactRevoked(
+    email: string,
+    artifactId: string,
+    displayName: string,
+    reasonCode: string,
+    revokedAt: string
+  ): Promise<EmailResult> {
+    return this.send({
+      template: 'artifact_revoked',
+      to: { email },
+      subject: `${TEMPLATE_SUBJECTS.artifact_revoked}: ${displayName}`,
+      variables: { artifactId, displayName, reasonCode, revokedAt },
+    });
+  }
+
   /**
    * Send magic link for passwordless login
    */
@@ -253,6 +271,9 @@ export class EmailService {
           <p>An artifact in your vault has been revoked.</p>
           <p><strong>Name:</strong> ${variables.displayName}</p>
           <p><strong>Artifact ID:</strong> <span class="code">${variables.artifactId}</span></p>
+          <p><strong>Reason:</strong> <span class="code">${variables.reasonCode}</span></p>
+          <p><strong>Revoked at:</strong> ${variables.revokedAt}</p>
+          <p>Verifiers will now report this artifact as REVOKED.</p>
         </div>
       `,
       attestation_requested: `
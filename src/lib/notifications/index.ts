@@ -13,6 +13,7 @@ export {
   alertManager,
   createArtifactSealedAlert,
   createArtifactExpiringAlert,
+  createArtifactRevokedAlert,
   createVerificationFailedAlert,
   createAttestationReceivedAlert,
   createSecurityAlert,
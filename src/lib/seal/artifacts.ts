@@ -0,0 +1,337 @@
+/**
+ * Seal Documents
+ * Per AGA Build Guide - Core Cryptographic Flow
+ *
+ * Signs the policy artifact and genesis receipt for a seal with the user's
+ * custodial issuer key, and stores them. Shared by the seal route and by
+ * supersession, which re-seals an artifact as its next version.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { Artifact, ArtifactStatus, Prisma, SigningKey } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { createCustodialKey, withCustodialKey } from '@/lib/custody';
+import {
+  canonicalize,
+  computeSealedHash,
+  createGenesisReceipt,
+  createPolicyArtifact,
+  sha256String,
+  validateApprovalQuorum,
+  type ApprovalQuorum,
+  type ChainHead,
+  type EnforcementAction,
+  type KeyScheduleEntry,
+  type PolicyArtifact,
+  type Receipt,
+} from '@attested/core';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SealSubject {
+  bytesHash: string;
+  metadataHash: string;
+  sealedHash: string;
+}
+
+export interface SealSettings {
+  measurementCadenceMs: number;
+  ttlSeconds?: number;
+  enforcementAction: EnforcementAction;
+  payloadIncluded: boolean;
+  approvalQuorum?: ApprovalQuorum;  // Artifact stays DRAFT until met
+}
+
+/** What the issuer key signs */
+export interface SealDraft {
+  vaultId: string;
+  name: string;
+  description?: string;
+  subject: SealSubject;
+  settings: SealSettings;
+  policyVersion: number;
+  previousArtifact?: { artifactId: string; policyHash: string };
+}
+
+export interface SignedSeal {
+  policyArtifact: PolicyArtifact;
+  genesisReceipt: Receipt;
+  chainHead: ChainHead;
+}
+
+export interface SealRecord {
+  userId: string;
+  name: string;
+  description: string | null;
+  settings: SealSettings;
+  status: ArtifactStatus;
+  signingKeyId: string;
+  seal: SignedSeal;
+  policyId?: string | null;
+  previousArtifactId?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ENFORCEMENT_ACTIONS: EnforcementAction[] = ['ALERT', 'KILL', 'BLOCK_START'];
+
+// ============================================================================
+// IDENTIFIERS
+// ============================================================================
+
+export function generateRunId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * First problem with a seal's name, subject hashes, enforcement action or
+ * quorum, if any. The sealed hash must be the one the artifact will carry.
+ */
+export async function validateSeal(
+  name: string | undefined,
+  subject: Partial<SealSubject>,
+  settings?: Partial<SealSettings>
+): Promise<string | null> {
+  if (!name?.trim()) {
+    return 'Name is required';
+  }
+  if (!subject.bytesHash || subject.bytesHash.length !== 64) {
+    return 'Invalid bytes hash';
+  }
+  if (!subject.metadataHash || subject.metadataHash.length !== 64) {
+    return 'Invalid metadata hash';
+  }
+  if (!subject.sealedHash || subject.sealedHash.length !== 64) {
+    return 'Invalid sealed hash';
+  }
+  if (subject.sealedHash !== await computeSealedHash(subject.bytesHash, subject.metadataHash)) {
+    return 'Sealed hash does not match bytes hash and metadata hash';
+  }
+
+  if (!settings?.enforcementAction || !ENFORCEMENT_ACTIONS.includes(settings.enforcementAction)) {
+    return 'Invalid enforcement action';
+  }
+
+  if (settings?.approvalQuorum) {
+    const quorumErrors = validateApprovalQuorum(settings.approvalQuorum);
+    if (quorumErrors.length > 0) {
+      return quorumErrors.join('; ');
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// ISSUER KEY
+// ============================================================================
+
+/**
+ * The user's newest unrevoked policy issuer key held in custody, generated
+ * on first use. Issuer keys registered before custody kept only the public
+ * key and cannot sign, so a user who has only those gets a new one.
+ */
+export async function findOrCreateIssuerKey(userId: string): Promise<SigningKey> {
+  const existing = await prisma.signingKey.findFirst({
+    where: { userId, keyClass: 'POLICY_ISSUER', revokedAt: null, encryptedPrivateKey: { not: null } },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  // The private key never leaves the server
+  const created = await createCustodialKey(userId, 'POLICY_ISSUER');
+  return prisma.signingKey.findUniqueOrThrow({ where: { id: created.keyId } });
+}
+
+
+/**
+ * The issuer key's history, oldest first: each predecessor is followed back
+ * through its successor's rotation statement
+ */
+export async function loadKeySchedule(signingKey: SigningKey): Promise<KeyScheduleEntry[]> {
+  const schedule: KeyScheduleEntry[] = [];
+  let current: SigningKey | null = signingKey;
+
+  while (current) {
+    const previous: SigningKey | null = current.previousKeyId
+      ? await prisma.signingKey.findUnique({ where: { id: current.previousKeyId } })
+      : null;
+
+    schedule.unshift({
+      key_id: current.id,
+      public_key: current.publicKeyB64,
+      created_at: current.createdAt.toISOString(),
+      ...(current.revokedAt && { revoked_at: current.revokedAt.toISOString() }),
+      ...(current.revocationReason && { revocation_reason: current.revocationReason }),
+      ...(previous && current.rotatedAt && current.rotationSignatureB64 && current.successorSignatureB64 && {
+        rotation: {
+          previous_key_id: previous.id,
+          previous_public_key: previous.publicKeyB64,
+          rotated_at: current.rotatedAt.toISOString(),
+          reason: previous.revocationReason ?? '',
+          signature: current.rotationSignatureB64,
+          successor_signature: current.successorSignatureB64,
+        },
+      }),
+    });
+
+    current = previous;
+  }
+
+  return schedule;
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Sign the policy artifact and its genesis receipt with the custodial issuer
+ * key. The key is decrypted once, for both signatures.
+ */
+export async function signSeal(userId: string, signingKey: SigningKey, draft: SealDraft): Promise<SignedSeal> {
+  const keySchedule = await loadKeySchedule(signingKey);
+
+  return withCustodialKey(signingKey.id, { userId, purpose: 'SEAL' }, async (key) => {
+    const policyArtifact = await createPolicyArtifact({
+      vaultId: draft.vaultId,
+      privateKey: key.privateKey,
+      publicKey: key.publicKey,
+      input: {
+        bytesHash: draft.subject.bytesHash,
+        metadataHash: draft.subject.metadataHash,
+        name: draft.name,
+        description: draft.description,
+        measurementCadenceMs: draft.settings.measurementCadenceMs,
+        ttlSeconds: draft.settings.ttlSeconds || null,
+        enforcementAction: draft.settings.enforcementAction,
+        payloadIncluded: draft.settings.payloadIncluded,
+        approvalQuorum: draft.settings.approvalQuorum,
+      },
+      previousArtifact: draft.previousArtifact,
+      policyVersion: draft.policyVersion,
+      keySchedule,
+    });
+
+    const { receipt, chainHead } = await createGenesisReceipt(
+      {
+        artifactId: policyArtifact.artifact_id,
+        policyHash: policyArtifact.policy_hash,
+        sealedHash: policyArtifact.sealed_hash,
+        vaultId: policyArtifact.vault_id,
+      },
+      key.privateKey,
+      key.publicKey
+    );
+
+    return { policyArtifact, genesisReceipt: receipt, chainHead };
+  });
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Store a signed seal as its artifact, genesis receipt, run and vault card.
+ * Call inside the transaction that owns the seal.
+ */
+export async function storeSeal(tx: Prisma.TransactionClient, record: SealRecord): Promise<Artifact> {
+  const { seal, settings } = record;
+  const { policyArtifact, genesisReceipt, chainHead } = seal;
+  const issuedAt = new Date(policyArtifact.issued_at);
+  const expiresAt = policyArtifact.not_after ? new Date(policyArtifact.not_after) : null;
+
+  const artifact = await tx.artifact.create({
+    data: {
+      id: uuid(),
+      userId: record.userId,
+      name: record.name,
+      description: record.description,
+      bytesHash: policyArtifact.subject_identifier.bytes_hash,
+      metadataHash: policyArtifact.subject_identifier.metadata_hash,
+      sealedHash: policyArtifact.sealed_hash,
+      policyId: record.policyId,
+      policyVersion: policyArtifact.policy_version,
+      policyHash: policyArtifact.policy_hash,
+      status: record.status,
+      issuedAt,
+      effectiveAt: issuedAt,
+      expiresAt,
+      measurementCadenceMs: settings.measurementCadenceMs,
+      ttlSeconds: settings.ttlSeconds || null,
+      enforcementAction: settings.enforcementAction,
+      payloadIncluded: settings.payloadIncluded,
+      signingKeyId: record.signingKeyId,
+      issuerIdentifier: policyArtifact.vault_id,
+      policyArtifact: policyArtifact as unknown as Prisma.InputJsonObject,
+      ...(settings.approvalQuorum && {
+        approvalQuorum: settings.approvalQuorum as unknown as Prisma.InputJsonObject,
+      }),
+      previousArtifactId: record.previousArtifactId,
+    },
+  });
+
+  await tx.receipt.create({
+    data: {
+      id: uuid(),
+      artifactId: artifact.id,
+      runId: genesisReceipt.run_id,
+      sequenceNumber: genesisReceipt.sequence_number,
+      previousLeafHash: null,
+      leafHash: genesisReceipt.chain.this_receipt_hash,
+      eventType: 'POLICY_LOADED',
+      eventId: genesisReceipt.receipt_id,
+      timestamp: new Date(genesisReceipt.timestamp),
+      payload: genesisReceipt as unknown as Prisma.InputJsonObject,
+      payloadHash: await sha256String(canonicalize(genesisReceipt)),
+      signatureB64: genesisReceipt.signer.signature,
+      signingKeyId: record.signingKeyId,
+    },
+  });
+
+  await tx.governeRun.create({
+    data: {
+      artifactId: artifact.id,
+      runId: chainHead.run_id,
+      receiptCount: chainHead.receipt_count,
+      headSequenceNumber: chainHead.head_counter,
+      headReceiptHash: chainHead.head_receipt_hash,
+    },
+  });
+
+  await tx.vaultCard.create({
+    data: {
+      id: uuid(),
+      userId: record.userId,
+      artifactId: artifact.id,
+      displayName: record.name,
+      createdAt: issuedAt,
+      expiresAt,
+      status: record.status,
+      settingsSnapshot: {
+        measurementCadenceMs: settings.measurementCadenceMs,
+        enforcementAction: settings.enforcementAction,
+        payloadIncluded: settings.payloadIncluded,
+      },
+      position: 0,
+      pinned: false,
+    },
+  });
+
+  return artifact;
+}
@@ -0,0 +1,17 @@
+/**
+ * Seal Module
+ * Per AGA Build Guide - Core Cryptographic Flow
+ *
+ * Exports the signing, storage and issuer key handling shared by seal and
+ * supersede.
+ */
+
+export {
+  generateRunId,
+  validateSeal,
+  findOrCreateIssuerKey,
+  loadKeySchedule,
+  signSeal,
+  storeSeal,
+} from './artifacts';
+export type { SealDraft, SealRecord, SealSettings, SealSubject, SignedSeal } from './artifacts';
@@ -0,0 +1,262 @@
+/**
+ * Anchor Proof Verification Tests
+ * Per AGA Build Guide Phase 6 (Offline Verifier)
+ *
+ * Bundles carrying checkpoint anchors: per-receipt inclusion proofs, the
+ * Arweave transaction that anchors each checkpoint root and the block it
+ * was mined in, and the time anchor a trusted block gives the receipts.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import { buildMerkleTree, generateInclusionProof } from '../packages/core/src/crypto/merkle';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import { createGenesisReceipt, createReceipt, updateChainHead } from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator } from '../packages/core/src/bundle/generator';
+import { loadBundleContents } from '../packages/core/src/bundle/reader';
+import type { BundleAnchor, BundleCheckpoint, Keyring, MerkleProofEntry } from '../packages/core/src/bundle/structure';
+import { verifyArweaveTransaction } from '../packages/core/src/anchor/arweave';
+import { verifyBundle, type VerificationOptions } from '../packages/core/src/verifier';
+import { buildCheckpointPayload } from '../packages/arweave/src/provider';
+import { JwkWallet, type ArweaveJwk } from '../packages/arweave/src/jwk-wallet';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TX_ANCHOR = Buffer.alloc(48, 7).toString('base64url');
+const BLOCK_HASH = Buffer.alloc(48, 9).toString('base64url');
+
+let wallet: JwkWallet;
+
+beforeAll(() => {
+  const jwk = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ format: 'jwk' }) as ArweaveJwk;
+  wallet = new JwkWallet(jwk);
+});
+
+async function anchoredChain() {
+  const issuer = await generateKeyPair();
+  const artifact = await createPolicyArtifact({
+    vaultId: '1234-56789-0123',
+    privateKey: issuer.privateKey,
+    publicKey: issuer.publicKey,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name: 'anchor-proof-test',
+      measurementCadenceMs: 60000,
+      ttlSeconds: null,
+      enforcementAction: 'ALERT',
+    },
+  });
+
+  const genesis = await createGenesisReceipt(
+    {
+      artifactId: artifact.artifact_id,
+      policyHash: artifact.policy_hash,
+      sealedHash: artifact.sealed_hash,
+      vaultId: artifact.vault_id,
+    },
+    issuer.privateKey,
+    issuer.publicKey
+  );
+  const receipt = await createReceipt({
+    runId: genesis.chainHead.run_id,
+    sequenceNumber: 2,
+    eventType: 'MEASUREMENT_OK',
+    policyId: artifact.policy_hash,
+    decision: { action: 'CONTINUE', reasonCode: 'OK' },
+    prevReceiptHash: genesis.chainHead.head_receipt_hash,
+    privateKey: issuer.privateKey,
+    publicKey: issuer.publicKey,
+  });
+  const receipts = [genesis.receipt, receipt];
+
+  const tree = buildMerkleTree(receipts.map((r) => r.chain.this_receipt_hash));
+  const checkpoint: BundleCheckpoint = {
+    checkpoint_id: 'cp_1',
+    tree_size: tree.size,
+    log_root: tree.root,
+    consistency_proof: null,
+  };
+  const merkleProofs: MerkleProofEntry[] = receipts.map((r, i) => ({
+    receipt_id: r.receipt_id,
+    checkpoint_id: checkpoint.checkpoint_id,
+    proof: generateInclusionProof(tree, i),
+  }));
+
+  return {
+    artifact,
+    receipts,
+    chainHead: updateChainHead(genesis.chainHead, receipt),
+    checkpoints: [checkpoint],
+    merkleProofs,
+    anchors: [await anchorFor(checkpoint.checkpoint_id, checkpoint.log_root, checkpoint.tree_size)],
+  };
+}
+
+type Chain = Awaited<ReturnType<typeof anchoredChain>>;
+
+/** A checkpoint anchor mined 30 seconds from now */
+async function anchorFor(checkpointId: string, root: string, treeSize: number): Promise<BundleAnchor> {
+  const payload = buildCheckpointPayload(checkpointId, root, treeSize, ['art_1']);
+  const transaction = await wallet.signTransaction({
+    data: new TextEncoder().encode(payload.data),
+    tags: payload.tags,
+    lastTx: TX_ANCHOR,
+    reward: '1000',
+  });
+
+  return {
+    checkpoint_id: checkpointId,
+    network_id: 'arweave',
+    transaction,
+    block: {
+      indep_hash: BLOCK_HASH,
+      height: 1400000,
+      timestamp: Math.floor(Date.now() / 1000) + 30,
+      txs: [Buffer.alloc(32, 1).toString('base64url'), transaction.id],
+    },
+  };
+}
+
+async function verify(chain: Chain, options: VerificationOptions = {}) {
+  const bundle = await new BundleGenerator().generate(chain);
+  return verifyBundle(loadBundleContents(bundle.files), bundle.files, options);
+}
+
+const check = (output: Awaited<ReturnType<typeof verify>>, name: string) =>
+  output.checks.find((c) => c.name === name);
+
+/** A caller keyring that revokes the issuer key a minute from now */
+function revokingKeyring(chain: Chain): Keyring {
+  return {
+    version: '1.0',
+    keys: [
+      {
+        key_id: chain.artifact.issuer.key_id,
+        public_key: chain.artifact.issuer.public_key,
+        role: 'issuer',
+        valid_from: chain.artifact.issued_at,
+        revoked_at: new Date(Date.now() + 60000).toISOString(),
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+describe('verifyArweaveTransaction', () => {
+  it('should accept a transaction signed by its owner and reject altered fields', async () => {
+    const { transaction } = (await anchoredChain()).anchors[0];
+    expect(await verifyArweaveTransaction(transaction)).toEqual({ valid: true });
+
+    const data = Buffer.from('{"type":"checkpoint_anchor"}').toString('base64url');
+    expect((await verifyArweaveTransaction({ ...transaction, data })).reason).toBe(
+      'Data root does not commit to the transaction data'
+    );
+    expect((await verifyArweaveTransaction({ ...transaction, reward: '1' })).reason).toBe('Invalid owner signature');
+    expect((await verifyArweaveTransaction({ ...transaction, id: BLOCK_HASH })).reason).toBe(
+      'Transaction id does not match its signature'
+    );
+  });
+});
+
+// ============================================================================
+// BUNDLES
+// ============================================================================
+
+describe('verifyBundle anchor evidence', () => {
+  it('should carry typed anchor evidence through the bundle', async () => {
+    const chain = await anchoredChain();
+    const bundle = await new BundleGenerator().generate(chain);
+    const contents = loadBundleContents(bundle.files);
+
+    expect(bundle.manifest.components).toContain('anchor');
+    expect(bundle.manifest.optional).toEqual({
+      merkle: { proof_count: 2, checkpoint_count: 1 },
+      anchor: { network_id: 'arweave', checkpoint_ids: ['cp_1'], tx_ids: [chain.anchors[0].transaction.id] },
+    });
+    expect(contents.merkleProofs).toEqual(chain.merkleProofs);
+    expect(contents.anchors).toEqual(chain.anchors);
+
+    const output = await verifyBundle(contents, bundle.files);
+    expect(output.result).toBe('PASS');
+    expect(check(output, 'merkle_proofs')).toEqual({ name: 'merkle_proofs', result: 'PASS' });
+    expect(check(output, 'anchor_proofs')).toEqual({ name: 'anchor_proofs', result: 'PASS' });
+  });
+
+  it('should date receipts by a trusted block only', async () => {
+    const chain = await anchoredChain();
+    const keyrings = [revokingKeyring(chain)];
+
+    const untrusted = await verify(chain, { keyrings });
+    expect(untrusted.metadata.time_anchor).toBe('self-attested');
+    expect(untrusted.warnings.map((w) => w.code)).toEqual(['KEY_REVOKED_NO_ANCHOR']);
+
+    // The block proves the receipts predate the revocation
+    const trusted = await verify(chain, { keyrings, trustedAnchorBlocks: [BLOCK_HASH] });
+    expect(trusted.result).toBe('PASS');
+    expect(trusted.metadata.time_anchor).toBe('arweave');
+    expect(trusted.warnings).toEqual([]);
+    expect(check(trusted, 'signing_keys')?.reason).toMatch(/revoked at .*, after a timestamp anchored its signatures$/);
+  });
+
+  it('should fail an anchor that does not commit to the ledger', async () => {
+    const chain = await anchoredChain();
+    const wrongRoot = await anchorFor('cp_1', 'c'.repeat(64), 2);
+
+    const output = await verify({ ...chain, anchors: [wrongRoot] });
+    expect(output.result).toBe('FAIL');
+    expect(check(output, 'anchor_proofs')?.reason).toBe(
+      'Anchor for checkpoint cp_1: Anchored root does not match the receipts in the ledger'
+    );
+
+    const otherCheckpoint = await anchorFor('cp_2', chain.checkpoints[0].log_root, 2);
+    expect(check(await verify({ ...chain, anchors: [{ ...otherCheckpoint, checkpoint_id: 'cp_1' }] }), 'anchor_proofs')?.reason)
+      .toBe(`Anchor for checkpoint cp_1: Transaction ${otherCheckpoint.transaction.id} does not anchor this checkpoint`);
+  });
+
+  it('should fail a transaction missing from its block or signed data that was altered', async () => {
+    const chain = await anchoredChain();
+    const [anchor] = chain.anchors;
+
+    const unmined = await verify({ ...chain, anchors: [{ ...anchor, block: { ...anchor.block, txs: [] } }] });
+    expect(check(unmined, 'anchor_proofs')?.reason).toBe(
+      `Anchor for checkpoint cp_1: Transaction ${anchor.transaction.id} is not in block ${BLOCK_HASH}`
+    );
+
+    const altered = { ...anchor, transaction: { ...anchor.transaction, last_tx: BLOCK_HASH } };
+    expect(check(await verify({ ...chain, anchors: [altered] }), 'anchor_proofs')?.reason).toBe(
+      'Anchor for checkpoint cp_1: Invalid owner signature'
+    );
+  });
+
+  it('should fail receipts that claim a time after their trusted block', async () => {
+    const chain = await anchoredChain();
+    const [anchor] = chain.anchors;
+    const early = { ...anchor, block: { ...anchor.block, timestamp: Math.floor(Date.now() / 1000) - 3600 } };
+
+    // An untrusted block's time is not checked
+    expect((await verify({ ...chain, anchors: [early] })).result).toBe('PASS');
+
+    const output = await verify({ ...chain, anchors: [early] }, { trustedAnchorBlocks: [BLOCK_HASH] });
+    expect(output.result).toBe('FAIL');
+    expect(check(output, 'anchor_proofs')?.reason).toMatch(
+      /^Anchor for checkpoint cp_1: Receipt 1 claims .*, after block 1400000 was mined at /
+    );
+  });
+
+  it('should fail an inclusion proof that does not match its receipt', async () => {
+    const chain = await anchoredChain();
+    const [first, second] = chain.merkleProofs;
+    const swapped = [{ ...first, proof: second.proof }, second];
+
+    const output = await verify({ ...chain, merkleProofs: swapped });
+    expect(output.result).toBe('FAIL');
+    expect(check(output, 'merkle_proofs')?.reason).toBe('Invalid inclusion proof for receipt 1 in checkpoint cp_1');
+  });
+});
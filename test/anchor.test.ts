@@ -0,0 +1,170 @@
+/**
+ * Anchor Provider Tests
+ * Per AGA Build Guide Phase 3.2-3.3
+ *
+ * Covers the transparency log's signed inclusion receipts, the file-based
+ * stand-in, provider selection, and anchoring through the transaction
+ * manager and checkpoint scheduler.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { bytesToBase64, generateKeyPair } from '../packages/core/src/crypto/signature';
+import { sha256String } from '../packages/core/src/crypto/hash';
+import { buildCheckpointPayload } from '../packages/arweave/src/provider';
+import {
+  TransparencyLog,
+  TransparencyLogAnchorProvider,
+  verifyLogInclusionReceipt,
+} from '../packages/arweave/src/transparency-log';
+import { FileAnchorProvider, FileLogStore } from '../packages/arweave/src/file-provider';
+import { createAnchorProvider } from '../packages/arweave/src/factory';
+import { ArweaveAnchorProvider } from '../packages/arweave/src/client';
+import { TransactionManager } from '../packages/arweave/src/submit';
+import { CheckpointScheduler } from '../packages/arweave/src/anchor';
+import tvMerkle from '../test-vectors/tv-merkle-001.json';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'aga-anchor-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function createLog(path?: string) {
+  const { privateKey, publicKey } = await generateKeyPair();
+  const log = new TransparencyLog({ privateKey, ...(path && { store: new FileLogStore(path) }) });
+  return { log, privateKey, publicKey };
+}
+
+// ============================================================================
+// TRANSPARENCY LOG
+// ============================================================================
+
+describe('TransparencyLog', () => {
+  it('should issue inclusion receipts that verify offline against the log key', async () => {
+    const { log, publicKey } = await createLog();
+    const payload = buildCheckpointPayload('ckpt_1', tvMerkle.leaves[0], 3, ['art_1']);
+    const provider = new TransparencyLogAnchorProvider(log);
+
+    await log.append(tvMerkle.leaves[1]);
+    const { txId, inclusionReceipt } = await provider.submit(payload);
+
+    expect(txId).toBe(await sha256String(payload.data));
+    expect(inclusionReceipt?.entry_index).toBe(1);
+    expect(inclusionReceipt?.tree_size).toBe(2);
+    expect(await verifyLogInclusionReceipt(inclusionReceipt!, publicKey, payload.data)).toBe(true);
+    expect(await verifyLogInclusionReceipt(inclusionReceipt!, bytesToBase64(publicKey))).toBe(true);
+    expect(await provider.getStatus(txId)).toEqual({ status: 'confirmed', confirmations: 1 });
+    expect((await provider.getStatus('0'.repeat(64))).status).toBe('failed');
+  });
+
+  it('should reject receipts that were altered or checked against another key', async () => {
+    const { log, publicKey } = await createLog();
+    const receipt = await log.append(tvMerkle.leaves[0]);
+    const other = await generateKeyPair();
+
+    expect(await verifyLogInclusionReceipt(receipt, other.publicKey)).toBe(false);
+    expect(await verifyLogInclusionReceipt(receipt, publicKey, 'another document')).toBe(false);
+    expect(await verifyLogInclusionReceipt({ ...receipt, integrated_at: new Date(0).toISOString() }, publicKey)).toBe(false);
+    expect(await verifyLogInclusionReceipt({ ...receipt, entry_hash: tvMerkle.leaves[1] }, publicKey)).toBe(false);
+  });
+
+  it('should resume from its entry file with the same tree', async () => {
+    const path = join(dir, 'log.txt');
+    const { log, privateKey } = await createLog(path);
+    const concurrent = await Promise.all(tvMerkle.leaves.slice(0, 6).map((leaf) => log.append(leaf)));
+    expect(concurrent.map((r) => r.entry_index)).toEqual([0, 1, 2, 3, 4, 5]);
+
+    const reopened = new TransparencyLog({ privateKey, store: new FileLogStore(path) });
+    const receipt = await reopened.append(tvMerkle.leaves[6]);
+
+    expect(receipt.log_root).toBe(tvMerkle.expected.roots[6].root);
+    expect(await reopened.getSize()).toBe(7);
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toEqual(tvMerkle.leaves.slice(0, 7));
+  });
+});
+
+// ============================================================================
+// FILE PROVIDER AND SELECTION
+// ============================================================================
+
+describe('FileAnchorProvider', () => {
+  it('should write each anchor document to a file named by its hash', async () => {
+    const provider = new FileAnchorProvider({ directory: join(dir, 'files') });
+    const payload = buildCheckpointPayload('ckpt_1', tvMerkle.leaves[0], 1, ['art_1']);
+
+    const { txId } = await provider.submit(payload);
+    const stored = JSON.parse(await readFile(join(dir, 'files', `${txId}.json`), 'utf8'));
+
+    expect(stored.data).toBe(payload.data);
+    expect(stored.tags['AGA-Checkpoint-Id']).toBe('ckpt_1');
+    expect((await provider.submit(payload)).txId).toBe(txId);
+    expect((await provider.getStatus(txId)).status).toBe('confirmed');
+    expect((await provider.getStatus('../escape')).status).toBe('failed');
+  });
+});
+
+describe('createAnchorProvider', () => {
+  it('should select the provider named by ANCHOR_PROVIDER', async () => {
+    const { privateKey } = await generateKeyPair();
+
+    expect(createAnchorProvider({ NODE_ENV: 'test' })).toBeInstanceOf(ArweaveAnchorProvider);
+    expect(createAnchorProvider({ NODE_ENV: 'test', ANCHOR_PROVIDER: 'file', ANCHOR_FILE_DIR: dir }).networkId).toBe('file');
+    expect(createAnchorProvider({
+      NODE_ENV: 'test',
+      ANCHOR_PROVIDER: 'transparency-log',
+      ANCHOR_LOG_PRIVATE_KEY: bytesToBase64(privateKey),
+      ANCHOR_LOG_PATH: join(dir, 'log.txt'),
+    }).networkId).toBe('transparency-log');
+
+    expect(() => createAnchorProvider({ NODE_ENV: 'test', ANCHOR_PROVIDER: 'transparency-log' })).toThrow(
+      /ANCHOR_LOG_PRIVATE_KEY is required/
+    );
+    expect(() => createAnchorProvider({ NODE_ENV: 'test', ANCHOR_PROVIDER: 'ethereum' })).toThrow(
+      'Unsupported anchor provider: ethereum'
+    );
+  });
+});
+
+// ============================================================================
+// ANCHORING
+// ============================================================================
+
+describe('anchoring through a provider', () => {
+  it('should record the network and inclusion receipt on submitted transactions', async () => {
+    const { log, publicKey } = await createLog();
+    const manager = new TransactionManager(new TransparencyLogAnchorProvider(log));
+
+    const result = await manager.submitCheckpointAnchor('ckpt_1', tvMerkle.leaves[0], 1, ['art_1']);
+    manager.stopPolling();
+
+    expect(result.success).toBe(true);
+    expect(result.record.networkId).toBe('transparency-log');
+    expect(result.record.status).toBe('submitted');
+    expect(result.txId).toBe(result.record.inclusionReceipt?.entry_hash);
+    expect(await verifyLogInclusionReceipt(result.record.inclusionReceipt!, publicKey)).toBe(true);
+  });
+
+  it('should anchor each checkpoint and record its network id', async () => {
+    const { log, publicKey } = await createLog();
+    const scheduler = new CheckpointScheduler({ maxReceiptsPerCheckpoint: 1000 }, new TransparencyLogAnchorProvider(log));
+    tvMerkle.leaves.slice(0, 3).forEach((leaf, i) => scheduler.addReceipt(`rcpt_${i}`, leaf, 'art_1'));
+    const checkpoint = await scheduler.createCheckpoint();
+    scheduler.stop();
+
+    expect(checkpoint?.anchorNetworkId).toBe('transparency-log');
+    expect(checkpoint?.txId).toBe(checkpoint?.inclusionReceipt?.entry_hash);
+    expect(checkpoint?.anchoredAt).toBeDefined();
+    expect(await verifyLogInclusionReceipt(checkpoint!.inclusionReceipt!, publicKey)).toBe(true);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Headless Arweave Submission Tests
+ * Per AGA Build Guide Phase 3.2
+ *
+ * Signs format 2 transactions with a JWK wallet and runs the durable
+ * anchor queue against a local mock gateway: retries with backoff, resume
+ * after a restart, confirmation depth tracking, gateway errors and dropped
+ * transactions.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { constants, createHash, createPublicKey, generateKeyPairSync, verify } from 'crypto';
+import { ArweaveClient, type SignedTransaction } from '../packages/arweave/src/client';
+import { transactionSignatureData } from '../packages/core/src/anchor/arweave';
+import { JwkAnchorProvider, JwkWallet, type ArweaveJwk } from '../packages/arweave/src/jwk-wallet';
+import { buildCheckpointPayload } from '../packages/arweave/src/provider';
+import { MemoryTransactionStore, TransactionManager } from '../packages/arweave/src/submit';
+
+// ============================================================================
+// MOCK GATEWAY
+// ============================================================================
+
+const ANCHOR = Buffer.alloc(48, 7).toString('base64url');
+const BLOCK_HASH = Buffer.alloc(48, 9).toString('base64url');
+
+const gateway = {
+  failPosts: 0,
+  failStatus: 0,
+  confirmations: new Map<string, number>(),
+  transactions: new Map<string, SignedTransaction>(),
+};
+
+let server: Server;
+let client: ArweaveClient;
+let jwk: ArweaveJwk;
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+beforeAll(async () => {
+  jwk = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ format: 'jwk' }) as ArweaveJwk;
+
+  server = createServer(async (request, response) => {
+    const url = request.url ?? '';
+    const status = url.match(/^\/tx\/([^/]+)\/status$/);
+
+    if (request.method === 'GET' && url === '/tx_anchor') {
+      response.end(ANCHOR);
+    } else if (request.method === 'GET' && url.startsWith('/price/')) {
+      response.end('1000');
+    } else if (request.method === 'POST' && url === '/tx') {
+      const tx = JSON.parse(await readBody(request)) as SignedTransaction;
+      if (gateway.failPosts > 0) {
+        gateway.failPosts--;
+        response.statusCode = 503;
+        response.end('Gateway busy');
+        return;
+      }
+      gateway.transactions.set(tx.id, tx);
+      gateway.confirmations.set(tx.id, 0);
+      response.end('OK');
+    } else if (status && gateway.failStatus > 0) {
+      gateway.failStatus--;
+      response.statusCode = 502;
+      response.end('Bad Gateway');
+    } else if (status && gateway.confirmations.has(status[1])) {
+      const confirmations = gateway.confirmations.get(status[1])!;
+      if (confirmations === 0) {
+        response.statusCode = 202;
+        response.end('Pending');
+        return;
+      }
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({
+        block_height: 1400000,
+        block_indep_hash: BLOCK_HASH,
+        number_of_confirmations: confirmations,
+      }));
+    } else {
+      response.statusCode = 404;
+      response.end('Not Found');
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  client = new ArweaveClient({ host: '127.0.0.1', port: (server.address() as AddressInfo).port, protocol: 'http' });
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  gateway.failPosts = 0;
+  gateway.failStatus = 0;
+  gateway.confirmations.clear();
+  gateway.transactions.clear();
+});
+
+function payload() {
+  return buildCheckpointPayload('ckpt_1', 'a'.repeat(64), 3, ['art_1']);
+}
+
+// ============================================================================
+// JWK SIGNING
+// ============================================================================
+
+describe('JwkAnchorProvider', () => {
+  it('should post a format 2 transaction signed by the wallet', async () => {
+    const wallet = new JwkWallet(jwk);
+    const provider = new JwkAnchorProvider(wallet, client);
+    const { txId } = await provider.submit(payload());
+    const tx = gateway.transactions.get(txId)!;
+
+    expect(tx.format).toBe(2);
+    expect(tx.owner).toBe(jwk.n);
+    expect(tx.last_tx).toBe(ANCHOR);
+    expect(tx.reward).toBe('1000');
+    expect(JSON.parse(Buffer.from(tx.data, 'base64url').toString())).toMatchObject({
+      type: 'checkpoint_anchor',
+      checkpoint_id: 'ckpt_1',
+    });
+    expect(Number(tx.data_size)).toBe(Buffer.from(tx.data, 'base64url').length);
+    expect(tx.tags.map((t) => Buffer.from(t.name, 'base64url').toString())).toContain('AGA-Checkpoint-Id');
+
+    // id commits to the signature, which verifies under the owner's key
+    const signature = Buffer.from(tx.signature, 'base64url');
+    expect(createHash('sha256').update(signature).digest('base64url')).toBe(txId);
+    const publicKey = createPublicKey({ key: { kty: 'RSA', n: tx.owner, e: jwk.e }, format: 'jwk' });
+    const verifies = (fields: SignedTransaction) => verify(
+      'sha256',
+      transactionSignatureData(fields),
+      { key: publicKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+      signature
+    );
+    expect(verifies(tx)).toBe(true);
+    expect(verifies({ ...tx, reward: '1' })).toBe(false);
+
+    expect(await wallet.getAddress()).toBe(
+      createHash('sha256').update(Buffer.from(jwk.n, 'base64url')).digest('base64url')
+    );
+  });
+
+  it('should reject a wallet file that is not an RSA JWK', async () => {
+    const provider = new JwkAnchorProvider(new JwkWallet('/nonexistent/wallet.json'), client);
+    await expect(provider.submit(payload())).rejects.toThrow(/is not a readable JWK$/);
+
+    const { d: _d, ...publicOnly } = jwk;
+    await expect(new JwkWallet(publicOnly as ArweaveJwk).getAddress()).rejects.toThrow(/RSA private key/);
+  });
+});
+
+// ============================================================================
+// DURABLE QUEUE
+// ============================================================================
+
+describe('TransactionManager queue', () => {
+  it('should retry after a restart and track confirmation depth', async () => {
+    const store = new MemoryTransactionStore();
+    const provider = new JwkAnchorProvider(new JwkWallet(jwk), client);
+    gateway.failPosts = 1;
+
+    const first = new TransactionManager(provider, store, { retryDelayMs: 60000 });
+    const result = await first.submitCheckpointAnchor('ckpt_1', 'a'.repeat(64), 3, ['art_1']);
+    first.stopPolling();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/503 Gateway busy$/);
+    expect(result.record.status).toBe('pending');
+    expect(result.record.attempts).toBe(1);
+    expect(Date.parse(result.record.nextAttemptAt!)).toBeGreaterThan(Date.now() + 50000);
+
+    // Not due yet: a pass leaves it alone
+    await first.processQueue();
+    expect((await store.get(result.record.id))?.attempts).toBe(1);
+
+    // A restarted worker, sharing the store, resubmits once due
+    const restarted = new TransactionManager(provider, store);
+    await store.save({ ...(await store.get(result.record.id))!, nextAttemptAt: new Date(0).toISOString() });
+    const changes: string[] = [];
+    restarted.setStatusChangeCallback((r) => changes.push(`${r.status}:${r.confirmations}`));
+
+    await restarted.processQueue();
+    const submitted = (await store.get(result.record.id))!;
+    expect(submitted.status).toBe('submitted');
+    expect(submitted.attempts).toBe(2);
+    expect(gateway.transactions.has(submitted.txId)).toBe(true);
+
+    await restarted.processQueue();
+    gateway.confirmations.set(submitted.txId, 4);
+    await restarted.processQueue();
+    expect(await store.get(result.record.id)).toMatchObject({
+      status: 'submitted',
+      confirmations: 4,
+      blockHeight: 1400000,
+      blockHash: BLOCK_HASH,
+    });
+
+    gateway.confirmations.set(submitted.txId, 12);
+    await restarted.processQueue();
+    const confirmed = (await store.get(result.record.id))!;
+    expect(confirmed.status).toBe('confirmed');
+    expect(confirmed.confirmedAt).toBeDefined();
+    expect(await restarted.getPendingTransactions()).toEqual([]);
+    expect(changes).toEqual(['submitted:0', 'submitted:4', 'confirmed:12']);
+    restarted.stopPolling();
+  });
+
+  it('should leave a submitted transaction untouched when the gateway errors', async () => {
+    const store = new MemoryTransactionStore();
+    const manager = new TransactionManager(new JwkAnchorProvider(new JwkWallet(jwk), client), store);
+    const result = await manager.submitCheckpointAnchor('ckpt_1', 'a'.repeat(64), 3, ['art_1']);
+    manager.stopPolling();
+
+    gateway.confirmations.set(result.record.txId, 4);
+    await manager.processQueue();
+    const tracked = (await store.get(result.record.id))!;
+    expect(tracked).toMatchObject({ status: 'submitted', confirmations: 4, blockHash: BLOCK_HASH });
+
+    const changes: string[] = [];
+    manager.setStatusChangeCallback((r) => changes.push(`${r.status}:${r.confirmations}`));
+    gateway.failStatus = 1;
+    await manager.processQueue();
+
+    expect(await store.get(result.record.id)).toEqual(tracked);
+    expect(changes).toEqual([]);
+  });
+
+  it('should resubmit a transaction that stays unseen past the drop timeout', async () => {
+    const store = new MemoryTransactionStore();
+    const manager = new TransactionManager(
+      new JwkAnchorProvider(new JwkWallet(jwk), client),
+      store,
+      { retryDelayMs: 0, droppedAfterMs: 60000 }
+    );
+    const result = await manager.submitCheckpointAnchor('ckpt_1', 'a'.repeat(64), 3, ['art_1']);
+    manager.stopPolling();
+    const firstTxId = result.record.txId;
+
+    // The network lost it: the gateway answers 404 from now on
+    gateway.confirmations.delete(firstTxId);
+    await manager.processQueue();
+    expect(await store.get(result.record.id)).toMatchObject({ status: 'submitted', txId: firstTxId });
+
+    await store.save({ ...(await store.get(result.record.id))!, submittedAt: new Date(Date.now() - 120000).toISOString() });
+    await manager.processQueue();
+    expect(await store.get(result.record.id)).toMatchObject({
+      status: 'pending',
+      txId: '',
+      error: 'Transaction not found on network',
+    });
+
+    await manager.processQueue();
+    const resubmitted = (await store.get(result.record.id))!;
+    expect(resubmitted.status).toBe('submitted');
+    expect(resubmitted.attempts).toBe(2);
+    expect(resubmitted.txId).not.toBe(firstTxId);
+    expect(gateway.transactions.has(resubmitted.txId)).toBe(true);
+    manager.stopPolling();
+  });
+
+  it('should fail a transaction once its attempts are used up', async () => {
+    const manager = new TransactionManager(
+      new JwkAnchorProvider(new JwkWallet(jwk), client),
+      new MemoryTransactionStore(),
+      { maxAttempts: 2, retryDelayMs: 0 }
+    );
+    gateway.failPosts = 2;
+
+    const result = await manager.submitCheckpointAnchor('ckpt_1', 'a'.repeat(64), 3, ['art_1']);
+    await manager.processQueue();
+    manager.stopPolling();
+
+    const record = (await manager.getTransaction(result.record.id))!;
+    expect(record.status).toBe('failed');
+    expect(record.attempts).toBe(2);
+    expect(record.nextAttemptAt).toBeUndefined();
+    expect(gateway.transactions.size).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Key Custody Tests
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * Covers the local file KEK provider and envelope encryption of signing
+ * keys under per-key data keys.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import { LocalFileKekProvider, createKekProvider } from '../src/lib/custody/kek';
+import { openPrivateKey, sealPrivateKey } from '../src/lib/custody/envelope';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'aga-custody-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// KEK PROVIDER
+// ============================================================================
+
+describe('LocalFileKekProvider', () => {
+  it('should create a private KEK file on first use and reuse it', async () => {
+    const path = join(dir, 'keys', 'kek.key');
+    const provider = new LocalFileKekProvider({ path, create: true });
+    const dataKey = crypto.getRandomValues(new Uint8Array(32));
+
+    const wrapped = await provider.wrapDataKey(dataKey);
+    expect(wrapped.kekId).toMatch(/^local-[0-9a-f]{16}$/);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(Buffer.from((await readFile(path, 'utf8')).trim(), 'base64')).toHaveLength(32);
+
+    // A second process reading the same file unwraps the same data key
+    const reloaded = new LocalFileKekProvider({ path });
+    expect(await reloaded.unwrapDataKey(wrapped)).toEqual(dataKey);
+  });
+
+  it('should refuse data keys wrapped by another KEK', async () => {
+    const first = new LocalFileKekProvider({ path: join(dir, 'a.key'), create: true });
+    const second = new LocalFileKekProvider({ path: join(dir, 'b.key'), create: true });
+    const wrapped = await first.wrapDataKey(new Uint8Array(32));
+
+    await expect(second.unwrapDataKey(wrapped)).rejects.toThrow(/^Data key was wrapped by KEK local-/);
+
+    // Same KEK id but altered bytes fails authentication
+    const bytes = Buffer.from(wrapped.wrapped, 'base64');
+    bytes[20] ^= 1;
+    await expect(first.unwrapDataKey({ ...wrapped, wrapped: bytes.toString('base64') })).rejects.toThrow();
+  });
+
+  it('should not create a KEK unless asked and reject malformed files', async () => {
+    const missing = new LocalFileKekProvider({ path: join(dir, 'missing.key') });
+    await expect(missing.wrapDataKey(new Uint8Array(32))).rejects.toThrow(/is not readable$/);
+
+    const path = join(dir, 'short.key');
+    await writeFile(path, Buffer.alloc(16).toString('base64'));
+    await expect(new LocalFileKekProvider({ path }).wrapDataKey(new Uint8Array(32))).rejects.toThrow(
+      /must hold 32 base64-encoded bytes$/
+    );
+
+    expect(() => createKekProvider({ NODE_ENV: 'test', KEY_CUSTODY_KEK_PROVIDER: 'kms' })).toThrow(
+      'Unsupported KEK provider: kms'
+    );
+  });
+});
+
+// ============================================================================
+// ENVELOPE
+// ============================================================================
+
+describe('signing key envelopes', () => {
+  it('should encrypt each key under its own data key', async () => {
+    const kek = new LocalFileKekProvider({ path: join(dir, 'kek.key'), create: true });
+    const { privateKey } = await generateKeyPair();
+
+    const first = await sealPrivateKey(privateKey, 'key-1', kek);
+    const second = await sealPrivateKey(privateKey, 'key-1', kek);
+    expect(first.wrappedDataKey).not.toBe(second.wrappedDataKey);
+    expect(first.encryptedPrivateKey).not.toContain(Buffer.from(privateKey).toString('base64'));
+
+    expect(await openPrivateKey(first, 'key-1', kek)).toEqual(privateKey);
+    expect(await openPrivateKey(second, 'key-1', kek)).toEqual(privateKey);
+  });
+
+  it('should bind the ciphertext to its key id', async () => {
+    const kek = new LocalFileKekProvider({ path: join(dir, 'kek.key'), create: true });
+    const { privateKey } = await generateKeyPair();
+    const sealed = await sealPrivateKey(privateKey, 'key-1', kek);
+
+    await expect(openPrivateKey(sealed, 'key-2', kek)).rejects.toThrow();
+  });
+});
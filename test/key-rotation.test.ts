@@ -0,0 +1,184 @@
+/**
+ * Key Rotation Tests
+ * Per AGA Build Guide Phase 1.2 (Key Management)
+ *
+ * Covers cross-signed rotation statements, walking a rotation chain back
+ * to a trusted key, and the verifier's issuer_trust check across rotations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bytesToBase64, generateKeyPair } from '../packages/core/src/crypto/signature';
+import { generateKeyIdHash } from '../packages/core/src/crypto/keys';
+import { createKeyRotation, resolveKeyLineage, verifyKeyRotation } from '../packages/core/src/bundle/key-rotation';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import { createGenesisReceipt } from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator } from '../packages/core/src/bundle/generator';
+import { loadBundleContents } from '../packages/core/src/bundle/reader';
+import { verifyBundle } from '../packages/core/src/verifier';
+import type { KeyScheduleEntry } from '../packages/core/src/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type KeyPair = Awaited<ReturnType<typeof generateKeyPair>>;
+
+async function scheduleEntry(key: KeyPair, createdAt: string): Promise<KeyScheduleEntry> {
+  return { key_id: await generateKeyIdHash(key.publicKey), public_key: bytesToBase64(key.publicKey), created_at: createdAt };
+}
+
+function rotate(previous: KeyPair, next: KeyPair, rotatedAt: string) {
+  return createKeyRotation({
+    previousPrivateKey: previous.privateKey,
+    previousPublicKey: previous.publicKey,
+    privateKey: next.privateKey,
+    publicKey: next.publicKey,
+    reason: 'scheduled rotation',
+    rotatedAt,
+  });
+}
+
+/** root -> middle -> current, with the predecessors revoked at rotation */
+async function rotatedSchedule() {
+  const keys = { root: await generateKeyPair(), middle: await generateKeyPair(), current: await generateKeyPair() };
+  const root = await scheduleEntry(keys.root, '2026-01-01T00:00:00.000Z');
+  const middle = await rotate(keys.root, keys.middle, '2026-02-01T00:00:00.000Z');
+  const current = await rotate(keys.middle, keys.current, '2026-03-01T00:00:00.000Z');
+
+  const schedule: KeyScheduleEntry[] = [
+    { ...root, revoked_at: middle.created_at },
+    { ...middle, revoked_at: current.created_at },
+    current,
+  ];
+  return { keys, schedule, root: schedule[0], middle: schedule[1], current: schedule[2] };
+}
+
+// ============================================================================
+// ROTATION STATEMENTS
+// ============================================================================
+
+describe('key rotation statements', () => {
+  it('should be signed by the previous key and cross-signed by the new one', async () => {
+    const { middle, root } = await rotatedSchedule();
+
+    expect(middle.rotation).toMatchObject({ previous_key_id: root.key_id, reason: 'scheduled rotation' });
+    expect(await verifyKeyRotation(middle)).toEqual({ valid: true });
+  });
+
+  it('should reject a statement missing either signature', async () => {
+    const { middle } = await rotatedSchedule();
+    const stranger = await generateKeyPair();
+    const forged = await rotate(stranger, await generateKeyPair(), middle.created_at);
+
+    const unsigned = { ...middle, rotation: { ...middle.rotation!, signature: forged.rotation!.signature } };
+    expect((await verifyKeyRotation(unsigned)).reason).toMatch(/is not signed by the previous key$/);
+
+    const uncrossed = { ...middle, rotation: { ...middle.rotation!, successor_signature: forged.rotation!.successor_signature } };
+    expect((await verifyKeyRotation(uncrossed)).reason).toMatch(/is not cross-signed by the new key$/);
+
+    // Changing the reason invalidates both signatures
+    const edited = { ...middle, rotation: { ...middle.rotation!, reason: 'compromised' } };
+    expect((await verifyKeyRotation(edited)).valid).toBe(false);
+  });
+});
+
+// ============================================================================
+// LINEAGE
+// ============================================================================
+
+describe('resolveKeyLineage', () => {
+  it('should walk a rotation chain back to a trusted root', async () => {
+    const { schedule, root, middle, current } = await rotatedSchedule();
+
+    expect(await resolveKeyLineage(schedule, current, [root.key_id])).toEqual({
+      trusted: true,
+      path: [current.key_id, middle.key_id, root.key_id],
+    });
+
+    // The statements alone carry the chain when the schedule omits predecessors
+    expect((await resolveKeyLineage([current, middle], current, [root.public_key])).trusted).toBe(true);
+
+    const untrusted = await resolveKeyLineage(schedule, current, ['someone-else']);
+    expect(untrusted).toMatchObject({ trusted: false, path: [current.key_id, middle.key_id, root.key_id] });
+    expect(untrusted.reason).toBe(`Key ${root.key_id} is not trusted and has no rotation statement`);
+  });
+
+  it('should not let a key revoked before the rotation vouch for its successor', async () => {
+    const { schedule, root, middle, current } = await rotatedSchedule();
+    const early: KeyScheduleEntry[] = [{ ...root, revoked_at: '2026-01-15T00:00:00.000Z' }, middle, current];
+
+    expect(await resolveKeyLineage(early, current, [root.key_id])).toMatchObject({
+      trusted: false,
+      reason: `Key ${root.key_id} was revoked at 2026-01-15T00:00:00.000Z, before rotating to ${middle.key_id}`,
+    });
+
+    // A key trusted directly still resolves without walking further
+    expect((await resolveKeyLineage(schedule, middle, [middle.key_id])).path).toEqual([middle.key_id]);
+  });
+});
+
+// ============================================================================
+// VERIFIER
+// ============================================================================
+
+describe('verifyBundle issuer_trust across rotations', () => {
+  async function verifyRotated(schedule: KeyScheduleEntry[], issuer: KeyPair, trustedKeyIds: string[]) {
+    const artifact = await createPolicyArtifact({
+      vaultId: '1234-56789-0123',
+      privateKey: issuer.privateKey,
+      publicKey: issuer.publicKey,
+      keySchedule: schedule,
+      input: {
+        bytesHash: 'a'.repeat(64),
+        metadataHash: 'b'.repeat(64),
+        name: 'rotation-test',
+        measurementCadenceMs: 60000,
+        ttlSeconds: null,
+        enforcementAction: 'ALERT',
+      },
+    });
+    const genesis = await createGenesisReceipt(
+      {
+        artifactId: artifact.artifact_id,
+        policyHash: artifact.policy_hash,
+        sealedHash: artifact.sealed_hash,
+        vaultId: artifact.vault_id,
+      },
+      issuer.privateKey,
+      issuer.publicKey
+    );
+
+    const bundle = await new BundleGenerator().generate({
+      artifact,
+      receipts: [genesis.receipt],
+      chainHead: genesis.chainHead,
+    });
+    const output = await verifyBundle(loadBundleContents(bundle.files), bundle.files, { trustedKeyIds });
+    return { artifact, issuerTrust: output.checks.find((c) => c.name === 'issuer_trust') };
+  }
+
+  it('should trust an issuer key rotated from a trusted root', async () => {
+    const { keys, schedule, root } = await rotatedSchedule();
+    const { artifact, issuerTrust } = await verifyRotated(schedule, keys.current, [root.key_id]);
+
+    expect(artifact.key_schedule).toEqual(schedule);
+    expect(issuerTrust).toEqual({ name: 'issuer_trust', result: 'PASS' });
+  });
+
+  it('should fail an issuer key whose rotation is forged', async () => {
+    const { keys, schedule, root, middle, current } = await rotatedSchedule();
+    const impostor = await generateKeyPair();
+    const forged = await rotate(impostor, keys.current, current.created_at);
+    const tampered = [schedule[0], schedule[1], {
+      ...current,
+      rotation: { ...forged.rotation!, previous_key_id: middle.key_id, previous_public_key: middle.public_key },
+    }];
+
+    const { issuerTrust } = await verifyRotated(tampered, keys.current, [root.key_id]);
+    expect(issuerTrust?.result).toBe('FAIL');
+    expect(issuerTrust?.reason).toMatch(/^Issuer key .* does not rotate from a trusted key: .*is not signed by the previous key$/);
+
+    const { issuerTrust: unrotated } = await verifyRotated([], impostor, [root.key_id]);
+    expect(unrotated?.reason).toBe(`Issuer key ${await generateKeyIdHash(impostor.publicKey)} is not in the trusted key set`);
+  });
+});
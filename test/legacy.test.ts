@@ -0,0 +1,267 @@
+/**
+ * Legacy Conversion Tests
+ * Per AGA Spec Section 5 (Policy Artifact) and Section 12 (Receipts)
+ *
+ * Checks that legacy artifacts and receipts convert into the wire model
+ * losslessly, keep their original hashes and signatures, and pass the
+ * offline verifier.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  convertLegacyArtifact,
+  convertLegacyReceipt,
+  restoreLegacyArtifact,
+  restoreLegacyReceipt,
+  verifyLegacyArtifactSignature,
+  verifyLegacyReceiptSignature,
+  type LegacyAgaArtifact,
+  type LegacyAgaReceipt,
+  type LegacyPortalArtifact,
+  type LegacyPortalReceipt,
+} from '../packages/core/src/legacy/converters';
+import { legacyHash, legacyCanonicalize, signLegacyObject } from '../packages/core/src/legacy/formats';
+import { generateKeyPairWithId, base64ToBytes } from '../packages/core/src/crypto/signature';
+import { verifyBundle, type BundleContents } from '../packages/core/src/verifier';
+import type { PolicyArtifact, Receipt } from '../packages/core/src/types';
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+const ZERO_HASH = '0'.repeat(64);
+
+let key: { publicKey: string; privateKey: string; keyId: string };
+let signer: { public_key: string; key_id: string };
+
+beforeAll(async () => {
+  key = await generateKeyPairWithId();
+  signer = { public_key: key.publicKey, key_id: key.keyId };
+});
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+async function agaArtifact(): Promise<LegacyAgaArtifact> {
+  const unsigned: Omit<LegacyAgaArtifact, 'signature'> = {
+    schemaVersion: '1.0.0',
+    protocolVersion: '1.0.0',
+    artifactId: 'art_legacy_1',
+    subjectIdentifier: { bytesHash: HASH_A, metadataHash: HASH_B },
+    policyReference: 'policy_1',
+    policyVersion: 2,
+    sealedHash: HASH_A,
+    evidenceCommitment: HASH_B,
+    salt: 'c'.repeat(32),
+    issuedTimestamp: '2026-01-01T00:00:00.000Z',
+    effectiveTimestamp: '2026-01-01T00:00:00.000Z',
+    expirationTimestamp: null,
+    issuerIdentifier: 'vault_1',
+    enforcementParameters: {
+      measurementCadenceMs: 60000,
+      ttlSeconds: 3600,
+      enforcementAction: 'QUARANTINE',
+      reattestationRequired: false,
+      reattestationIntervalSeconds: null,
+    },
+    disclosurePolicy: null,
+  };
+
+  return { ...unsigned, signature: await signLegacyObject(unsigned, base64ToBytes(key.privateKey)) };
+}
+
+async function agaReceipt(sequenceNumber: number, previousReceiptHash: string): Promise<LegacyAgaReceipt> {
+  const unsigned: Omit<LegacyAgaReceipt, 'signature'> = {
+    schemaVersion: '1.0.0',
+    protocolVersion: '1.0.0',
+    receiptId: `rcpt_${sequenceNumber}`,
+    receiptType: 'MEASUREMENT',
+    artifactReference: {
+      artifactId: 'art_legacy_1',
+      artifactHash: HASH_A,
+      policyReference: 'policy_1',
+      policyIssuerKeyId: key.keyId,
+    },
+    subjectIdentifier: { bytesHash: HASH_A, metadataHash: HASH_B },
+    measurement: {
+      sealedHash: HASH_A,
+      currentHash: HASH_A,
+      match: true,
+      measurementDetails: [],
+      measurementTimestamp: '2026-01-01T00:01:00.000Z',
+      measurementLatencyMs: 4,
+    },
+    enforcement: {
+      driftDetected: false,
+      driftDetails: null,
+      actionExecuted: 'ALERT_ONLY',
+      actionTimestamp: '2026-01-01T00:01:00.000Z',
+      actionOutcome: 'SUCCESS',
+      outcomeDetails: {},
+    },
+    chainLinkage: { sequenceNumber, previousReceiptHash, chainId: 'chain_1' },
+    timestamp: '2026-01-01T00:01:00.000Z',
+    portalIdentifier: 'portal_1',
+  };
+
+  return { ...unsigned, signature: await signLegacyObject(unsigned, base64ToBytes(key.privateKey)) };
+}
+
+function portalArtifact(): LegacyPortalArtifact {
+  return {
+    schemaVersion: '1.0.0',
+    protocolVersion: '1.0.0',
+    policyVersion: 1,
+    vaultId: 'vault_1',
+    artifactId: 'art_portal_1',
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    notBefore: '2026-01-01T00:00:00.000Z',
+    notAfter: null,
+    subjectIdentifier: { bytesHash: HASH_A, metadataHash: HASH_B },
+    sealedHash: HASH_A,
+    salt: 'c'.repeat(32),
+    integrityPolicy: { configDigest: HASH_B, configSource: 'CONFIG_SOURCE_C' },
+    enforcementPolicy: { onDrift: 'BLOCK_START', onTtlExpired: 'KILL', onSignatureInvalid: 'KILL' },
+    keySchedule: [{ keyId: key.keyId, publicKey: key.publicKey, createdAt: '2026-01-01T00:00:00.000Z' }],
+    disclosurePolicy: { payloadIncluded: false, claims: ['name', 'bytesHash'] },
+    attestations: [],
+  };
+}
+
+function portalReceipt(policyId: string): LegacyPortalReceipt {
+  return {
+    receiptVersion: '1',
+    runId: 'ab'.repeat(16),
+    sequenceNumber: 1,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    localTime: '2026-01-01T00:00:00.000Z',
+    monotonicCounter: 1,
+    timeSource: 'DEGRADED_LOCAL',
+    eventType: 'POLICY_LOADED',
+    decision: { action: 'NONE', reasonCode: 'OK', details: 'Policy artifact sealed and loaded' },
+    policy: { policyId },
+    chain: { prevReceiptHash: ZERO_HASH },
+  };
+}
+
+async function verifyWire(artifact: PolicyArtifact, receipts: Receipt[]) {
+  const contents = {
+    manifest: { format_version: '1.0', bundle_id: 'bundle_1', files: [] },
+    artifact,
+    receipts,
+  } as unknown as BundleContents;
+
+  return verifyBundle(contents, new Map(), { checkExpiration: false });
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+describe('convertLegacyArtifact', () => {
+  it('should round-trip an aga-lib artifact without loss', async () => {
+    const legacy = await agaArtifact();
+    const wire = convertLegacyArtifact(legacy, { signer });
+
+    expect(wire.vault_id).toBe('vault_1');
+    expect(wire.enforcement_policy.on_drift).toBe('QUARANTINE');
+    expect(wire.policy_hash).toBe(legacyHash({ ...legacy, signature: undefined }));
+    expect(legacyCanonicalize(restoreLegacyArtifact(wire))).toBe(legacyCanonicalize(legacy));
+  });
+
+  it('should round-trip a portal-seal artifact through JSON', () => {
+    const legacy = portalArtifact();
+    const wire = JSON.parse(JSON.stringify(convertLegacyArtifact(legacy)));
+
+    expect(wire.issuer.key_id).toBe(key.keyId);
+    expect(wire.enforcement_policy.on_drift).toBe('KILL');
+    expect(wire.policy_hash).toBe(legacyHash(legacy));
+    expect(restoreLegacyArtifact(wire)).toEqual(legacy);
+  });
+
+  it('should require the issuer key for aga-lib artifacts', async () => {
+    const legacy = await agaArtifact();
+    expect(() => convertLegacyArtifact(legacy)).toThrow(/public key/);
+  });
+});
+
+describe('convertLegacyReceipt', () => {
+  it('should keep the legacy chain hash of a portal-seal receipt', () => {
+    const legacy = portalReceipt(HASH_A);
+    const wire = convertLegacyReceipt(legacy, { signer: { ...signer, signature: '' } });
+
+    expect(wire.chain.this_receipt_hash).toBe(legacyHash(legacy));
+    expect(wire.receipt_id).toBe(wire.chain.this_receipt_hash);
+    expect(restoreLegacyReceipt(wire)).toEqual(legacy);
+  });
+});
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+describe('legacy signatures', () => {
+  it('should verify the signature an aga-lib issuer produced', async () => {
+    const wire = convertLegacyArtifact(await agaArtifact(), { signer });
+    expect(await verifyLegacyArtifactSignature(wire)).toEqual({ valid: true });
+  });
+
+  it('should reject wire fields edited after conversion', async () => {
+    const wire = convertLegacyArtifact(await agaArtifact(), { signer });
+    const edited = { ...wire, enforcement_policy: { ...wire.enforcement_policy, on_drift: 'CONTINUE' as const } };
+
+    const result = await verifyLegacyArtifactSignature(edited);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/do not match/);
+  });
+
+  it('should reject unsigned portal-seal objects', async () => {
+    const wire = convertLegacyArtifact(portalArtifact());
+    const result = await verifyLegacyArtifactSignature(wire);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/no issuer signature/);
+  });
+
+  it('should verify a portal-seal receipt signed over its whole document', async () => {
+    const legacy = portalReceipt(HASH_A);
+    const signature = await signLegacyObject(legacy, base64ToBytes(key.privateKey));
+    const wire = convertLegacyReceipt(legacy, { signer: { ...signer, signature } });
+
+    expect(await verifyLegacyReceiptSignature(wire)).toEqual({ valid: true });
+  });
+});
+
+// ============================================================================
+// OFFLINE VERIFIER
+// ============================================================================
+
+describe('verifyBundle with legacy objects', () => {
+  it('should pass an aga-lib artifact and receipt chain', async () => {
+    const artifact = convertLegacyArtifact(await agaArtifact(), { signer });
+    const first = convertLegacyReceipt(await agaReceipt(1, ZERO_HASH), { signer });
+    const second = convertLegacyReceipt(await agaReceipt(2, first.chain.this_receipt_hash), { signer });
+
+    const output = await verifyWire(artifact, [first, second]);
+    expect(output.checks.filter((c) => c.result === 'FAIL')).toEqual([]);
+  });
+
+  it('should fail a receipt whose legacy body was altered', async () => {
+    const artifact = convertLegacyArtifact(await agaArtifact(), { signer });
+    const receipt = convertLegacyReceipt(await agaReceipt(1, ZERO_HASH), { signer });
+    const tampered = {
+      ...receipt,
+      legacy: { ...receipt.legacy!, fields: { ...receipt.legacy!.fields, portalIdentifier: 'portal_2' } },
+    };
+
+    const output = await verifyWire(artifact, [tampered]);
+    expect(output.checks.find((c) => c.name === 'receipt_signatures')?.result).toBe('FAIL');
+  });
+
+  it('should fail the policy hash of a tampered portal-seal artifact', async () => {
+    const artifact = convertLegacyArtifact(portalArtifact());
+    const tampered = { ...artifact, sealed_hash: HASH_B };
+
+    const output = await verifyWire(tampered, []);
+    expect(output.checks.find((c) => c.name === 'policy_hash')?.result).toBe('FAIL');
+  });
+});
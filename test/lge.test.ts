@@ -0,0 +1,174 @@
+/**
+ * Local Governance Engine Service Tests
+ * Per AGA Build Guide Phase 12 (Local Deployment)
+ *
+ * Runs the LGE against a sealed subject on disk and checks its HTTP
+ * endpoints, the JSONL ledger and enforcement on drift.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import { parseLedger } from '../packages/core/src/bundle/structure';
+import { verifyBundle, type BundleContents } from '../packages/core/src/verifier';
+import type { MeasurementSpec, PolicyArtifact } from '../packages/core/src/types';
+import { FileSystemMeasurementBackend, LocalGovernanceEngine, type LgeConfig } from '../packages/runtime/src';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SPECS: MeasurementSpec[] = [
+  {
+    type: 'FILE_DIGEST',
+    path: 'config.yaml',
+    normalize: { line_endings: 'LF', trim_trailing_whitespace: true, encoding: 'UTF-8' },
+  },
+];
+
+let root: string;
+let config: LgeConfig;
+let lge: LocalGovernanceEngine | null;
+
+async function sealSubject(): Promise<PolicyArtifact> {
+  const subjectRoot = path.join(root, 'subject');
+  await mkdir(subjectRoot, { recursive: true });
+  await writeFile(path.join(subjectRoot, 'config.yaml'), 'mode: strict\n');
+
+  const { manifest } = await new FileSystemMeasurementBackend(subjectRoot).buildManifest(SPECS);
+  const { publicKey, privateKey } = await generateKeyPair();
+
+  return createPolicyArtifact({
+    vaultId: '1234-56789-0123',
+    privateKey,
+    publicKey,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name: 'lge-test',
+      measurementCadenceMs: 20,
+      ttlSeconds: null,
+      enforcementAction: 'KILL',
+      measurements: SPECS,
+      subjectManifest: manifest,
+    },
+  });
+}
+
+async function startLge(artifact: PolicyArtifact): Promise<LocalGovernanceEngine> {
+  await writeFile(config.artifactPath, JSON.stringify(artifact));
+  lge = new LocalGovernanceEngine(config);
+  await lge.start();
+  return lge;
+}
+
+async function get(pathname: string) {
+  return fetch(`http://127.0.0.1:${lge!.getPort()}${pathname}`);
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'lge-'));
+  config = {
+    port: 0,
+    host: '127.0.0.1',
+    logLevel: 'error',
+    ledgerPath: path.join(root, 'ledger'),
+    dataPath: path.join(root, 'data'),
+    artifactPath: path.join(root, 'artifact.json'),
+    subjectRoot: path.join(root, 'subject'),
+    measurementCadenceMs: 20,
+  };
+  lge = null;
+});
+
+afterEach(async () => {
+  await lge?.stop();
+  await rm(root, { recursive: true, force: true });
+});
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+describe('LocalGovernanceEngine', () => {
+  it('should serve status, receipts and the chain head for a running artifact', async () => {
+    const artifact = await sealSubject();
+    await startLge(artifact);
+
+    await vi.waitFor(async () => {
+      const status = await (await get('/v1/status')).json();
+      expect(status.data.receipt_count).toBeGreaterThanOrEqual(3);
+    });
+
+    const status = (await (await get('/v1/status')).json()).data;
+    expect(status.status).toBe('ok');
+    expect(status.artifact_id).toBe(artifact.artifact_id);
+
+    const page = await (await get('/v1/receipts?limit=1&cursor=1')).json();
+    expect(page.data).toHaveLength(1);
+    expect(page.data[0].sequence_number).toBe(2);
+    expect(page.data[0].event_type).toBe('MEASUREMENT_OK');
+    expect(page.meta.nextCursor).toBe(2);
+
+    const head = (await (await get('/v1/chain/head')).json()).data;
+    expect(head.run_id).toBe(status.run_id);
+
+    expect((await get('/v1/receipts?limit=0')).status).toBe(400);
+    expect((await get('/v1/unknown')).status).toBe(404);
+  });
+
+  it('should write a verifiable JSONL ledger', async () => {
+    const artifact = await sealSubject();
+    await startLge(artifact);
+
+    await vi.waitFor(() => expect(lge!.getStatus().receipt_count).toBeGreaterThanOrEqual(2));
+    await lge!.stop();
+
+    const { run_id: runId } = JSON.parse(await readFile(path.join(config.ledgerPath, 'chain_head.json'), 'utf-8'));
+    const receipts = parseLedger(await readFile(path.join(config.ledgerPath, `${runId}.jsonl`), 'utf-8'));
+    expect(receipts[0].event_type).toBe('RUN_STARTED');
+
+    const output = await verifyBundle(
+      { manifest: { format_version: '1.0', files: [] }, artifact, receipts } as unknown as BundleContents,
+      new Map(),
+      { checkExpiration: false }
+    );
+    expect(output.checks.filter((c) => c.result === 'FAIL')).toEqual([]);
+    lge = null;
+  });
+
+  it('should export the current run as a bundle archive', async () => {
+    await startLge(await sealSubject());
+
+    const res = await get('/v1/bundle');
+    const body = new Uint8Array(await res.arrayBuffer());
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/zip');
+    expect(res.headers.get('x-bundle-id')).toMatch(/^bnd_/);
+    expect(Array.from(body.slice(0, 2))).toEqual([0x50, 0x4b]);
+  });
+
+  it('should stop measuring after a KILL on drift', async () => {
+    await startLge(await sealSubject());
+    await writeFile(path.join(config.subjectRoot, 'config.yaml'), 'mode: permissive\n');
+
+    await vi.waitFor(() => expect(lge!.getStatus().engine_state).toBe('stopped'));
+
+    const receipts = (await (await get('/v1/receipts')).json()).data;
+    const drift = receipts[receipts.length - 1];
+    expect(drift.event_type).toBe('DRIFT_DETECTED');
+    expect(drift.decision.action).toBe('KILL');
+    expect((await (await get('/v1/status')).json()).data.status).toBe('degraded');
+  });
+
+  it('should refuse to start with a tampered artifact', async () => {
+    const artifact = await sealSubject();
+    await writeFile(config.artifactPath, JSON.stringify({ ...artifact, vault_id: '9999-99999-9999' }));
+
+    await expect(new LocalGovernanceEngine(config).start()).rejects.toThrow(/failed verification/);
+  });
+});
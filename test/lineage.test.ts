@@ -0,0 +1,170 @@
+/**
+ * Artifact Lineage Tests
+ * Per AGA Build Guide Phase 6
+ *
+ * Covers verifying a chain of superseding artifact versions, alone and as
+ * the artifact_lineage check of a bundle.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bytesToBase64, generateKeyPair } from '../packages/core/src/crypto/signature';
+import { generateKeyIdHash } from '../packages/core/src/crypto/keys';
+import { createKeyRotation } from '../packages/core/src/bundle/key-rotation';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import { createGenesisReceipt } from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator } from '../packages/core/src/bundle/generator';
+import { loadBundleContents } from '../packages/core/src/bundle/reader';
+import { verifyArtifactLineage, verifyBundle } from '../packages/core/src/verifier';
+import type { KeyScheduleEntry, PolicyArtifact } from '../packages/core/src/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type KeyPair = Awaited<ReturnType<typeof generateKeyPair>>;
+
+function seal(
+  key: KeyPair,
+  name: string,
+  previous?: PolicyArtifact,
+  options: { vaultId?: string; keySchedule?: KeyScheduleEntry[] } = {}
+): Promise<PolicyArtifact> {
+  return createPolicyArtifact({
+    vaultId: options.vaultId ?? '1234-56789-0123',
+    privateKey: key.privateKey,
+    publicKey: key.publicKey,
+    keySchedule: options.keySchedule,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name,
+      measurementCadenceMs: 60000,
+      ttlSeconds: null,
+      enforcementAction: 'ALERT',
+    },
+    ...(previous && {
+      previousArtifact: { artifactId: previous.artifact_id, policyHash: previous.policy_hash },
+      policyVersion: previous.policy_version + 1,
+    }),
+  });
+}
+
+/** v1 -> v2 -> v3, all sealed by one key */
+async function threeVersions() {
+  const key = await generateKeyPair();
+  const v1 = await seal(key, 'policy v1');
+  const v2 = await seal(key, 'policy v2', v1);
+  const v3 = await seal(key, 'policy v3', v2);
+  return { key, v1, v2, v3 };
+}
+
+// ============================================================================
+// LINEAGE
+// ============================================================================
+
+describe('verifyArtifactLineage', () => {
+  it('should accept a chain of versions each referencing its predecessor', async () => {
+    const { v1, v2, v3 } = await threeVersions();
+
+    expect([v1, v2, v3].map((v) => v.policy_version)).toEqual([1, 2, 3]);
+    expect(v2.previous_artifact_ref).toEqual({ prior_artifact_id: v1.artifact_id, prior_policy_hash: v1.policy_hash });
+    expect(await verifyArtifactLineage([v1, v2, v3])).toEqual({ valid: true, versions: 3 });
+    expect(await verifyArtifactLineage([v1])).toEqual({ valid: true, versions: 1 });
+  });
+
+  it('should reject skipped, reordered and unsigned versions', async () => {
+    const { v1, v2, v3 } = await threeVersions();
+
+    expect((await verifyArtifactLineage([v1, v3])).reason).toBe(
+      `Version 2 (${v3.artifact_id}): References ${v2.artifact_id}, not ${v1.artifact_id}`
+    );
+    expect((await verifyArtifactLineage([v2, v1])).reason).toMatch(/^Version 1 .*which is not in the lineage$/);
+
+    // A predecessor edited after its successor was sealed no longer matches the reference
+    const edited = { ...v1, not_after: '2030-01-01T00:00:00.000Z' };
+    expect((await verifyArtifactLineage([edited, v2])).reason).toBe(`Version 1 (${v1.artifact_id}): Invalid artifact signature`);
+  });
+
+  it('should reject a successor that changes vault or is sealed by an unrelated key', async () => {
+    const { key, v1 } = await threeVersions();
+
+    const moved = await seal(key, 'policy v2', v1, { vaultId: '9999-99999-9999' });
+    expect((await verifyArtifactLineage([v1, moved])).reason).toMatch(/Vault 9999-99999-9999 differs/);
+
+    const stranger = await generateKeyPair();
+    const hijacked = await seal(stranger, 'policy v2', v1);
+    expect((await verifyArtifactLineage([v1, hijacked])).reason).toMatch(
+      new RegExp(`does not rotate from ${v1.issuer.key_id}$`)
+    );
+  });
+
+  it('should follow the issuer across a key rotation', async () => {
+    const previousKey = await generateKeyPair();
+    const nextKey = await generateKeyPair();
+    const v1 = await seal(previousKey, 'policy v1');
+
+    const root: KeyScheduleEntry = {
+      key_id: await generateKeyIdHash(previousKey.publicKey),
+      public_key: bytesToBase64(previousKey.publicKey),
+      created_at: v1.issued_at,
+    };
+    const rotated = await createKeyRotation({
+      previousPrivateKey: previousKey.privateKey,
+      previousPublicKey: previousKey.publicKey,
+      privateKey: nextKey.privateKey,
+      publicKey: nextKey.publicKey,
+      reason: 'scheduled rotation',
+    });
+    const v2 = await seal(nextKey, 'policy v2', v1, {
+      keySchedule: [{ ...root, revoked_at: rotated.created_at }, rotated],
+    });
+
+    expect(await verifyArtifactLineage([v1, v2])).toEqual({ valid: true, versions: 2 });
+  });
+});
+
+// ============================================================================
+// BUNDLE
+// ============================================================================
+
+describe('verifyBundle artifact_lineage', () => {
+  async function bundleLineage(key: KeyPair, artifact: PolicyArtifact, lineage: PolicyArtifact[]) {
+    const genesis = await createGenesisReceipt(
+      {
+        artifactId: artifact.artifact_id,
+        policyHash: artifact.policy_hash,
+        sealedHash: artifact.sealed_hash,
+        vaultId: artifact.vault_id,
+      },
+      key.privateKey,
+      key.publicKey
+    );
+    const bundle = await new BundleGenerator().generate({
+      artifact,
+      receipts: [genesis.receipt],
+      chainHead: genesis.chainHead,
+      lineage,
+    });
+    const contents = loadBundleContents(bundle.files);
+    const output = await verifyBundle(contents, bundle.files);
+    return { contents, output, check: output.checks.find((c) => c.name === 'artifact_lineage') };
+  }
+
+  it('should carry superseded versions and verify them against the artifact', async () => {
+    const { key, v1, v2, v3 } = await threeVersions();
+    const { contents, output, check } = await bundleLineage(key, v3, [v1, v2]);
+
+    expect(contents.manifest.components).toContain('lineage');
+    expect(contents.lineage).toEqual([v1, v2]);
+    expect(check).toEqual({ name: 'artifact_lineage', result: 'PASS' });
+    expect(output.result).toBe('PASS');
+  });
+
+  it('should fail a bundle whose lineage does not lead to its artifact', async () => {
+    const { key, v1, v3 } = await threeVersions();
+    const { output, check } = await bundleLineage(key, v3, [v1]);
+
+    expect(check?.result).toBe('FAIL');
+    expect(output.result).toBe('FAIL');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Merkle Tree Tests
+ * Per AGA Spec Appendix B (TV-MERKLE-001, TV-MERKLE-002)
+ *
+ * Validates RFC 6962 tree hashing, inclusion and consistency proofs, the
+ * checkpoint tree builder and bundle checkpoint verification against the
+ * normative vectors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import tvMerkle from '../test-vectors/tv-merkle-001.json';
+import tvConsistency from '../test-vectors/tv-merkle-002.json';
+import {
+  buildMerkleTree,
+  computeMerkleRoot,
+  generateInclusionProof,
+  verifyInclusionProof,
+  generateConsistencyProof,
+  verifyConsistencyProof,
+  hashLeaf,
+  hashNode,
+  MERKLE_EMPTY_ROOT,
+} from '../packages/core/src/crypto/merkle';
+import { MerkleTreeBuilder, CheckpointScheduler, InclusionProofGenerator } from '../packages/arweave/src/anchor';
+import { verifyBundle, type BundleContents } from '../packages/core/src/verifier';
+import type { BundleCheckpoint } from '../packages/core/src/bundle/structure';
+
+const leaves = tvMerkle.leaves;
+
+// ============================================================================
+// TEST VECTORS
+// ============================================================================
+
+describe('TV-MERKLE-001', () => {
+  it('should hash leaves with the 0x00 prefix', () => {
+    expect(leaves.map((leaf) => hashLeaf(leaf))).toEqual(tvMerkle.expected.leaf_hashes);
+  });
+
+  it('should return SHA-256 of the empty string for an empty tree', () => {
+    expect(computeMerkleRoot([])).toBe(tvMerkle.expected.empty_root);
+    expect(MERKLE_EMPTY_ROOT).toBe(tvMerkle.expected.empty_root);
+  });
+
+  it.each(tvMerkle.expected.roots.map((r) => [r.tree_size, r.root] as const))(
+    'root for tree_size %i',
+    (size, root) => {
+      expect(computeMerkleRoot(leaves.slice(0, size))).toBe(root);
+    }
+  );
+
+  it.each(tvMerkle.expected.inclusion_proofs.map((p) => [p.leaf_index, p.tree_size, p] as const))(
+    'inclusion proof for leaf %i of %i',
+    (index, size, vector) => {
+      const tree = buildMerkleTree(leaves.slice(0, size));
+      const proof = generateInclusionProof(tree, index);
+
+      expect(proof.audit_path).toEqual(vector.audit_path);
+      expect(verifyInclusionProof(proof)).toBe(true);
+    }
+  );
+});
+
+describe('TV-MERKLE-002', () => {
+  it.each(tvConsistency.vectors.map((v) => [v.first_size, v.second_size, v] as const))(
+    'consistency proof from %i to %i',
+    (firstSize, secondSize, vector) => {
+      const proof = generateConsistencyProof(buildMerkleTree(leaves.slice(0, secondSize)), firstSize);
+
+      expect(proof.first_root).toBe(vector.first_root);
+      expect(proof.second_root).toBe(vector.second_root);
+      expect(proof.path).toEqual(vector.path);
+      expect(verifyConsistencyProof(proof)).toBe(true);
+    }
+  );
+});
+
+// ============================================================================
+// PROOF VERIFICATION
+// ============================================================================
+
+describe('verifyInclusionProof', () => {
+  const tree = buildMerkleTree(leaves);
+
+  it('should not treat a duplicated last leaf as part of the tree', () => {
+    const withDuplicate = computeMerkleRoot([...leaves, leaves[leaves.length - 1]]);
+    expect(withDuplicate).not.toBe(tree.root);
+  });
+
+  it('should reject a proof presented for another index or tree size', () => {
+    const proof = generateInclusionProof(tree, 2);
+
+    expect(verifyInclusionProof({ ...proof, leaf_index: 3 })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, tree_size: 3 })).toBe(false);
+    expect(verifyInclusionProof(proof, computeMerkleRoot(leaves.slice(0, 6)))).toBe(false);
+  });
+
+  it('should not let interior nodes stand in for leaves', () => {
+    const four = buildMerkleTree(leaves.slice(0, 4));
+    const left = hashNode(four.leafHashes[0], four.leafHashes[1]);
+    const right = hashNode(four.leafHashes[2], four.leafHashes[3]);
+
+    expect(computeMerkleRoot([left, right])).not.toBe(four.root);
+  });
+});
+
+describe('verifyConsistencyProof', () => {
+  const tree = buildMerkleTree(leaves);
+  const proof = generateConsistencyProof(tree, 3);
+
+  it('should reject a rewritten history', () => {
+    const rewritten = buildMerkleTree([leaves[0], leaves[2], leaves[1], ...leaves.slice(3)]);
+    const forged = { ...proof, second_root: rewritten.root };
+
+    expect(verifyConsistencyProof(forged)).toBe(false);
+    expect(verifyConsistencyProof(proof, proof.first_root, rewritten.root)).toBe(false);
+  });
+
+  it('should reject tampered paths and mismatched sizes', () => {
+    const tampered = { ...proof, path: [...proof.path] };
+    tampered.path[0] = hashLeaf(leaves[6]);
+
+    expect(verifyConsistencyProof(tampered)).toBe(false);
+    expect(verifyConsistencyProof({ ...proof, path: proof.path.slice(1) })).toBe(false);
+    expect(verifyConsistencyProof({ ...proof, first_size: 4 })).toBe(false);
+    expect(verifyConsistencyProof({ ...proof, second_size: 4 })).toBe(false);
+  });
+
+  it('should only accept an empty path for identical trees', () => {
+    const same = generateConsistencyProof(tree, 7);
+
+    expect(same.path).toEqual([]);
+    expect(verifyConsistencyProof(same)).toBe(true);
+    expect(verifyConsistencyProof({ ...same, second_root: proof.first_root })).toBe(false);
+  });
+});
+
+// ============================================================================
+// CHECKPOINT TREE BUILDER
+// ============================================================================
+
+describe('MerkleTreeBuilder', () => {
+  it('should produce the shared RFC 6962 root and verifiable proofs', async () => {
+    const builder = new MerkleTreeBuilder();
+    const tree = await builder.build(leaves.slice(0, 5));
+
+    expect(tree.root).toBe(tvMerkle.expected.roots[4].root);
+
+    const proof = await builder.generateProof(tree, 4);
+    expect(await builder.verifyProof(proof)).toBe(true);
+  });
+});
+
+describe('CheckpointScheduler', () => {
+  it('should link successive checkpoints with consistency proofs', async () => {
+    const scheduler = new CheckpointScheduler({ maxReceiptsPerCheckpoint: 1000 });
+    leaves.slice(0, 3).forEach((leaf, i) => scheduler.addReceipt(`rcpt_${i}`, leaf, 'art_1'));
+    const first = await scheduler.createCheckpoint();
+    leaves.slice(3).forEach((leaf, i) => scheduler.addReceipt(`rcpt_${i + 3}`, leaf, 'art_1'));
+    const second = await scheduler.createCheckpoint();
+    scheduler.stop();
+
+    expect(first?.consistencyProof).toBeNull();
+    expect(second?.treeSize).toBe(7);
+    expect(second?.logRoot).toBe(tvMerkle.expected.roots[6].root);
+    expect(second?.merkleRoot).toBe(computeMerkleRoot(leaves.slice(3)));
+
+    const generator = new InclusionProofGenerator();
+    expect(await generator.verifyCheckpointConsistency(first!, second!)).toBe(true);
+    expect(await generator.verifyCheckpointConsistency({ ...first!, logRoot: second!.merkleRoot }, second!)).toBe(false);
+  });
+});
+
+// ============================================================================
+// BUNDLE VERIFICATION
+// ============================================================================
+
+describe('verifyBundle checkpoint_consistency', () => {
+  const receipts = leaves.map((leaf) => ({ chain: { this_receipt_hash: leaf } }));
+
+  function checkpointAt(size: number, previousSize?: number): BundleCheckpoint {
+    const tree = buildMerkleTree(leaves.slice(0, size));
+    return {
+      checkpoint_id: `ckpt_${size}`,
+      tree_size: size,
+      log_root: tree.root,
+      consistency_proof: previousSize ? generateConsistencyProof(tree, previousSize) : null,
+    };
+  }
+
+  async function consistencyCheck(checkpoints: BundleCheckpoint[]) {
+    const contents = {
+      manifest: { format_version: '1.0', files: [] },
+      artifact: { issuer: {} },
+      receipts,
+      checkpoints,
+    } as unknown as BundleContents;
+
+    const output = await verifyBundle(contents, new Map(), { checkExpiration: false });
+    return output.checks.find((c) => c.name === 'checkpoint_consistency');
+  }
+
+  it('should pass when each checkpoint extends the previous one', async () => {
+    const check = await consistencyCheck([checkpointAt(7, 5), checkpointAt(2), checkpointAt(5, 2)]);
+    expect(check?.result).toBe('PASS');
+  });
+
+  it('should fail when a checkpoint log root does not match the ledger', async () => {
+    const forged = { ...checkpointAt(5, 2), log_root: computeMerkleRoot(leaves.slice(1, 6)) };
+    const check = await consistencyCheck([checkpointAt(2), forged]);
+    expect(check?.result).toBe('FAIL');
+  });
+
+  it('should fail when a consistency proof is missing', async () => {
+    const check = await consistencyCheck([checkpointAt(2), checkpointAt(5)]);
+    expect(check?.result).toBe('FAIL');
+  });
+});
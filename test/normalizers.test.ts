@@ -0,0 +1,152 @@
+/**
+ * Subject Normalizer Tests
+ * Per Evolution Spec v1.0 - Step 1 (Subject Normalization)
+ *
+ * Checks that semantically equal subjects normalize to the same bytes and
+ * that real changes still do.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeSubjectBytes } from '../src/lib/aga/normalizers';
+import { SubjectType } from '../src/lib/aga/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+function normalized(text: string | Uint8Array, type: SubjectType): string {
+  return decode(normalizeSubjectBytes(typeof text === 'string' ? encode(text) : text, type).normalizedBytes);
+}
+
+/** Minimal ustar writer; mtime varies per call like a rebuilt archive */
+function tar(files: [string, string][], mtime: number): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  for (const [name, content] of files) {
+    const data = encode(content);
+    const header = new Uint8Array(512);
+    header.set(encode(name), 0);
+    header.set(encode('0000644\0'), 100);
+    header.set(encode(`${data.length.toString(8).padStart(11, '0')}\0`), 124);
+    header.set(encode(`${mtime.toString(8).padStart(11, '0')}\0`), 136);
+    header[156] = 0x30;
+    header.set(encode('ustar\u000000'), 257);
+    blocks.push(header, data, new Uint8Array((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(new Uint8Array(1024));
+
+  const out = new Uint8Array(blocks.reduce((n, b) => n + b.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    out.set(block, offset);
+    offset += block.length;
+  }
+  return out;
+}
+
+function safetensors(header: string, data: number[]): Uint8Array {
+  const headerBytes = encode(header);
+  const out = new Uint8Array(8 + headerBytes.length + data.length);
+  new DataView(out.buffer).setBigUint64(0, BigInt(headerBytes.length), true);
+  out.set(headerBytes, 8);
+  out.set(data, 8 + headerBytes.length);
+  return out;
+}
+
+// ============================================================================
+// NORMALIZERS
+// ============================================================================
+
+describe('normalizeSubjectBytes', () => {
+  it('should canonicalize JSON and YAML configs to the same bytes', () => {
+    const json = normalized('{\n  "replicas": 3,\n  "image": "api:1.2"\n}\n', SubjectType.CONFIG);
+    const yaml = normalized('# deployment\nimage: "api:1.2"\nreplicas: 3\n', SubjectType.CONFIG);
+
+    expect(json).toBe('{"image":"api:1.2","replicas":3}');
+    expect(yaml).toBe(json);
+    expect(normalized('image: api:1.3\nreplicas: 3\n', SubjectType.CONFIG)).not.toBe(json);
+  });
+
+  it('should reduce docker save tarballs to config and layer digests', () => {
+    const files: [string, string][] = [
+      ['manifest.json', JSON.stringify([{ Config: 'config.json', Layers: ['l1/layer.tar', 'l2/layer.tar'] }])],
+      ['config.json', '{"architecture":"amd64"}'],
+      ['l1/layer.tar', 'layer one'],
+      ['l2/layer.tar', 'layer two'],
+    ];
+
+    const first = normalizeSubjectBytes(tar(files, 1_700_000_000), SubjectType.CONTAINER);
+    const rebuilt = normalizeSubjectBytes(tar([...files].reverse(), 1_800_000_000), SubjectType.CONTAINER);
+
+    expect(first.metadata).toEqual({ method: 'oci-image-digests', version: '1.0.0', warnings: [] });
+    expect(decode(rebuilt.normalizedBytes)).toBe(decode(first.normalizedBytes));
+    expect(JSON.parse(decode(first.normalizedBytes)).manifests[0].layers).toHaveLength(2);
+  });
+
+  it('should read digests from an OCI image layout', () => {
+    const manifest = { config: { digest: 'sha256:cc' }, layers: [{ digest: 'sha256:l1' }] };
+    const archive = tar(
+      [
+        ['index.json', JSON.stringify({ manifests: [{ digest: 'sha256:mm' }] })],
+        ['blobs/sha256/mm', JSON.stringify(manifest)],
+      ],
+      1_700_000_000
+    );
+
+    expect(JSON.parse(normalized(archive, SubjectType.CONTAINER))).toEqual({
+      format: 'oci',
+      manifests: [{ config: 'sha256:cc', layers: ['sha256:l1'] }],
+    });
+  });
+
+  it('should strip generation fields and sort CycloneDX components', () => {
+    const bom = (timestamp: string, serial: string, components: object[]) =>
+      JSON.stringify({
+        bomFormat: 'CycloneDX',
+        specVersion: '1.5',
+        serialNumber: serial,
+        metadata: { timestamp },
+        components,
+      });
+    const a = { 'bom-ref': 'pkg:npm/a@1', name: 'a' };
+    const b = { 'bom-ref': 'pkg:npm/b@1', name: 'b' };
+
+    expect(normalized(bom('2026-01-01T00:00:00Z', 'urn:uuid:1', [a, b]), SubjectType.SBOM)).toBe(
+      normalized(bom('2026-02-01T00:00:00Z', 'urn:uuid:2', [b, a]), SubjectType.SBOM)
+    );
+  });
+
+  it('should strip the SPDX creation time', () => {
+    const spdx = (created: string) =>
+      JSON.stringify({ spdxVersion: 'SPDX-2.3', creationInfo: { created, creators: ['Tool: x'] }, packages: [] });
+
+    expect(normalized(spdx('2026-01-01T00:00:00Z'), SubjectType.SBOM)).toBe(
+      normalized(spdx('2026-03-01T00:00:00Z'), SubjectType.SBOM)
+    );
+  });
+
+  it('should normalize document line endings', () => {
+    expect(normalized('\uFEFFline one\r\nline two\rline three\n', SubjectType.DOCUMENT)).toBe(
+      'line one\nline two\nline three\n'
+    );
+  });
+
+  it('should canonicalize safetensors headers and keep tensor data', () => {
+    const a = safetensors('{"w": {"dtype": "F32", "shape": [1], "data_offsets": [0, 4]}}', [1, 2, 3, 4]);
+    const b = safetensors('{"w":{"shape":[1],"data_offsets":[0,4],"dtype":"F32"}}', [1, 2, 3, 4]);
+    const changed = safetensors('{"w":{"shape":[1],"data_offsets":[0,4],"dtype":"F32"}}', [1, 2, 3, 5]);
+
+    expect(normalized(a, SubjectType.MODEL)).toBe(normalized(b, SubjectType.MODEL));
+    expect(normalized(changed, SubjectType.MODEL)).not.toBe(normalized(a, SubjectType.MODEL));
+  });
+
+  it('should fall back to raw bytes with a warning', () => {
+    const result = normalizeSubjectBytes(encode('not an archive'), SubjectType.CONTAINER);
+
+    expect(result.metadata.method).toBe('raw');
+    expect(result.metadata.warnings[0]).toMatch(/oci-image-digests normalizer not applied/);
+    expect(decode(result.normalizedBytes)).toBe('not an archive');
+  });
+});
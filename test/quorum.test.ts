@@ -0,0 +1,209 @@
+/**
+ * Approval Quorum Tests
+ * Per AGA Build Guide Phase 2.2 (Attestations)
+ *
+ * Covers attestations added after issuance, M-of-N counting per role, and
+ * the verifier's approval_quorum check.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { bytesToBase64, generateKeyPair } from '../packages/core/src/crypto/signature';
+import { generateKeyIdHash } from '../packages/core/src/crypto/keys';
+import {
+  addAttestation,
+  createPolicyArtifact,
+  evaluateApprovalQuorum,
+  validateApprovalQuorum,
+  verifyPolicyArtifact,
+} from '../packages/core/src/bundle/policy-artifact';
+import { createGenesisReceipt } from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator } from '../packages/core/src/bundle/generator';
+import { verifyBundle } from '../packages/core/src/verifier';
+import type { ApprovalQuorum, Attestation, PolicyArtifact, QuorumRequirement } from '../packages/core/src/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function sealed(approvalQuorum?: ApprovalQuorum): Promise<PolicyArtifact> {
+  const { publicKey, privateKey } = await generateKeyPair();
+  return createPolicyArtifact({
+    vaultId: '1234-56789-0123',
+    privateKey,
+    publicKey,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name: 'quorum-test',
+      measurementCadenceMs: 60000,
+      ttlSeconds: null,
+      enforcementAction: 'ALERT',
+      approvalQuorum,
+    },
+  });
+}
+
+type Attestor = Awaited<ReturnType<typeof attestor>>;
+
+async function attestor() {
+  const { publicKey, privateKey } = await generateKeyPair();
+  return { privateKey, publicKeyB64: bytesToBase64(publicKey), keyId: await generateKeyIdHash(publicKey) };
+}
+
+async function attest(artifact: PolicyArtifact, role: Attestation['role'], signer: Attestor) {
+  return addAttestation(
+    artifact,
+    {
+      attestor_id: `att_${signer.keyId}`,
+      role,
+      public_key: signer.publicKeyB64,
+      timestamp: new Date().toISOString(),
+    },
+    signer.privateKey
+  );
+}
+
+// ============================================================================
+// ATTESTATIONS AND QUORUM
+// ============================================================================
+
+describe('approval quorum', () => {
+  let approvers: Attestor[];
+  let auditor: Attestor;
+  let quorum: ApprovalQuorum;
+
+  beforeAll(async () => {
+    approvers = [await attestor(), await attestor(), await attestor()];
+    auditor = await attestor();
+    quorum = {
+      requirements: [
+        // Listed by key id and by public key
+        { role: 'approver', threshold: 2, attestors: [approvers[0].keyId, approvers[1].publicKeyB64, approvers[2].keyId] },
+        { role: 'auditor', threshold: 1, attestors: [auditor.keyId] },
+      ],
+    };
+  });
+
+  it('should keep the issuer signature valid as attestations are added', async () => {
+    const artifact = await attest(await sealed(quorum), 'approver', approvers[0]);
+
+    expect(artifact.attestations).toHaveLength(1);
+    expect((await verifyPolicyArtifact(artifact)).errors).toEqual([]);
+  });
+
+  it('should count distinct valid keys per role', async () => {
+    let artifact = await sealed(quorum);
+    artifact = await attest(artifact, 'approver', approvers[0]);
+    artifact = await attest(artifact, 'auditor', auditor);
+
+    // The same approver signing twice still counts once
+    const repeat = await attest(artifact, 'approver', approvers[0]);
+    const partial = await evaluateApprovalQuorum(repeat, quorum);
+    expect(partial.satisfied).toBe(false);
+    expect(partial.requirements.map((r) => [r.role, r.count])).toEqual([
+      ['approver', 1],
+      ['auditor', 1],
+    ]);
+
+    artifact = await attest(artifact, 'approver', approvers[1]);
+    expect((await evaluateApprovalQuorum(artifact, quorum)).satisfied).toBe(true);
+  });
+
+  it('should ignore forged, unlisted and misattributed attestations', async () => {
+    const single: ApprovalQuorum = { requirements: [{ role: 'approver', threshold: 1, attestors: [approvers[0].keyId] }] };
+    const base = await sealed();
+    const listed = await attest(base, 'approver', approvers[0]);
+
+    const forged = { ...listed.attestations[0], timestamp: new Date(0).toISOString() };
+    expect((await evaluateApprovalQuorum({ ...listed, attestations: [forged] }, single)).satisfied).toBe(false);
+
+    const outsider = await attestor();
+    expect((await evaluateApprovalQuorum(await attest(base, 'approver', outsider), single)).satisfied).toBe(false);
+
+    // An unlisted key signing under a listed attestor_id
+    const impersonated = await addAttestation(
+      base,
+      {
+        attestor_id: `att_${approvers[0].keyId}`,
+        role: 'approver',
+        public_key: outsider.publicKeyB64,
+        timestamp: new Date().toISOString(),
+      },
+      outsider.privateKey
+    );
+    expect((await evaluateApprovalQuorum(impersonated, single)).satisfied).toBe(false);
+
+    // A listed key whose attestation claims some other attestor_id
+    const misattributed = await addAttestation(
+      base,
+      {
+        attestor_id: 'att_someone_else',
+        role: 'approver',
+        public_key: approvers[0].publicKeyB64,
+        timestamp: new Date().toISOString(),
+      },
+      approvers[0].privateKey
+    );
+    expect((await evaluateApprovalQuorum(misattributed, single)).satisfied).toBe(false);
+
+    expect((await evaluateApprovalQuorum(listed, single)).satisfied).toBe(true);
+  });
+
+  it('should reject malformed quorum definitions', () => {
+    expect(validateApprovalQuorum({ requirements: [] })).toHaveLength(1);
+    expect(
+      validateApprovalQuorum({
+        requirements: [
+          { role: 'approver', threshold: 3, attestors: ['a', 'b', 'b'] },
+          { role: 'approver', threshold: 0, attestors: ['a'] },
+          { role: 'auditor', threshold: 1 } as unknown as QuorumRequirement,
+        ],
+      })
+    ).toEqual([
+      'Quorum threshold for approver exceeds its 2 eligible attestors',
+      'Duplicate quorum requirement for role approver',
+      'Quorum threshold for approver must be a positive integer',
+      'Quorum requirement for auditor must list its eligible attestor keys',
+    ]);
+  });
+});
+
+// ============================================================================
+// VERIFIER
+// ============================================================================
+
+describe('verifyBundle approval_quorum', () => {
+  async function verify(artifact: PolicyArtifact) {
+    const { publicKey, privateKey } = await generateKeyPair();
+    const { receipt, chainHead } = await createGenesisReceipt(
+      {
+        artifactId: artifact.artifact_id,
+        policyHash: artifact.policy_hash,
+        sealedHash: artifact.sealed_hash,
+        vaultId: artifact.vault_id,
+      },
+      privateKey,
+      publicKey
+    );
+    const bundle = await new BundleGenerator().generate({ artifact, receipts: [receipt], chainHead });
+    const output = await verifyBundle(
+      { manifest: bundle.manifest, artifact, receipts: [receipt], chainHead },
+      bundle.files
+    );
+    return output.checks.find((c) => c.name === 'approval_quorum');
+  }
+
+  it('should report whether valid signatures satisfy the quorum', async () => {
+    const approver = await attestor();
+    const quorum: ApprovalQuorum = { requirements: [{ role: 'approver', threshold: 1, attestors: [approver.keyId] }] };
+    const draft = await sealed(quorum);
+
+    expect(await verify(draft)).toEqual({
+      name: 'approval_quorum',
+      result: 'FAIL',
+      reason: 'Approval quorum not met: approver 0/1',
+    });
+    expect((await verify(await attest(draft, 'approver', approver)))?.result).toBe('PASS');
+    expect(await verify(await sealed())).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Replay Protection Tests
+ * Per AGA Spec Appendix B (TV-RPY-001, TV-RPY-002)
+ *
+ * Validates per-stream sequence tracking, persistence across restarts and
+ * the receipts written by the runtime engine for rejected samples.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import tvReplay001 from '../test-vectors/tv-replay-001.json';
+import tvReplay002 from '../test-vectors/tv-replay-002.json';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import type { PolicyArtifact } from '../packages/core/src/types';
+import {
+  FileSystemMeasurementBackend,
+  RuntimeEngine,
+  ReplayGuard,
+  FileReplayStateStore,
+  evaluateSequence,
+  type ReplayStateStore,
+} from '../packages/runtime/src';
+
+// ============================================================================
+// TEST VECTORS
+// ============================================================================
+
+describe('TV-RPY', () => {
+  it.each([tvReplay001, tvReplay002].map((v) => [v.id, v] as const))('%s', (_id, vector) => {
+    const result = evaluateSequence(
+      vector.input.sequence_number,
+      vector.input.last_accepted_sequence_number
+    );
+
+    expect(result.accept).toBe(vector.expected.accept);
+    if (vector.expected.accept) {
+      expect(result.reason).toBe(vector.expected.reason);
+    } else {
+      expect(result.reasonCode).toBe(vector.expected.reason);
+    }
+  });
+});
+
+// ============================================================================
+// REPLAY GUARD
+// ============================================================================
+
+describe('ReplayGuard', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aga-replay-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reject regressions as replays and gaps as invalid', async () => {
+    const guard = new ReplayGuard();
+    await guard.accept('run_1', 'pressure_psi', 1);
+    await guard.accept('run_1', 'pressure_psi', 2);
+
+    expect(guard.check('run_1', 'pressure_psi', 1).reasonCode).toBe('REPLAY_DETECTED');
+    expect(guard.check('run_1', 'pressure_psi', 4).reasonCode).toBe('SEQUENCE_INVALID');
+    expect(guard.check('run_1', 'pressure_psi', 0).reasonCode).toBe('SEQUENCE_INVALID');
+    expect(guard.check('run_1', 'temp_c', 1).accept).toBe(true);
+    expect(guard.check('run_2', 'pressure_psi', 1).accept).toBe(true);
+  });
+
+  it('should keep accepted sequence numbers across restarts', async () => {
+    const file = path.join(dir, 'replay-state.json');
+
+    const first = new ReplayGuard(new FileReplayStateStore(file));
+    await first.load();
+    await first.accept('run_1', 'pressure_psi', 1);
+
+    const restarted = new ReplayGuard(new FileReplayStateStore(file));
+    await restarted.load();
+
+    expect(restarted.getLastAccepted('run_1', 'pressure_psi')).toBe(1);
+    expect((await restarted.accept('run_1', 'pressure_psi', 1)).reasonCode).toBe('REPLAY_DETECTED');
+    expect((await restarted.accept('run_1', 'pressure_psi', 2)).accept).toBe(true);
+  });
+
+  it('should only continue past a gap once resynced', async () => {
+    const file = path.join(dir, 'replay-state.json');
+    const guard = new ReplayGuard(new FileReplayStateStore(file));
+    await guard.load();
+    await guard.accept('art_1', 'pressure_psi', 1);
+
+    expect((await guard.accept('art_1', 'pressure_psi', 5)).reasonCode).toBe('SEQUENCE_INVALID');
+    expect((await guard.accept('art_1', 'pressure_psi', 5)).reasonCode).toBe('SEQUENCE_INVALID');
+
+    await guard.resync('art_1', 'pressure_psi', 4);
+    expect((await guard.accept('art_1', 'pressure_psi', 5)).accept).toBe(true);
+
+    // A sender whose counter restarted starts again from 1
+    await guard.resync('art_1', 'pressure_psi', null);
+    const restarted = new ReplayGuard(new FileReplayStateStore(file));
+    await restarted.load();
+    expect(restarted.getLastAccepted('art_1', 'pressure_psi')).toBeNull();
+    expect((await restarted.accept('art_1', 'pressure_psi', 1)).accept).toBe(true);
+
+    await expect(guard.resync('art_1', 'pressure_psi', 0)).rejects.toThrow('not a positive integer');
+  });
+});
+
+// ============================================================================
+// ENGINE INTEGRATION
+// ============================================================================
+
+describe('RuntimeEngine replay protection', () => {
+  const artifact = {
+    artifact_id: 'art_replay_test',
+    vault_id: '1234-56789-0123',
+    policy_hash: 'a'.repeat(64),
+    not_before: new Date(Date.now() - 1000).toISOString(),
+    not_after: null,
+    telemetry_policy: {
+      streams: [{
+        stream_id: 'pressure_psi',
+        cadence_seconds: 60,
+        drift_rule: { type: 'RANGE', min: 10, max: 100 },
+        missing_data_tolerance_seconds: 30,
+        late_data_policy: { grace_seconds: 10 },
+        enforcement_mapping: { on_drift: 'KILL', on_missing: 'ALERT', on_late: 'ALERT' },
+      }],
+    },
+  } as unknown as PolicyArtifact;
+
+  async function startEngine(replayStore?: ReplayStateStore, runId?: string): Promise<RuntimeEngine> {
+    const engine = new RuntimeEngine();
+    await engine.initialize(artifact, {
+      artifactId: artifact.artifact_id,
+      vaultId: artifact.vault_id,
+      measurementCadenceMs: 60 * 60 * 1000,
+      enforcementAction: 'ALERT',
+      ttlSeconds: null,
+      measurementBackend: new FileSystemMeasurementBackend(tmpdir()),
+      replayStore,
+      runId,
+      signingKey: await generateKeyPair(),
+    });
+    return engine;
+  }
+
+  it('should write a REPLAY_DETECTED receipt and skip the replayed sample', async () => {
+    const engine = await startEngine();
+
+    const measurementTime = new Date().toISOString();
+    await engine.ingestTelemetry({ stream_id: 'pressure_psi', value: 50, measurement_time: measurementTime, sequence_number: 1 });
+
+    // Replayed sample carries a drifting value; it must not trigger KILL
+    const events = await engine.ingestTelemetry({ stream_id: 'pressure_psi', value: 5, measurement_time: measurementTime, sequence_number: 1 });
+    expect(events.map((e) => e.eventType)).toEqual(['REPLAY_DETECTED']);
+    expect(engine.getState()).toBe('running');
+
+    await engine.stop();
+
+    const receipt = engine.getReceipts()[engine.getReceipts().length - 1];
+    expect(receipt.event_type).toBe('REPLAY_DETECTED');
+    expect(receipt.decision.reason_code).toBe('REPLAY_DETECTED');
+    expect(receipt.decision.action).toBe('CONTINUE');
+  });
+
+  it('should reject replays when a run resumes after a restart and resume after a resync', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'aga-replay-'));
+    const file = path.join(dir, 'replay-state.json');
+    const measurementTime = new Date().toISOString();
+    const sample = (sequence_number: number) =>
+      ({ stream_id: 'pressure_psi', value: 50, measurement_time: measurementTime, sequence_number });
+
+    const first = await startEngine(new FileReplayStateStore(file));
+    const runId = first.getChainHead()!.run_id;
+    await first.ingestTelemetry(sample(1));
+    await first.stop();
+
+    const restarted = await startEngine(new FileReplayStateStore(file), runId);
+    expect((await restarted.ingestTelemetry(sample(1))).map((e) => e.reasonCode)).toEqual(['REPLAY_DETECTED']);
+
+    const gap = await restarted.ingestTelemetry(sample(3));
+    expect(gap.map((e) => [e.eventType, e.reasonCode])).toEqual([['SEQUENCE_INVALID', 'SEQUENCE_INVALID']]);
+    const receipts = restarted.getReceipts();
+    expect(receipts[receipts.length - 1].event_type).toBe('SEQUENCE_INVALID');
+
+    await restarted.resyncTelemetry('pressure_psi', 2);
+    expect((await restarted.ingestTelemetry(sample(3))).map((e) => e.eventType)).toEqual(['MEASUREMENT_OK']);
+    await restarted.stop();
+
+    // A new run tracks its streams from 1 again
+    const nextRun = await startEngine(new FileReplayStateStore(file));
+    expect((await nextRun.ingestTelemetry(sample(1))).map((e) => e.eventType)).toEqual(['MEASUREMENT_OK']);
+    await nextRun.stop();
+
+    await rm(dir, { recursive: true, force: true });
+  });
+});
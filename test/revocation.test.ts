@@ -0,0 +1,178 @@
+/**
+ * Key Revocation Tests
+ * Per AGA Build Guide Phase 6 (Offline Verifier)
+ *
+ * Covers resolving signing keys from keyrings, failing signatures made
+ * after revocation, and the KEY_REVOKED_NO_ANCHOR and DEMO_KEY caveats.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bytesToBase64, generateKeyPair } from '../packages/core/src/crypto/signature';
+import { generateKeyIdHash } from '../packages/core/src/crypto/keys';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import { createGenesisReceipt, createReceipt, updateChainHead } from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator } from '../packages/core/src/bundle/generator';
+import { loadBundleContents } from '../packages/core/src/bundle/reader';
+import { DEMO_KEY_NAME, type Keyring } from '../packages/core/src/bundle/structure';
+import { verifyBundle, type VerificationOptions } from '../packages/core/src/verifier';
+import { LocalTsa } from '../packages/core/src/tsa/local';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function sealedChain(options: { tsa?: LocalTsa; receiptKey?: Awaited<ReturnType<typeof generateKeyPair>> } = {}) {
+  const issuer = await generateKeyPair();
+  const artifact = await createPolicyArtifact({
+    vaultId: '1234-56789-0123',
+    privateKey: issuer.privateKey,
+    publicKey: issuer.publicKey,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name: 'revocation-test',
+      measurementCadenceMs: 60000,
+      ttlSeconds: null,
+      enforcementAction: 'ALERT',
+    },
+  });
+
+  const genesis = await createGenesisReceipt(
+    {
+      artifactId: artifact.artifact_id,
+      policyHash: artifact.policy_hash,
+      sealedHash: artifact.sealed_hash,
+      vaultId: artifact.vault_id,
+    },
+    issuer.privateKey,
+    issuer.publicKey,
+    { tsa: options.tsa }
+  );
+  const signer = options.receiptKey ?? issuer;
+  const receipt = await createReceipt({
+    runId: genesis.chainHead.run_id,
+    sequenceNumber: 2,
+    eventType: 'MEASUREMENT_OK',
+    policyId: artifact.policy_hash,
+    decision: { action: 'CONTINUE', reasonCode: 'OK' },
+    prevReceiptHash: genesis.chainHead.head_receipt_hash,
+    privateKey: signer.privateKey,
+    publicKey: signer.publicKey,
+    tsa: options.tsa,
+  });
+
+  return {
+    artifact,
+    receipts: [genesis.receipt, receipt],
+    chainHead: updateChainHead(genesis.chainHead, receipt),
+  };
+}
+
+type Chain = Awaited<ReturnType<typeof sealedChain>>;
+
+/** A caller keyring that revokes the issuer key at `revokedAt` */
+function revokingKeyring(chain: Chain, revokedAt: Date): Keyring {
+  return {
+    version: '1.0',
+    keys: [
+      {
+        key_id: chain.artifact.issuer.key_id,
+        public_key: chain.artifact.issuer.public_key,
+        role: 'issuer',
+        valid_from: chain.artifact.issued_at,
+        revoked_at: revokedAt.toISOString(),
+      },
+    ],
+  };
+}
+
+async function verify(chain: Chain, options: VerificationOptions = {}) {
+  const bundle = await new BundleGenerator().generate(chain);
+  return verifyBundle(loadBundleContents(bundle.files), bundle.files, options);
+}
+
+const signingKeys = (output: Awaited<ReturnType<typeof verify>>) =>
+  output.checks.find((c) => c.name === 'signing_keys');
+
+// ============================================================================
+// KEY RESOLUTION
+// ============================================================================
+
+describe('verifyBundle signing_keys', () => {
+  it('should pass keys from the bundle keyring and key schedule', async () => {
+    const output = await verify(await sealedChain());
+
+    expect(signingKeys(output)).toEqual({ name: 'signing_keys', result: 'PASS' });
+    expect(output.warnings).toEqual([]);
+  });
+
+  it('should fail signatures by keys missing from every trusted keyring', async () => {
+    const stranger = await generateKeyPair();
+    const chain = await sealedChain({ receiptKey: stranger });
+
+    expect(signingKeys(await verify(chain))).toEqual({
+      name: 'signing_keys',
+      result: 'FAIL',
+      reason: `Receipt 2 key ${await generateKeyIdHash(stranger.publicKey)} is not in a trusted keyring`,
+    });
+
+    // A caller keyring replaces the bundle's own claims about its keys
+    const trusted: Keyring = {
+      version: '1.0',
+      keys: [{ key_id: 'stranger', public_key: bytesToBase64(stranger.publicKey), role: 'platform', valid_from: '2026-01-01T00:00:00Z' }],
+    };
+    expect(signingKeys(await verify(chain, { keyrings: [trusted] }))?.reason).toMatch(/^Artifact key .* is not in a trusted keyring$/);
+  });
+  it('should pass with a caveat when the issuer is labeled a demo key', async () => {
+    const chain = await sealedChain();
+    const bundle = await new BundleGenerator().generate({ ...chain, demoIssuer: true });
+    const contents = loadBundleContents(bundle.files);
+    const output = await verifyBundle(contents, bundle.files);
+
+    expect((contents.keyring as Keyring).keys[0]).toMatchObject({ name: DEMO_KEY_NAME, demo: true });
+    expect(signingKeys(output)).toEqual({ name: 'signing_keys', result: 'PASS' });
+    expect(output.warnings.map((w) => w.code)).toEqual(['DEMO_KEY']);
+    expect(output.result).toBe('PASS_WITH_CAVEATS');
+  });
+});
+
+// ============================================================================
+// REVOCATION
+// ============================================================================
+
+describe('verifyBundle key revocation', () => {
+  it('should fail signatures made after revocation', async () => {
+    const chain = await sealedChain();
+    const revokedAt = new Date(chain.artifact.issued_at);
+
+    const output = await verify(chain, { keyrings: [revokingKeyring(chain, revokedAt)] });
+    expect(output.result).toBe('FAIL');
+    expect(signingKeys(output)?.reason).toMatch(/^Artifact was signed at .*, after key .* was revoked at/);
+  });
+
+  it('should pass with caveats when no anchor proves signing preceded revocation', async () => {
+    const chain = await sealedChain();
+    const output = await verify(chain, { keyrings: [revokingKeyring(chain, new Date(Date.now() + 60000))] });
+
+    expect(output.result).toBe('PASS_WITH_CAVEATS');
+    expect(output.exit_code).toBe(2);
+    expect(output.warnings.map((w) => w.code)).toEqual(['KEY_REVOKED_NO_ANCHOR']);
+  });
+
+  it('should accept a trusted timestamp as proof of signing before revocation', async () => {
+    const tsa = await LocalTsa.create();
+    const chain = await sealedChain({ tsa });
+    const keyrings = [revokingKeyring(chain, new Date(Date.now() + 60000))];
+
+    const anchored = await verify(chain, { keyrings, trustedTsaCertificates: [tsa.certificateB64] });
+    expect(anchored.result).toBe('PASS');
+    expect(anchored.exit_code).toBe(0);
+    expect(anchored.metadata.time_anchor).toBe('rfc3161');
+    expect(anchored.warnings).toEqual([]);
+    expect(signingKeys(anchored)?.reason).toMatch(/revoked at .*, after a timestamp anchored its signatures$/);
+
+    // Without trusting the TSA its tokens prove nothing
+    const unanchored = await verify(chain, { keyrings });
+    expect(unanchored.warnings.map((w) => w.code)).toEqual(['KEY_REVOKED_NO_ANCHOR']);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Policy Rule Evaluation Tests
+ * Per Evolution Spec v1.0 - Step 7 (Attestation Evaluation)
+ *
+ * Covers the condition language, its refusal to reach outside the rule
+ * context, and how failed rules map to blocking or enforcement actions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GATE_RULE_TYPE,
+  compileCondition,
+  evaluateCondition,
+  evaluatePolicyRules,
+  type RuleContext,
+} from '../src/lib/aga/rules';
+import { EnforcementAction, SubjectType, type PolicyRule } from '../src/lib/aga/types';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const SUBJECT_ID = { bytesHash: 'a'.repeat(64), metadataHash: 'b'.repeat(64), combinedHash: 'c'.repeat(64) };
+
+const CONTEXT: RuleContext = {
+  subject: {
+    type: SubjectType.CONFIG,
+    bytesHash: SUBJECT_ID.bytesHash,
+    metadataHash: SUBJECT_ID.metadataHash,
+    metadata: {
+      name: 'payments-service.yaml',
+      version: '2.4.1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      customAttributes: { environment: 'production', replicas: 3 },
+    },
+  },
+  measurements: {
+    FILE_DIGEST: { type: 'FILE_DIGEST', hash: 'a'.repeat(64), match: true },
+  },
+  claims: { license: 'Apache-2.0', reviewers: ['alice', 'bob'] },
+};
+
+function rule(ruleId: string, condition: string, overrides: Partial<PolicyRule> = {}): PolicyRule {
+  return { ruleId, ruleType: 'REQUIREMENT', condition, action: EnforcementAction.ALERT_ONLY, ...overrides };
+}
+
+// ============================================================================
+// CONDITION LANGUAGE
+// ============================================================================
+
+describe('evaluateCondition', () => {
+  it.each([
+    ["subject.type == 'CONFIG'", true],
+    ["subject.metadata.customAttributes.environment in ['staging', 'production']", true],
+    ['subject.metadata.customAttributes.replicas >= 3 && measurements.FILE_DIGEST.match', true],
+    ["!(claims.license == 'GPL-3.0') || false", true],
+    ["len(claims.reviewers) > 1 && contains(claims.reviewers, 'alice')", true],
+    ["startsWith(subject.metadata.name, 'payments') && endsWith(subject.metadata.name, '.yaml')", true],
+    ['exists(claims.license) && !exists(claims.export_control)', true],
+    ["claims.reviewers.0 == 'alice'", true],
+    ['claims.missing == null', true],
+    ['subject.metadata.customAttributes.replicas < -1', false],
+  ])('should evaluate %s', (condition, expected) => {
+    expect(evaluateCondition(condition, CONTEXT)).toBe(expected);
+  });
+
+  it('should reject syntax it does not define', () => {
+    expect(() => compileCondition('process.exit(1)')).toThrow(/Unknown identifier 'process'/);
+    expect(() => compileCondition("claims.license = 'MIT'")).toThrow(/Unexpected character/);
+    expect(() => compileCondition('subject.type ==')).toThrow(/end of condition/);
+  });
+
+  it('should not resolve prototype properties', () => {
+    expect(evaluateCondition('exists(claims.constructor)', CONTEXT)).toBe(false);
+    expect(evaluateCondition('claims.__proto__ == null', CONTEXT)).toBe(true);
+  });
+
+  it('should refuse to coerce between types', () => {
+    expect(() => evaluateCondition("subject.metadata.customAttributes.replicas > '2'", CONTEXT)).toThrow(
+      /Cannot order/
+    );
+    expect(() => evaluateCondition('claims.license && true', CONTEXT)).toThrow(/expects a boolean/);
+    expect(() => evaluateCondition('claims.license', CONTEXT)).toThrow(/must evaluate to a boolean/);
+  });
+
+  it('should bound nesting depth', () => {
+    expect(() => compileCondition(`${'('.repeat(40)}true${')'.repeat(40)}`)).toThrow(/too deeply/);
+  });
+});
+
+// ============================================================================
+// POLICY RULES
+// ============================================================================
+
+describe('evaluatePolicyRules', () => {
+  it('should record a RuleEvaluation per rule', () => {
+    const outcome = evaluatePolicyRules(
+      [rule('license', "claims.license == 'Apache-2.0'"), rule('env', "subject.metadata.customAttributes.environment == 'dev'")],
+      CONTEXT,
+      SUBJECT_ID,
+      { evaluatedAt: '2026-01-01T00:00:00.000Z' }
+    );
+
+    expect(outcome.attestation.passed).toBe(false);
+    expect(outcome.attestation.rules.map((r) => [r.ruleId, r.verdict])).toEqual([
+      ['license', true],
+      ['env', false],
+    ]);
+    expect(outcome.attestation.rules[0].evidence).toMatchObject({
+      condition: "claims.license == 'Apache-2.0'",
+      subjectBytesHash: SUBJECT_ID.bytesHash,
+      evaluatedAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should report failed GATE rules as blocking', () => {
+    const outcome = evaluatePolicyRules(
+      [rule('signed-off', 'len(claims.reviewers) >= 3', { ruleType: GATE_RULE_TYPE })],
+      CONTEXT,
+      SUBJECT_ID
+    );
+
+    expect(outcome.blockingRuleIds).toEqual(['signed-off']);
+    expect(outcome.enforcementAction).toBeNull();
+  });
+
+  it('should escalate to the most severe mapped action', () => {
+    const outcome = evaluatePolicyRules(
+      [
+        rule('a', 'false', { action: EnforcementAction.SAFE_STATE }),
+        rule('b', 'false', { action: EnforcementAction.ALERT_ONLY }),
+        rule('c', 'true', { action: EnforcementAction.TERMINATE }),
+      ],
+      CONTEXT,
+      SUBJECT_ID,
+      { enforcementActionsMapping: { b: EnforcementAction.QUARANTINE } }
+    );
+
+    expect(outcome.blockingRuleIds).toEqual([]);
+    expect(outcome.enforcementAction).toBe(EnforcementAction.QUARANTINE);
+  });
+
+  it('should fail a rule whose condition does not parse', () => {
+    const outcome = evaluatePolicyRules([rule('broken', 'claims.license ==')], CONTEXT, SUBJECT_ID);
+
+    expect(outcome.attestation.rules[0].verdict).toBe(false);
+    expect(outcome.attestation.rules[0].evidence.error).toMatch(/end of condition/);
+  });
+});
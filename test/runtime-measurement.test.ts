@@ -0,0 +1,334 @@
+/**
+ * Runtime File Measurement Tests
+ * Per AGA Build Guide Phase 5.2
+ *
+ * Tests for the Node file-system measurement backend and engine drift receipts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmod, mkdtemp, rm, writeFile, mkdir, symlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import type { MeasurementSpec, PolicyArtifact } from '../packages/core/src/types';
+import {
+  FileSystemMeasurementBackend,
+  RuntimeEngine,
+  normalizeFileContent,
+  resolveSubjectPath,
+  type MeasurementBackend,
+  type SubjectMeasurement,
+} from '../packages/runtime/src';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TEXT_NORMALIZE: MeasurementSpec['normalize'] = {
+  line_endings: 'LF',
+  trim_trailing_whitespace: true,
+  encoding: 'UTF-8',
+};
+
+const SPECS: MeasurementSpec[] = [
+  { type: 'FILE_DIGEST', path: 'config/app.yaml', normalize: TEXT_NORMALIZE },
+  {
+    type: 'FILE_DIGEST',
+    path: 'model.bin',
+    normalize: { line_endings: 'NONE', trim_trailing_whitespace: false, encoding: 'BINARY' },
+  },
+];
+
+async function sealArtifact(backend: FileSystemMeasurementBackend): Promise<PolicyArtifact> {
+  const { manifest } = await backend.buildManifest(SPECS);
+  const now = new Date().toISOString();
+
+  return {
+    artifact_id: 'art_measurement_test',
+    vault_id: '1234-56789-0123',
+    policy_hash: 'a'.repeat(64),
+    sealed_hash: 'b'.repeat(64),
+    not_before: now,
+    not_after: null,
+    integrity_policy: {
+      config_digest: 'c'.repeat(64),
+      config_source: 'CONFIG_SOURCE_C',
+      measurements: SPECS,
+      subject_manifest: manifest,
+    },
+  } as unknown as PolicyArtifact;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+describe('normalizeFileContent', () => {
+  const encode = (s: string) => new TextEncoder().encode(s);
+  const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+  it('should convert CRLF and trim trailing whitespace', () => {
+    const out = normalizeFileContent(encode('a: 1  \r\nb: 2\t\r\n'), TEXT_NORMALIZE);
+    expect(decode(out)).toBe('a: 1\nb: 2\n');
+  });
+
+  it('should emit CRLF when requested', () => {
+    const out = normalizeFileContent(encode('a\nb\r\n'), {
+      ...TEXT_NORMALIZE,
+      line_endings: 'CRLF',
+    });
+    expect(decode(out)).toBe('a\r\nb\r\n');
+  });
+
+  it('should leave binary content untouched', () => {
+    const raw = new Uint8Array([0xff, 0x0d, 0x0a, 0x20]);
+    const out = normalizeFileContent(raw, SPECS[1].normalize);
+    expect(out).toEqual(raw);
+  });
+});
+
+describe('resolveSubjectPath', () => {
+  it('should reject paths escaping the root', () => {
+    expect(() => resolveSubjectPath('/srv/subject', '../etc/passwd')).toThrow();
+    expect(() => resolveSubjectPath('/srv/subject', '/etc/passwd')).toThrow();
+  });
+
+  it('should resolve nested relative paths', () => {
+    expect(resolveSubjectPath('/srv/subject', 'config/./app.yaml')).toBe(
+      path.join('/srv/subject', 'config', 'app.yaml')
+    );
+  });
+});
+
+// ============================================================================
+// FILE-SYSTEM BACKEND
+// ============================================================================
+
+describe('FileSystemMeasurementBackend', () => {
+  let rootDir: string;
+  let backend: FileSystemMeasurementBackend;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'aga-measure-'));
+    await mkdir(path.join(rootDir, 'config'));
+    await writeFile(path.join(rootDir, 'config/app.yaml'), 'replicas: 3\nimage: app:1.0\n');
+    await writeFile(path.join(rootDir, 'model.bin'), new Uint8Array([1, 2, 3, 4]));
+    backend = new FileSystemMeasurementBackend(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should match the sealed manifest when nothing changed', async () => {
+    const artifact = await sealArtifact(backend);
+    const result = await backend.measure(artifact);
+
+    expect(result.match).toBe(true);
+    expect(result.mismatchedPaths).toEqual([]);
+    expect(result.compositeHash).toBe(result.expectedHash);
+  });
+
+  it('should ignore line ending and whitespace-only changes', async () => {
+    const artifact = await sealArtifact(backend);
+    await writeFile(path.join(rootDir, 'config/app.yaml'), 'replicas: 3  \r\nimage: app:1.0\r\n');
+
+    const result = await backend.measure(artifact);
+    expect(result.match).toBe(true);
+  });
+
+  it('should report mismatched and missing paths', async () => {
+    const artifact = await sealArtifact(backend);
+    await writeFile(path.join(rootDir, 'config/app.yaml'), 'replicas: 30\nimage: app:1.0\n');
+    await rm(path.join(rootDir, 'model.bin'));
+
+    const result = await backend.measure(artifact);
+    expect(result.match).toBe(false);
+    expect(result.mismatchedPaths).toEqual(['config/app.yaml', 'model.bin']);
+    expect(result.missingPaths).toEqual(['model.bin']);
+  });
+
+  it('should reject a symlink that leads outside the root', async () => {
+    const artifact = await sealArtifact(backend);
+    const outside = await mkdtemp(path.join(tmpdir(), 'aga-outside-'));
+    await writeFile(path.join(outside, 'model.bin'), new Uint8Array([1, 2, 3, 4]));
+    await rm(path.join(rootDir, 'model.bin'));
+    await symlink(path.join(outside, 'model.bin'), path.join(rootDir, 'model.bin'));
+
+    await expect(backend.measure(artifact)).rejects.toThrow(
+      'Measurement path escapes subject root through a symlink: model.bin'
+    );
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it('should follow a symlink that stays inside the root', async () => {
+    const artifact = await sealArtifact(backend);
+    await writeFile(path.join(rootDir, 'model.v1.bin'), new Uint8Array([1, 2, 3, 4]));
+    await rm(path.join(rootDir, 'model.bin'));
+    await symlink('model.v1.bin', path.join(rootDir, 'model.bin'));
+
+    expect((await backend.measure(artifact)).match).toBe(true);
+  });
+
+  // Permission bits do not restrict root
+  it.skipIf(process.getuid?.() === 0)('should report unreadable paths apart from missing ones', async () => {
+    const artifact = await sealArtifact(backend);
+    await chmod(path.join(rootDir, 'model.bin'), 0o000);
+
+    const result = await backend.measure(artifact);
+    expect(result.match).toBe(false);
+    expect(result.unreadablePaths).toEqual(['model.bin']);
+    expect(result.missingPaths).toEqual([]);
+  });
+
+  it('should emit a signed DRIFT_DETECTED receipt from the engine', async () => {
+    const artifact = await sealArtifact(backend);
+    const signingKey = await generateKeyPair();
+    const engine = new RuntimeEngine();
+
+    await engine.initialize(artifact, {
+      artifactId: artifact.artifact_id,
+      vaultId: artifact.vault_id,
+      measurementCadenceMs: 60 * 60 * 1000,
+      enforcementAction: 'ALERT',
+      ttlSeconds: null,
+      measurementBackend: backend,
+      signingKey,
+    });
+
+    await writeFile(path.join(rootDir, 'model.bin'), new Uint8Array([9, 9, 9]));
+    const result = await engine.measure();
+    await engine.stop();
+
+    expect(result.match).toBe(false);
+
+    const receipts = engine.getReceipts();
+    expect(receipts.map((r) => r.event_type)).toEqual(['RUN_STARTED', 'DRIFT_DETECTED']);
+
+    const drift = receipts[1];
+    expect(drift.decision.reason_code).toBe('HASH_MISMATCH_FILE');
+    expect(drift.decision.action).toBe('CONTINUE');
+    expect(drift.measurement?.mismatched_paths).toEqual(['model.bin']);
+    expect(drift.chain.prev_receipt_hash).toBe(receipts[0].chain.this_receipt_hash);
+    expect(engine.getChainHead()?.head_receipt_hash).toBe(drift.chain.this_receipt_hash);
+  });
+
+  it('should keep one chain when measurements run concurrently', async () => {
+    const artifact = await sealArtifact(backend);
+    const engine = new RuntimeEngine();
+
+    await engine.initialize(artifact, {
+      artifactId: artifact.artifact_id,
+      vaultId: artifact.vault_id,
+      measurementCadenceMs: 60 * 60 * 1000,
+      enforcementAction: 'ALERT',
+      ttlSeconds: null,
+      measurementBackend: backend,
+      signingKey: await generateKeyPair(),
+    });
+
+    await Promise.all(Array.from({ length: 5 }, () => engine.measure()));
+    await engine.stop();
+
+    const receipts = engine.getReceipts();
+    expect(receipts.map((r) => r.sequence_number)).toEqual([1, 2, 3, 4, 5, 6]);
+    receipts.slice(1).forEach((receipt, i) => {
+      expect(receipt.chain.prev_receipt_hash).toBe(receipts[i].chain.this_receipt_hash);
+    });
+    expect(engine.getChainHead()?.head_counter).toBe(6);
+  });
+});
+
+// ============================================================================
+// ENGINE LIFECYCLE
+// ============================================================================
+
+describe('RuntimeEngine scheduled measurements', () => {
+  const DRIFTED: SubjectMeasurement = {
+    manifest: { subject_v: '1', subject_root_hint: 'subject', entries: [], composite_subject_hash: 'c'.repeat(64) },
+    compositeHash: 'c'.repeat(64),
+    expectedHash: 'd'.repeat(64),
+    match: false,
+    mismatchedPaths: ['model.bin'],
+    missingPaths: [],
+    unreadablePaths: [],
+  };
+
+  const artifact = {
+    artifact_id: 'art_lifecycle_test',
+    vault_id: '1234-56789-0123',
+    policy_hash: 'a'.repeat(64),
+    not_before: new Date(Date.now() - 1000).toISOString(),
+    not_after: null,
+  } as unknown as PolicyArtifact;
+
+  /** Backend whose measurements stay in flight until released */
+  function heldBackend() {
+    let started!: () => void;
+    let release!: () => void;
+    const measuring = new Promise<void>((resolve) => { started = resolve; });
+    const result = new Promise<SubjectMeasurement>((resolve) => { release = () => resolve(DRIFTED); });
+    const backend: MeasurementBackend = {
+      measure: () => {
+        started();
+        return result;
+      },
+    };
+    return { backend, measuring, release };
+  }
+
+  async function startEngine(backend: MeasurementBackend, onError: (error: Error) => void) {
+    const engine = new RuntimeEngine({ onError });
+    await engine.initialize(artifact, {
+      artifactId: artifact.artifact_id,
+      vaultId: artifact.vault_id,
+      measurementCadenceMs: 20,
+      enforcementAction: 'KILL',
+      ttlSeconds: null,
+      measurementBackend: backend,
+      signingKey: await generateKeyPair(),
+    });
+    return engine;
+  }
+
+  it('should wait for a measurement under way before stop() resolves', async () => {
+    const errors: Error[] = [];
+    const { backend, measuring, release } = heldBackend();
+    const engine = await startEngine(backend, (error) => errors.push(error));
+
+    await measuring;
+    let stopped = false;
+    const stopping = engine.stop().then(() => { stopped = true; });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(stopped).toBe(false);
+
+    release();
+    await stopping;
+
+    expect(engine.getReceipts().map((r) => r.event_type)).toEqual(['RUN_STARTED', 'DRIFT_DETECTED']);
+    expect(engine.getState()).toBe('stopped');
+    expect(errors).toEqual([]);
+  });
+
+  it('should stop itself when a scheduled measurement drifts under KILL', async () => {
+    const errors: Error[] = [];
+    const { backend, release } = heldBackend();
+    release();
+
+    const engine = await startEngine(backend, (error) => errors.push(error));
+    await new Promise<void>((resolve) => {
+      const poll = setInterval(() => {
+        if (engine.getState() === 'stopped') {
+          clearInterval(poll);
+          resolve();
+        }
+      }, 5);
+    });
+
+    const events = engine.getReceipts().map((r) => r.event_type);
+    expect(events[0]).toBe('RUN_STARTED');
+    expect(events.slice(1).every((e) => e === 'DRIFT_DETECTED')).toBe(true);
+    expect(errors).toEqual([]);
+  });
+});
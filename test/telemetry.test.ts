@@ -0,0 +1,213 @@
+/**
+ * Telemetry Evaluation Tests
+ * Per AGA Spec Appendix B (TV-DRIFT-TELEMETRY)
+ *
+ * Validates stream drift, missing-data and late-data rules against the
+ * normative test vectors and the runtime engine receipt output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'node:os';
+import tvDriftTelemetry from '../test-vectors/tv-drift-telemetry.json';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import type { PolicyArtifact, StreamDefinition } from '../packages/core/src/types';
+import {
+  FileSystemMeasurementBackend,
+  RuntimeEngine,
+  TelemetryEvaluator,
+  evaluateDriftRule,
+  checkMissingData,
+  checkLateData,
+} from '../packages/runtime/src';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type Vector = (typeof tvDriftTelemetry.vectors)[number];
+
+function findVector(name: string): Vector {
+  const vector = tvDriftTelemetry.vectors.find((v) => v.name === name);
+  if (!vector) throw new Error(`Missing vector ${name}`);
+  return vector;
+}
+
+const PRESSURE_STREAM: StreamDefinition = {
+  stream_id: 'pressure_psi',
+  cadence_seconds: 60,
+  drift_rule: { type: 'RANGE', min: 10, max: 100 },
+  missing_data_tolerance_seconds: 30,
+  late_data_policy: { grace_seconds: 10 },
+  enforcement_mapping: { on_drift: 'KILL', on_missing: 'ALERT', on_late: 'ALERT' },
+};
+
+// ============================================================================
+// TEST VECTORS
+// ============================================================================
+
+describe('TV-DRIFT-TELEMETRY', () => {
+  const driftVectors = tvDriftTelemetry.vectors.filter((v) => 'observed_value' in v);
+
+  it.each(driftVectors.map((v) => [v.name, v] as const))('%s', (_name, vector) => {
+    const rule = vector.policy.drift_rule as StreamDefinition['drift_rule'];
+    const result = evaluateDriftRule(rule, vector.observed_value as number);
+
+    expect(result.driftDetected).toBe(vector.expected.drift_detected);
+    if (vector.expected.drift_detected) {
+      expect(result.details).toBe(vector.expected.details);
+    }
+  });
+
+  it('missing_data_beyond_tolerance', () => {
+    const vector = findVector('missing_data_beyond_tolerance');
+    const result = checkMissingData(
+      vector.policy as Pick<StreamDefinition, 'cadence_seconds' | 'missing_data_tolerance_seconds'>,
+      vector.last_measurement_at!,
+      vector.current_time!
+    );
+
+    expect(result.missing).toBe(true);
+    expect(result.gapSeconds).toBe(120);
+  });
+
+  it('late_data_beyond_grace', () => {
+    const vector = findVector('late_data_beyond_grace');
+    const result = checkLateData(
+      vector.policy as Pick<StreamDefinition, 'late_data_policy'>,
+      vector.expected_time!,
+      vector.measurement_time!
+    );
+
+    expect(result.late).toBe(true);
+    expect(result.delaySeconds).toBe(20);
+  });
+});
+
+// ============================================================================
+// STREAM EVALUATOR
+// ============================================================================
+
+describe('TelemetryEvaluator', () => {
+  const start = '2025-01-01T00:00:00.000Z';
+
+  it('should emit MISSING_DATA once per gap with the mapped action', () => {
+    const evaluator = new TelemetryEvaluator({ streams: [PRESSURE_STREAM] }, start);
+
+    expect(evaluator.checkMissing('2025-01-01T00:01:20.000Z')).toEqual([]);
+
+    const events = evaluator.checkMissing('2025-01-01T00:02:00.000Z');
+    expect(events).toHaveLength(1);
+    expect(events[0].eventType).toBe('MISSING_DATA');
+    expect(events[0].action).toBe('ALERT');
+
+    expect(evaluator.checkMissing('2025-01-01T00:03:00.000Z')).toEqual([]);
+  });
+
+  it('should flag late samples and still evaluate their value', () => {
+    const evaluator = new TelemetryEvaluator({ streams: [PRESSURE_STREAM] }, start);
+
+    const events = evaluator.ingest({
+      stream_id: 'pressure_psi',
+      value: 150,
+      measurement_time: '2025-01-01T00:01:20.000Z',
+    });
+
+    expect(events.map((e) => e.eventType)).toEqual(['LATE_DATA', 'DRIFT_DETECTED']);
+    expect(events[1].action).toBe('KILL');
+    expect(evaluator.getStreamState('pressure_psi')?.expectedNextAt).toBe('2025-01-01T00:02:20.000Z');
+  });
+
+  it('should reject unknown streams and more than five streams', () => {
+    const evaluator = new TelemetryEvaluator({ streams: [PRESSURE_STREAM] }, start);
+    expect(() =>
+      evaluator.ingest({ stream_id: 'temp_c', value: 1, measurement_time: start })
+    ).toThrow('Unknown telemetry stream');
+
+    const streams = Array.from({ length: 6 }, (_, i) => ({ ...PRESSURE_STREAM, stream_id: `s${i}` }));
+    expect(() => new TelemetryEvaluator({ streams })).toThrow('max 5');
+  });
+});
+
+// ============================================================================
+// ENGINE INTEGRATION
+// ============================================================================
+
+describe('RuntimeEngine telemetry', () => {
+  it('should write a DRIFT_DETECTED receipt with the mapped decision', async () => {
+    const signingKey = await generateKeyPair();
+    const artifact = {
+      artifact_id: 'art_telemetry_test',
+      vault_id: '1234-56789-0123',
+      policy_hash: 'a'.repeat(64),
+      not_before: new Date(Date.now() - 1000).toISOString(),
+      not_after: null,
+      telemetry_policy: {
+        streams: [{ ...PRESSURE_STREAM, enforcement_mapping: { ...PRESSURE_STREAM.enforcement_mapping, on_drift: 'ALERT' } }],
+      },
+    } as unknown as PolicyArtifact;
+
+    const engine = new RuntimeEngine();
+    await engine.initialize(artifact, {
+      artifactId: artifact.artifact_id,
+      vaultId: artifact.vault_id,
+      measurementCadenceMs: 60 * 60 * 1000,
+      enforcementAction: 'ALERT',
+      ttlSeconds: null,
+      measurementBackend: new FileSystemMeasurementBackend(tmpdir()),
+      signingKey,
+    });
+
+    await engine.ingestTelemetry({
+      stream_id: 'pressure_psi',
+      value: 5,
+      measurement_time: new Date().toISOString(),
+    });
+    await engine.stop();
+
+    const receipts = engine.getReceipts();
+    const drift = receipts[receipts.length - 1];
+    expect(drift.event_type).toBe('DRIFT_DETECTED');
+    expect(drift.decision.reason_code).toBe('DRIFT_TELEMETRY');
+    expect(drift.decision.action).toBe('CONTINUE');
+    expect(drift.decision.details).toBe('stream pressure_psi value 5 below minimum 10');
+  });
+
+  it('should chain receipts for concurrent samples in arrival order', async () => {
+    const artifact = {
+      artifact_id: 'art_telemetry_test',
+      vault_id: '1234-56789-0123',
+      policy_hash: 'a'.repeat(64),
+      not_before: new Date(Date.now() - 1000).toISOString(),
+      not_after: null,
+      telemetry_policy: {
+        streams: [{ ...PRESSURE_STREAM, enforcement_mapping: { ...PRESSURE_STREAM.enforcement_mapping, on_drift: 'ALERT' } }],
+      },
+    } as unknown as PolicyArtifact;
+
+    const engine = new RuntimeEngine();
+    await engine.initialize(artifact, {
+      artifactId: artifact.artifact_id,
+      vaultId: artifact.vault_id,
+      measurementCadenceMs: 60 * 60 * 1000,
+      enforcementAction: 'ALERT',
+      ttlSeconds: null,
+      measurementBackend: new FileSystemMeasurementBackend(tmpdir()),
+      signingKey: await generateKeyPair(),
+    });
+
+    const measurementTime = new Date().toISOString();
+    await Promise.all([1, 2, 3, 4].map((value) =>
+      engine.ingestTelemetry({ stream_id: 'pressure_psi', value, measurement_time: measurementTime })
+    ));
+    await engine.stop();
+
+    const receipts = engine.getReceipts();
+    expect(receipts.map((r) => r.sequence_number)).toEqual([1, 2, 3, 4, 5]);
+    expect(receipts.slice(1).map((r) => r.decision.details)).toEqual(
+      [1, 2, 3, 4].map((value) => `stream pressure_psi value ${value} below minimum 10`)
+    );
+    receipts.slice(1).forEach((receipt, i) => {
+      expect(receipt.chain.prev_receipt_hash).toBe(receipts[i].chain.this_receipt_hash);
+    });
+  });
+});
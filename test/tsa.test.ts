@@ -0,0 +1,187 @@
+/**
+ * Timestamp Authority Tests
+ * Per AGA Spec Section 12 (Receipts) and RFC 3161
+ *
+ * Covers tokens from the local stand-in TSA, the DEGRADED_LOCAL fallback,
+ * the HTTP client and the verifier's timestamp_tokens check.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import {
+  computeTimestampImprint,
+  createGenesisReceipt,
+  createReceipt,
+  updateChainHead,
+} from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator } from '../packages/core/src/bundle/generator';
+import { verifyBundle } from '../packages/core/src/verifier';
+import { LocalTsa, type LocalTsaAlgorithm } from '../packages/core/src/tsa/local';
+import { HttpTsaClient } from '../packages/core/src/tsa/client';
+import { verifyTimestampToken } from '../packages/core/src/tsa/rfc3161';
+import type { Receipt } from '../packages/core/src/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function sealedChain(tsa?: LocalTsa) {
+  const { publicKey, privateKey } = await generateKeyPair();
+  const artifact = await createPolicyArtifact({
+    vaultId: '1234-56789-0123',
+    privateKey,
+    publicKey,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name: 'tsa-test',
+      measurementCadenceMs: 60000,
+      ttlSeconds: null,
+      enforcementAction: 'ALERT',
+    },
+  });
+
+  const genesis = await createGenesisReceipt(
+    {
+      artifactId: artifact.artifact_id,
+      policyHash: artifact.policy_hash,
+      sealedHash: artifact.sealed_hash,
+      vaultId: artifact.vault_id,
+    },
+    privateKey,
+    publicKey,
+    { tsa }
+  );
+  const receipt = await createReceipt({
+    runId: genesis.chainHead.run_id,
+    sequenceNumber: 2,
+    eventType: 'MEASUREMENT_OK',
+    policyId: artifact.policy_hash,
+    decision: { action: 'CONTINUE', reasonCode: 'OK' },
+    prevReceiptHash: genesis.chainHead.head_receipt_hash,
+    privateKey,
+    publicKey,
+    tsa,
+  });
+
+  return {
+    artifact,
+    receipts: [genesis.receipt, receipt],
+    chainHead: updateChainHead(genesis.chainHead, receipt),
+  };
+}
+
+async function verify(chain: Awaited<ReturnType<typeof sealedChain>>, trustedTsaCertificates?: string[]) {
+  const bundle = await new BundleGenerator().generate(chain);
+  return verifyBundle({ manifest: bundle.manifest, ...chain }, bundle.files, { trustedTsaCertificates });
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+describe('RFC 3161 tokens', () => {
+  it.each<LocalTsaAlgorithm>(['Ed25519', 'ECDSA-P256'])('should verify %s tokens over the imprint', async (algorithm) => {
+    const tsa = await LocalTsa.create({ algorithm });
+    const imprint = 'c'.repeat(64);
+    const token = await tsa.requestTimestamp(imprint);
+
+    const result = await verifyTimestampToken(token, imprint, { trustedCertificates: [tsa.certificate] });
+    expect(result.reason).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(Math.abs(result.genTime!.getTime() - Date.now())).toBeLessThan(60000);
+
+    expect(await verifyTimestampToken(token, 'd'.repeat(64))).toMatchObject({
+      valid: false,
+      reason: 'Timestamp imprint does not match receipt',
+    });
+  });
+
+  it('should reject tokens from a TSA outside the trust anchors', async () => {
+    const tsa = await LocalTsa.create();
+    const other = await LocalTsa.create();
+    const token = await tsa.requestTimestamp('c'.repeat(64));
+
+    expect(await verifyTimestampToken(token, 'c'.repeat(64), { trustedCertificates: [other.certificate] })).toMatchObject({
+      valid: false,
+      reason: 'Timestamp signing certificate is not trusted',
+    });
+  });
+
+  it('should speak the RFC 3161 HTTP transport and surface rejections', async () => {
+    const tsa = await LocalTsa.create();
+    const requests: string[] = [];
+    const client = new HttpTsaClient({
+      url: 'https://tsa.example/tsr',
+      fetch: async (_url, init) => {
+        requests.push(new Headers(init?.headers).get('Content-Type')!);
+        return new Response(new Uint8Array(await tsa.respond(init?.body as Uint8Array)));
+      },
+    });
+
+    const token = await client.requestTimestamp('e'.repeat(64));
+    expect(requests).toEqual(['application/timestamp-query']);
+    expect((await verifyTimestampToken(token, 'e'.repeat(64))).valid).toBe(true);
+
+    const rejecting = new HttpTsaClient({
+      url: 'https://tsa.example/tsr',
+      fetch: async () => new Response(new Uint8Array(await tsa.respond(new Uint8Array([0x30, 0x00])))),
+    });
+    await expect(rejecting.requestTimestamp('e'.repeat(64))).rejects.toThrow(/TSA rejected request/);
+  });
+});
+
+// ============================================================================
+// RECEIPTS AND VERIFIER
+// ============================================================================
+
+describe('timestamped receipts', () => {
+  it('should anchor receipts and report rfc3161 to verifiers that trust the TSA', async () => {
+    const tsa = await LocalTsa.create();
+    const chain = await sealedChain(tsa);
+
+    expect(chain.receipts.map((r) => r.time_source)).toEqual(['TSA', 'TSA']);
+
+    const trusted = await verify(chain, [tsa.certificateB64]);
+    expect(trusted.result).toBe('PASS');
+    expect(trusted.checks.find((c) => c.name === 'timestamp_tokens')?.result).toBe('PASS');
+    expect(trusted.metadata.time_anchor).toBe('rfc3161');
+
+    const untrusted = await verify(chain);
+    expect(untrusted.result).toBe('PASS');
+    expect(untrusted.metadata.time_anchor).toBe('self-attested');
+  });
+
+  it('should fall back to DEGRADED_LOCAL when the TSA is unavailable', async () => {
+    const tsa = await LocalTsa.create();
+    tsa.available = false;
+    const chain = await sealedChain(tsa);
+
+    for (const receipt of chain.receipts) {
+      expect(receipt).toMatchObject({ time_source: 'DEGRADED_LOCAL', time_source_reason: 'TSA_UNAVAILABLE' });
+      expect(receipt.tsa_token).toBeUndefined();
+    }
+
+    const output = await verify(chain, [tsa.certificateB64]);
+    expect(output.result).toBe('PASS');
+    expect(output.checks.find((c) => c.name === 'timestamp_tokens')).toBeUndefined();
+    expect(output.metadata.time_anchor).toBe('self-attested');
+  });
+
+  it('should fail a token moved to another receipt', async () => {
+    const tsa = await LocalTsa.create({ algorithm: 'ECDSA-P256' });
+    const chain = await sealedChain(tsa);
+    const [first, second] = chain.receipts;
+
+    expect(await computeTimestampImprint(first)).not.toBe(await computeTimestampImprint(second));
+    const swapped: Receipt[] = [first, { ...second, tsa_token: first.tsa_token }];
+
+    const output = await verify({ ...chain, receipts: swapped }, [tsa.certificateB64]);
+    expect(output.checks.find((c) => c.name === 'timestamp_tokens')).toEqual({
+      name: 'timestamp_tokens',
+      result: 'FAIL',
+      reason: 'Receipt 2: Timestamp imprint does not match receipt',
+    });
+  });
+});
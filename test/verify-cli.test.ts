@@ -0,0 +1,253 @@
+/**
+ * aga-verify CLI Tests
+ * Per AGA Build Guide Phase 6 (Offline Verifier)
+ *
+ * Generates .agb bundles on disk and runs the verify command against them,
+ * checking the report format and the spec exit codes.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+import { generateKeyPair } from '../packages/core/src/crypto/signature';
+import { createPolicyArtifact } from '../packages/core/src/bundle/policy-artifact';
+import { createGenesisReceipt } from '../packages/core/src/bundle/genesis-receipt';
+import { BundleGenerator, type GeneratedBundle } from '../packages/core/src/bundle/generator';
+import { readBundleArchive } from '../packages/core/src/bundle/reader';
+import { runVerifyCommand } from '../packages/core/src/verifier/command';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+let root: string;
+let bundle: GeneratedBundle;
+
+async function generateBundle(ttlSeconds: number | null = null): Promise<GeneratedBundle> {
+  const { publicKey, privateKey } = await generateKeyPair();
+  const artifact = await createPolicyArtifact({
+    vaultId: '1234-56789-0123',
+    privateKey,
+    publicKey,
+    input: {
+      bytesHash: 'a'.repeat(64),
+      metadataHash: 'b'.repeat(64),
+      name: 'cli-test',
+      measurementCadenceMs: 60000,
+      ttlSeconds,
+      enforcementAction: 'ALERT',
+    },
+  });
+
+  const { receipt, chainHead } = await createGenesisReceipt(
+    {
+      artifactId: artifact.artifact_id,
+      policyHash: artifact.policy_hash,
+      sealedHash: artifact.sealed_hash,
+      vaultId: artifact.vault_id,
+    },
+    privateKey,
+    publicKey
+  );
+
+  return new BundleGenerator().generate({ artifact, receipts: [receipt], chainHead });
+}
+
+async function writeBundle(bytes: Uint8Array, name = 'bundle.agb'): Promise<string> {
+  const file = path.join(root, name);
+  await writeFile(file, bytes);
+  return file;
+}
+
+async function run(...argv: string[]) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await runVerifyCommand(argv, {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  });
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+/** Repack files as a deflated ZIP, the way general-purpose archivers write bundles */
+function deflatedZip(files: Map<string, Uint8Array>): Uint8Array {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Array.from(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(content);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    local.push(header, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.size, 8);
+  eocd.writeUInt16LE(files.size, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, directory, eocd]));
+}
+
+beforeAll(async () => {
+  bundle = await generateBundle();
+});
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'aga-verify-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+// ============================================================================
+// ARCHIVE READER
+// ============================================================================
+
+describe('readBundleArchive', () => {
+  it('should read back every file the generator wrote', async () => {
+    const files = readBundleArchive(new Uint8Array(await bundle.blob.arrayBuffer()));
+    expect(Array.from(files.keys()).sort()).toEqual(Array.from(bundle.files.keys()).sort());
+  });
+
+  it('should reject data that is not a ZIP archive', () => {
+    expect(() => readBundleArchive(new TextEncoder().encode('not a bundle at all, just text'))).toThrow(
+      /Not a ZIP archive/
+    );
+  });
+});
+
+// ============================================================================
+// COMMAND
+// ============================================================================
+
+describe('aga-verify', () => {
+  it('should pass a generated bundle with exit code 0', async () => {
+    const file = await writeBundle(new Uint8Array(await bundle.blob.arrayBuffer()));
+    const { code, stdout } = await run(file);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('VERDICT: PASS');
+  });
+
+  it('should print the JSON verdict with --json', async () => {
+    const file = await writeBundle(new Uint8Array(await bundle.blob.arrayBuffer()));
+    const { code, stdout } = await run('--json', file);
+    const output = JSON.parse(stdout);
+
+    expect(code).toBe(0);
+    expect(output.result).toBe('PASS');
+    expect(output.bundle_id).toBe(bundle.manifest.bundle_id);
+  });
+
+  it('should read deflated archives', async () => {
+    const file = await writeBundle(deflatedZip(bundle.files));
+    expect((await run(file)).code).toBe(0);
+  });
+
+  it('should fail a bundle whose artifact was edited', async () => {
+    const files = new Map(bundle.files);
+    const artifact = JSON.parse(new TextDecoder().decode(files.get('PolicyArtifact.json')));
+    files.set('PolicyArtifact.json', new TextEncoder().encode(JSON.stringify({ ...artifact, vault_id: 'x' })));
+
+    const { code, stdout } = await run('--json', await writeBundle(deflatedZip(files)));
+    const failed = JSON.parse(stdout).checks.filter((c: { result: string }) => c.result === 'FAIL');
+
+    expect(code).toBe(1);
+    expect(failed.map((c: { name: string }) => c.name)).toContain('manifest_checksums');
+  });
+
+  it('should enforce --trusted-key against the issuer key', async () => {
+    const file = await writeBundle(new Uint8Array(await bundle.blob.arrayBuffer()));
+    const issuer = JSON.parse(new TextDecoder().decode(bundle.files.get('PolicyArtifact.json'))).issuer;
+
+    expect((await run('--trusted-key', issuer.key_id, file)).code).toBe(0);
+    expect((await run('--trusted-key', issuer.public_key, file)).code).toBe(0);
+
+    const { code, stdout } = await run('--trusted-key', 'ffffffffffffffff', file);
+    expect(code).toBe(1);
+    expect(stdout).toContain('not in the trusted key set');
+  });
+
+  it('should evaluate the validity window at --at', async () => {
+    const expiring = await generateBundle(3600);
+    const file = await writeBundle(new Uint8Array(await expiring.blob.arrayBuffer()));
+    const later = new Date(Date.now() + 7200 * 1000).toISOString();
+
+    expect((await run(file)).code).toBe(0);
+    expect((await run('--at', later, file)).code).toBe(1);
+  });
+
+  it('should fail on warnings with --strict', async () => {
+    const files = new Map(bundle.files);
+    const manifest = { ...bundle.manifest, min_verifier_version: '9.0.0', files: [] };
+    files.set('manifest.json', new TextEncoder().encode(JSON.stringify(manifest)));
+    const file = await writeBundle(deflatedZip(files));
+
+    expect((await run(file)).code).toBe(2);
+    expect((await run('--strict', file)).code).toBe(1);
+  });
+
+  it('should exit 3 on unreadable input', async () => {
+    expect((await run(path.join(root, 'missing.agb'))).code).toBe(3);
+    expect((await run('--at', 'yesterday', 'bundle.agb')).code).toBe(3);
+
+    const { code, stdout } = await run('--json', await writeBundle(new TextEncoder().encode('{}'.repeat(20))));
+    expect(code).toBe(3);
+    expect(JSON.parse(stdout).result).toBe('ERROR');
+  });
+});
+
+// ============================================================================
+// BUILT BINARY
+// ============================================================================
+
+describe('aga-verify binary', () => {
+  const coreDir = path.resolve(__dirname, '../packages/core');
+  const cli = path.join(coreDir, 'dist/verifier/cli.js');
+
+  beforeAll(() => {
+    execFileSync('npm', ['run', 'build', '--silent'], { cwd: coreDir, stdio: 'ignore' });
+  }, 60000);
+
+  const exec = (...argv: string[]) => spawnSync(cli, argv, { encoding: 'utf-8' });
+
+  it('should run as an executable and exit with the verdict code', async () => {
+    const valid = exec(await writeBundle(new Uint8Array(await bundle.blob.arrayBuffer())));
+    expect(valid.status).toBe(0);
+    expect(valid.stdout).toContain('VERDICT: PASS');
+
+    const files = new Map(bundle.files);
+    const artifact = JSON.parse(new TextDecoder().decode(files.get('PolicyArtifact.json')));
+    files.set('PolicyArtifact.json', new TextEncoder().encode(JSON.stringify({ ...artifact, vault_id: 'x' })));
+    expect(exec(await writeBundle(deflatedZip(files), 'edited.agb')).status).toBe(1);
+
+    expect(exec(path.join(root, 'missing.agb')).status).toBe(3);
+    expect(exec('--help').status).toBe(0);
+  });
+});